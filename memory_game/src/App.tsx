@@ -1,6 +1,7 @@
 import React, { useState, useEffect, Suspense } from 'react';
 import Header from './shared/components/Header';
 import Footer from './shared/components/Footer';
+import AchievementToasts from './shared/components/AchievementToasts';
 
 // Lazy load pages
 const HomePage = React.lazy(() => import('./pages/HomePage'));
@@ -9,6 +10,9 @@ const LeaderboardPage = React.lazy(() => import('./pages/LeaderboardPage'));
 const MultiplayerPage = React.lazy(() => import('./pages/MultiplayerPage'));
 const SettingsPage = React.lazy(() => import('./pages/SettingsPage'));
 const DailyChallengePage = React.lazy(() => import('./pages/DailyChallengePage'));
+const DailyArchivePage = React.lazy(() => import('./pages/DailyArchivePage'));
+const ReplayPage = React.lazy(() => import('./pages/ReplayPage'));
+const ThemeBuilderPage = React.lazy(() => import('./pages/ThemeBuilderPage'));
 
 // Simple spinner component for Suspense fallback
 const Spinner = () => (
@@ -52,6 +56,12 @@ const App: React.FC = () => {
         return <SettingsPage />;
       case '/daily':
         return <DailyChallengePage />;
+      case '/daily/archive':
+        return <DailyArchivePage />;
+      case '/replay':
+        return <ReplayPage />;
+      case '/themes':
+        return <ThemeBuilderPage />;
       default:
         return <HomePage />;
     }
@@ -68,6 +78,7 @@ const App: React.FC = () => {
       </main>
       
       <Footer />
+      <AchievementToasts />
     </div>
   );
 };
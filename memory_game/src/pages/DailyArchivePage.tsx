@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import Button from '../shared/components/Button';
+import DailyCalendar from '../shared/components/DailyCalendar';
+import { LeaderboardList } from '../shared/components/LeaderboardList';
+import { dailyChallengeService } from '../services/dailyChallengeService';
+import { useGameStore } from '../state/store';
+import { addDays, getDailyStreak, toDateKey } from '../utils/dailyChallenges';
+import { DailyChallenge } from '../types';
+
+export default function DailyArchivePage() {
+  const today = toDateKey();
+  const [selectedDate, setSelectedDate] = useState(addDays(today, -1));
+  const [challenge, setChallenge] = useState<DailyChallenge | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { playerStats, startChallenge } = useGameStore();
+  const history = playerStats.dailyHistory ?? {};
+  const completion = history[selectedDate];
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    dailyChallengeService.getChallenge(selectedDate)
+      .then(result => {
+        if (!cancelled) setChallenge(result);
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setChallenge(null);
+          setError(err instanceof Error ? err.message : 'Failed to load challenge');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDate]);
+
+  const handleSelect = (date: string) => {
+    if (date > today) return;
+    setSelectedDate(date);
+  };
+
+  const handlePractice = async () => {
+    if (!challenge) return;
+
+    // Today's challenge is played from the daily page so it gets ranked
+    if (challenge.date === today) {
+      window.location.hash = '#/daily';
+      return;
+    }
+
+    try {
+      const deck = await dailyChallengeService.getChallengeDeck(
+        parseInt(challenge.seed),
+        challenge.difficulty,
+        challenge.theme
+      );
+      startChallenge?.({
+        seed: challenge.seed,
+        difficulty: challenge.difficulty,
+        theme: challenge.theme,
+        deck,
+        date: challenge.date,
+        practice: true
+      });
+      window.location.hash = '#/game';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start practice');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Challenge Archive
+          </h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            Replay any past day for practice. Only the current day counts for the leaderboard and your streak.
+          </p>
+        </div>
+
+        {/* Streaks and calendar */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8">
+          <div className="grid grid-cols-3 gap-4 mb-6 text-center">
+            <div>
+              <div className="text-2xl font-bold text-green-600 dark:text-green-400">{getDailyStreak(history, today)}</div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Current streak</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">{playerStats.longestDailyStreak ?? 0}</div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Longest streak</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">{playerStats.dailyChallengesCompleted}</div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Days completed</div>
+            </div>
+          </div>
+
+          <div className="flex justify-center overflow-x-auto">
+            <DailyCalendar
+              history={history}
+              endDate={today}
+              weeks={16}
+              selectedDate={selectedDate}
+              onSelect={handleSelect}
+            />
+          </div>
+        </div>
+
+        {/* Selected day */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          {loading && (
+            <p className="text-center text-gray-600 dark:text-gray-300">Loading challenge...</p>
+          )}
+
+          {!loading && error && (
+            <p className="text-center text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          {!loading && challenge && (
+            <>
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+                    {new Date(challenge.date).toLocaleDateString(undefined, { timeZone: 'UTC', weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+                  </h2>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    <span className="px-3 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 rounded-full capitalize">
+                      {challenge.difficulty}
+                    </span>
+                    <span className="px-3 py-1 bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300 rounded-full capitalize">
+                      Theme: {challenge.theme}
+                    </span>
+                    {completion && (
+                      <span className="px-3 py-1 bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 rounded-full">
+                        ✓ Best {completion.bestScore} in {completion.bestTime}s
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  onClick={handlePractice}
+                  className="mt-4 md:mt-0 bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium"
+                >
+                  {challenge.date === today ? "Play Today's Challenge" : 'Practice'}
+                </Button>
+              </div>
+
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                Leaderboard
+              </h3>
+              <LeaderboardList entries={challenge.leaderboard ?? []} />
+            </>
+          )}
+        </div>
+
+        <div className="text-center mt-8">
+          <Button
+            onClick={() => window.location.hash = '#/daily'}
+            className="text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white"
+          >
+            ← Back to Today's Challenge
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
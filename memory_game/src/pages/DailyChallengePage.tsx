@@ -2,22 +2,48 @@ import { useEffect, useState } from 'react';
 import Button from '../shared/components/Button';
 import Grid from '../shared/components/Grid';
 import Card from '../shared/components/Card';
+import DailyCalendar from '../shared/components/DailyCalendar';
+import { LeaderboardList } from '../shared/components/LeaderboardList';
 import { dailyChallengeService } from '../services/dailyChallengeService';
+import { themesService } from '../services/themesService';
 import { useGameStore } from '../state/store';
-import { DailyChallenge } from '../types';
+import { getDailyStreak, toDateKey } from '../utils/dailyChallenges';
+import { DailyChallenge, Theme } from '../types';
 
 export default function DailyChallengePage() {
   const [challenge, setChallenge] = useState<DailyChallenge | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [previewDeck, setPreviewDeck] = useState<any[]>([]);
+  const [themes, setThemes] = useState<Theme[]>([]);
+  // Plays today's board with the player's own cards; empty keeps the challenge theme
+  const [themeOverride, setThemeOverride] = useState('');
   
-  const { startChallenge, challengeProgress } = useGameStore();
+  const { startChallenge, challengeProgress, playerStats } = useGameStore();
+  const history = playerStats.dailyHistory ?? {};
 
   useEffect(() => {
     loadDailyChallenge();
+    themesService.getSelectableThemes().then(setThemes).catch(() => setThemes([]));
   }, []);
 
+  const handleThemeChange = async (themeId: string) => {
+    setThemeOverride(themeId);
+    if (!challenge) return;
+
+    try {
+      const deck = await dailyChallengeService.getChallengeDeck(
+        parseInt(challenge.seed),
+        challenge.difficulty,
+        themeId || challenge.theme
+      );
+      setPreviewDeck(deck.slice(0, 8));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'This theme cannot be used for the challenge');
+    }
+  };
+
   const loadDailyChallenge = async () => {
     try {
       setLoading(true);
@@ -30,7 +56,8 @@ export default function DailyChallengePage() {
       if (todayChallenge) {
         const deck = await dailyChallengeService.getChallengeDeck(
           parseInt(todayChallenge.seed),
-          todayChallenge.difficulty
+          todayChallenge.difficulty,
+          todayChallenge.theme
         );
         setPreviewDeck(deck.slice(0, 8)); // Show first 8 cards as preview
       }
@@ -47,14 +74,16 @@ export default function DailyChallengePage() {
     try {
       const challengeDeck = await dailyChallengeService.getChallengeDeck(
         parseInt(challenge.seed),
-        challenge.difficulty
+        challenge.difficulty,
+        themeOverride || challenge.theme
       );
       
       startChallenge?.({
         seed: challenge.seed,
         difficulty: challenge.difficulty,
-        theme: challenge.theme,
-        deck: challengeDeck
+        theme: themeOverride || challenge.theme,
+        deck: challengeDeck,
+        date: challenge.date
       });
 
       // Navigate to game page (simple hash navigation)
@@ -113,8 +142,8 @@ export default function DailyChallengePage() {
   }
 
   const gridSize = challenge.difficulty === 'easy' ? 4 : challenge.difficulty === 'medium' ? 6 : 8;
-  const isCompleted = challengeProgress?.completed;
-  const inProgress = challengeProgress?.inProgress;
+  const isCompleted = !!history[challenge.date];
+  const inProgress = challengeProgress?.inProgress && challengeProgress?.date === challenge.date;
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 px-4 py-8">
@@ -134,7 +163,7 @@ export default function DailyChallengePage() {
           <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
             <div>
               <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
-                Today's Challenge #{challenge.seed}
+                Today's Challenge · {challenge.date}
               </h2>
               <div className="flex flex-wrap gap-4 text-sm">
                 <span className="px-3 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 rounded-full">
@@ -179,6 +208,21 @@ export default function DailyChallengePage() {
             </div>
           </div>
 
+          {/* Card theme */}
+          <label className="flex items-center gap-3 mb-6 text-sm text-gray-700 dark:text-gray-300">
+            Card theme
+            <select
+              value={themeOverride}
+              onChange={(e) => handleThemeChange(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              <option value="">Today's theme ({challenge.theme})</option>
+              {themes.map(theme => (
+                <option key={theme.id} value={theme.id}>{theme.name}</option>
+              ))}
+            </select>
+          </label>
+
           {/* Challenge Description */}
           <div className="mb-6">
             <p className="text-gray-600 dark:text-gray-300">
@@ -231,6 +275,36 @@ export default function DailyChallengePage() {
           </div>
         </div>
 
+        {/* Today's leaderboard */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mt-8">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            Today's Leaderboard
+          </h3>
+          <LeaderboardList entries={challenge.leaderboard ?? []} />
+        </div>
+
+        {/* Streak calendar */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mt-8">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              🔥 {getDailyStreak(history)} day streak
+            </h3>
+            <Button
+              onClick={() => window.location.hash = '#/daily/archive'}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Play past challenges →
+            </Button>
+          </div>
+          <div className="flex justify-center overflow-x-auto">
+            <DailyCalendar
+              history={history}
+              endDate={toDateKey()}
+              onSelect={() => window.location.hash = '#/daily/archive'}
+            />
+          </div>
+        </div>
+
         {/* Navigation */}
         <div className="text-center mt-8">
           <Button
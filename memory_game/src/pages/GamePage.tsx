@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useGameStore } from '../state/store';
 import Grid from '../shared/components/Grid';
 import Card from '../shared/components/Card';
@@ -6,7 +6,11 @@ import Timer from '../shared/components/Timer';
 import MoveCounter from '../shared/components/MoveCounter';
 import SoundToggle from '../shared/components/SoundToggle';
 import Confetti from '../shared/components/Confetti';
+import GameResults from '../shared/components/GameResults';
 import leaderboardService from '../services/leaderboardService';
+import { themesService } from '../services/themesService';
+import { isCustomThemeId } from '../utils/customThemes';
+import { getGameVariant, getLivesRemaining, getTimeRemaining } from '../utils/gameVariants';
 import type { Card as CardType } from '../types';
 
 export default function GamePage() {
@@ -14,54 +18,73 @@ export default function GamePage() {
     cardDeck,
     flippedCards,
     matchedCards,
-    moves,
-    timer,
     victory,
     gameStarted,
     currentTheme,
     difficulty,
     playerName,
     gridSize,
+    currentVariant,
+    misses,
+    timeElapsed,
+    isPaused,
+    recordings,
+    lastGameScore,
+    lastGameResult,
     startGame,
     flipCard,
     startTimer,
     stopTimer,
-    resetGame
+    resetGame,
+    pauseGame,
+    resumeGame
   } = useGameStore();
 
+  const variant = getGameVariant(currentVariant);
+  const timeRemaining = getTimeRemaining(variant, difficulty || 'medium', timeElapsed);
+  const livesRemaining = getLivesRemaining(variant, difficulty || 'medium', misses);
+  const columns = gridSize || 4;
+
   // Start timer when game begins
   useEffect(() => {
-    if (gameStarted && !victory) {
+    if (gameStarted && !victory && !isPaused) {
       startTimer();
     } else {
       stopTimer();
     }
-  }, [gameStarted, victory, startTimer, stopTimer]);
+  }, [gameStarted, victory, isPaused, startTimer, stopTimer]);
 
-  // Handle victory state
+  // Submit the finished game with its recording so the server can verify it
+  const submittedRecordingRef = useRef<string | null>(null);
   useEffect(() => {
-    if (victory && gameStarted) {
-      const submitScore = async () => {
-        try {
-          await leaderboardService.submitScore({
-            playerName: playerName || 'Anonymous',
-            score: timer || 0,
-            difficulty: difficulty as any,
-            timeElapsed: timer || 0,
-            moves
-          });
-        } catch (error) {
-          console.error('Failed to submit score:', error);
-        }
-      };
-      
-      submitScore();
-      stopTimer();
-    }
-  }, [victory, gameStarted, playerName, moves, timer, difficulty, stopTimer]);
+    // The global leaderboard ranks classic games only; variants keep local best scores
+    const recording = recordings.find(r => r.id === lastGameScore?.recordingId);
+    if (!victory || !recording || !recording.completed || getGameVariant(recording.variant).id !== 'classic') return;
+    if (submittedRecordingRef.current === recording.id) return;
+    submittedRecordingRef.current = recording.id;
+
+    // The server can't load a player-made theme, so its cards go along to rebuild the deck
+    const themeCards = isCustomThemeId(recording.theme)
+      ? themesService.getTheme(recording.theme).then(theme => theme.cards)
+      : Promise.resolve(undefined);
+
+    themeCards.then(cards => leaderboardService.submitScore({
+      playerName: playerName || 'Anonymous',
+      score: recording.score,
+      difficulty: recording.difficulty,
+      theme: recording.theme,
+      timeElapsed: recording.timeElapsed,
+      moves: recording.moves,
+      seed: recording.seed,
+      flips: recording.flips,
+      themeCards: cards
+    })).catch(error => {
+      console.error('Failed to submit score:', error);
+    });
+  }, [victory, lastGameScore, recordings, playerName]);
 
   const handleCardClick = (cardId: string) => {
-    if (!gameStarted || victory || flippedCards.length >= 2) return;
+    if (!gameStarted || victory || flippedCards.length >= variant.groupSize) return;
     
     const card = cardDeck?.find((c: CardType) => c.id === cardId);
     if (!card || card.isMatched || flippedCards.includes(cardId)) return;
@@ -74,7 +97,7 @@ export default function GamePage() {
     startGame(difficulty || 'medium', currentTheme as string);
   };
 
-  if (!gameStarted) {
+  if (!gameStarted && !lastGameResult) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-purple-600 via-blue-600 to-teal-500 dark:from-purple-900 dark:via-blue-900 dark:to-teal-800 flex items-center justify-center p-4">
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl p-8 text-center">
@@ -82,7 +105,7 @@ export default function GamePage() {
             Memory Game
           </h1>
           <p className="text-gray-600 dark:text-gray-300 mb-8">
-            Click cards to find matching pairs!
+            {variant.name}: {variant.description}
           </p>
           <button
             onClick={handleStartGame}
@@ -103,11 +126,28 @@ export default function GamePage() {
         {/* Header with controls */}
         <div className="flex justify-between items-center mb-6">
           <div className="flex items-center space-x-4">
-            <Timer />
+            <Timer seconds={timeRemaining} />
             <MoveCounter />
+            {livesRemaining !== undefined && (
+              <span
+                className="text-xl"
+                role="status"
+                aria-label={`${livesRemaining} lives left`}
+              >
+                {'❤️'.repeat(livesRemaining)}{'🤍'.repeat(Math.max(0, (variant.lives?.[difficulty || 'medium'] ?? 0) - livesRemaining))}
+              </span>
+            )}
           </div>
           <div className="flex items-center space-x-4">
             <SoundToggle />
+            {gameStarted && (
+              <button
+                onClick={isPaused ? resumeGame : pauseGame}
+                className="bg-white dark:bg-gray-800 text-purple-600 dark:text-purple-400 px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+            )}
             <button
               onClick={handleStartGame}
               className="bg-white dark:bg-gray-800 text-purple-600 dark:text-purple-400 px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
@@ -117,35 +157,46 @@ export default function GamePage() {
           </div>
         </div>
 
-        {/* Victory message */}
-        {victory && (
-          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6 text-center">
-            <h2 className="text-3xl font-bold text-green-600 dark:text-green-400 mb-2">
-              🎉 Congratulations! 🎉
-            </h2>
-            <p className="text-gray-600 dark:text-gray-300">
-              You completed the game in {moves} moves and {Math.floor((timer || 0) / 60)}:
-              {((timer || 0) % 60).toString().padStart(2, '0')}!
-            </p>
-          </div>
+        {/* Results */}
+        {lastGameResult && !gameStarted && (
+          <GameResults
+            result={lastGameResult}
+            onPlayAgain={handleStartGame}
+            onWatchReplay={() => { window.location.hash = '#/replay'; }}
+            className="mb-6"
+          />
         )}
 
-        {/* Game grid */}
-        <div className="flex justify-center">
-          <Grid rows={gridSize || 4} cols={gridSize || 4}>
-            {(cardDeck || []).map((card: CardType) => (
-              <Card
-                key={card.id}
-                id={card.id}
-                content={card.content}
-                isFlipped={flippedCards.includes(card.id) || matchedCards.includes(card.id)}
-                isMatched={matchedCards.includes(card.id)}
-                onFlip={handleCardClick}
-                disabled={victory || flippedCards.length >= 2}
-              />
-            ))}
-          </Grid>
-        </div>
+        {/* Game grid, hidden while paused so the board can't be studied */}
+        {isPaused ? (
+          <div className="flex justify-center">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-12 text-center">
+              <h2 className="text-2xl font-bold text-gray-800 dark:text-white mb-4">Paused</h2>
+              <button
+                onClick={resumeGame}
+                className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors duration-200"
+              >
+                Resume
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-center">
+            <Grid rows={Math.ceil((cardDeck?.length || 0) / columns)} cols={columns}>
+              {(cardDeck || []).map((card: CardType) => (
+                <Card
+                  key={card.id}
+                  id={card.id}
+                  content={card.content}
+                  isFlipped={flippedCards.includes(card.id) || matchedCards.includes(card.id)}
+                  isMatched={matchedCards.includes(card.id)}
+                  onFlip={handleCardClick}
+                  disabled={victory || flippedCards.length >= variant.groupSize}
+                />
+              ))}
+            </Grid>
+          </div>
+        )}
 
         {/* Game info */}
         <div className="mt-6 text-center">
@@ -157,7 +208,10 @@ export default function GamePage() {
               Theme: <span className="capitalize">{typeof currentTheme === 'string' ? currentTheme : 'animals'}</span>
             </span>
             <span className="text-white font-medium">
-              Cards: {matchedCards.length}/{Math.floor((cardDeck?.length || 0) / 2)} pairs
+              Mode: {variant.name}
+            </span>
+            <span className="text-white font-medium">
+              Matched: {matchedCards.length / variant.groupSize}/{Math.floor((cardDeck?.length || 0) / variant.groupSize)} {variant.groupSize === 3 ? 'triples' : 'pairs'}
             </span>
           </div>
         </div>
@@ -1,9 +1,16 @@
+import { useState } from 'react';
 import Button from '../shared/components/Button';
 import ThemeSelector from '../shared/components/ThemeSelector';
 import { useGameStore } from '../state/store';
+import { useTheme } from '../providers/ThemeProvider';
+import { GAME_VARIANTS, getGameVariant } from '../utils/gameVariants';
+import type { GameDifficulty, GameVariantId } from '../types';
 
 export default function HomePage() {
-  const { startGame } = useGameStore();
+  const { startGame, currentVariant, playerStats, savedGame, restoreSavedGame, discardSavedGame } = useGameStore();
+  const { currentTheme } = useTheme();
+  const [variant, setVariant] = useState<GameVariantId>(currentVariant);
+  const variantBests = playerStats.variantBestScores?.[variant];
 
   const handleStartGame = (difficulty: '4x4' | '6x6' | '8x8') => {
     const difficultyMap = {
@@ -12,7 +19,7 @@ export default function HomePage() {
       '8x8': 'hard' as const
     };
     
-    startGame(difficultyMap[difficulty], 'animals');
+    startGame(difficultyMap[difficulty], currentTheme.id, variant);
     window.location.hash = '#/game';
   };
 
@@ -20,6 +27,11 @@ export default function HomePage() {
     window.location.hash = route;
   };
 
+  const handleResume = () => {
+    restoreSavedGame();
+    window.location.hash = '#/game';
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
       <div className="container mx-auto px-4 py-8">
@@ -33,6 +45,36 @@ export default function HomePage() {
         </div>
 
         <div className="max-w-4xl mx-auto">
+          {/* Unfinished game from a previous visit */}
+          {savedGame && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8 flex flex-col md:flex-row items-center justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                  Resume your game?
+                </h2>
+                <p className="text-gray-600 dark:text-gray-400 capitalize">
+                  {getGameVariant(savedGame.variant).name} · {savedGame.difficulty} · {savedGame.theme} · {savedGame.moves} moves · {Math.floor(savedGame.timeElapsed / 60)}:{(savedGame.timeElapsed % 60).toString().padStart(2, '0')}
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <Button
+                  onClick={handleResume}
+                  className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg font-medium transition-colors duration-200"
+                  ariaLabel="Resume saved game"
+                >
+                  Resume
+                </Button>
+                <Button
+                  onClick={discardSavedGame}
+                  className="bg-gray-500 hover:bg-gray-600 text-white px-6 py-3 rounded-lg font-medium transition-colors duration-200"
+                  ariaLabel="Discard saved game"
+                >
+                  Discard
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Theme Selector */}
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8">
             <h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-4 text-center">
@@ -41,6 +83,40 @@ export default function HomePage() {
             <ThemeSelector />
           </div>
 
+          {/* Variant Selection */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8">
+            <h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-4 text-center">
+              Choose Your Mode
+            </h2>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4" role="radiogroup" aria-label="Game mode">
+              {Object.values(GAME_VARIANTS).map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setVariant(option.id)}
+                  role="radio"
+                  aria-checked={variant === option.id}
+                  className={`p-4 rounded-lg border-2 text-left transition-colors duration-200 ${
+                    variant === option.id
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                      : 'border-gray-200 dark:border-gray-700 hover:border-blue-300'
+                  }`}
+                >
+                  <div className="font-semibold text-gray-900 dark:text-white">{option.name}</div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">{option.description}</div>
+                </button>
+              ))}
+            </div>
+            {variantBests && (
+              <p className="mt-4 text-sm text-center text-gray-600 dark:text-gray-400">
+                Best scores:{' '}
+                {(['easy', 'medium', 'hard', 'expert'] as GameDifficulty[])
+                  .filter(difficulty => variantBests[difficulty] !== null)
+                  .map(difficulty => `${difficulty} ${variantBests[difficulty]}`)
+                  .join(' · ')}
+              </p>
+            )}
+          </div>
+
           {/* Difficulty Selection */}
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 mb-8">
             <h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-6 text-center">
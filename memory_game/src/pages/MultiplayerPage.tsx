@@ -1,13 +1,17 @@
 import { useState, useEffect } from 'react';
 import { useGameStore } from '../state/store';
 import { multiplayerService } from '../services/multiplayerService';
+import { themesService } from '../services/themesService';
 import { useWebSocket } from '../providers/WebSocketProvider';
 import Grid from '../shared/components/Grid';
 import Button from '../shared/components/Button';
 import MemoryCard from '../shared/components/Card';
 import Timer from '../shared/components/Timer';
 import MoveCounter from '../shared/components/MoveCounter';
-import { Player } from '../types';
+import { Card, GameDifficulty, GameMove, Player, Theme } from '../types';
+import { getMoveCount, MAX_PLAYERS } from '../utils/turnEngine';
+import { getGroupCount } from '../utils/replay';
+import { isCustomThemeId } from '../utils/customThemes';
 
 export default function MultiplayerPage() {
   const [sessionCode, setSessionCode] = useState('');
@@ -15,6 +19,11 @@ export default function MultiplayerPage() {
   const [isCreating, setIsCreating] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedCards, setSelectedCards] = useState<string[]>([]);
+  const [guestName, setGuestName] = useState('');
+  const [themes, setThemes] = useState<Theme[]>([]);
+  const [themeId, setThemeId] = useState('animals');
+  const [difficulty, setDifficulty] = useState<GameDifficulty>('medium');
 
   const {
     multiplayerSession,
@@ -22,20 +31,22 @@ export default function MultiplayerPage() {
     isGameActive,
     timer,
     moveCount,
+    settings,
     setMultiplayerSession,
     resetGame
   } = useGameStore();
 
-  const { isConnected } = useWebSocket();
+  const webSocket = useWebSocket();
+  const { isConnected } = webSocket;
 
+  // Keep the service pointed at the live connection state
   useEffect(() => {
-    // Subscribe to multiplayer events (stub - service doesn't have onSessionUpdate)
-    console.log('Setting up multiplayer subscription');
-    
-    return () => {
-      console.log('Cleaning up multiplayer subscription');
-    };
-  }, [setMultiplayerSession]);
+    multiplayerService.setWebSocketProvider(webSocket);
+  }, [webSocket]);
+
+  useEffect(() => {
+    themesService.getSelectableThemes().then(setThemes).catch(() => setThemes([]));
+  }, []);
 
   const handleCreateSession = async () => {
     if (!playerName.trim()) {
@@ -47,15 +58,22 @@ export default function MultiplayerPage() {
     setError(null);
 
     try {
+      // Other players can't load a custom theme, so its cards are sent with the session
+      let themeCards: string[] | undefined;
+      if (isCustomThemeId(themeId)) {
+        const assets = await themesService.getThemeAssets(themeId, getGroupCount(difficulty));
+        themeCards = assets.map(asset => asset.url);
+      }
+
       const result = await multiplayerService.createSession({
         playerId: 'user-' + Date.now(),
         playerName: playerName.trim(),
         gameMode: 'classic',
-        maxPlayers: 4
+        maxPlayers: 4,
+        settings: { difficulty, theme: themeId },
+        themeCards
       });
-      if (result.success && result.data) {
-        setMultiplayerSession?.(result.data);
-      } else {
+      if (!result.success || !result.data) {
         setError(result.error?.message || 'Failed to create session');
       }
     } catch (err) {
@@ -79,9 +97,8 @@ export default function MultiplayerPage() {
         id: 'user-' + Date.now(),
         name: playerName.trim()
       });
-      if (result.success && result.data) {
-        setMultiplayerSession?.(result.data);
-      } else {
+      // Over the socket the session arrives asynchronously, so success without data is still pending
+      if (!result.success) {
         setError(result.error?.message || 'Failed to join session');
       }
     } catch (err) {
@@ -95,29 +112,46 @@ export default function MultiplayerPage() {
     if (!multiplayerSession) return;
 
     try {
-      // This is a stub - multiplayerService doesn't have startGame method
-      console.log('Starting game for session:', multiplayerSession.id);
+      multiplayerService.startGame(multiplayerSession.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to start game');
     }
   };
 
+  const handleAddLocalPlayer = () => {
+    if (!multiplayerSession || !guestName.trim()) return;
+    multiplayerService.addLocalPlayer(multiplayerSession.roomCode, guestName.trim());
+    setGuestName('');
+  };
+
   const handleLeaveSession = () => {
     if (multiplayerSession) {
-      multiplayerService.leaveSession?.(multiplayerSession.id, 'user-' + Date.now());
+      multiplayerService.disconnect();
       setMultiplayerSession?.(null);
+      setSelectedCards([]);
       resetGame();
     }
   };
 
-  const handleCardClick = (index: number) => {
-    if (!multiplayerSession || !isGameActive) return;
-    
-    const isMyTurn = multiplayerSession.currentTurn === multiplayerSession.players.find((p: Player) => p.isCurrentUser)?.id;
-    if (!isMyTurn) return;
+  const handleCardClick = (cardId: string) => {
+    if (!multiplayerSession || !isGameActive || !isMyTurn()) return;
+    if (selectedCards.length >= 2 || selectedCards.includes(cardId)) return;
 
-    // Send move to multiplayer service (stub)
-    console.log('Making move for session:', multiplayerSession.id, 'index:', index);
+    const nextSelection = [...selectedCards, cardId];
+    setSelectedCards(nextSelection);
+    multiplayerService.sendFlip(multiplayerSession.id, multiplayerSession.currentTurn, cardId);
+    if (nextSelection.length < 2) return;
+
+    // The server decides whether the pair matches; isMatch is only a placeholder here
+    const move: GameMove = {
+      playerId: multiplayerSession.currentTurn,
+      cardIds: nextSelection,
+      isMatch: false,
+      timestamp: Date.now(),
+      moveNumber: getMoveCount(multiplayerSession) + 1
+    };
+    multiplayerService.sendMove(multiplayerSession.id, move);
+    setTimeout(() => setSelectedCards([]), settings.flipDelay ?? 1000);
   };
 
   const getCurrentTurnPlayer = (): Player | undefined => {
@@ -125,12 +159,16 @@ export default function MultiplayerPage() {
     return multiplayerSession.players.find((p: Player) => p.id === multiplayerSession.currentTurn);
   };
 
+  // Several players may share this device, so any local player can hold the turn
   const isMyTurn = (): boolean => {
     if (!multiplayerSession) return false;
-    const currentUser = multiplayerSession.players.find((p: Player) => p.isCurrentUser);
-    return multiplayerSession.currentTurn === currentUser?.id;
+    return multiplayerSession.players.some(
+      (p: Player) => p.isCurrentUser && p.id === multiplayerSession.currentTurn
+    );
   };
 
+  const boardColumns = Math.ceil(Math.sqrt(gameBoard?.length || 16));
+
   // Lobby view - not in a session
   if (!multiplayerSession) {
     return (
@@ -155,6 +193,29 @@ export default function MultiplayerPage() {
                   onChange={(e) => setPlayerName(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                 />
+
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={themeId}
+                    onChange={(e) => setThemeId(e.target.value)}
+                    aria-label="Card theme"
+                    className="px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    {themes.map(theme => (
+                      <option key={theme.id} value={theme.id}>{theme.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={difficulty}
+                    onChange={(e) => setDifficulty(e.target.value as GameDifficulty)}
+                    aria-label="Difficulty"
+                    className="px-3 py-2 border border-gray-300 rounded-md capitalize dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  >
+                    {(['easy', 'medium', 'hard', 'expert'] as GameDifficulty[]).map(level => (
+                      <option key={level} value={level}>{level}</option>
+                    ))}
+                  </select>
+                </div>
                 
                 <Button
                   onClick={handleCreateSession}
@@ -262,7 +323,7 @@ export default function MultiplayerPage() {
                     </div>
                   )}
                   <div className="text-xs mt-1">
-                    Score: {player.score || 0}
+                    Score: {player.score || 0} · Pairs: {player.matchedPairs || 0}
                   </div>
                 </div>
               ))}
@@ -280,6 +341,20 @@ export default function MultiplayerPage() {
                   </Button>
                 )}
               </p>
+              {multiplayerSession.players.length < Math.min(multiplayerSession.maxPlayers, MAX_PLAYERS) && (
+                <div className="flex justify-center gap-2 mt-3">
+                  <input
+                    type="text"
+                    placeholder="Add a player on this device"
+                    value={guestName}
+                    onChange={(e) => setGuestName(e.target.value)}
+                    className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-amber-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  />
+                  <Button onClick={handleAddLocalPlayer} disabled={!guestName.trim()} className="px-3 py-1 text-sm">
+                    Add Player
+                  </Button>
+                </div>
+              )}
             </div>
           )}
 
@@ -305,18 +380,18 @@ export default function MultiplayerPage() {
         {multiplayerSession.gameState === 'playing' && gameBoard && (
           <div className="flex justify-center">
             <Grid 
-              rows={4} 
-              cols={4}
+              rows={Math.ceil(gameBoard.length / boardColumns)} 
+              cols={boardColumns}
             >
-              {gameBoard.map((card: any, index: number) => (
+              {gameBoard.map((card: Card) => (
                 <MemoryCard
-                  key={index}
-                  id={card.id || index.toString()}
+                  key={card.id}
+                  id={card.id}
                   content={card.content || '?'}
-                  isFlipped={card.isFlipped || false}
+                  isFlipped={selectedCards.includes(card.id) || multiplayerSession.revealedCards?.includes(card.id) || card.isMatched || false}
                   isMatched={card.isMatched || false}
-                  onFlip={() => handleCardClick(index)}
-                  disabled={!isMyTurn()}
+                  onFlip={handleCardClick}
+                  disabled={!isMyTurn() || selectedCards.length >= 2}
                 />
               ))}
             </Grid>
@@ -328,8 +403,11 @@ export default function MultiplayerPage() {
             <h2 className="text-2xl font-bold mb-4 text-gray-800 dark:text-white">
               Game Finished!
             </h2>
+            <p className="mb-4 text-gray-600 dark:text-gray-300">
+              {multiplayerSession.winner ? `${multiplayerSession.winner.name} wins!` : "It's a draw!"}
+            </p>
             <div className="space-y-2">
-              {multiplayerSession.players
+              {[...multiplayerSession.players]
                 .sort((a: Player, b: Player) => (b.score || 0) - (a.score || 0))
                 .map((player: Player, index: number) => (
                   <div
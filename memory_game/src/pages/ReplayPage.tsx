@@ -0,0 +1,244 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useGameStore } from '../state/store';
+import { themesService } from '../services/themesService';
+import Grid from '../shared/components/Grid';
+import Card from '../shared/components/Card';
+import Button from '../shared/components/Button';
+import Timer from '../shared/components/Timer';
+import MoveCounter from '../shared/components/MoveCounter';
+import {
+  buildDeck,
+  getDeckLayout,
+  getReplayFrame,
+  getRecordingDuration,
+  serializeRecording,
+  parseRecording
+} from '../utils/replay';
+import { getGameVariant } from '../utils/gameVariants';
+import type { Card as CardType, GameRecording } from '../types';
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+export default function ReplayPage() {
+  const { recordings } = useGameStore();
+  const [importedRecording, setImportedRecording] = useState<GameRecording | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deck, setDeck] = useState<CardType[]>([]);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const recording = importedRecording && importedRecording.id === selectedId
+    ? importedRecording
+    : recordings.find(r => r.id === selectedId) || recordings[0] || null;
+
+  const duration = recording ? getRecordingDuration(recording) : 0;
+
+  // Rebuild the deck from the recording's seed whenever the selection changes
+  useEffect(() => {
+    if (!recording) return;
+
+    let cancelled = false;
+    setIsPlaying(false);
+    setPosition(0);
+
+    themesService.getTheme(recording.theme)
+      .then(theme => {
+        if (!cancelled) {
+          setDeck(buildDeck(theme.cards, recording.difficulty, recording.seed, getGameVariant(recording.variant).groupSize));
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load replay theme');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording]);
+
+  // Advance the playhead while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId: number;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const delta = (now - last) * speed;
+      last = now;
+      setPosition(prev => {
+        const next = Math.min(prev + delta, duration);
+        if (next >= duration) setIsPlaying(false);
+        return next;
+      });
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, speed, duration]);
+
+  const frame = useMemo(
+    () => (recording && deck.length > 0 ? getReplayFrame(recording, deck, position) : null),
+    [recording, deck, position]
+  );
+
+  const handlePlayPause = () => {
+    if (!isPlaying && position >= duration) setPosition(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleExport = () => {
+    if (!recording) return;
+
+    const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `memory-game-replay-${recording.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const imported = parseRecording(await file.text());
+      setImportedRecording(imported);
+      setSelectedId(imported.id);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import replay');
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-6xl mx-auto pt-4">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">Replays</h1>
+          <div className="flex gap-2">
+            <Button onClick={() => fileInputRef.current?.click()} className="text-sm">
+              Import JSON
+            </Button>
+            <Button onClick={handleExport} disabled={!recording} className="text-sm">
+              Export JSON
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+            {error}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-4 gap-6">
+          {/* Recording list */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 md:col-span-1">
+            <h2 className="text-lg font-semibold mb-3 text-gray-800 dark:text-white">Recent games</h2>
+            {recordings.length === 0 && !importedRecording && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Finish a game to record it here.</p>
+            )}
+            <ul className="space-y-2">
+              {[...(importedRecording ? [importedRecording] : []), ...recordings].map(r => (
+                <li key={r.id}>
+                  <button
+                    onClick={() => setSelectedId(r.id)}
+                    className={`w-full text-left p-2 rounded-md text-sm ${
+                      recording?.id === r.id
+                        ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100'
+                        : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    <div className="font-medium capitalize">
+                      {getGameVariant(r.variant).name} · {r.difficulty} · {r.theme}{r === importedRecording ? ' (imported)' : ''}
+                    </div>
+                    <div className="text-xs">
+                      {formatDate(r.startedAt)} · {r.moves} moves · {r.completed ? 'won' : 'unfinished'}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Viewer */}
+          <div className="md:col-span-3">
+            {recording && frame ? (
+              <>
+                <div className="flex flex-wrap items-center gap-4 mb-4">
+                  <Timer seconds={Math.floor(position / 1000)} running={isPlaying} />
+                  <MoveCounter moves={frame.moves} />
+                  <Button onClick={handlePlayPause} className="text-sm" ariaLabel={isPlaying ? 'Pause replay' : 'Play replay'}>
+                    {isPlaying ? 'Pause' : 'Play'}
+                  </Button>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    Speed
+                    <select
+                      value={speed}
+                      onChange={(e) => setSpeed(Number(e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    >
+                      {PLAYBACK_SPEEDS.map(s => (
+                        <option key={s} value={s}>{s}×</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                <input
+                  type="range"
+                  min={0}
+                  max={duration}
+                  step={50}
+                  value={position}
+                  onChange={(e) => setPosition(Number(e.target.value))}
+                  className="w-full mb-4"
+                  aria-label="Scrub replay"
+                />
+
+                <Grid
+                  rows={Math.ceil(frame.deck.length / getDeckLayout(recording.difficulty).gridSize)}
+                  cols={getDeckLayout(recording.difficulty).gridSize}
+                >
+                  {frame.deck.map(card => (
+                    <Card
+                      key={card.id}
+                      id={card.id}
+                      content={card.content}
+                      isFlipped={card.isFlipped || false}
+                      isMatched={card.isMatched || false}
+                      onFlip={() => undefined}
+                      disabled
+                    />
+                  ))}
+                </Grid>
+              </>
+            ) : (
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 text-center text-gray-600 dark:text-gray-300">
+                {recording ? 'Loading replay...' : 'No replay selected'}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,9 +9,10 @@ import Button from '../shared/components/Button';
 
 const SettingsPage: React.FC = () => {
   const { mode, setMode } = useTheme();
-  const { muted, volume, setVolume } = useSoundContext();
+  const { muted, volume, sfxVolume, musicVolume, setVolume, setSfxVolume, setMusicVolume } = useSoundContext();
   
-  const { updateSettings } = useGameStore();
+  const { settings, updateSettings } = useGameStore();
+  const musicEnabled = settings.musicEnabled ?? false;
   
   const [colorblindMode, setColorblindMode] = useLocalStorage<boolean>(
     'memorygame:v1:colorblind-mode',
@@ -39,6 +40,10 @@ const SettingsPage: React.FC = () => {
     updateSettings({ colorblindMode: newMode });
   };
 
+  const handleMusicToggle = () => {
+    updateSettings({ musicEnabled: !musicEnabled });
+  };
+
   const handleHapticFeedbackToggle = () => {
     const newHaptic = !hapticFeedback;
     setHapticFeedback(newHaptic);
@@ -61,7 +66,10 @@ const SettingsPage: React.FC = () => {
     setPersistenceEnabled(true);
     setMode('light');
     setVolume(1.0);
+    setSfxVolume(1.0);
+    setMusicVolume(0.5);
     updateSettings({
+      musicEnabled: true,
       colorblindMode: false,
       hapticFeedback: true,
       persistenceEnabled: true
@@ -162,20 +170,78 @@ const SettingsPage: React.FC = () => {
                   <SoundToggle />
                 </div>
 
-                {!muted && (
+                <div className="flex items-center justify-between">
                   <div>
-                    <label className="text-sm font-medium text-gray-900 dark:text-white mb-2 block">
-                      Volume: {Math.round(volume * 100)}%
+                    <label className="text-sm font-medium text-gray-900 dark:text-white">
+                      Music
                     </label>
-                    <input
-                      type="range"
-                      min="0"
-                      max="1"
-                      step="0.1"
-                      value={volume}
-                      onChange={handleVolumeChange}
-                      className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Play generated background music during games
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-600 focus:ring-offset-2 ${
+                      musicEnabled ? 'bg-blue-600' : 'bg-gray-200 dark:bg-gray-600'
+                    }`}
+                    role="switch"
+                    aria-checked={musicEnabled}
+                    onClick={handleMusicToggle}
+                  >
+                    <span
+                      aria-hidden="true"
+                      className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                        musicEnabled ? 'translate-x-5' : 'translate-x-0'
+                      }`}
                     />
+                  </button>
+                </div>
+
+                {!muted && (
+                  <div className="space-y-4">
+                    <div>
+                      <label className="text-sm font-medium text-gray-900 dark:text-white mb-2 block">
+                        Volume: {Math.round(volume * 100)}%
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.1"
+                        value={volume}
+                        onChange={handleVolumeChange}
+                        className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-900 dark:text-white mb-2 block">
+                        Effects: {Math.round(sfxVolume * 100)}%
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.1"
+                        value={sfxVolume}
+                        onChange={(e) => setSfxVolume(parseFloat(e.target.value))}
+                        className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-900 dark:text-white mb-2 block">
+                        Music: {Math.round(musicVolume * 100)}%
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.1"
+                        value={musicVolume}
+                        onChange={(e) => setMusicVolume(parseFloat(e.target.value))}
+                        disabled={!musicEnabled}
+                        className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider disabled:opacity-50"
+                      />
+                    </div>
                   </div>
                 )}
               </div>
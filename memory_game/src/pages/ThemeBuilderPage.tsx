@@ -0,0 +1,297 @@
+import { useState, useRef } from 'react';
+import { useTheme } from '../providers/ThemeProvider';
+import { customThemesService } from '../services/customThemesService';
+import Button from '../shared/components/Button';
+import { getGroupCount } from '../utils/replay';
+import {
+  createCustomTheme,
+  getSupportedDifficulties,
+  isImageContent,
+  parseCustomTheme,
+  serializeCustomTheme,
+  splitEmoji
+} from '../utils/customThemes';
+import type { GameDifficulty, Theme } from '../types';
+
+const DIFFICULTIES: GameDifficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+export default function ThemeBuilderPage() {
+  const { customThemes, refreshCustomThemes, currentTheme, setTheme, availableThemes } = useTheme();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [cards, setCards] = useState<string[]>([]);
+  const [emojiInput, setEmojiInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const supported = getSupportedDifficulties(cards.length);
+
+  const resetEditor = () => {
+    setEditingId(null);
+    setName('');
+    setCards([]);
+    setEmojiInput('');
+    setError(null);
+  };
+
+  const handleEdit = (theme: Theme) => {
+    setEditingId(theme.id);
+    setName(theme.name);
+    setCards(theme.cards);
+    setError(null);
+  };
+
+  const handleAddEmoji = () => {
+    const added = splitEmoji(emojiInput).filter(emoji => !cards.includes(emoji));
+    setCards([...cards, ...added]);
+    setEmojiInput('');
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    const results = await Promise.allSettled(files.map(file => customThemesService.readImage(file)));
+    const images = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const failures = results.flatMap(result => (result.status === 'rejected' ? [result.reason.message] : []));
+
+    setCards(previous => [...previous, ...images.filter(image => !previous.includes(image))]);
+    setError(failures.length > 0 ? failures.join('; ') : null);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Give your theme a name');
+      return;
+    }
+    if (supported.length === 0) {
+      setError(`Add at least ${getGroupCount('easy')} cards to play on easy`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const theme = createCustomTheme(name.trim(), cards, editingId ?? undefined);
+      await customThemesService.saveTheme(theme);
+      await refreshCustomThemes();
+      setEditingId(theme.id);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save theme');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (theme: Theme) => {
+    try {
+      await customThemesService.deleteTheme(theme.id);
+      if (currentTheme.id === theme.id) {
+        setTheme(availableThemes[0]);
+      }
+      if (editingId === theme.id) {
+        resetEditor();
+      }
+      await refreshCustomThemes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete theme');
+    }
+  };
+
+  const handleExport = (theme: Theme) => {
+    const blob = new Blob([serializeCustomTheme(theme)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `memory-game-theme-${theme.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const theme = parseCustomTheme(await file.text());
+      await customThemesService.saveTheme(theme);
+      await refreshCustomThemes();
+      handleEdit(theme);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import theme');
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-6xl mx-auto pt-4">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">Theme Builder</h1>
+          <div className="flex gap-2">
+            <Button onClick={resetEditor} className="text-sm">
+              New Theme
+            </Button>
+            <Button onClick={() => importInputRef.current?.click()} className="text-sm">
+              Import JSON
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md dark:bg-red-900 dark:border-red-700 dark:text-red-100">
+            {error}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-4 gap-6">
+          {/* Saved themes */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-4 md:col-span-1">
+            <h2 className="text-lg font-semibold mb-3 text-gray-800 dark:text-white">Your themes</h2>
+            {customThemes.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Themes you save appear here.</p>
+            )}
+            <ul className="space-y-2">
+              {customThemes.map(theme => (
+                <li
+                  key={theme.id}
+                  className={`p-2 rounded-md text-sm ${
+                    editingId === theme.id
+                      ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100'
+                      : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  <button onClick={() => handleEdit(theme)} className="w-full text-left">
+                    <div className="font-medium">{theme.name}</div>
+                    <div className="text-xs">
+                      {theme.cards.length} cards{currentTheme.id === theme.id ? ' · in use' : ''}
+                    </div>
+                  </button>
+                  <div className="flex gap-3 mt-1 text-xs">
+                    <button onClick={() => setTheme(theme)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                      Use
+                    </button>
+                    <button onClick={() => handleExport(theme)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                      Export
+                    </button>
+                    <button onClick={() => handleDelete(theme)} className="text-red-600 dark:text-red-400 hover:underline">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Editor */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 md:col-span-3 space-y-6">
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Theme name</span>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="My theme"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+            </label>
+
+            <div className="flex flex-col md:flex-row gap-4">
+              <label className="flex-1">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Paste emoji</span>
+                <div className="mt-1 flex gap-2">
+                  <input
+                    type="text"
+                    value={emojiInput}
+                    onChange={(e) => setEmojiInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddEmoji()}
+                    placeholder="🍎 🍌 🍇"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  />
+                  <Button onClick={handleAddEmoji} disabled={!emojiInput.trim()} className="text-sm">
+                    Add
+                  </Button>
+                </div>
+              </label>
+              <div>
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Upload images</span>
+                <div className="mt-1">
+                  <Button onClick={() => imageInputRef.current?.click()} className="text-sm">
+                    Choose images
+                  </Button>
+                  <input
+                    ref={imageInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={handleUpload}
+                    className="hidden"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Pair counts each difficulty needs */}
+            <div className="flex flex-wrap gap-2" aria-label="Difficulties this theme supports">
+              {DIFFICULTIES.map(difficulty => (
+                <span
+                  key={difficulty}
+                  className={`px-3 py-1 rounded-full text-sm capitalize ${
+                    supported.includes(difficulty)
+                      ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                      : 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400'
+                  }`}
+                >
+                  {supported.includes(difficulty) ? '✓' : '✗'} {difficulty} ({getGroupCount(difficulty)} cards)
+                </span>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 gap-2">
+              {cards.map((card, index) => (
+                <div
+                  key={`${index}-${card.slice(0, 32)}`}
+                  className="relative aspect-square flex items-center justify-center text-3xl bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600"
+                >
+                  {isImageContent(card) ? (
+                    <img src={card} alt="" className="w-full h-full object-cover rounded-lg" />
+                  ) : (
+                    card
+                  )}
+                  <button
+                    onClick={() => setCards(cards.filter((_, i) => i !== index))}
+                    className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-red-500 text-white text-xs leading-5"
+                    aria-label="Remove card"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+            {cards.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Add at least {getGroupCount('easy')} emoji or images to make a playable theme.
+              </p>
+            )}
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Save Theme'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -36,7 +36,8 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     timeElapsed,
     currentDifficulty,
     isGameActive,
-    isGameComplete
+    isGameComplete,
+    lastGameResult
   } = store;
 
   // Game pause/resume functionality (not in store, implementing locally)
@@ -83,7 +84,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       isCompleted: isGameComplete,
       difficulty: currentDifficulty,
       mode: 'single' as GameMode, // Default mode since store doesn't track this
-      score: timeElapsed, // Using timeElapsed as score
+      score: lastGameResult?.score ?? 0,
       moves,
       timeElapsed
     }
@@ -1,18 +1,33 @@
-import React, { createContext, useContext, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useCallback, useEffect, useRef, ReactNode } from 'react';
 import { useLocalStorage } from '../shared/hooks/useLocalStorage';
+import { useGameStore } from '../state/store';
+import { SoundCue, CueOptions, SoundEngine } from '../utils/soundEngine';
+import { getGameVariant, getTimeRemaining } from '../utils/gameVariants';
 
 interface SoundSettings {
   muted: boolean;
   volume: number;
+  sfxVolume: number;
+  musicVolume: number;
 }
 
+// Settings saved before separate effect and music volumes existed lack those fields
+const DEFAULT_SOUND_SETTINGS: SoundSettings = { muted: false, volume: 0.7, sfxVolume: 1, musicVolume: 0.5 };
+
+/** Seconds left on a timed game's clock from which each second ticks */
+const COUNTDOWN_TICK_SECONDS = 10;
+
 interface SoundContextType {
   muted: boolean;
   volume: number;
+  sfxVolume: number;
+  musicVolume: number;
   setMuted: (muted: boolean) => void;
   setVolume: (volume: number) => void;
+  setSfxVolume: (volume: number) => void;
+  setMusicVolume: (volume: number) => void;
   toggleSound: () => void;
-  playSound: (identifier: string) => void;
+  playSound: (cue: SoundCue, options?: CueOptions) => void;
 }
 
 const SoundContext = createContext<SoundContextType | undefined>(undefined);
@@ -21,44 +36,124 @@ interface SoundProviderProps {
   children: ReactNode;
 }
 
+const clampVolume = (volume: number) => Math.max(0, Math.min(1, volume));
 
 export const SoundProvider: React.FC<SoundProviderProps> = ({ children }) => {
-  const [soundSettings, setSoundSettings] = useLocalStorage<SoundSettings>(
+  const [storedSettings, setSoundSettings] = useLocalStorage<SoundSettings>(
     'memorygame:v1:sound',
-    { muted: false, volume: 0.7 }
+    DEFAULT_SOUND_SETTINGS
   );
+  const soundSettings = { ...DEFAULT_SOUND_SETTINGS, ...storedSettings };
+
+  const engineRef = useRef<SoundEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new SoundEngine();
+  }
+
+  const musicEnabled = useGameStore(state => state.settings.musicEnabled ?? false);
+  const isPlaying = useGameStore(state => state.isGameActive && !state.isGameComplete && !state.isPaused);
+
+  useEffect(() => {
+    engineRef.current?.setLevels({
+      master: soundSettings.muted ? 0 : soundSettings.volume,
+      sfx: soundSettings.sfxVolume,
+      music: soundSettings.musicVolume
+    });
+  }, [soundSettings.muted, soundSettings.volume, soundSettings.sfxVolume, soundSettings.musicVolume]);
+
+  // Background music loops while a game is being played
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    if (musicEnabled && isPlaying && !soundSettings.muted) {
+      engine.startMusic();
+    } else {
+      engine.stopMusic();
+    }
+  }, [musicEnabled, isPlaying, soundSettings.muted]);
+
+  useEffect(() => () => engineRef.current?.dispose(), []);
 
   const setMuted = useCallback((muted: boolean) => {
-    setSoundSettings(prev => ({ ...prev, muted }));
+    setSoundSettings(prev => ({ ...DEFAULT_SOUND_SETTINGS, ...prev, muted }));
   }, [setSoundSettings]);
 
   const setVolume = useCallback((volume: number) => {
-    setSoundSettings(prev => ({ ...prev, volume: Math.max(0, Math.min(1, volume)) }));
+    setSoundSettings(prev => ({ ...DEFAULT_SOUND_SETTINGS, ...prev, volume: clampVolume(volume) }));
   }, [setSoundSettings]);
 
-  const playSound = useCallback((identifier: string) => {
+  const setSfxVolume = useCallback((sfxVolume: number) => {
+    setSoundSettings(prev => ({ ...DEFAULT_SOUND_SETTINGS, ...prev, sfxVolume: clampVolume(sfxVolume) }));
+  }, [setSoundSettings]);
+
+  const setMusicVolume = useCallback((musicVolume: number) => {
+    setSoundSettings(prev => ({ ...DEFAULT_SOUND_SETTINGS, ...prev, musicVolume: clampVolume(musicVolume) }));
+  }, [setSoundSettings]);
+
+  const playSound = useCallback((cue: SoundCue, options?: CueOptions) => {
     if (soundSettings.muted) return;
-    
-    try {
-      const audio = new Audio(identifier);
-      audio.volume = Math.max(0, Math.min(1, soundSettings.volume));
-      audio.play().catch(error => {
-        console.warn('Failed to play sound:', identifier, error);
-      });
-    } catch (error) {
-      console.warn('Failed to play sound:', identifier, error);
-    }
-  }, [soundSettings.muted, soundSettings.volume]);
+    engineRef.current?.play(cue, options);
+  }, [soundSettings.muted]);
 
   const toggleSound = useCallback(() => {
-    setSoundSettings(prev => ({ ...prev, muted: !prev.muted }));
+    setSoundSettings(prev => ({ ...DEFAULT_SOUND_SETTINGS, ...prev, muted: !prev.muted }));
   }, [setSoundSettings]);
 
+  // Game events are read from the store so every mode gets the same cues
+  const playSoundRef = useRef(playSound);
+  playSoundRef.current = playSound;
+
+  useEffect(() => {
+    return useGameStore.subscribe(
+      state => ({
+        moves: state.moves,
+        matches: state.matchTracker.matchTimes.length,
+        streak: state.matchTracker.streak,
+        misses: state.misses,
+        won: state.isGameComplete && !!state.lastGameResult?.won,
+        timeRemaining: state.isGameActive && !state.isGameComplete
+          ? getTimeRemaining(getGameVariant(state.currentVariant), state.currentDifficulty, state.timeElapsed)
+          : undefined
+      }),
+      (next, prev) => {
+        const play = playSoundRef.current;
+
+        // Restoring a saved game jumps several counters at once, so only single steps make a sound
+        if (next.moves === prev.moves + 1) {
+          play('flip');
+        }
+        if (next.moves === prev.moves && next.matches === prev.matches + 1) {
+          play('match', { combo: next.streak });
+        }
+        if (next.moves === prev.moves && next.misses === prev.misses + 1) {
+          play('miss');
+        }
+        if (next.won && !prev.won) {
+          play('victory');
+        }
+        if (
+          next.timeRemaining !== undefined &&
+          next.timeRemaining !== prev.timeRemaining &&
+          next.timeRemaining > 0 &&
+          next.timeRemaining <= COUNTDOWN_TICK_SECONDS
+        ) {
+          play('tick', { remaining: next.timeRemaining });
+        }
+      },
+      { equalityFn: (a, b) => JSON.stringify(a) === JSON.stringify(b) }
+    );
+  }, []);
+
   const value: SoundContextType = {
     muted: soundSettings.muted,
     volume: soundSettings.volume,
+    sfxVolume: soundSettings.sfxVolume,
+    musicVolume: soundSettings.musicVolume,
     setMuted,
     setVolume,
+    setSfxVolume,
+    setMusicVolume,
     toggleSound,
     playSound,
   };
@@ -76,4 +171,4 @@ export const useSoundContext = (): SoundContextType => {
     throw new Error('useSoundContext must be used within a SoundProvider');
   }
   return context;
-};
\ No newline at end of file
+};
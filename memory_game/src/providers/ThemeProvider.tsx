@@ -1,6 +1,8 @@
-import React, { createContext, useContext, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { useLocalStorage } from '../shared/hooks/useLocalStorage';
+import { customThemesService } from '../services/customThemesService';
 import { Theme } from '../types';
+import { isCustomThemeId } from '../utils/customThemes';
 
 type UIMode = 'light' | 'dark';
 
@@ -14,6 +16,8 @@ interface ThemeContextType {
   currentTheme: GameTheme;
   setTheme: (theme: GameTheme) => void;
   availableThemes: GameTheme[];
+  customThemes: GameTheme[];
+  refreshCustomThemes: () => Promise<void>;
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
@@ -65,14 +69,32 @@ interface ThemeProviderProps {
 
 export function ThemeProvider({ children }: ThemeProviderProps) {
   const [mode, setMode] = useLocalStorage<UIMode>('memorygame:v1:theme:mode', 'light');
-  const [currentTheme, setTheme] = useLocalStorage<GameTheme>('memorygame:v1:theme:current', DEFAULT_THEME);
+  const [storedTheme, setStoredTheme] = useLocalStorage<GameTheme>('memorygame:v1:theme:current', DEFAULT_THEME);
+  const [customThemes, setCustomThemes] = useState<GameTheme[]>([]);
+
+  const refreshCustomThemes = useCallback(async () => {
+    setCustomThemes(await customThemesService.getThemes());
+  }, []);
+
+  useEffect(() => {
+    refreshCustomThemes();
+  }, [refreshCustomThemes]);
+
+  // Custom theme images live in IndexedDB, so only their metadata goes to localStorage
+  const setTheme = useCallback((theme: GameTheme) => {
+    setStoredTheme(isCustomThemeId(theme.id) ? { ...theme, cards: [] } : theme);
+  }, [setStoredTheme]);
+
+  const currentTheme = customThemes.find(t => t.id === storedTheme.id) ?? storedTheme;
 
   const contextValue: ThemeContextType = {
     mode,
     setMode,
     currentTheme,
     setTheme,
-    availableThemes: DEFAULT_THEMES
+    availableThemes: [...DEFAULT_THEMES, ...customThemes],
+    customThemes,
+    refreshCustomThemes
   };
 
   // Apply dark mode class to document
@@ -34,17 +34,18 @@ interface WebSocketProviderProps {
 class MockWebSocket {
   readyState = WebSocketReadyState.OPEN;
   private messageHandlers: Set<(event: MessageEvent) => void> = new Set();
-  private mockEventEmitter: any;
+  private mockEventEmitter: typeof import('../services/mockServer').mockWebSocket | null = null;
+  private handleServerMessage = (data: unknown) => {
+    const event = new MessageEvent('message', { data: JSON.stringify(data) });
+    this.messageHandlers.forEach(handler => handler(event));
+  };
 
   constructor() {
     // Import mock event emitter from services
     import('../services/mockServer').then((module) => {
-      this.mockEventEmitter = (module as any).mockWebSocket;
-      if (this.mockEventEmitter) {
-        this.mockEventEmitter.on('message', (data: any) => {
-          const event = new MessageEvent('message', { data: JSON.stringify(data) });
-          this.messageHandlers.forEach(handler => handler(event));
-        });
+      this.mockEventEmitter = module.mockWebSocket;
+      if (this.mockEventEmitter && this.readyState === WebSocketReadyState.OPEN) {
+        this.mockEventEmitter.on('message', this.handleServerMessage);
       }
     });
   }
@@ -75,6 +76,7 @@ class MockWebSocket {
   close() {
     this.readyState = WebSocketReadyState.CLOSED;
     this.messageHandlers.clear();
+    this.mockEventEmitter?.off('message', this.handleServerMessage);
   }
 }
 
@@ -93,6 +95,28 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
 
   const connect = useCallback(() => {
+    const dispatchMessage = (event: MessageEvent) => {
+      try {
+        const data = JSON.parse(event.data);
+        const message: WebSocketMessage = {
+          type: data.type || 'unknown',
+          payload: data.payload || data,
+          timestamp: new Date().toISOString(),
+          from: data.from,
+        };
+
+        messageHandlersRef.current.forEach(handler => {
+          try {
+            handler(message);
+          } catch (error) {
+            console.error('Error in WebSocket message handler:', error);
+          }
+        });
+      } catch (error) {
+        console.error('Failed to parse WebSocket message:', error);
+      }
+    };
+
     try {
       // Always use mock WebSocket in development mode
       const shouldUseMockWS = import.meta.env.MODE === 'development' || 
@@ -102,7 +126,9 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
 
       if (shouldUseMockWS) {
         console.log('Using mock WebSocket in development mode');
-        wsRef.current = new MockWebSocket();
+        const mockSocket = new MockWebSocket();
+        mockSocket.addEventListener('message', dispatchMessage);
+        wsRef.current = mockSocket;
         setReadyState(WebSocketReadyState.OPEN);
         setReconnectAttempts(0);
         return;
@@ -134,27 +160,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
         setReadyState(WebSocketReadyState.CLOSED);
       };
 
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          const message: WebSocketMessage = {
-            type: data.type || 'unknown',
-            payload: data.payload || data,
-            timestamp: new Date().toISOString(),
-            from: data.from,
-          };
-
-          messageHandlersRef.current.forEach(handler => {
-            try {
-              handler(message);
-            } catch (error) {
-              console.error('Error in WebSocket message handler:', error);
-            }
-          });
-        } catch (error) {
-          console.error('Failed to parse WebSocket message:', error);
-        }
-      };
+      ws.onmessage = dispatchMessage;
 
       // Update ready state based on WebSocket state
       const updateReadyState = () => {
@@ -0,0 +1,125 @@
+import { Theme } from '../types';
+import { MAX_IMAGE_BYTES } from '../utils/customThemes';
+
+const DB_NAME = 'memorygame';
+const DB_VERSION = 1;
+const STORE_NAME = 'customThemes';
+
+/**
+ * Service for player-made themes, kept in IndexedDB because image cards are
+ * stored as data URLs and quickly outgrow localStorage
+ */
+class CustomThemesService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Fetches every saved custom theme
+   */
+  async getThemes(): Promise<Theme[]> {
+    try {
+      return await this.run<Theme[]>('readonly', store => store.getAll());
+    } catch (error) {
+      console.error('Failed to load custom themes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Gets a custom theme by ID
+   */
+  async getTheme(themeId: string): Promise<Theme | undefined> {
+    try {
+      return await this.run<Theme | undefined>('readonly', store => store.get(themeId));
+    } catch (error) {
+      console.error(`Failed to load custom theme ${themeId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Creates or replaces a custom theme
+   */
+  async saveTheme(theme: Theme): Promise<Theme> {
+    try {
+      await this.run('readwrite', store => store.put(theme));
+      return theme;
+    } catch (error) {
+      console.error(`Failed to save custom theme ${theme.id}:`, error);
+      throw new Error('Unable to save theme');
+    }
+  }
+
+  /**
+   * Deletes a custom theme
+   */
+  async deleteTheme(themeId: string): Promise<void> {
+    try {
+      await this.run('readwrite', store => store.delete(themeId));
+    } catch (error) {
+      console.error(`Failed to delete custom theme ${themeId}:`, error);
+      throw new Error('Unable to delete theme');
+    }
+  }
+
+  /**
+   * Reads an uploaded image as a data URL
+   */
+  readImage(file: File): Promise<string> {
+    if (!file.type.startsWith('image/')) {
+      return Promise.reject(new Error(`${file.name} is not an image`));
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      return Promise.reject(new Error(`${file.name} is larger than ${Math.round(MAX_IMAGE_BYTES / 1024)} KB`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error(`Unable to read ${file.name}`));
+      reader.readAsDataURL(file);
+    });
+  }
+}
+
+// Export singleton instance
+export const customThemesService = new CustomThemesService();
+
+// Export individual methods for convenience
+export const getCustomThemes = () => customThemesService.getThemes();
+export const getCustomTheme = (themeId: string) => customThemesService.getTheme(themeId);
+export const saveCustomTheme = (theme: Theme) => customThemesService.saveTheme(theme);
+export const deleteCustomTheme = (themeId: string) => customThemesService.deleteTheme(themeId);
@@ -1,10 +1,12 @@
 import { apiClient } from './apiClient';
 import { themesService } from './themesService';
 import { seededShuffle } from '../utils/shuffle';
+import { toDateKey } from '../utils/dailyChallenges';
 import type { 
   DailyChallenge, 
   Card,
-  Difficulty 
+  Difficulty,
+  LeaderboardEntry
 } from '../types';
 
 /**
@@ -12,33 +14,37 @@ import type {
  * Provides deterministic challenge generation and completion tracking
  */
 class DailyChallengeService {
-  private todayCache: DailyChallenge | null = null;
-  private cacheDate: string | null = null;
+  // Challenges by date; a day's board never changes, only its leaderboard does
+  private challengeCache = new Map<string, DailyChallenge>();
 
   /**
    * Get today's daily challenge
-   * Caches result for the current day to avoid redundant API calls
    */
   async getToday(): Promise<DailyChallenge> {
-    const today = new Date().toISOString().split('T')[0];
-    
-    // Return cached result if we already fetched today's challenge
-    if (this.todayCache && this.cacheDate === today) {
-      return this.todayCache;
+    return this.getChallenge(toDateKey());
+  }
+
+  /**
+   * Get the challenge for any day up to today
+   * Caches result per day to avoid redundant API calls
+   */
+  async getChallenge(date: string): Promise<DailyChallenge> {
+    const cached = this.challengeCache.get(date);
+    if (cached) {
+      return cached;
     }
 
     try {
-      const response = await apiClient.get<DailyChallenge>('/api/daily-challenge');
+      const response = await apiClient.get<DailyChallenge>(`/api/daily-challenge/${date}`);
       
       if (response.success && response.data) {
-        this.todayCache = response.data;
-        this.cacheDate = today;
+        this.challengeCache.set(date, response.data);
         return response.data;
       }
       
-      throw new Error(response.error?.message || 'Failed to fetch daily challenge');
+      throw new Error(response.error?.message || `Failed to fetch the challenge for ${date}`);
     } catch (error) {
-      console.error('Error fetching daily challenge:', error);
+      console.error(`Error fetching daily challenge for ${date}:`, error);
       throw error;
     }
   }
@@ -47,7 +53,7 @@ class DailyChallengeService {
    * Generate a deterministic deck for the daily challenge
    * Uses seeded random number generation to ensure same deck for same seed
    */
-  async getChallengeDeck(seed: number, difficulty: Difficulty): Promise<Card[]> {
+  async getChallengeDeck(seed: number, difficulty: Difficulty, themeId?: string): Promise<Card[]> {
     try {
       // Get available themes
       const themes = await themesService.getThemes();
@@ -56,9 +62,10 @@ class DailyChallengeService {
         throw new Error('No themes available for challenge deck generation');
       }
 
-      // Select theme based on seed (deterministic)
+      // Select theme based on seed (deterministic) unless the player picked their own;
+      // the card layout depends only on the seed, so every theme deals the same board
       const themeIndex = seed % themes.length;
-      const selectedTheme = themes[themeIndex];
+      const selectedTheme = themeId ? { id: themeId, name: themeId } : themes[themeIndex];
 
       // Determine deck size based on difficulty first
       const deckSizes = {
@@ -87,7 +94,7 @@ class DailyChallengeService {
       const cards: Card[] = [];
       selectedAssets.forEach((asset, index) => {
         // Create two cards for each asset (matching pair)
-        const cardContent = asset.type === 'image' ? asset.url : asset.id;
+        const cardContent = asset.url || asset.id;
         
         cards.push({
           id: `${seed}-${index}-1`,
@@ -120,21 +127,31 @@ class DailyChallengeService {
 
   /**
    * Submit challenge completion
-   * Records that the player completed today's challenge
+   * Ranks the player on the day's leaderboard; only the current day is ranked
+   * @returns The player's leaderboard entry, or null if the result was not ranked
    */
-  async submitCompletion(challengeId: string, score: number, timeElapsed: number): Promise<boolean> {
+  async submitCompletion(completion: {
+    date: string;
+    playerName: string;
+    score: number;
+    moves: number;
+    timeElapsed: number;
+  }): Promise<LeaderboardEntry | null> {
     try {
-      const response = await apiClient.post<{ success: boolean }>('/api/daily-challenge/complete', {
-        challengeId,
-        score,
-        timeElapsed,
+      const response = await apiClient.post<LeaderboardEntry>('/api/daily-challenge/complete', {
+        ...completion,
         completedAt: new Date().toISOString()
       });
 
-      return response.success && response.data?.success === true;
+      if (response.success && response.data) {
+        // The cached challenge carries a stale leaderboard now
+        this.challengeCache.delete(completion.date);
+        return response.data;
+      }
+      return null;
     } catch (error) {
       console.error('Error submitting challenge completion:', error);
-      return false;
+      return null;
     }
   }
 
@@ -152,27 +169,14 @@ class DailyChallengeService {
   }
 
   /**
-   * Get challenge leaderboard for today
+   * Get the leaderboard for a day's challenge
    */
-  async getTodayLeaderboard(): Promise<Array<{
-    playerId: string;
-    playerName: string;
-    score: number;
-    timeElapsed: number;
-    completedAt: string;
-  }>> {
+  async getLeaderboard(date: string = toDateKey()): Promise<LeaderboardEntry[]> {
     try {
-      const response = await apiClient.get<Array<{
-        playerId: string;
-        playerName: string;
-        score: number;
-        timeElapsed: number;
-        completedAt: string;
-      }>>('/api/daily-challenge/leaderboard');
-
+      const response = await apiClient.get<LeaderboardEntry[]>(`/api/daily-challenge/${date}/leaderboard`);
       return response.success && response.data ? response.data : [];
     } catch (error) {
-      console.error('Error fetching challenge leaderboard:', error);
+      console.error(`Error fetching challenge leaderboard for ${date}:`, error);
       return [];
     }
   }
@@ -181,8 +185,7 @@ class DailyChallengeService {
    * Clear cache - useful for testing or manual refresh
    */
   clearCache(): void {
-    this.todayCache = null;
-    this.cacheDate = null;
+    this.challengeCache.clear();
   }
 }
 
@@ -1,5 +1,6 @@
 import { apiClient } from './apiClient';
-import type { LeaderboardEntry, GameDifficulty } from '../types';
+import { ApiError } from '../types';
+import type { LeaderboardEntry, GameDifficulty, RecordedFlip } from '../types';
 
 export interface GetTopParams {
   difficulty?: GameDifficulty;
@@ -10,8 +11,14 @@ export interface SubmitScoreParams {
   playerName: string;
   score: number;
   difficulty: GameDifficulty;
+  theme: string;
   timeElapsed: number;
   moves: number;
+  /** Deck seed and ordered flips, so the server can replay and verify the claim */
+  seed: number;
+  flips: RecordedFlip[];
+  /** Cards of a player-made theme, which the server has no copy of */
+  themeCards?: string[];
 }
 
 /**
@@ -39,20 +46,29 @@ export async function getTop(params: GetTopParams = {}): Promise<LeaderboardEntr
 
 /**
  * Submits a new score to the leaderboard
+ * Rejected submissions throw the server's ApiError, whose details carry the rejection reason
  */
 export async function submitScore(params: SubmitScoreParams): Promise<LeaderboardEntry> {
-  const { playerName, score, difficulty, timeElapsed, moves } = params;
+  const { playerName, score, difficulty, theme, timeElapsed, moves, seed, flips, themeCards } = params;
   
   try {
     const response = await apiClient.post<LeaderboardEntry>('/api/leaderboard', {
       playerName,
       score,
       difficulty,
+      theme,
       timeElapsed,
       moves,
+      seed,
+      flips,
+      themeCards,
       timestamp: new Date().toISOString(),
     });
     
+    if (!response.success && response.error) {
+      throw response.error;
+    }
+    
     if (!response.data) {
       throw new Error('Invalid response data');
     }
@@ -60,6 +76,9 @@ export async function submitScore(params: SubmitScoreParams): Promise<Leaderboar
     return response.data;
   } catch (error) {
     console.error('Failed to submit score:', error);
+    if (error instanceof ApiError) {
+      throw error;
+    }
     throw new Error('Unable to submit score to leaderboard');
   }
 }
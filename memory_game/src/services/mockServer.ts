@@ -1,8 +1,19 @@
 import { ApiResponse, ApiError } from '../types';
+import { seededShuffle } from '../utils/shuffle';
+import { startTurnGame, applyMove, removePlayer, validateFlip, MAX_PLAYERS } from '../utils/turnEngine';
+import { buildDeck, simulateFlips } from '../utils/replay';
+import { scoreGame } from '../utils/scoreCalculator';
+import { createAchievementCatalog } from '../utils/achievementRules';
+import { createDailyChallenge, toDateKey } from '../utils/dailyChallenges';
+import { isCustomThemeId } from '../utils/customThemes';
 import type {
+  Card,
+  GameDifficulty,
+  GameMove,
+  GameSettings,
+  RecordedFlip,
+  ScoreRejectionReason,
   Player,
-  Achievement,
-  DailyChallenge,
   PlayerStats,
   Theme,
   MultiplayerSession,
@@ -55,32 +66,15 @@ let mockData = {
     { id: '5', rank: 5, playerName: 'Player One', score: 1500, moves: 18, time: 75, difficulty: 'hard', theme: 'animals', date: new Date('2024-01-11').toISOString(), avatar: '🎮' }
   ] as LeaderboardEntry[],
 
-  achievements: [
-    { id: 'first_win', name: 'First Victory', description: 'Win your first game', icon: '🏆', category: 'gameplay', points: 10, unlocked: true, unlockedAt: new Date('2024-01-10').toISOString(), rarity: 'common' },
-    { id: 'speed_demon', name: 'Speed Demon', description: 'Complete a game in under 30 seconds', icon: '⚡', category: 'gameplay', points: 25, unlocked: true, unlockedAt: new Date('2024-01-12').toISOString(), rarity: 'rare' },
-    { id: 'memory_master', name: 'Memory Master', description: 'Complete expert grid with less than 20 moves', icon: '🧠', category: 'gameplay', points: 50, unlocked: true, unlockedAt: new Date('2024-01-15').toISOString(), rarity: 'epic' },
-    { id: 'perfectionist', name: 'Perfectionist', description: 'Complete a game without any wrong matches', icon: '💎', category: 'gameplay', points: 100, unlocked: false, rarity: 'legendary', progress: 0, maxProgress: 1 },
-    { id: 'daily_champion', name: 'Daily Champion', description: 'Win a daily challenge', icon: '🌟', category: 'special', points: 30, unlocked: true, unlockedAt: new Date('2024-01-14').toISOString(), rarity: 'rare' }
-  ] as Achievement[],
-
-  dailyChallenge: {
-    id: 'daily_2024_01_15',
-    date: '2024-01-15',
-    difficulty: 'hard',
-    theme: 'space',
-    seed: 'daily_seed_20240115',
-    targetMoves: 25,
-    targetTime: 180,
-    completed: false,
-    participants: 1247,
-    rewards: [
-      { type: 'points', value: 100, description: 'Daily challenge points', icon: '⭐' },
-      { type: 'badge', value: 'space_explorer', description: 'Space Explorer badge', icon: '🚀' }
-    ],
-    leaderboard: [
-      { id: '1', rank: 1, playerName: 'Champion', score: 2400, moves: 18, time: 95, difficulty: 'hard', theme: 'space', date: '2024-01-15', avatar: '👑' }
+  // Definitions come from the client rules so both sides describe the same achievements
+  achievements: createAchievementCatalog(),
+
+  // Challenges are generated from their date; only each day's leaderboard is stored
+  dailyLeaderboards: {
+    [toDateKey()]: [
+      { id: 'daily-1', rank: 1, playerName: 'Champion', score: 2400, moves: 18, time: 95, difficulty: 'hard', theme: 'space', date: new Date().toISOString() }
     ]
-  } as DailyChallenge,
+  } as Record<string, LeaderboardEntry[]>,
 
   playerStats: {
     '1': { 
@@ -208,6 +202,105 @@ let mockData = {
 // Generate unique ID
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+// The game timer ticks once a second, so a claimed time may trail the last flip by up to a second
+const SCORE_TIME_TOLERANCE = 1;
+
+const rejectScore = (reason: ScoreRejectionReason, message: string, details: Record<string, unknown> = {}) =>
+  new ApiError(message, 422, { reason, ...details });
+
+/**
+ * A day's leaderboard, best score first and faster times breaking ties
+ */
+const getDailyLeaderboard = (date: string): LeaderboardEntry[] =>
+  [...(mockData.dailyLeaderboards[date] || [])]
+    .sort((a, b) => b.score - a.score || a.time - b.time)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+const getDailyChallenge = (date: string) =>
+  createDailyChallenge(date, mockData.themes.map(theme => theme.id), getDailyLeaderboard(date));
+
+/**
+ * A leaderboard submission as posted by leaderboardService.submitScore
+ */
+interface ScoreSubmission {
+  playerName: string;
+  score: number;
+  difficulty: GameDifficulty;
+  theme: string;
+  timeElapsed: number;
+  moves: number;
+  seed: number;
+  flips: RecordedFlip[];
+  themeCards?: string[];
+}
+
+const SCORE_DIFFICULTIES: GameDifficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+const isRecordedFlip = (flip: unknown): flip is RecordedFlip =>
+  Array.isArray(flip) && flip.length === 2 && typeof flip[0] === 'string' && typeof flip[1] === 'number';
+
+const isScoreSubmission = (payload: unknown): payload is ScoreSubmission => {
+  if (typeof payload !== 'object' || payload === null) return false;
+  const submission = payload as Record<string, unknown>;
+  return typeof submission.playerName === 'string' &&
+    typeof submission.score === 'number' &&
+    SCORE_DIFFICULTIES.includes(submission.difficulty as GameDifficulty) &&
+    typeof submission.theme === 'string' &&
+    typeof submission.timeElapsed === 'number' &&
+    typeof submission.moves === 'number' &&
+    typeof submission.seed === 'number' &&
+    Array.isArray(submission.flips) && submission.flips.every(isRecordedFlip) &&
+    (submission.themeCards === undefined ||
+      (Array.isArray(submission.themeCards) && submission.themeCards.every(card => typeof card === 'string')));
+};
+
+/**
+ * Re-simulates a leaderboard submission from its seed and flips
+ * Returns the rejection to send back, or null when the claim holds up
+ */
+const verifyScoreSubmission = (payload: unknown): ApiError | null => {
+  if (!isScoreSubmission(payload)) {
+    return rejectScore('invalid_submission', 'Submission must include a player, theme, seed, difficulty, score, time and move list');
+  }
+
+  // Player-made themes live in the player's browser, so their cards come with the submission
+  const themeCards = isCustomThemeId(payload.theme)
+    ? payload.themeCards
+    : mockData.themes.find(t => t.id === payload.theme)?.cards;
+  if (!themeCards || themeCards.length === 0) {
+    return rejectScore('unknown_theme', `Theme ${payload.theme} not found`);
+  }
+
+  const deck = buildDeck(themeCards, payload.difficulty, payload.seed);
+  const replay = simulateFlips(deck, payload.flips);
+  const replayed = { moves: replay.moves, seconds: replay.durationMs / 1000 };
+
+  if (replay.illegalFlip) {
+    return rejectScore('illegal_move', `Move ${replay.illegalFlip.index + 1} is not legal: ${replay.illegalFlip.reason}`, { replayed });
+  }
+  if (!replay.completed) {
+    return rejectScore('incomplete_game', 'The submitted moves do not finish the game', { replayed });
+  }
+  if (payload.moves !== replay.moves) {
+    return rejectScore('moves_mismatch', `Claimed ${payload.moves} moves but the replay took ${replay.moves}`, { claimed: payload.moves, replayed });
+  }
+  if (Math.abs(payload.timeElapsed - replayed.seconds) > SCORE_TIME_TOLERANCE) {
+    return rejectScore('time_mismatch', `Claimed ${payload.timeElapsed}s but the replay took ${Math.round(replayed.seconds)}s`, { claimed: payload.timeElapsed, replayed });
+  }
+
+  const expectedScore = scoreGame({
+    moves: replay.moves,
+    seconds: payload.timeElapsed,
+    difficulty: payload.difficulty,
+    tracker: replay.tracker
+  }).total;
+  if (payload.score !== expectedScore) {
+    return rejectScore('score_mismatch', `Claimed a score of ${payload.score} but the replay scores ${expectedScore}`, { claimed: payload.score, expected: expectedScore, replayed });
+  }
+
+  return null;
+};
+
 // Mock request handler
 export const request = async <T>(
   path: string,
@@ -229,12 +322,23 @@ export const request = async <T>(
       // Return theme cards as assets
       const assets = theme.cards.map((card, index) => ({
         id: `${themeId}-${index}`,
+        url: card,
         content: card,
         type: theme.type || 'emoji'
       }));
       return { success: true, data: assets as T };
     }
     
+    // Handle /api/daily-challenge/{date} and /api/daily-challenge/{date}/leaderboard
+    const dailyPath = path.match(/^\/api\/daily-challenge\/(\d{4}-\d{2}-\d{2})(\/leaderboard)?$/);
+    if (dailyPath && method === 'GET') {
+      const [, date, leaderboard] = dailyPath;
+      if (date > toDateKey()) {
+        return { success: false, error: new ApiError(`The challenge for ${date} is not available yet`, 404), status: 404 };
+      }
+      return { success: true, data: (leaderboard ? getDailyLeaderboard(date) : getDailyChallenge(date)) as T };
+    }
+
     if (path.startsWith('/api/themes/') && !path.includes('/assets')) {
       // Handle /api/themes/{id}
       const themeId = path.split('/')[3];
@@ -254,13 +358,18 @@ export const request = async <T>(
           return { success: true, data: sortedLeaderboard as T };
         }
         if (method === 'POST') {
+          const rejection = verifyScoreSubmission(payload);
+          if (rejection) {
+            return { success: false, error: rejection, status: rejection.status };
+          }
+
           const newEntry: LeaderboardEntry = {
             id: generateId(),
             rank: mockData.leaderboard.length + 1,
             playerName: payload.playerName,
             score: payload.score,
             moves: payload.moves,
-            time: payload.time,
+            time: payload.timeElapsed,
             difficulty: payload.difficulty,
             theme: payload.theme,
             date: new Date().toISOString(),
@@ -282,6 +391,7 @@ export const request = async <T>(
           if (achievement && !achievement.unlocked) {
             achievement.unlocked = true;
             achievement.unlockedAt = new Date().toISOString();
+            achievement.progress = achievement.maxProgress;
           }
           return { success: true, data: achievement as T };
         }
@@ -289,14 +399,35 @@ export const request = async <T>(
 
       case '/api/daily-challenge':
         if (method === 'GET') {
-          return { success: true, data: mockData.dailyChallenge as T };
+          return { success: true, data: getDailyChallenge(toDateKey()) as T };
         }
+        break;
+
+      case '/api/daily-challenge/complete':
         if (method === 'POST') {
-          mockData.dailyChallenge.completed = payload.completed;
-          if (payload.userScore) {
-            mockData.dailyChallenge.userScore = payload.userScore;
+          // Past days can be replayed for practice but only the current day is ranked
+          if (payload?.date !== toDateKey()) {
+            return { success: false, error: new ApiError('Only today\'s challenge can be ranked', 422, { date: payload?.date }), status: 422 };
+          }
+          if (typeof payload.score !== 'number' || typeof payload.timeElapsed !== 'number' || !payload.playerName) {
+            return { success: false, error: new ApiError('Malformed challenge completion', 400), status: 400 };
           }
-          return { success: true, data: mockData.dailyChallenge as T };
+
+          const challenge = getDailyChallenge(payload.date);
+          const entry: LeaderboardEntry = {
+            id: generateId(),
+            rank: 0,
+            playerName: payload.playerName,
+            score: payload.score,
+            moves: payload.moves,
+            time: payload.timeElapsed,
+            difficulty: challenge.difficulty,
+            theme: challenge.theme,
+            date: payload.completedAt || new Date().toISOString()
+          };
+          mockData.dailyLeaderboards[payload.date] = [...(mockData.dailyLeaderboards[payload.date] || []), entry];
+          const ranked = getDailyLeaderboard(payload.date).find(e => e.id === entry.id);
+          return { success: true, data: ranked as T };
         }
         break;
 
@@ -345,6 +476,7 @@ export const request = async <T>(
             gameState: 'waiting',
             deck: [],
             settings: payload.settings,
+            themeCards: payload.themeCards,
             startedAt: new Date().toISOString()
           };
           mockData.multiplayerSessions.push(session);
@@ -451,11 +583,263 @@ export const createMockWebSocket = (_url: string) => {
   return mockSocket;
 };
 
+// In-process multiplayer host used by WebSocketProvider's MockWebSocket.
+// It runs the same turn engine as the client store, so 2-4 player games can be
+// played and tested offline without a real server.
+type MockSocketListener = (data: unknown) => void;
+
+/**
+ * Messages multiplayerService sends to the host, by type
+ */
+type ClientSocketMessage =
+  | {
+      type: 'create_session';
+      payload: {
+        sessionId: string;
+        roomCode: string;
+        playerId: string;
+        playerName: string;
+        maxPlayers?: number;
+        settings?: Partial<GameSettings>;
+        themeCards?: string[];
+      };
+    }
+  | { type: 'join_session'; payload: { sessionCode: string; player: { id: string; name: string } } }
+  | { type: 'player_ready'; payload: { sessionId: string; playerId: string; isReady: boolean } }
+  | { type: 'start_game'; payload: { sessionId: string; seed?: number } }
+  | { type: 'card_flipped'; payload: { sessionId: string; playerId: string; cardId: string } }
+  | { type: 'game_move'; payload: { sessionId: string; move: GameMove } }
+  | { type: 'leave_session'; payload: { sessionId: string; playerId: string } };
+
+/**
+ * Replies and broadcasts the host sends back to every client
+ */
+type ServerSocketMessage =
+  | { type: 'session_updated'; payload: { sessionId: string; session: MultiplayerSession } }
+  | { type: 'join_session_response'; payload: { success: false; error: string } }
+  | { type: 'player_joined'; payload: { sessionId: string; player: Player } }
+  | { type: 'player_ready_updated'; payload: { sessionId: string; playerId: string; isReady: boolean } }
+  | { type: 'game_started'; payload: { sessionId: string; gameState: { cards: Card[] } } }
+  | { type: 'card_flipped'; payload: { sessionId: string; playerId: string; cardId: string } }
+  | { type: 'move_received'; payload: { sessionId: string; move: GameMove } }
+  | { type: 'game_ended'; payload: { sessionId: string; results: { winner?: Player; players: Player[] } } }
+  | { type: 'player_left'; payload: { sessionId: string; playerId: string } }
+  | { type: 'session_error'; payload: { sessionId: string; error: string } };
+
+const CLIENT_MESSAGE_TYPES: ClientSocketMessage['type'][] = [
+  'create_session',
+  'join_session',
+  'player_ready',
+  'start_game',
+  'card_flipped',
+  'game_move',
+  'leave_session'
+];
+
+// Client frames arrive as parsed JSON, so only known message types with a payload get through
+const isClientSocketMessage = (message: unknown): message is ClientSocketMessage => {
+  if (typeof message !== 'object' || message === null) return false;
+  const { type, payload } = message as { type?: unknown; payload?: unknown };
+  return CLIENT_MESSAGE_TYPES.includes(type as ClientSocketMessage['type']) &&
+    typeof payload === 'object' && payload !== null;
+};
+
+const DEFAULT_MULTIPLAYER_SETTINGS: GameSettings = {
+  soundEnabled: true,
+  animationsEnabled: true,
+  showTimer: true,
+  showMoves: true,
+  difficulty: 'medium'
+};
+
+const MOCK_SOCKET_LATENCY = 80;
+
+const MULTIPLAYER_PAIR_COUNTS: Record<GameDifficulty, number> = {
+  easy: 6,
+  medium: 8,
+  hard: 12,
+  expert: 18
+};
+
+const socketListeners: { [event: string]: MockSocketListener[] } = {};
+
+const findSession = (sessionId: string) =>
+  mockData.multiplayerSessions.find(s => s.id === sessionId);
+
+const saveSession = (session: MultiplayerSession) => {
+  mockData.multiplayerSessions = mockData.multiplayerSessions.map(s => s.id === session.id ? session : s);
+};
+
+const dealMultiplayerDeck = (session: MultiplayerSession, seed: number): Card[] => {
+  const theme = mockData.themes.find(t => t.id === session.settings?.theme) || mockData.themes[0];
+  const pairCount = MULTIPLAYER_PAIR_COUNTS[session.settings?.difficulty || 'medium'];
+  // Custom themes travel with the session because only the host has them
+  const symbols = seededShuffle(session.themeCards?.length ? session.themeCards : theme.cards, seed).slice(0, pairCount);
+
+  const cards = symbols.flatMap((symbol, index) => ['a', 'b'].map(side => ({
+    id: `${session.id}-${index}-${side}`,
+    content: symbol,
+    value: symbol,
+    isFlipped: false,
+    isMatched: false,
+    pairId: index.toString()
+  })));
+
+  return seededShuffle(cards, seed + 1);
+};
+
+const handleClientMessage = (message: unknown): ServerSocketMessage[] => {
+  if (!isClientSocketMessage(message)) return [];
+  const session = 'sessionId' in message.payload ? findSession(message.payload.sessionId) : undefined;
+
+  switch (message.type) {
+    case 'create_session': {
+      const { payload } = message;
+      const host: Player = {
+        id: payload.playerId,
+        name: payload.playerName,
+        score: 0,
+        moves: 0,
+        matchedPairs: 0,
+        isActive: true,
+        isReady: false
+      };
+      const created: MultiplayerSession = {
+        id: payload.sessionId,
+        roomCode: payload.roomCode,
+        host,
+        players: [host],
+        maxPlayers: Math.min(payload.maxPlayers || MAX_PLAYERS, MAX_PLAYERS),
+        gameState: 'waiting',
+        deck: [],
+        settings: { ...DEFAULT_MULTIPLAYER_SETTINGS, ...payload.settings },
+        themeCards: payload.themeCards
+      };
+      mockData.multiplayerSessions.push(created);
+      return [{ type: 'session_updated', payload: { sessionId: created.id, session: created } }];
+    }
+
+    case 'join_session': {
+      const { payload } = message;
+      const target = mockData.multiplayerSessions.find(s => s.roomCode === payload.sessionCode);
+      if (!target) {
+        return [{ type: 'join_session_response', payload: { success: false, error: `Room ${payload.sessionCode} not found` } }];
+      }
+      if (target.gameState !== 'waiting' || target.players.length >= target.maxPlayers) {
+        return [{ type: 'join_session_response', payload: { success: false, error: `Room ${payload.sessionCode} is not accepting players` } }];
+      }
+      const player: Player = {
+        id: payload.player.id,
+        name: payload.player.name,
+        score: 0,
+        moves: 0,
+        matchedPairs: 0,
+        isActive: true,
+        isReady: false
+      };
+      const joined = { ...target, players: [...target.players, player] };
+      saveSession(joined);
+      return [
+        { type: 'player_joined', payload: { sessionId: joined.id, player } },
+        { type: 'session_updated', payload: { sessionId: joined.id, session: joined } }
+      ];
+    }
+
+    case 'player_ready': {
+      const { payload } = message;
+      if (!session) break;
+      saveSession({
+        ...session,
+        players: session.players.map(p => p.id === payload.playerId ? { ...p, isReady: payload.isReady } : p)
+      });
+      return [{ type: 'player_ready_updated', payload: { sessionId: session.id, playerId: payload.playerId, isReady: payload.isReady } }];
+    }
+
+    case 'start_game': {
+      const { payload } = message;
+      if (!session) break;
+      try {
+        const cards = dealMultiplayerDeck(session, payload.seed ?? Date.now());
+        saveSession(startTurnGame(session, cards));
+        return [{ type: 'game_started', payload: { sessionId: session.id, gameState: { cards } } }];
+      } catch (error) {
+        return [{ type: 'session_error', payload: { sessionId: session.id, error: (error as Error).message } }];
+      }
+    }
+
+    case 'card_flipped': {
+      const { payload } = message;
+      if (!session) break;
+      const reason = validateFlip(session, payload.playerId, payload.cardId);
+      if (reason) {
+        return [{ type: 'session_error', payload: { sessionId: session.id, error: reason } }];
+      }
+      return [{ type: 'card_flipped', payload: { sessionId: session.id, playerId: payload.playerId, cardId: payload.cardId } }];
+    }
+
+    case 'game_move': {
+      const { payload } = message;
+      if (!session) break;
+      try {
+        const outcome = applyMove(session, payload.move);
+        saveSession(outcome.session);
+        const events: ServerSocketMessage[] = [{ type: 'move_received', payload: { sessionId: session.id, move: outcome.move } }];
+        if (outcome.session.gameState === 'finished') {
+          events.push({ type: 'game_ended', payload: { sessionId: session.id, results: { winner: outcome.session.winner, players: outcome.session.players } } });
+        }
+        return events;
+      } catch (error) {
+        return [{ type: 'session_error', payload: { sessionId: session.id, error: (error as Error).message } }];
+      }
+    }
+
+    case 'leave_session': {
+      const { payload } = message;
+      if (!session) break;
+      const remaining = removePlayer(session, payload.playerId);
+      saveSession(remaining);
+      const events: ServerSocketMessage[] = [{ type: 'player_left', payload: { sessionId: session.id, playerId: payload.playerId } }];
+      if (session.gameState === 'playing' && remaining.gameState === 'finished') {
+        events.push({ type: 'game_ended', payload: { sessionId: session.id, results: { winner: remaining.winner, players: remaining.players } } });
+      }
+      return events;
+    }
+  }
+
+  return [];
+};
+
+export const mockWebSocket = {
+  on: (event: string, callback: MockSocketListener) => {
+    if (!socketListeners[event]) socketListeners[event] = [];
+    socketListeners[event].push(callback);
+  },
+
+  off: (event: string, callback: MockSocketListener) => {
+    socketListeners[event] = (socketListeners[event] || []).filter(listener => listener !== callback);
+  },
+
+  emit: (event: string, data: unknown) => {
+    if (event !== 'clientMessage') {
+      (socketListeners[event] || []).forEach(listener => listener(data));
+      return;
+    }
+
+    // Replies to one client message are delivered together and in order
+    const events = handleClientMessage(data);
+    if (events.length === 0) return;
+    setTimeout(() => {
+      events.forEach(reply => mockWebSocket.emit('message', reply));
+    }, MOCK_SOCKET_LATENCY);
+  }
+};
+
 // Export flag for other services to check mock mode
 export const ENABLE_MOCK = true;
 
 export default {
   request,
   createMockWebSocket,
+  mockWebSocket,
   ENABLE_MOCK
 };
@@ -1,25 +1,60 @@
 import { apiClient } from './apiClient';
-// import { useGameStore } from '../state/store';
+import { useGameStore } from '../state/store';
 import type { 
   MultiplayerSession, 
   GameMove, 
+  GameSettings,
   ApiResponse 
 } from '../types';
 import { ApiError } from '../types';
+import type { WebSocketContextValue } from '../providers/WebSocketProvider';
 
 class MultiplayerService {
-  private webSocketProvider: any = null;
+  private webSocketProvider: WebSocketContextValue | null = null;
   private currentSessionId: string | null = null;
+  private localPlayerIds = new Set<string>();
+  private unsubscribe: (() => void) | null = null;
 
-  setWebSocketProvider(provider: any) {
+  setWebSocketProvider(provider: WebSocketContextValue) {
     this.webSocketProvider = provider;
   }
 
+  /**
+   * Sends a message to the game server using the provider's envelope format
+   */
+  private send(type: string, payload: Record<string, any>): void {
+    if (!this.webSocketProvider) {
+      console.error('WebSocket provider not available');
+      return;
+    }
+
+    this.webSocketProvider.sendMessage({
+      type,
+      payload,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Flags players controlled from this device so the UI knows whose turn it may play
+   */
+  private markLocalPlayers(session: MultiplayerSession): MultiplayerSession {
+    return {
+      ...session,
+      players: session.players.map(player => ({
+        ...player,
+        isCurrentUser: this.localPlayerIds.has(player.id)
+      }))
+    };
+  }
+
   async createSession(payload: {
     playerId: string;
     playerName: string;
     gameMode: 'classic' | 'timed' | 'challenge';
     maxPlayers: number;
+    settings?: Partial<GameSettings>;
+    themeCards?: string[];
   }): Promise<ApiResponse<MultiplayerSession>> {
     try {
       // Try REST API first
@@ -27,31 +62,29 @@ class MultiplayerService {
       
       if (response.success && response.data) {
         this.currentSessionId = response.data.id;
+        this.localPlayerIds.add(payload.playerId);
         this.subscribeToSession(response.data.id);
         
-        // Update store with session data
-        // TODO: Implement these store methods
-        // useGameStore.getState().setMultiplayerSession(response.data);
+        const session = this.markLocalPlayers(response.data);
+        useGameStore.getState().setMultiplayerSession?.(session);
         
-        return response;
+        return { ...response, data: session };
       }
 
       throw new Error(response.error?.message || 'Failed to create session');
     } catch (error) {
       // Fallback to WebSocket if REST fails
-      if (this.webSocketProvider && this.webSocketProvider.isConnected()) {
+      if (this.webSocketProvider && this.webSocketProvider.isConnected) {
         const sessionId = this.generateSessionId();
+        const roomCode = this.generateSessionCode();
         this.currentSessionId = sessionId;
+        this.localPlayerIds.add(payload.playerId);
         
-        this.webSocketProvider.sendMessage({
-          type: 'create_session',
-          sessionId,
-          payload
-        });
+        this.send('create_session', { sessionId, roomCode, ...payload });
 
         const mockSession: MultiplayerSession = {
           id: sessionId,
-          roomCode: this.generateSessionCode(),
+          roomCode,
           host: {
             id: payload.playerId,
             name: payload.playerName,
@@ -68,7 +101,8 @@ class MultiplayerService {
             score: 0,
             moves: 0,
             matchedPairs: 0,
-            isActive: true
+            isActive: true,
+            isCurrentUser: true
           }],
           maxPlayers: payload.maxPlayers || 4,
           gameState: 'waiting',
@@ -78,12 +112,13 @@ class MultiplayerService {
             animationsEnabled: true,
             showTimer: true,
             showMoves: true,
-            difficulty: 'medium'
-          }
+            difficulty: 'medium',
+            ...payload.settings
+          },
+          themeCards: payload.themeCards
         };
 
-        // TODO: Implement these store methods
-        // useGameStore.getState().setMultiplayerSession(mockSession);
+        useGameStore.getState().setMultiplayerSession?.(mockSession);
         this.subscribeToSession(sessionId);
 
         return {
@@ -106,24 +141,22 @@ class MultiplayerService {
       
       if (response.success && response.data) {
         this.currentSessionId = response.data.id;
+        this.localPlayerIds.add(player.id);
         this.subscribeToSession(response.data.id);
         
-        // Update store with session data
-        // TODO: Implement these store methods
-        // useGameStore.getState().setMultiplayerSession(response.data);
+        const session = this.markLocalPlayers(response.data);
+        useGameStore.getState().setMultiplayerSession?.(session);
         
-        return response;
+        return { ...response, data: session };
       }
 
       throw new Error(response.error?.message || 'Failed to join session');
     } catch (error) {
       // Fallback to WebSocket if REST fails
-      if (this.webSocketProvider && this.webSocketProvider.isConnected()) {
-        this.webSocketProvider.sendMessage({
-          type: 'join_session',
-          sessionCode,
-          player
-        });
+      if (this.webSocketProvider && this.webSocketProvider.isConnected) {
+        this.localPlayerIds.add(player.id);
+        this.subscribe();
+        this.send('join_session', { sessionCode, player });
 
         // Return pending response, actual session data will come via WebSocket
         return {
@@ -139,14 +172,31 @@ class MultiplayerService {
     }
   }
 
-  sendMove(sessionId: string, move: GameMove): void {
-    if (!this.webSocketProvider) {
-      console.error('WebSocket provider not available');
-      return;
-    }
+  /**
+   * Seats another player from this device in the waiting room (hot-seat play)
+   */
+  addLocalPlayer(sessionCode: string, name: string): void {
+    const playerId = `local-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+    this.localPlayerIds.add(playerId);
+    this.send('join_session', { sessionCode, player: { id: playerId, name } });
+  }
+
+  /**
+   * Asks the server to deal the deck and hand the first turn out
+   */
+  startGame(sessionId: string): void {
+    this.send('start_game', { sessionId });
+  }
+
+  /**
+   * Shows a card flipped during the current turn to every other player
+   */
+  sendFlip(sessionId: string, playerId: string, cardId: string): void {
+    this.send('card_flipped', { sessionId, playerId, cardId });
+  }
 
-    const moveData = {
-      type: 'game_move',
+  sendMove(sessionId: string, move: GameMove): void {
+    this.send('game_move', {
       sessionId,
       move: {
         playerId: move.playerId,
@@ -155,104 +205,107 @@ class MultiplayerService {
         timestamp: move.timestamp || Date.now(),
         moveNumber: move.moveNumber
       }
-    };
-
-    this.webSocketProvider.sendMessage(moveData);
+    });
   }
 
   sendPlayerReady(sessionId: string, playerId: string, isReady: boolean): void {
-    if (!this.webSocketProvider) {
-      console.error('WebSocket provider not available');
-      return;
-    }
-
-    this.webSocketProvider.sendMessage({
-      type: 'player_ready',
-      sessionId,
-      playerId,
-      isReady
-    });
+    this.send('player_ready', { sessionId, playerId, isReady });
   }
 
   leaveSession(sessionId: string, playerId: string): void {
-    if (!this.webSocketProvider) {
-      console.error('WebSocket provider not available');
-      return;
-    }
-
-    this.webSocketProvider.sendMessage({
-      type: 'leave_session',
-      sessionId,
-      playerId
-    });
+    this.send('leave_session', { sessionId, playerId });
 
     this.currentSessionId = null;
-    // useGameStore.getState().clearMultiplayerSession();
+    this.localPlayerIds.clear();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    useGameStore.getState().clearMultiplayerSession?.();
   }
 
   private subscribeToSession(sessionId: string): void {
+    this.currentSessionId = sessionId;
+    this.subscribe();
+  }
+
+  private subscribe(): void {
     if (!this.webSocketProvider) {
       console.error('WebSocket provider not available for subscription');
       return;
     }
-
-    // Subscribe to session-specific messages
-    this.webSocketProvider.subscribe(`session_${sessionId}`, (message: any) => {
-      this.handleSessionMessage(message);
-    });
-
-    // Subscribe to general multiplayer messages
-    this.webSocketProvider.subscribe('multiplayer', (message: any) => {
-      this.handleMultiplayerMessage(message);
+    if (this.unsubscribe) return;
+
+    // Session-scoped messages carry a sessionId, everything else is general multiplayer traffic
+    this.unsubscribe = this.webSocketProvider.onMessage((message) => {
+      const data = { ...message.payload, type: message.type };
+      if (data.sessionId) {
+        this.handleSessionMessage(data);
+      } else {
+        this.handleMultiplayerMessage(data);
+      }
     });
   }
 
   private handleSessionMessage(message: any): void {
-    // const store = useGameStore.getState();
+    const store = useGameStore.getState();
+
+    // Adopt the session we just joined through a room code
+    if (!this.currentSessionId && message.type === 'session_updated' && message.session &&
+        message.session.players.some((p: { id: string }) => this.localPlayerIds.has(p.id))) {
+      this.currentSessionId = message.session.id;
+    }
+    if (message.sessionId !== this.currentSessionId) return;
 
     switch (message.type) {
       case 'session_updated':
-        if (message.session) {
-          // store.setMultiplayerSession(message.session);
+        if (message.session && store.multiplayerSession?.gameState !== 'playing') {
+          store.setMultiplayerSession?.(this.markLocalPlayers(message.session));
         }
         break;
 
       case 'player_joined':
-        if (message.player && message.sessionId === this.currentSessionId) {
-          // store.addPlayerToSession(message.player);
+        if (message.player && !store.multiplayerSession?.players.some((p: { id: string }) => p.id === message.player.id)) {
+          store.addPlayerToSession?.({ ...message.player, isCurrentUser: this.localPlayerIds.has(message.player.id) });
         }
         break;
 
       case 'player_left':
-        if (message.playerId && message.sessionId === this.currentSessionId) {
-          // store.removePlayerFromSession(message.playerId);
+        if (message.playerId) {
+          store.removePlayerFromSession?.(message.playerId);
         }
         break;
 
       case 'game_started':
-        if (message.sessionId === this.currentSessionId && message.gameState) {
-          // store.startMultiplayerGame(message.gameState);
+        if (message.gameState) {
+          store.startMultiplayerGame?.(message.gameState);
+        }
+        break;
+
+      case 'card_flipped':
+        if (message.cardId) {
+          store.revealMultiplayerCard?.(message.playerId, message.cardId);
         }
         break;
 
       case 'move_received':
-        if (message.sessionId === this.currentSessionId && message.move) {
-          // store.applyMultiplayerMove(message.move);
+        if (message.move) {
+          store.applyMultiplayerMove?.(message.move);
         }
         break;
 
       case 'player_ready_updated':
-        if (message.sessionId === this.currentSessionId) {
-          // store.updatePlayerReady(message.playerId, message.isReady);
-        }
+        store.updatePlayerReady?.(message.playerId, message.isReady);
         break;
 
       case 'game_ended':
-        if (message.sessionId === this.currentSessionId && message.results) {
-          // store.endMultiplayerGame(message.results);
+        if (message.results) {
+          store.endMultiplayerGame?.(message.results);
         }
         break;
 
+      case 'session_error':
+        console.warn('Multiplayer server rejected a request:', message.error);
+        break;
+
       default:
         console.log('Unhandled session message:', message);
     }
@@ -262,16 +315,14 @@ class MultiplayerService {
     switch (message.type) {
       case 'session_created':
         if (message.session) {
-          // TODO: Implement these store methods
-        // useGameStore.getState().setMultiplayerSession(message.session);
+          useGameStore.getState().setMultiplayerSession?.(this.markLocalPlayers(message.session));
         }
         break;
 
       case 'join_session_response':
         if (message.success && message.session) {
           this.currentSessionId = message.session.id;
-          // TODO: Implement these store methods
-        // useGameStore.getState().setMultiplayerSession(message.session);
+          useGameStore.getState().setMultiplayerSession?.(this.markLocalPlayers(message.session));
         } else if (message.error) {
           console.error('Failed to join session:', message.error);
         }
@@ -302,9 +353,14 @@ class MultiplayerService {
     return this.currentSessionId !== null;
   }
 
+  getLocalPlayerIds(): string[] {
+    return Array.from(this.localPlayerIds);
+  }
+
   disconnect(): void {
     if (this.currentSessionId) {
-      this.leaveSession(this.currentSessionId, 'unknown'); // TODO: Get current player ID
+      const sessionId = this.currentSessionId;
+      this.getLocalPlayerIds().forEach(playerId => this.leaveSession(sessionId, playerId));
     }
   }
 }
@@ -1,5 +1,7 @@
 import { apiClient } from './apiClient';
+import { customThemesService } from './customThemesService';
 import { Theme, ThemeAsset } from '../types';
+import { isCustomThemeId, isImageContent } from '../utils/customThemes';
 
 /**
  * Service for managing game themes and their assets
@@ -18,6 +20,15 @@ class ThemesService {
     }
   }
 
+  /**
+   * Server themes followed by the player's custom themes, for theme pickers
+   * Kept apart from getThemes so seed-based theme selection stays the same for everyone
+   */
+  async getSelectableThemes(): Promise<Theme[]> {
+    const [themes, customThemes] = await Promise.all([this.getThemes(), customThemesService.getThemes()]);
+    return [...themes, ...customThemes];
+  }
+
   /**
    * Alias for getThemes - for backward compatibility
    */
@@ -30,12 +41,22 @@ class ThemesService {
    */
   async getThemeAssets(themeId: string, pairCount: number): Promise<ThemeAsset[]> {
     try {
-      const response = await apiClient.get<ThemeAsset[]>(
-        `/api/themes/${themeId}/assets`,
-        { params: { pairCount } }
-      );
+      let assets: ThemeAsset[];
+      if (isCustomThemeId(themeId)) {
+        const theme = await this.getTheme(themeId);
+        assets = theme.cards.map((card, index) => ({
+          id: `${themeId}-${index}`,
+          url: card,
+          type: isImageContent(card) ? 'image' : 'emoji'
+        }));
+      } else {
+        const response = await apiClient.get<ThemeAsset[]>(
+          `/api/themes/${themeId}/assets`,
+          { params: { pairCount } }
+        );
+        assets = response.data || [];
+      }
       
-      const assets = response.data || [];
       if (assets.length < pairCount) {
         throw new Error(`Theme ${themeId} has insufficient assets for ${pairCount} pairs`);
       }
@@ -53,6 +74,15 @@ class ThemesService {
    */
   async getTheme(themeId: string): Promise<Theme> {
     try {
+      // Custom themes only exist on this device
+      if (isCustomThemeId(themeId)) {
+        const theme = await customThemesService.getTheme(themeId);
+        if (!theme) {
+          throw new Error(`Theme ${themeId} not found`);
+        }
+        return theme;
+      }
+      
       const response = await apiClient.get<Theme>(`/api/themes/${themeId}`);
       if (!response.data) {
         throw new Error(`Theme ${themeId} not found`);
@@ -83,6 +113,7 @@ export const themesService = new ThemesService();
 // Export individual methods for convenience
 export const getThemes = () => themesService.getThemes();
 export const getAllThemes = () => themesService.getAllThemes();
+export const getSelectableThemes = () => themesService.getSelectableThemes();
 export const getThemeAssets = (themeId: string, pairCount: number) => 
   themesService.getThemeAssets(themeId, pairCount);
 export const getTheme = (themeId: string) => themesService.getTheme(themeId);
@@ -0,0 +1,50 @@
+import React, { useEffect } from 'react';
+import { useGameStore } from '../../state/store';
+import { Achievement } from '../../types';
+import AchievementBadge from './AchievementBadge';
+
+// How long an unlock stays on screen
+const TOAST_DURATION_MS = 5000;
+
+const AchievementToast: React.FC<{ achievement: Achievement; onDismiss: (id: string) => void }> = ({
+  achievement,
+  onDismiss
+}) => {
+  useEffect(() => {
+    const timeout = setTimeout(() => onDismiss(achievement.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [achievement.id, onDismiss]);
+
+  return (
+    <button
+      onClick={() => onDismiss(achievement.id)}
+      className="block w-72 text-left shadow-lg rounded-lg bg-white dark:bg-gray-800"
+      aria-label={`Dismiss achievement ${achievement.name}`}
+    >
+      <p className="px-4 pt-2 text-xs font-semibold uppercase tracking-wide text-yellow-600 dark:text-yellow-400">
+        {achievement.icon} Achievement unlocked
+      </p>
+      <AchievementBadge achievement={achievement} className="border-0" />
+    </button>
+  );
+};
+
+/**
+ * Shows newly unlocked achievements in the corner of the screen
+ */
+const AchievementToasts: React.FC = () => {
+  const toasts = useGameStore(state => state.achievementToasts);
+  const dismiss = useGameStore(state => state.dismissAchievementToast);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-3" role="status" aria-live="polite">
+      {toasts.map(achievement => (
+        <AchievementToast key={achievement.id} achievement={achievement} onDismiss={dismiss} />
+      ))}
+    </div>
+  );
+};
+
+export default AchievementToasts;
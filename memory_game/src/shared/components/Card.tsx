@@ -1,6 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { isImageContent } from '../../utils/customThemes';
 
 export interface CardProps {
   id: string;
@@ -97,7 +98,11 @@ const Card: React.FC<CardProps> = ({
             transform: 'rotateY(180deg)'
           }}
         >
-          <span className="select-none">{content}</span>
+          {isImageContent(content) ? (
+            <img src={content} alt="" className="w-full h-full object-cover rounded-md select-none" draggable={false} />
+          ) : (
+            <span className="select-none">{content}</span>
+          )}
         </div>
       </motion.div>
     </motion.div>
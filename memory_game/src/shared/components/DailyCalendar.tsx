@@ -0,0 +1,82 @@
+import React from 'react';
+import { DailyCompletion } from '../../types';
+import { getCalendarWeeks } from '../../utils/dailyChallenges';
+
+interface DailyCalendarProps {
+  history: Record<string, DailyCompletion>;
+  /** Last day shown, normally today */
+  endDate: string;
+  weeks?: number;
+  selectedDate?: string | null;
+  onSelect?: (date: string) => void;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const cellColor = (completion?: DailyCompletion): string => {
+  if (!completion) return 'bg-gray-200 dark:bg-gray-700';
+  if (!completion.onTheDay) return 'bg-blue-300 dark:bg-blue-700';
+  // Replaying a day you already won shades it darker
+  return completion.attempts > 1 ? 'bg-green-600 dark:bg-green-400' : 'bg-green-400 dark:bg-green-600';
+};
+
+/**
+ * Heatmap of won daily challenges, one column per week
+ */
+const DailyCalendar: React.FC<DailyCalendarProps> = ({
+  history,
+  endDate,
+  weeks = 12,
+  selectedDate,
+  onSelect
+}) => {
+  const calendar = getCalendarWeeks(endDate, weeks);
+
+  return (
+    <div>
+      <div className="flex gap-1" role="grid" aria-label="Daily challenge calendar">
+        <div className="flex flex-col gap-1 mr-1">
+          {WEEKDAY_LABELS.map((label, index) => (
+            <span key={index} className="h-4 text-[10px] leading-4 text-gray-500 dark:text-gray-400">
+              {label}
+            </span>
+          ))}
+        </div>
+        {calendar.map((week, weekIndex) => (
+          <div key={weekIndex} className="flex flex-col gap-1" role="row">
+            {week.map((date, dayIndex) =>
+              date ? (
+                <button
+                  key={date}
+                  role="gridcell"
+                  onClick={() => onSelect?.(date)}
+                  title={
+                    history[date]
+                      ? `${date}: best ${history[date].bestScore} in ${history[date].bestTime}s${history[date].onTheDay ? '' : ' (practice)'}`
+                      : date
+                  }
+                  aria-label={date}
+                  aria-selected={selectedDate === date}
+                  className={`w-4 h-4 rounded-sm ${cellColor(history[date])} ${
+                    selectedDate === date ? 'ring-2 ring-offset-1 ring-blue-600' : ''
+                  }`}
+                />
+              ) : (
+                <span key={`empty-${dayIndex}`} className="w-4 h-4" />
+              )
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 mt-3 text-xs text-gray-500 dark:text-gray-400">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-gray-200 dark:bg-gray-700" /> Not played</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-blue-300 dark:bg-blue-700" /> Practice</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-400 dark:bg-green-600" /> Won on the day</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-600 dark:bg-green-400" /> Won and replayed</span>
+      </div>
+    </div>
+  );
+};
+
+export default DailyCalendar;
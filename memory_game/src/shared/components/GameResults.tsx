@@ -0,0 +1,123 @@
+import React from 'react';
+import { GameResult } from '../../types';
+import { formatScore } from '../../utils/scoreCalculator';
+import { getGameVariant } from '../../utils/gameVariants';
+
+interface GameResultsProps {
+  result: GameResult;
+  onPlayAgain?: () => void;
+  onWatchReplay?: () => void;
+  className?: string;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+const GameResults: React.FC<GameResultsProps> = ({
+  result,
+  onPlayAgain,
+  onWatchReplay,
+  className = ''
+}) => {
+  const { breakdown } = result;
+
+  const rows = breakdown
+    ? [
+        { label: `Base (${result.difficulty})`, value: `+${formatScore(breakdown.baseScore)}` },
+        { label: `Time penalty (${formatTime(result.time)})`, value: `-${formatScore(breakdown.timePenalty)}` },
+        { label: `Move penalty (${result.moves} moves)`, value: `-${formatScore(breakdown.movePenalty)}` },
+        { label: `Streak bonus (${breakdown.longestStreak} in a row)`, value: `+${formatScore(breakdown.streakBonus)}` },
+        {
+          label: `Combo (avg ${breakdown.averageMatchTime.toFixed(1)}s per match)`,
+          value: `×${breakdown.comboMultiplier.toFixed(2)}`
+        },
+        ...(breakdown.variantBonus
+          ? [{ label: `Bonus (${breakdown.variantBonus.label})`, value: `+${formatScore(breakdown.variantBonus.points)}` }]
+          : [])
+      ]
+    : [];
+
+  const highlights = [
+    result.perfectGame && '💎 Perfect game',
+    result.newBestScore && `🏅 Best ${getGameVariant(result.variant).name} score`,
+    result.newBestTime && '⏱️ New best time',
+    result.newBestMoves && '🎯 New best moves'
+  ].filter(Boolean) as string[];
+
+  return (
+    <div
+      className={`bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 text-center ${className}`}
+      role="status"
+      aria-label={`Game over, score ${result.score}`}
+    >
+      <h2 className={`text-3xl font-bold mb-2 ${result.won ? 'text-green-600 dark:text-green-400' : 'text-gray-700 dark:text-gray-200'}`}>
+        {result.won ? '🎉 Congratulations! 🎉' : 'Game Over'}
+      </h2>
+      <p className="text-5xl font-extrabold text-purple-600 dark:text-purple-400 mb-4 tabular-nums">
+        {formatScore(result.score)}
+      </p>
+
+      {highlights.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2 mb-4">
+          {highlights.map(highlight => (
+            <span
+              key={highlight}
+              className="px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100"
+            >
+              {highlight}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {result.achievementsUnlocked.length > 0 && (
+        <div className="mb-4">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">Achievements unlocked</h3>
+          <div className="flex flex-wrap justify-center gap-2">
+            {result.achievementsUnlocked.map(achievement => (
+              <span
+                key={achievement.id}
+                className="px-3 py-1 rounded-full text-sm font-medium bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100"
+                title={achievement.description}
+              >
+                {achievement.icon} {achievement.name}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <dl className="max-w-sm mx-auto text-sm divide-y divide-gray-200 dark:divide-gray-700 mb-4">
+          {rows.map(row => (
+            <div key={row.label} className="flex justify-between py-2 text-gray-600 dark:text-gray-300">
+              <dt>{row.label}</dt>
+              <dd className="font-mono tabular-nums">{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <div className="flex justify-center gap-4">
+        {onPlayAgain && (
+          <button
+            onClick={onPlayAgain}
+            className="bg-purple-600 hover:bg-purple-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors duration-200"
+          >
+            Play Again
+          </button>
+        )}
+        {onWatchReplay && (
+          <button
+            onClick={onWatchReplay}
+            className="text-purple-600 dark:text-purple-400 font-medium hover:underline"
+          >
+            Watch replay
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GameResults;
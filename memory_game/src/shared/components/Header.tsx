@@ -16,7 +16,9 @@ const Header: React.FC<HeaderProps> = ({ className = '' }) => {
     { href: '#/leaderboard', label: 'Leaderboard', ariaLabel: 'View leaderboard' },
     { href: '#/multiplayer', label: 'Multiplayer', ariaLabel: 'Play multiplayer' },
     { href: '#/settings', label: 'Settings', ariaLabel: 'Open settings' },
-    { href: '#/daily', label: 'Daily', ariaLabel: 'Play daily challenge' }
+    { href: '#/daily', label: 'Daily', ariaLabel: 'Play daily challenge' },
+    { href: '#/replay', label: 'Replays', ariaLabel: 'Watch game replays' },
+    { href: '#/themes', label: 'Themes', ariaLabel: 'Build custom card themes' }
   ];
 
   const handleNavClick = (href: string) => {
@@ -1,5 +1,6 @@
 import React from 'react';
 import { useTheme } from '../../providers/ThemeProvider';
+import { isImageContent } from '../../utils/customThemes';
 
 interface ThemeSelectorProps {
   className?: string;
@@ -37,9 +38,13 @@ export const ThemeSelector: React.FC<ThemeSelectorProps> = ({ className = '' })
               {/* Theme preview icons */}
               <div className="flex justify-center space-x-1 mb-2">
                 {theme.cards?.slice(0, 4).map((icon: string, index: number) => (
-                  <span key={index} className="text-lg" title={icon}>
-                    {icon}
-                  </span>
+                  isImageContent(icon) ? (
+                    <img key={index} src={icon} alt="" className="w-6 h-6 object-cover rounded" />
+                  ) : (
+                    <span key={index} className="text-lg" title={icon}>
+                      {icon}
+                    </span>
+                  )
                 ))}
               </div>
               
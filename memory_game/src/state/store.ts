@@ -6,10 +6,42 @@ import {
   GameDifficulty, 
   PlayerStats, 
   GameSettings,
-  ScoreEntry 
+  ScoreEntry,
+  GameMove,
+  GameRecording,
+  GameResult,
+  GameVariantId,
+  Achievement
 } from '../types/index'
 import { themesService } from '../services/themesService'
-import { shuffle } from '../utils/shuffle'
+import { achievementsService } from '../services/achievementsService'
+import { dailyChallengeService } from '../services/dailyChallengeService'
+import { startTurnGame, applyMove, removePlayer, validateFlip } from '../utils/turnEngine'
+import { buildDeck, generateSeed, getDeckLayout, getGroupCount, RECORDING_VERSION } from '../utils/replay'
+import { isCustomThemeId } from '../utils/customThemes'
+import { getGameVariant } from '../utils/gameVariants'
+import { makeKey, migrateIfNeeded, storeWithVersion, removeStoredData } from '../utils/persistence'
+import { createMatchTracker, recordTurn, MatchTracker } from '../utils/scoreCalculator'
+import { createAchievementCatalog, evaluateAchievements, mergeAchievementCatalog } from '../utils/achievementRules'
+import { getDailyStreak, recordDailyCompletion, toDateKey } from '../utils/dailyChallenges'
+
+/**
+ * An unfinished single-player game, saved so it survives a reload
+ */
+interface SavedGame {
+  deck: Card[]
+  matchedCards: string[]
+  flippedCards: string[]
+  moves: number
+  timeElapsed: number
+  misses: number
+  difficulty: GameDifficulty
+  theme: string
+  variant: GameVariantId
+  matchTracker: MatchTracker
+  recording: GameRecording | null
+  challengeProgress?: GameStore['challengeProgress']
+}
 
 interface GameStore extends GameState {
   // Extended state properties for compatibility
@@ -26,8 +58,31 @@ interface GameStore extends GameState {
   gridSize?: number
   moveCount?: number
   
+  // Recordings of finished games, newest first
+  currentRecording: GameRecording | null
+  recordings: GameRecording[]
+  
+  // Rule set for the current single-player game and the turns that missed
+  currentVariant: GameVariantId
+  misses: number
+  
+  // Match streaks and turn timing for the game in progress, and the scored result of the last game
+  matchTracker: MatchTracker
+  lastGameResult: GameResult | null
+  
+  // Paused games keep their clock stopped and the board hidden
+  isPaused: boolean
+  // Game clock in milliseconds at the moment of pausing, used to shift the recording clock on resume
+  pausedElapsedMs: number
+  // Unfinished game found in storage at startup, offered for resume
+  savedGame: SavedGame | null
+  
+  // Achievement progress, and unlocks waiting to be shown as toasts
+  achievements: Achievement[]
+  achievementToasts: Achievement[]
+  
   // Actions
-  startGame: (difficulty: GameDifficulty, theme: string) => Promise<void>
+  startGame: (difficulty: GameDifficulty, theme: string, variant?: GameVariantId) => Promise<void>
   flipCard: (cardId: string) => void
   endGame: (completed: boolean) => void
   resetGame: () => void
@@ -36,6 +91,11 @@ interface GameStore extends GameState {
   updateSettings: (settings: Partial<GameSettings>) => void
   updatePlayerStats: (stats: Partial<PlayerStats>) => void
   addScoreEntry: (entry: ScoreEntry) => void
+  pauseGame: () => void
+  resumeGame: () => void
+  restoreSavedGame: () => void
+  discardSavedGame: () => void
+  dismissAchievementToast: (achievementId: string) => void
   
   // Extended actions for compatibility
   startChallenge?: (config: any) => void
@@ -44,7 +104,8 @@ interface GameStore extends GameState {
   addPlayerToSession?: (player: any) => void
   removePlayerFromSession?: (playerId: string) => void
   startMultiplayerGame?: (gameState: any) => void
-  applyMultiplayerMove?: (move: any) => void
+  revealMultiplayerCard?: (playerId: string, cardId: string) => void
+  applyMultiplayerMove?: (move: GameMove) => void
   updatePlayerReady?: (playerId: string, isReady: boolean) => void
   endMultiplayerGame?: (results: any) => void
 }
@@ -118,6 +179,18 @@ const initialState: GameState = {
 // Persistence keys
 const STORAGE_KEY = 'memorygame:v1:store'
 
+// Number of game recordings kept for replay
+const MAX_RECORDINGS = 20
+
+// Unfinished game save, bumped when SavedGame changes shape
+const SAVED_GAME_KEY = makeKey('game', 'inProgress')
+const SAVED_GAME_VERSION = '1'
+
+// Milliseconds of play on the recording's clock; resumeGame shifts startedAt past paused time
+function getElapsedMs(recording: GameRecording | null, timeElapsed: number): number {
+  return recording ? Date.now() - Date.parse(recording.startedAt) : timeElapsed * 1000
+}
+
 // Additional state removed - using only GameState interface properties
 
 export const useGameStore = create<GameStore>()(
@@ -132,43 +205,33 @@ export const useGameStore = create<GameStore>()(
     difficulty: initialState.currentDifficulty,
     playerName: initialState.settings.playerName,
     gridSize: 4, // Default grid size
+    currentRecording: null,
+    recordings: [],
+    currentVariant: 'classic',
+    misses: 0,
+    isPaused: false,
+    pausedElapsedMs: 0,
+    savedGame: null,
+    matchTracker: createMatchTracker(),
+    lastGameResult: null,
+    achievements: createAchievementCatalog(),
+    achievementToasts: [],
     
-    startGame: async (difficulty: GameDifficulty, theme: string) => {
+    startGame: async (difficulty: GameDifficulty, theme: string, variant: GameVariantId = get().currentVariant) => {
       try {
         const themeData = await themesService.getTheme(theme)
         if (!themeData) return
-          
-          const cardCount = difficulty === 'easy' ? 8 : difficulty === 'medium' ? 18 : difficulty === 'expert' ? 32 : 16
-          const gridSize = difficulty === 'easy' ? 4 : difficulty === 'medium' ? 6 : difficulty === 'expert' ? 8 : 4
-          const cards: Card[] = []
-          
-          // Create pairs of cards
-          for (let i = 0; i < cardCount; i++) {
-            const cardValue = themeData.cards[i % themeData.cards.length]
-          cards.push(
-            {
-              id: `${i}-a`,
-              content: cardValue,
-              value: cardValue,
-              image: cardValue,
-              isFlipped: false,
-              isMatched: false,
-              pairId: i.toString()
-            },
-            {
-              id: `${i}-b`,
-              content: cardValue,
-              value: cardValue,
-              image: cardValue,
-              isFlipped: false,
-              isMatched: false,
-              pairId: i.toString()
-            }
-          )
+        
+        const { groupSize } = getGameVariant(variant)
+        // Player-made themes may be too small for the grid; throws when short of cards
+        if (isCustomThemeId(theme)) {
+          await themesService.getThemeAssets(theme, getGroupCount(difficulty, groupSize))
         }
         
-        // Shuffle the deck
-        const shuffledDeck = shuffle(cards)
+        // Seeded so the game can be rebuilt from its recording
+        const seed = generateSeed()
+        const { gridSize } = getDeckLayout(difficulty)
+        const shuffledDeck = buildDeck(themeData.cards, difficulty, seed, groupSize)
         
         set({
           deck: shuffledDeck,
@@ -190,6 +253,28 @@ export const useGameStore = create<GameStore>()(
           moveCount: 0,
           difficulty: difficulty,
           gridSize: gridSize,
+          currentVariant: variant,
+          misses: 0,
+          isPaused: false,
+          savedGame: null,
+          matchTracker: createMatchTracker(),
+          lastGameResult: null,
+          currentRecording: {
+            id: `rec-${Date.now()}`,
+            version: RECORDING_VERSION,
+            seed,
+            difficulty,
+            theme,
+            flipDelay: get().settings.flipDelay ?? 1000,
+            startedAt: new Date().toISOString(),
+            flips: [],
+            completed: false,
+            moves: 0,
+            timeElapsed: 0,
+            score: 0,
+            playerName: get().settings.playerName,
+            variant
+          },
         })
         
         // Start timer
@@ -201,7 +286,10 @@ export const useGameStore = create<GameStore>()(
     
     flipCard: (cardId: string) => {
       const state = get()
-      if (!state.isGameActive || state.isGameComplete) return
+      if (!state.isGameActive || state.isGameComplete || state.isPaused) return
+      
+      const variant = getGameVariant(state.currentVariant)
+      if (state.flippedCards.length >= variant.groupSize) return
       
       const card = state.deck.find(c => c.id === cardId)
       if (!card || card.isFlipped || card.isMatched) return
@@ -213,24 +301,36 @@ export const useGameStore = create<GameStore>()(
         c.id === cardId ? { ...c, isFlipped: true } : c
       )
       
+      // Offsets come from the recording's clock so the server can re-derive the same timings
+      const recording = state.currentRecording
+      const elapsedMs = getElapsedMs(recording, state.timeElapsed)
+      
       set({
         deck: newDeck,
         flippedCards: newFlippedCards,
         moves: state.moves + 1,
+        currentRecording: recording && {
+          ...recording,
+          flips: [...recording.flips, [cardId, elapsedMs]]
+        },
         // Update compatibility properties
         cardDeck: newDeck,
         moveCount: state.moves + 1
       })
       
-      // Check for match when 2 cards are flipped
-      if (newFlippedCards.length === 2) {
-        const [firstCardId, secondCardId] = newFlippedCards
-        const firstCard = newDeck.find(c => c.id === firstCardId)
-        const secondCard = newDeck.find(c => c.id === secondCardId)
+      // Resolve the turn once a full group is face up; the variant decides what matches
+      if (newFlippedCards.length === variant.groupSize) {
+        const group = newFlippedCards
+          .map(id => newDeck.find(c => c.id === id))
+          .filter((c): c is Card => !!c)
+        
+        const isMatch = group.length === variant.groupSize && variant.isMatch(group)
+        const misses = isMatch ? state.misses : state.misses + 1
+        set({ matchTracker: recordTurn(state.matchTracker, isMatch, elapsedMs), misses })
         
-        if (firstCard && secondCard && firstCard.pairId === secondCard.pairId) {
+        if (isMatch) {
           // Match found
-          const newMatchedCards = [...state.matchedCards, firstCardId, secondCardId]
+          const newMatchedCards = [...state.matchedCards, ...newFlippedCards]
           const updatedDeck = newDeck.map(c => 
             newMatchedCards.includes(c.id) ? { ...c, isMatched: true } : c
           )
@@ -242,16 +342,11 @@ export const useGameStore = create<GameStore>()(
             // Update compatibility properties
             cardDeck: updatedDeck
           })
-          
-          // Check if game is complete
-          if (newMatchedCards.length === newDeck.length) {
-            get().endGame(true)
-          }
         } else {
           // No match - flip cards back after delay
           setTimeout(() => {
             const currentState = get()
-            if (currentState.flippedCards.length === 2) {
+            if (currentState.flippedCards.length === variant.groupSize) {
               const updatedDeck = currentState.deck.map(c => 
                 newFlippedCards.includes(c.id) ? { ...c, isFlipped: false } : c
               )
@@ -264,6 +359,17 @@ export const useGameStore = create<GameStore>()(
             }
           }, state.settings.flipDelay)
         }
+        
+        // Check if the game is over
+        const outcome = variant.getOutcome({
+          matchedCards: get().matchedCards.length,
+          deckSize: newDeck.length,
+          misses,
+          timeElapsed: state.timeElapsed
+        }, state.currentDifficulty)
+        if (outcome) {
+          get().endGame(outcome === 'won')
+        }
       }
     },
     
@@ -273,28 +379,45 @@ export const useGameStore = create<GameStore>()(
       state.stopTimer()
       
       const gameWon = completed && state.matchedCards.length === state.deck.length
+      const variant = getGameVariant(state.currentVariant)
+      const isDailyChallenge = !!state.challengeProgress?.inProgress
+      // Past days replayed from the archive are practice: they fill the calendar but are not ranked or part of streaks
+      const challengeDate: string = state.challengeProgress?.date ?? toDateKey()
+      const isChallengeDay = challengeDate === toDateKey()
       
       // Update player stats
       const newStats: PlayerStats = {
         ...state.playerStats,
+        bestTimes: { ...state.playerStats.bestTimes },
+        bestMoves: { ...state.playerStats.bestMoves },
         totalGamesPlayed: state.playerStats.totalGamesPlayed + 1,
         totalGamesWon: gameWon ? state.playerStats.totalGamesWon + 1 : state.playerStats.totalGamesWon,
         totalMoves: state.playerStats.totalMoves + state.moves,
-        totalTimeSpent: state.playerStats.totalTimeSpent + state.timeElapsed
+        totalTimeSpent: state.playerStats.totalTimeSpent + state.timeElapsed,
+        // Each day counts once however often it is replayed
+        dailyChallengesCompleted: isDailyChallenge && gameWon && !state.playerStats.dailyHistory?.[challengeDate]
+          ? state.playerStats.dailyChallengesCompleted + 1
+          : state.playerStats.dailyChallengesCompleted
       }
       
-      // Update best time and moves if won
-      if (gameWon) {
+      // Best time and moves only compare like with like, so only classic games count
+      let newBestTime = false
+      let newBestMoves = false
+      if (gameWon && variant.id === 'classic') {
         const currentBestTime = newStats.bestTimes[state.currentDifficulty]
         if (!currentBestTime || state.timeElapsed < currentBestTime) {
           newStats.bestTimes[state.currentDifficulty] = state.timeElapsed
+          newBestTime = true
         }
         
         const currentBestMoves = newStats.bestMoves[state.currentDifficulty]
         if (!currentBestMoves || state.moves < currentBestMoves) {
           newStats.bestMoves[state.currentDifficulty] = state.moves
+          newBestMoves = true
         }
-        
+      }
+      
+      if (gameWon) {
         newStats.currentStreak = state.playerStats.currentStreak + 1
         newStats.longestStreak = Math.max(newStats.longestStreak, newStats.currentStreak)
       } else {
@@ -306,15 +429,90 @@ export const useGameStore = create<GameStore>()(
       newStats.averageMoves = newStats.totalGamesPlayed > 0 ? newStats.totalMoves / newStats.totalGamesPlayed : 0
       newStats.averageTime = newStats.totalGamesPlayed > 0 ? newStats.totalTimeSpent / newStats.totalGamesPlayed : 0
       
+      const theme = typeof state.currentTheme === 'string' ? state.currentTheme : state.currentTheme.id
+      const breakdown = variant.score({
+        moves: state.moves,
+        seconds: state.timeElapsed,
+        misses: state.misses,
+        difficulty: state.currentDifficulty,
+        tracker: state.matchTracker
+      })
+      
+      // Each variant keeps its own best-score table
+      let newBestScore = false
+      if (gameWon) {
+        const table = newStats.variantBestScores?.[variant.id] ?? { easy: null, medium: null, hard: null, expert: null }
+        const currentBest = table[state.currentDifficulty]
+        if (currentBest === null || breakdown.total > currentBest) {
+          newStats.variantBestScores = {
+            ...newStats.variantBestScores,
+            [variant.id]: { ...table, [state.currentDifficulty]: breakdown.total }
+          }
+          newBestScore = true
+        }
+      }
+      
+      if (isDailyChallenge && gameWon) {
+        newStats.dailyHistory = recordDailyCompletion(state.playerStats.dailyHistory ?? {}, {
+          date: challengeDate,
+          bestScore: breakdown.total,
+          bestTime: state.timeElapsed,
+          onTheDay: isChallengeDay
+        })
+        newStats.dailyStreak = getDailyStreak(newStats.dailyHistory)
+        newStats.longestDailyStreak = Math.max(newStats.longestDailyStreak ?? 0, newStats.dailyStreak)
+      }
+      
+      const gameResult: GameResult = {
+        won: gameWon,
+        score: breakdown.total,
+        moves: state.moves,
+        time: state.timeElapsed,
+        misses: state.misses,
+        difficulty: state.currentDifficulty,
+        theme,
+        // Every turn found a pair, so each card was flipped exactly once
+        perfectGame: gameWon && state.moves === state.deck.length,
+        newBestTime,
+        newBestMoves,
+        newBestScore,
+        achievementsUnlocked: [],
+        breakdown,
+        variant: variant.id
+      }
+      
+      // A daily challenge counts as a game as well as a daily completion
+      let achievements = state.achievements
+      const events = isDailyChallenge
+        ? (['game_completed', 'daily_challenge_completed'] as const)
+        : (['game_completed'] as const)
+      for (const type of events) {
+        const evaluation = evaluateAchievements(achievements, { type, result: gameResult, stats: newStats })
+        achievements = evaluation.achievements
+        gameResult.achievementsUnlocked.push(...evaluation.unlocked)
+      }
+      newStats.achievements = achievements.filter(a => a.unlocked).map(a => a.id)
+      
       // Create score entry
       const scoreEntry: ScoreEntry = {
         id: Date.now().toString(),
-        score: state.timeElapsed,
+        score: breakdown.total,
         moves: state.moves,
+        time: state.timeElapsed,
         difficulty: state.currentDifficulty,
-        theme: typeof state.currentTheme === 'string' ? state.currentTheme : state.currentTheme.id,
+        theme,
         completed: gameWon,
-        date: new Date().toISOString()
+        date: new Date().toISOString(),
+        recordingId: state.currentRecording?.id,
+        variant: variant.id
+      }
+      
+      const recording = state.currentRecording && {
+        ...state.currentRecording,
+        completed: gameWon,
+        moves: state.moves,
+        timeElapsed: state.timeElapsed,
+        score: scoreEntry.score
       }
       
       set({
@@ -323,6 +521,18 @@ export const useGameStore = create<GameStore>()(
         isGameWon: gameWon,
         playerStats: newStats,
         lastGameScore: scoreEntry,
+        lastGameResult: gameResult,
+        achievements,
+        achievementToasts: [...state.achievementToasts, ...gameResult.achievementsUnlocked],
+        challengeProgress: isDailyChallenge
+          ? { ...state.challengeProgress, completed: gameWon, inProgress: false }
+          : state.challengeProgress,
+        currentRecording: null,
+        isPaused: false,
+        savedGame: null,
+        recordings: recording
+          ? [recording, ...state.recordings].slice(0, MAX_RECORDINGS)
+          : state.recordings,
         // Update compatibility properties
         gameStarted: false,
         victory: gameWon
@@ -332,6 +542,26 @@ export const useGameStore = create<GameStore>()(
       if (gameWon) {
         get().addScoreEntry(scoreEntry)
       }
+      
+      // A finished game is no longer resumable
+      removeStoredData(SAVED_GAME_KEY)
+      
+      // Keep the server's copy in step; the local unlock stands if this fails
+      const playerId = state.settings.playerName || 'Player'
+      gameResult.achievementsUnlocked.forEach(achievement => {
+        achievementsService.awardAchievement(playerId, achievement.id).catch(() => undefined)
+      })
+      
+      // Each day has its own leaderboard, open only while it is that day
+      if (isDailyChallenge && gameWon && isChallengeDay) {
+        dailyChallengeService.submitCompletion({
+          date: challengeDate,
+          playerName: playerId,
+          score: breakdown.total,
+          moves: state.moves,
+          timeElapsed: state.timeElapsed
+        })
+      }
     },
     
     resetGame: () => {
@@ -349,6 +579,11 @@ export const useGameStore = create<GameStore>()(
         isGameWon: false,
         timerInterval: null,
         lastGameScore: null,
+        lastGameResult: null,
+        currentRecording: null,
+        misses: 0,
+        isPaused: false,
+        matchTracker: createMatchTracker(),
         // Update compatibility properties
         cardDeck: [],
         timer: 0,
@@ -361,17 +596,31 @@ export const useGameStore = create<GameStore>()(
     
     startTimer: () => {
       const state = get()
-      if (state.timerInterval) return
+      if (state.timerInterval || state.isPaused) return
       
       const interval = setInterval(() => {
         const currentState = get()
         if (currentState.isGameActive && !currentState.isGameComplete) {
-          const newTime = currentState.timeElapsed + 1
+          // Read from the recording's clock so pauses can't drop partial seconds
+          const newTime = currentState.currentRecording
+            ? Math.floor(getElapsedMs(currentState.currentRecording, currentState.timeElapsed) / 1000)
+            : currentState.timeElapsed + 1
           set({ 
             timeElapsed: newTime,
             // Update compatibility property
             timer: newTime
           })
+          
+          // Timed variants can end the game on the clock
+          const outcome = getGameVariant(currentState.currentVariant).getOutcome({
+            matchedCards: currentState.matchedCards.length,
+            deckSize: currentState.deck.length,
+            misses: currentState.misses,
+            timeElapsed: newTime
+          }, currentState.currentDifficulty)
+          if (outcome === 'lost') {
+            get().endGame(false)
+          }
         }
       }, 1000)
       
@@ -407,14 +656,102 @@ export const useGameStore = create<GameStore>()(
     addScoreEntry: (entry: ScoreEntry) => {
       const state = get()
       const newScores = [...state.bestScores, entry]
-        .sort((a, b) => a.score - b.score)
+        .sort((a, b) => b.score - a.score)
         .slice(0, 10) // Keep only top 10
       
       set({ bestScores: newScores })
     },
     
+    pauseGame: () => {
+      const state = get()
+      if (!state.isGameActive || state.isGameComplete || state.isPaused) return
+      // Multiplayer turns keep going for everyone else
+      if (state.multiplayerSession) return
+      
+      state.stopTimer()
+      const recording = state.currentRecording
+      set({
+        isPaused: true,
+        pausedElapsedMs: getElapsedMs(recording, state.timeElapsed)
+      })
+    },
+    
+    resumeGame: () => {
+      const state = get()
+      if (!state.isPaused) return
+      
+      // Move the recording's start forward so flip offsets skip the paused time
+      const recording = state.currentRecording
+      set({
+        isPaused: false,
+        currentRecording: recording && {
+          ...recording,
+          startedAt: new Date(Date.now() - state.pausedElapsedMs).toISOString()
+        }
+      })
+      get().startTimer()
+    },
+    
+    restoreSavedGame: () => {
+      const state = get()
+      const saved = state.savedGame
+      if (!saved) return
+      
+      state.stopTimer()
+      const variant = getGameVariant(saved.variant)
+      
+      // A mismatched group was waiting to flip back when the game was saved
+      const flippedCards = saved.flippedCards.length === variant.groupSize ? [] : saved.flippedCards
+      const deck = saved.deck.map(card => ({
+        ...card,
+        isFlipped: flippedCards.includes(card.id) || saved.matchedCards.includes(card.id)
+      }))
+      const lastFlip = saved.recording?.flips[saved.recording.flips.length - 1]
+      
+      set({
+        deck,
+        flippedCards,
+        matchedCards: saved.matchedCards,
+        moves: saved.moves,
+        timeElapsed: saved.timeElapsed,
+        misses: saved.misses,
+        isGameActive: true,
+        isGameComplete: false,
+        isGameWon: false,
+        currentDifficulty: saved.difficulty,
+        currentTheme: saved.theme,
+        currentVariant: variant.id,
+        matchTracker: saved.matchTracker,
+        currentRecording: saved.recording,
+        challengeProgress: saved.challengeProgress,
+        lastGameResult: null,
+        // Resumes paused, so the player chooses when the clock restarts
+        isPaused: true,
+        pausedElapsedMs: Math.max(lastFlip ? lastFlip[1] : 0, saved.timeElapsed * 1000),
+        savedGame: null,
+        // Update compatibility properties
+        cardDeck: deck,
+        timer: saved.timeElapsed,
+        victory: false,
+        gameStarted: true,
+        moveCount: saved.moves,
+        difficulty: saved.difficulty,
+        gridSize: getDeckLayout(saved.difficulty).gridSize
+      })
+    },
+    
+    discardSavedGame: () => {
+      removeStoredData(SAVED_GAME_KEY)
+      set({ savedGame: null })
+    },
+    
+    dismissAchievementToast: (achievementId: string) => {
+      set({ achievementToasts: get().achievementToasts.filter(a => a.id !== achievementId) })
+    },
+    
     // Daily Challenge methods
     startChallenge: (config: any) => {
+      get().stopTimer()
       const gridSize = config.difficulty === 'easy' ? 4 : config.difficulty === 'medium' ? 6 : 8;
       set({
         deck: config.deck || [],
@@ -429,8 +766,19 @@ export const useGameStore = create<GameStore>()(
         timeElapsed: 0,
         challengeProgress: {
           completed: false,
-          inProgress: true
+          inProgress: true,
+          date: config.date,
+          practice: !!config.practice
         },
+        // Daily challenges are always classic games
+        currentVariant: 'classic',
+        misses: 0,
+        isPaused: false,
+        savedGame: null,
+        matchTracker: createMatchTracker(),
+        lastGameResult: null,
+        // Daily decks aren't dealt by buildDeck, so they can't be recorded for replay
+        currentRecording: null,
         cardDeck: config.deck || [],
         timer: 0,
         victory: false,
@@ -442,7 +790,7 @@ export const useGameStore = create<GameStore>()(
       get().startTimer();
     },
     
-    // Multiplayer methods (stub implementations)
+    // Multiplayer methods - turn rules live in utils/turnEngine
     setMultiplayerSession: (session: any) => {
       set({ multiplayerSession: session });
     },
@@ -466,30 +814,81 @@ export const useGameStore = create<GameStore>()(
     removePlayerFromSession: (playerId: string) => {
       const state = get();
       if (state.multiplayerSession) {
-        set({
-          multiplayerSession: {
-            ...state.multiplayerSession,
-            players: (state.multiplayerSession.players || []).filter((p: any) => p.id !== playerId)
-          }
-        });
+        const session = removePlayer(state.multiplayerSession, playerId);
+        set({ multiplayerSession: session });
+        if (session.gameState === 'finished' && state.multiplayerSession.gameState === 'playing') {
+          get().endMultiplayerGame?.({ winner: session.winner, players: session.players });
+        }
       }
     },
     
     startMultiplayerGame: (gameState: any) => {
-      set({ 
-        gameBoard: gameState.cards || [],
-        isGameActive: true,
-        gameStarted: true,
-        multiplayerSession: {
-          ...get().multiplayerSession,
-          status: 'active'
-        }
-      });
+      const state = get();
+      if (!state.multiplayerSession) return;
+
+      try {
+        const session = startTurnGame(state.multiplayerSession, gameState.cards || []);
+        state.stopTimer();
+        set({ 
+          gameBoard: session.deck,
+          isGameActive: true,
+          isGameComplete: false,
+          gameStarted: true,
+          moves: 0,
+          moveCount: 0,
+          timeElapsed: 0,
+          timer: 0,
+          currentVariant: 'classic',
+          misses: 0,
+          isPaused: false,
+          // The server deals multiplayer decks, so there is no local recording to keep
+          currentRecording: null,
+          multiplayerSession: session
+        });
+        get().startTimer();
+      } catch (error) {
+        console.error('Failed to start multiplayer game:', error);
+      }
     },
     
-    applyMultiplayerMove: (move: any) => {
-      // Stub implementation
-      console.log('Applying multiplayer move:', move);
+    revealMultiplayerCard: (playerId: string, cardId: string) => {
+      const session = get().multiplayerSession;
+      if (!session || validateFlip(session, playerId, cardId)) return;
+
+      // A flip after a resolved pair starts the next turn's reveal
+      const previous = session.revealedCards ?? [];
+      const revealedCards = previous.length >= 2 ? [] : previous;
+      if (revealedCards.includes(cardId)) return;
+      set({ multiplayerSession: { ...session, revealedCards: [...revealedCards, cardId] } });
+    },
+    
+    applyMultiplayerMove: (move: GameMove) => {
+      const state = get();
+      if (!state.multiplayerSession) return;
+
+      try {
+        const outcome = applyMove(state.multiplayerSession, move);
+        // The resolved pair stays face up for the flip delay so everyone sees how the turn ended
+        const session = { ...outcome.session, revealedCards: outcome.move.cardIds };
+        set({
+          multiplayerSession: session,
+          gameBoard: session.deck,
+          moves: state.moves + 1,
+          moveCount: state.moves + 1
+        });
+        setTimeout(() => {
+          const current = get().multiplayerSession;
+          if (current?.revealedCards === session.revealedCards) {
+            set({ multiplayerSession: { ...current, revealedCards: [] } });
+          }
+        }, state.settings.flipDelay ?? 1000);
+
+        if (session.gameState === 'finished') {
+          get().endMultiplayerGame?.({ winner: session.winner, players: session.players });
+        }
+      } catch (error) {
+        console.warn('Rejected multiplayer move:', error);
+      }
     },
     
     updatePlayerReady: (playerId: string, isReady: boolean) => {
@@ -508,12 +907,22 @@ export const useGameStore = create<GameStore>()(
     },
     
     endMultiplayerGame: (results: any) => {
+      const state = get();
+      // The last matching move and the server's game_ended both finish the game
+      if (state.isGameComplete) return;
+      state.stopTimer();
+
+      const session = state.multiplayerSession;
       set({
         isGameActive: false,
+        isGameComplete: true,
         gameStarted: false,
-        multiplayerSession: {
-          ...get().multiplayerSession,
-          status: 'finished',
+        multiplayerSession: session && {
+          ...session,
+          gameState: 'finished',
+          currentTurn: undefined,
+          endedAt: session.endedAt ?? new Date().toISOString(),
+          winner: session.winner ?? results?.winner,
           results
         }
       });
@@ -527,7 +936,9 @@ if (typeof window !== 'undefined') {
     (state) => ({
       playerStats: state.playerStats,
       settings: state.settings,
-      bestScores: state.bestScores
+      bestScores: state.bestScores,
+      recordings: state.recordings,
+      achievements: state.achievements
     }),
     (persistedData) => {
       try {
@@ -547,16 +958,63 @@ if (typeof window !== 'undefined') {
       useGameStore.setState({
         playerStats: persistedData.playerStats || initialState.playerStats,
         settings: persistedData.settings || initialState.settings,
-        bestScores: persistedData.bestScores || initialState.bestScores
+        // Entries without a time predate point scoring and stored seconds as their score
+        bestScores: (persistedData.bestScores || initialState.bestScores)
+          .filter((entry: ScoreEntry) => entry.time !== undefined),
+        recordings: persistedData.recordings || [],
+        achievements: mergeAchievementCatalog(persistedData.achievements || [])
       })
     }
   } catch (error) {
     console.warn('Failed to load persisted game state:', error)
   }
+  
+  // Save the single-player game in progress on every change so a reload can resume it
+  useGameStore.subscribe(
+    (state): SavedGame | null => state.isGameActive && !state.isGameComplete && !state.multiplayerSession && state.deck.length > 0
+      ? {
+          deck: state.deck,
+          matchedCards: state.matchedCards,
+          flippedCards: state.flippedCards,
+          moves: state.moves,
+          timeElapsed: state.timeElapsed,
+          misses: state.misses,
+          difficulty: state.currentDifficulty,
+          theme: typeof state.currentTheme === 'string' ? state.currentTheme : state.currentTheme.id,
+          variant: state.currentVariant,
+          matchTracker: state.matchTracker,
+          recording: state.currentRecording,
+          challengeProgress: state.challengeProgress
+        }
+      : null,
+    (savedGame) => {
+      if (savedGame) storeWithVersion(SAVED_GAME_KEY, savedGame, SAVED_GAME_VERSION)
+    },
+    { equalityFn: (a, b) => JSON.stringify(a) === JSON.stringify(b) }
+  )
+  
+  // Games left unfinished by a previous visit; incompatible saves are dropped
+  const savedGame = migrateIfNeeded<SavedGame>(SAVED_GAME_KEY, SAVED_GAME_VERSION)
+  if (savedGame) {
+    useGameStore.setState({ savedGame })
+  }
+  
+  // Stop the clock while the tab is hidden, and restart it on return unless the player paused first
+  let pausedWhileHidden = false
+  document.addEventListener('visibilitychange', () => {
+    const state = useGameStore.getState()
+    if (document.hidden) {
+      pausedWhileHidden = state.isGameActive && !state.isPaused && !state.multiplayerSession
+      state.pauseGame()
+    } else if (pausedWhileHidden) {
+      pausedWhileHidden = false
+      state.resumeGame()
+    }
+  })
 }
 
 // Export alias for backward compatibility
 export const useStore = useGameStore;
 
 // Export type for external use
-export type { GameStore };
+export type { GameStore, SavedGame };
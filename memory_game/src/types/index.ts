@@ -10,6 +10,8 @@ export interface Card {
 
 export type GameDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
 export type GameMode = 'single' | 'multiplayer' | 'daily';
+/** Rule set for a single-player game, see utils/gameVariants */
+export type GameVariantId = 'classic' | 'triples' | 'time_attack' | 'lives';
 export type Difficulty = GameDifficulty;
 
 export interface Theme {
@@ -45,6 +47,25 @@ export interface PlayerStats {
   achievements: string[];
   favoriteTheme?: string;
   dailyChallengesCompleted: number;
+  /** Best score per variant and difficulty; variants score differently so each keeps its own table */
+  variantBestScores?: Partial<Record<GameVariantId, Record<GameDifficulty, number | null>>>;
+  /** Won daily challenges by challenge date */
+  dailyHistory?: Record<string, DailyCompletion>;
+  /** Consecutive days the daily challenge was won on the day */
+  dailyStreak?: number;
+  longestDailyStreak?: number;
+}
+
+/**
+ * The player's best result for one day's challenge
+ */
+export interface DailyCompletion {
+  date: string;
+  bestScore: number;
+  bestTime: number;
+  attempts: number;
+  /** Won on the challenge's own day rather than practised later from the archive */
+  onTheDay: boolean;
 }
 
 export interface GameSettings {
@@ -92,6 +113,29 @@ export interface ScoreEntry {
   theme: string;
   date: string;
   completed?: boolean;
+  recordingId?: string;
+  variant?: GameVariantId;
+}
+
+/** A single card flip: the card id and milliseconds since the game started */
+export type RecordedFlip = [cardId: string, elapsedMs: number];
+
+export interface GameRecording {
+  id: string;
+  version: number;
+  seed: number;
+  difficulty: GameDifficulty;
+  theme: string;
+  flipDelay: number;
+  startedAt: string;
+  flips: RecordedFlip[];
+  completed: boolean;
+  moves: number;
+  timeElapsed: number;
+  score: number;
+  playerName?: string;
+  /** Missing on recordings made before variants existed, which are classic games */
+  variant?: GameVariantId;
 }
 
 export interface LeaderboardEntry {
@@ -175,22 +219,44 @@ export interface MultiplayerSession {
   currentTurn?: string;
   deck: Card[];
   settings: GameSettings;
+  /** Cards of a custom theme, which only exists on the host's device */
+  themeCards?: string[];
+  /** Cards face up in the current turn, so every device sees the turn as it is played */
+  revealedCards?: string[];
   startedAt?: string;
   endedAt?: string;
   winner?: Player;
 }
 
+export interface ScoreBreakdown {
+  baseScore: number;
+  timePenalty: number;
+  movePenalty: number;
+  streakBonus: number;
+  comboMultiplier: number;
+  longestStreak: number;
+  averageMatchTime: number;
+  /** Extra points a variant awards, e.g. for time or lives left */
+  variantBonus?: { label: string; points: number };
+  total: number;
+}
+
 export interface GameResult {
   won: boolean;
   score: number;
   moves: number;
   time: number;
+  /** Turns that did not find a match, as counted during the game */
+  misses: number;
   difficulty: GameDifficulty;
   theme: string;
   perfectGame: boolean;
   newBestTime: boolean;
   newBestMoves: boolean;
   achievementsUnlocked: Achievement[];
+  breakdown?: ScoreBreakdown;
+  variant?: GameVariantId;
+  newBestScore?: boolean;
 }
 
 export interface ApiResponse<T = any> {
@@ -202,6 +268,16 @@ export interface ApiResponse<T = any> {
   status?: number;
 }
 
+/** Why the server refused a leaderboard submission, found in ApiError.details.reason */
+export type ScoreRejectionReason =
+  | 'invalid_submission'
+  | 'unknown_theme'
+  | 'illegal_move'
+  | 'incomplete_game'
+  | 'moves_mismatch'
+  | 'time_mismatch'
+  | 'score_mismatch';
+
 export interface ApiError {
   code: string;
   message: string;
@@ -0,0 +1,170 @@
+/**
+ * Declarative achievement rules
+ *
+ * Each rule describes an achievement and how far a game event moves it
+ * towards being unlocked. Evaluation is pure so rules can be checked
+ * against plain GameResult and PlayerStats values without the UI.
+ */
+
+import type { Achievement, GameResult, PlayerStats } from '../types/index';
+
+/**
+ * Something that happened which may advance achievements
+ * A finished daily challenge raises both a game and a daily event
+ */
+export interface AchievementEvent {
+  type: 'game_completed' | 'daily_challenge_completed';
+  result: GameResult;
+  /** Player stats after the game has been counted */
+  stats: PlayerStats;
+}
+
+/**
+ * An achievement definition plus the rule that unlocks it
+ */
+export interface AchievementRule extends Omit<Achievement, 'unlocked' | 'unlockedAt' | 'progress' | 'maxProgress'> {
+  /** Events the rule listens to */
+  on: AchievementEvent['type'][];
+  maxProgress: number;
+  /** Absolute progress after the event; progress never goes down */
+  evaluate: (event: AchievementEvent) => number;
+}
+
+/** Longest game, in seconds, that still counts as fast */
+export const SPEED_DEMON_SECONDS = 30;
+
+/** Wrong matches allowed on an expert grid for Memory Master */
+export const MEMORY_MASTER_MAX_MISSES = 20;
+
+/**
+ * Rule unlocked by a single event that satisfies the predicate
+ */
+function oneShot(
+  definition: Omit<AchievementRule, 'on' | 'maxProgress' | 'evaluate'>,
+  on: AchievementEvent['type'],
+  predicate: (event: AchievementEvent) => boolean
+): AchievementRule {
+  return { ...definition, on: [on], maxProgress: 1, evaluate: event => (predicate(event) ? 1 : 0) };
+}
+
+/**
+ * Rule whose progress tracks a running total in the player's stats
+ */
+function counter(
+  definition: Omit<AchievementRule, 'on' | 'maxProgress' | 'evaluate'>,
+  on: AchievementEvent['type'],
+  maxProgress: number,
+  select: (stats: PlayerStats) => number
+): AchievementRule {
+  return { ...definition, on: [on], maxProgress, evaluate: event => select(event.stats) };
+}
+
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  oneShot(
+    { id: 'first_win', name: 'First Victory', description: 'Win your first game', icon: '🏆', category: 'gameplay', points: 10, rarity: 'common' },
+    'game_completed',
+    ({ result }) => result.won
+  ),
+  oneShot(
+    { id: 'speed_demon', name: 'Speed Demon', description: `Complete a game in under ${SPEED_DEMON_SECONDS} seconds`, icon: '⚡', category: 'gameplay', points: 25, rarity: 'rare' },
+    'game_completed',
+    ({ result }) => result.won && result.time < SPEED_DEMON_SECONDS
+  ),
+  oneShot(
+    { id: 'memory_master', name: 'Memory Master', description: `Complete an expert grid with fewer than ${MEMORY_MASTER_MAX_MISSES} wrong matches`, icon: '🧠', category: 'gameplay', points: 50, rarity: 'epic' },
+    'game_completed',
+    ({ result }) => result.won && result.difficulty === 'expert' && (result.variant ?? 'classic') === 'classic'
+      && result.misses < MEMORY_MASTER_MAX_MISSES
+  ),
+  oneShot(
+    { id: 'perfectionist', name: 'Perfectionist', description: 'Complete a game without any wrong matches', icon: '💎', category: 'gameplay', points: 100, rarity: 'legendary' },
+    'game_completed',
+    ({ result }) => result.perfectGame
+  ),
+  oneShot(
+    { id: 'daily_champion', name: 'Daily Champion', description: 'Win a daily challenge', icon: '🌟', category: 'special', points: 30, rarity: 'rare' },
+    'daily_challenge_completed',
+    ({ result }) => result.won
+  ),
+  counter(
+    { id: 'dedicated', name: 'Dedicated', description: 'Play 50 games', icon: '🎮', category: 'collection', points: 20, rarity: 'common' },
+    'game_completed',
+    50,
+    stats => stats.totalGamesPlayed
+  ),
+  counter(
+    { id: 'on_a_roll', name: 'On a Roll', description: 'Win 5 games in a row', icon: '🔥', category: 'gameplay', points: 40, rarity: 'rare' },
+    'game_completed',
+    5,
+    stats => stats.longestStreak
+  ),
+  counter(
+    { id: 'daily_regular', name: 'Daily Regular', description: 'Complete 7 daily challenges', icon: '📅', category: 'special', points: 50, rarity: 'epic' },
+    'daily_challenge_completed',
+    7,
+    stats => stats.dailyChallengesCompleted
+  )
+];
+
+/**
+ * Builds the locked achievement list for the given rules
+ */
+export function createAchievementCatalog(rules: AchievementRule[] = ACHIEVEMENT_RULES): Achievement[] {
+  return rules.map(rule => ({
+    id: rule.id,
+    name: rule.name,
+    description: rule.description,
+    icon: rule.icon,
+    category: rule.category,
+    points: rule.points,
+    rarity: rule.rarity,
+    unlocked: false,
+    progress: 0,
+    maxProgress: rule.maxProgress
+  }));
+}
+
+/**
+ * Lines saved achievements up with the current rules
+ * New rules start locked and saved progress is kept for existing ones
+ */
+export function mergeAchievementCatalog(
+  saved: Achievement[],
+  rules: AchievementRule[] = ACHIEVEMENT_RULES
+): Achievement[] {
+  return createAchievementCatalog(rules).map(achievement => {
+    const previous = saved.find(a => a.id === achievement.id);
+    return previous
+      ? { ...achievement, unlocked: previous.unlocked, unlockedAt: previous.unlockedAt, progress: previous.progress ?? 0 }
+      : achievement;
+  });
+}
+
+/**
+ * Applies an event to the player's achievements
+ * @returns The updated list and the achievements this event unlocked
+ */
+export function evaluateAchievements(
+  achievements: Achievement[],
+  event: AchievementEvent,
+  rules: AchievementRule[] = ACHIEVEMENT_RULES,
+  now: Date = new Date()
+): { achievements: Achievement[]; unlocked: Achievement[] } {
+  const unlocked: Achievement[] = [];
+
+  const updated = achievements.map(achievement => {
+    const rule = rules.find(r => r.id === achievement.id);
+    if (!rule || achievement.unlocked || !rule.on.includes(event.type)) return achievement;
+
+    const progress = Math.min(rule.maxProgress, Math.max(achievement.progress ?? 0, rule.evaluate(event)));
+    if (progress < rule.maxProgress) {
+      return { ...achievement, progress };
+    }
+
+    const next = { ...achievement, progress, unlocked: true, unlockedAt: now.toISOString() };
+    unlocked.push(next);
+    return next;
+  });
+
+  return { achievements: updated, unlocked };
+}
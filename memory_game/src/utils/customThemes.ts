@@ -0,0 +1,100 @@
+/**
+ * Helpers for player-made card themes
+ *
+ * Custom themes are ordinary Theme objects whose cards are emoji or image
+ * data URLs. They only exist on the player's device, so they are told apart
+ * from server themes by their id prefix.
+ */
+
+import type { GameDifficulty, Theme } from '../types/index';
+import { getGroupCount } from './replay';
+
+export const CUSTOM_THEME_PREFIX = 'custom-';
+
+/** Format version written into exported theme files */
+export const CUSTOM_THEME_EXPORT_VERSION = 1;
+
+/** Largest image accepted for a card, before encoding */
+export const MAX_IMAGE_BYTES = 512 * 1024;
+
+const DIFFICULTIES: GameDifficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+export function isCustomThemeId(themeId: string): boolean {
+  return themeId.startsWith(CUSTOM_THEME_PREFIX);
+}
+
+/**
+ * Whether a card's content is an image rather than text or emoji
+ */
+export function isImageContent(content: string): boolean {
+  return content.startsWith('data:image/') || /^https?:\/\//.test(content);
+}
+
+/**
+ * Difficulties a theme can deal without repeating a card
+ * Mirrors the asset check in themesService.getThemeAssets
+ */
+export function getSupportedDifficulties(cardCount: number, groupSize = 2): GameDifficulty[] {
+  return DIFFICULTIES.filter(difficulty => cardCount >= getGroupCount(difficulty, groupSize));
+}
+
+// One emoji including skin tones, variation selectors and joined sequences, a flag, or any other symbol
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:\uFE0F|[\u{1F3FB}-\u{1F3FF}]|\u200D\p{Extended_Pictographic}\uFE0F?)*|\p{Regional_Indicator}{2}|[^\s,]/gu;
+
+/**
+ * Splits pasted text into individual emoji or symbols, ignoring whitespace and commas
+ */
+export function splitEmoji(text: string): string[] {
+  return text.match(EMOJI_PATTERN) ?? [];
+}
+
+/**
+ * Builds a custom theme from its name and cards
+ */
+export function createCustomTheme(name: string, cards: string[], id = `${CUSTOM_THEME_PREFIX}${Date.now()}`): Theme {
+  const hasImages = cards.some(isImageContent);
+  return {
+    id,
+    name,
+    displayName: name,
+    description: `${cards.length} cards`,
+    preview: cards.find(card => !isImageContent(card)) ?? '🖼️',
+    cards,
+    type: hasImages ? 'image' : 'emoji'
+  };
+}
+
+/**
+ * Serializes a custom theme, images included, as a single JSON file
+ */
+export function serializeCustomTheme(theme: Theme): string {
+  return JSON.stringify({ version: CUSTOM_THEME_EXPORT_VERSION, theme }, null, 2);
+}
+
+/**
+ * Parses an exported theme file
+ * The theme gets a fresh id so importing never overwrites an existing theme
+ * @throws Error when the file is not a theme this version understands
+ */
+export function parseCustomTheme(json: string): Theme {
+  let data: { version?: unknown; theme?: { name?: unknown; cards?: unknown } } | null;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Theme file is not valid JSON');
+  }
+
+  if (!data || data.version !== CUSTOM_THEME_EXPORT_VERSION) {
+    throw new Error(`Unsupported theme file version: ${data?.version}`);
+  }
+  const theme = data.theme;
+  if (!theme || typeof theme.name !== 'string' || !theme.name.trim()) {
+    throw new Error('Theme file is missing a name');
+  }
+  const cards = theme.cards;
+  if (!Array.isArray(cards) || !cards.every((card): card is string => typeof card === 'string' && card !== '')) {
+    throw new Error('Theme cards are malformed');
+  }
+
+  return createCustomTheme(theme.name, cards);
+}
@@ -0,0 +1,151 @@
+/**
+ * Deterministic daily challenges
+ *
+ * A day's challenge is derived entirely from its date, so the client and the
+ * mock server agree on any day's board without storing it. Completion
+ * history, streaks and the archive calendar are plain functions of that
+ * history so they can be computed anywhere.
+ */
+
+import type { DailyChallenge, DailyCompletion, GameDifficulty, LeaderboardEntry } from '../types/index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Difficulty by day of the week, Sunday first: gentle early in the week, hardest on Saturday
+const WEEKDAY_DIFFICULTIES: GameDifficulty[] = ['medium', 'easy', 'medium', 'medium', 'hard', 'hard', 'expert'];
+
+const TARGETS: Record<GameDifficulty, { moves: number; time: number }> = {
+  easy: { moves: 12, time: 60 },
+  medium: { moves: 20, time: 120 },
+  hard: { moves: 25, time: 180 },
+  expert: { moves: 40, time: 300 }
+};
+
+/**
+ * Date key (YYYY-MM-DD, UTC) that identifies a day's challenge
+ */
+export function toDateKey(date: Date = new Date()): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Date key a number of days before or after another
+ */
+export function addDays(dateKey: string, days: number): string {
+  return toDateKey(new Date(Date.parse(dateKey) + days * DAY_MS));
+}
+
+export function isDateKey(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Seed for a day's board, hashed (FNV-1a) so neighbouring days deal unrelated boards
+ */
+export function getDailySeed(dateKey: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of `daily:${dateKey}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Builds the challenge for a date
+ * @param themeIds - Themes the day's theme is picked from, in a stable order
+ */
+export function createDailyChallenge(
+  dateKey: string,
+  themeIds: string[],
+  leaderboard: LeaderboardEntry[] = []
+): DailyChallenge {
+  const seed = getDailySeed(dateKey);
+  const difficulty = WEEKDAY_DIFFICULTIES[new Date(dateKey).getUTCDay()];
+
+  return {
+    id: `daily_${dateKey.replace(/-/g, '_')}`,
+    date: dateKey,
+    difficulty,
+    theme: themeIds[seed % themeIds.length],
+    seed: String(seed),
+    targetMoves: TARGETS[difficulty].moves,
+    targetTime: TARGETS[difficulty].time,
+    completed: false,
+    participants: leaderboard.length,
+    rewards: [
+      { type: 'points', value: 100, description: 'Daily challenge points', icon: '⭐' }
+    ],
+    leaderboard
+  };
+}
+
+/**
+ * Adds a won daily challenge to the player's history, keeping their best result for the day
+ */
+export function recordDailyCompletion(
+  history: Record<string, DailyCompletion>,
+  completion: Omit<DailyCompletion, 'attempts'>
+): Record<string, DailyCompletion> {
+  const previous = history[completion.date];
+  return {
+    ...history,
+    [completion.date]: previous
+      ? {
+          date: completion.date,
+          bestScore: Math.max(previous.bestScore, completion.bestScore),
+          bestTime: Math.min(previous.bestTime, completion.bestTime),
+          attempts: previous.attempts + 1,
+          onTheDay: previous.onTheDay || completion.onTheDay
+        }
+      : { ...completion, attempts: 1 }
+  };
+}
+
+/**
+ * Consecutive days completed on the day, counting back from today
+ * An unfinished today does not break a streak that reaches yesterday
+ */
+export function getDailyStreak(history: Record<string, DailyCompletion>, today: string = toDateKey()): number {
+  let day = history[today]?.onTheDay ? today : addDays(today, -1);
+  let streak = 0;
+  while (history[day]?.onTheDay) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
+
+/**
+ * Longest run of consecutive days completed on the day
+ */
+export function getLongestDailyStreak(history: Record<string, DailyCompletion>): number {
+  const days = Object.values(history)
+    .filter(completion => completion.onTheDay)
+    .map(completion => completion.date)
+    .sort();
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && addDays(days[index - 1], 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+}
+
+/**
+ * Date keys for a calendar ending on the given day, as weeks of seven days starting on Sunday
+ * Days after the end date are null so the last week lines up with the weekday rows
+ */
+export function getCalendarWeeks(endDateKey: string, weekCount: number): (string | null)[][] {
+  const endWeekday = new Date(endDateKey).getUTCDay();
+  const firstDay = addDays(endDateKey, -endWeekday - (weekCount - 1) * 7);
+
+  return Array.from({ length: weekCount }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const day = addDays(firstDay, week * 7 + weekday);
+      return day <= endDateKey ? day : null;
+    })
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * Single-player game variants
+ *
+ * A variant is a rule set the store consults on every turn and clock tick:
+ * how many cards make a match, when the game is over and how it is scored.
+ * Adding a variant means adding an entry here, not changing the store.
+ */
+
+import type { Card, GameDifficulty, GameVariantId, ScoreBreakdown } from '../types/index';
+import { scoreGame, MatchTracker } from './scoreCalculator';
+
+/**
+ * Where a game stands after a turn or a clock tick
+ */
+export interface VariantProgress {
+  matchedCards: number;
+  deckSize: number;
+  misses: number;
+  timeElapsed: number;
+}
+
+export interface VariantScoreInput {
+  moves: number;
+  seconds: number;
+  misses: number;
+  difficulty: GameDifficulty;
+  tracker: MatchTracker;
+}
+
+export interface GameVariant {
+  id: GameVariantId;
+  name: string;
+  description: string;
+  /** Cards that must be turned face up together to make a match */
+  groupSize: number;
+  /** Countdown length in seconds for timed variants */
+  timeLimit?: Record<GameDifficulty, number>;
+  /** Misses allowed before the game is lost */
+  lives?: Record<GameDifficulty, number>;
+  isMatch: (cards: Card[]) => boolean;
+  /** Whether the game is over; null while it continues */
+  getOutcome: (progress: VariantProgress, difficulty: GameDifficulty) => 'won' | 'lost' | null;
+  score: (input: VariantScoreInput) => ScoreBreakdown;
+}
+
+/** Points for every second left on the clock in time attack */
+export const TIME_BONUS_PER_SECOND = 10;
+
+/** Points for every heart left in lives mode */
+export const LIFE_BONUS = 100;
+
+const TIME_ATTACK_LIMITS: Record<GameDifficulty, number> = { easy: 60, medium: 120, hard: 120, expert: 240 };
+const LIVES: Record<GameDifficulty, number> = { easy: 5, medium: 8, hard: 8, expert: 12 };
+
+/**
+ * Cards match when they all belong to the same group
+ */
+function sameGroup(cards: Card[]): boolean {
+  const groupOf = (card: Card) => card.pairId ?? card.value;
+  return cards.length > 0 && cards.every(card => groupOf(card) === groupOf(cards[0]));
+}
+
+function clearedBoard({ matchedCards, deckSize }: VariantProgress): 'won' | null {
+  return deckSize > 0 && matchedCards === deckSize ? 'won' : null;
+}
+
+function withBonus(breakdown: ScoreBreakdown, label: string, points: number): ScoreBreakdown {
+  return {
+    ...breakdown,
+    variantBonus: { label, points },
+    total: breakdown.total + points
+  };
+}
+
+const classic: GameVariant = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'Find every pair at your own pace',
+  groupSize: 2,
+  isMatch: sameGroup,
+  getOutcome: clearedBoard,
+  score: ({ moves, seconds, difficulty, tracker }) => scoreGame({ moves, seconds, difficulty, tracker })
+};
+
+const triples: GameVariant = {
+  id: 'triples',
+  name: 'Triples',
+  description: 'Match sets of three cards instead of pairs',
+  groupSize: 3,
+  isMatch: sameGroup,
+  getOutcome: clearedBoard,
+  // A turn takes three flips, so scale moves back to the two-flip turns the penalty expects
+  score: ({ moves, seconds, difficulty, tracker }) =>
+    scoreGame({ moves: Math.round((moves * 2) / 3), seconds, difficulty, tracker })
+};
+
+const timeAttack: GameVariant = {
+  id: 'time_attack',
+  name: 'Time Attack',
+  description: 'Clear the board before the countdown reaches zero',
+  groupSize: 2,
+  timeLimit: TIME_ATTACK_LIMITS,
+  isMatch: sameGroup,
+  getOutcome: (progress, difficulty) => {
+    if (clearedBoard(progress)) return 'won';
+    return progress.timeElapsed >= TIME_ATTACK_LIMITS[difficulty] ? 'lost' : null;
+  },
+  // The countdown replaces the time penalty with a bonus for time left
+  score: ({ moves, seconds, difficulty, tracker }) => {
+    const remaining = Math.max(0, TIME_ATTACK_LIMITS[difficulty] - seconds);
+    return withBonus(
+      scoreGame({ moves, seconds: 0, difficulty, tracker }),
+      `${remaining}s left`,
+      remaining * TIME_BONUS_PER_SECOND
+    );
+  }
+};
+
+const lives: GameVariant = {
+  id: 'lives',
+  name: 'Lives',
+  description: 'Every miss costs a heart; lose them all and the game is over',
+  groupSize: 2,
+  lives: LIVES,
+  isMatch: sameGroup,
+  getOutcome: (progress, difficulty) => {
+    if (clearedBoard(progress)) return 'won';
+    return progress.misses >= LIVES[difficulty] ? 'lost' : null;
+  },
+  score: ({ moves, seconds, misses, difficulty, tracker }) => {
+    const heartsLeft = Math.max(0, LIVES[difficulty] - misses);
+    return withBonus(
+      scoreGame({ moves, seconds, difficulty, tracker }),
+      `${heartsLeft} ${heartsLeft === 1 ? 'heart' : 'hearts'} left`,
+      heartsLeft * LIFE_BONUS
+    );
+  }
+};
+
+export const GAME_VARIANTS: Record<GameVariantId, GameVariant> = {
+  classic,
+  triples,
+  time_attack: timeAttack,
+  lives
+};
+
+/**
+ * Looks up a variant, falling back to classic for unknown or missing ids
+ */
+export function getGameVariant(id?: GameVariantId): GameVariant {
+  return (id && GAME_VARIANTS[id]) || classic;
+}
+
+/**
+ * Seconds left on a timed variant's clock, undefined for untimed variants
+ */
+export function getTimeRemaining(variant: GameVariant, difficulty: GameDifficulty, timeElapsed: number): number | undefined {
+  return variant.timeLimit && Math.max(0, variant.timeLimit[difficulty] - timeElapsed);
+}
+
+/**
+ * Hearts left in a lives variant, undefined when the variant has no lives
+ */
+export function getLivesRemaining(variant: GameVariant, difficulty: GameDifficulty, misses: number): number | undefined {
+  return variant.lives && Math.max(0, variant.lives[difficulty] - misses);
+}
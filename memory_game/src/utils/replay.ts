@@ -0,0 +1,243 @@
+/**
+ * Seeded deck generation and game recordings
+ *
+ * A recording is the deck seed plus every card flip with its offset from the
+ * start of the game, which is enough to rebuild the deck and replay the game.
+ */
+
+import type { Card, GameDifficulty, GameRecording, RecordedFlip } from '../types/index';
+import { seededShuffle } from './shuffle';
+import { createMatchTracker, recordTurn, MatchTracker } from './scoreCalculator';
+import { getGameVariant, GameVariant, GAME_VARIANTS } from './gameVariants';
+
+/** Current recording format version, bumped on incompatible changes */
+export const RECORDING_VERSION = 1;
+
+const DIFFICULTIES: GameDifficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+/**
+ * Pair count and grid width for each difficulty
+ */
+export function getDeckLayout(difficulty: GameDifficulty): { pairCount: number; gridSize: number } {
+  switch (difficulty) {
+    case 'easy':
+      return { pairCount: 8, gridSize: 4 };
+    case 'medium':
+      return { pairCount: 18, gridSize: 6 };
+    case 'expert':
+      return { pairCount: 32, gridSize: 8 };
+    default:
+      return { pairCount: 16, gridSize: 4 };
+  }
+}
+
+/**
+ * Number of matching groups dealt for a difficulty
+ * Larger groups share the same number of cards, rounded down to whole groups
+ */
+export function getGroupCount(difficulty: GameDifficulty, groupSize = 2): number {
+  return Math.floor((getDeckLayout(difficulty).pairCount * 2) / groupSize);
+}
+
+/**
+ * Generates a random 32-bit seed for a new deck
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Builds the shuffled deck for a theme and difficulty
+ * The same seed always produces the same card order
+ * @param groupSize - Cards per matching group, 2 for pairs
+ */
+export function buildDeck(themeCards: string[], difficulty: GameDifficulty, seed: number, groupSize = 2): Card[] {
+  const groupCount = getGroupCount(difficulty, groupSize);
+  const cards: Card[] = [];
+
+  for (let i = 0; i < groupCount; i++) {
+    const cardValue = themeCards[i % themeCards.length];
+    for (const side of ['a', 'b', 'c', 'd'].slice(0, groupSize)) {
+      cards.push({
+        id: `${i}-${side}`,
+        content: cardValue,
+        value: cardValue,
+        image: cardValue,
+        isFlipped: false,
+        isMatched: false,
+        pairId: i.toString()
+      });
+    }
+  }
+
+  return seededShuffle(cards, seed);
+}
+
+/**
+ * Board state at a point in a replay
+ */
+export interface ReplayFrame {
+  deck: Card[];
+  moves: number;
+  matchedPairs: number;
+  /** Index of the last flip applied, -1 before the first flip */
+  flipIndex: number;
+}
+
+/**
+ * Computes the board at the given offset into a recording
+ * Mirrors the store's flip rules: a mismatched group stays face up for the
+ * recorded flip delay, or until the next flip, whichever comes first
+ */
+export function getReplayFrame(recording: GameRecording, deck: Card[], atMs: number): ReplayFrame {
+  const variant = getGameVariant(recording.variant);
+  const { groupSize } = variant;
+  const matched = new Set<string>();
+  let faceUp: string[] = [];
+  let flipIndex = -1;
+
+  recording.flips.forEach(([cardId, offset], index) => {
+    if (offset > atMs) return;
+
+    if (faceUp.length === groupSize) faceUp = [];
+    faceUp.push(cardId);
+    flipIndex = index;
+
+    if (faceUp.length === groupSize) {
+      const cards = faceUp.map(id => deck.find(c => c.id === id));
+      if (cards.every(Boolean) && variant.isMatch(cards as Card[])) {
+        faceUp.forEach(id => matched.add(id));
+        faceUp = [];
+      }
+    }
+  });
+
+  // Hide a mismatched group once its flip-back delay has passed
+  if (faceUp.length === groupSize && flipIndex >= 0) {
+    const shownAt = recording.flips[flipIndex][1];
+    if (atMs - shownAt >= recording.flipDelay) faceUp = [];
+  }
+
+  return {
+    deck: deck.map(card => ({
+      ...card,
+      isFlipped: faceUp.includes(card.id) || matched.has(card.id),
+      isMatched: matched.has(card.id)
+    })),
+    moves: flipIndex + 1,
+    matchedPairs: matched.size / groupSize,
+    flipIndex
+  };
+}
+
+/**
+ * Outcome of re-running a list of flips against a deck
+ */
+export interface SimulationResult {
+  moves: number;
+  matchedPairs: number;
+  misses: number;
+  completed: boolean;
+  durationMs: number;
+  tracker: MatchTracker;
+  /** Set when a flip could not have happened in a real game */
+  illegalFlip?: { index: number; cardId: string; reason: string };
+}
+
+/**
+ * Re-plays flips against a deck using the store's rules and reports
+ * what the game really looked like; stops at the first illegal flip
+ */
+export function simulateFlips(deck: Card[], flips: RecordedFlip[], variant: GameVariant = getGameVariant()): SimulationResult {
+  const { groupSize } = variant;
+  const matched = new Set<string>();
+  let faceUp: string[] = [];
+  let previousOffset = 0;
+  let misses = 0;
+  let tracker = createMatchTracker();
+
+  for (let index = 0; index < flips.length; index++) {
+    const [cardId, offset] = flips[index];
+    const card = deck.find(c => c.id === cardId);
+    const result = { moves: index, matchedPairs: matched.size / groupSize, misses, completed: false, durationMs: previousOffset, tracker };
+
+    if (!card) return { ...result, illegalFlip: { index, cardId, reason: 'Card is not in the deck' } };
+    if (offset < previousOffset) return { ...result, illegalFlip: { index, cardId, reason: 'Flips are out of order' } };
+    if (matched.has(cardId)) return { ...result, illegalFlip: { index, cardId, reason: 'Card is already matched' } };
+    if (faceUp.length < groupSize && faceUp.includes(cardId)) return { ...result, illegalFlip: { index, cardId, reason: 'Card is already face up' } };
+
+    previousOffset = offset;
+    if (faceUp.length === groupSize) faceUp = [];
+    faceUp.push(cardId);
+
+    if (faceUp.length === groupSize) {
+      const isMatch = variant.isMatch(faceUp.map(id => deck.find(c => c.id === id)!));
+      tracker = recordTurn(tracker, isMatch, offset);
+      if (isMatch) {
+        faceUp.forEach(id => matched.add(id));
+        faceUp = [];
+      } else {
+        misses++;
+      }
+    }
+  }
+
+  return {
+    moves: flips.length,
+    matchedPairs: matched.size / groupSize,
+    misses,
+    completed: deck.length > 0 && matched.size === deck.length,
+    durationMs: previousOffset,
+    tracker
+  };
+}
+
+/**
+ * Length of a recording in milliseconds
+ */
+export function getRecordingDuration(recording: GameRecording): number {
+  const lastFlip = recording.flips.length > 0 ? recording.flips[recording.flips.length - 1][1] : 0;
+  return Math.max(lastFlip, recording.timeElapsed * 1000);
+}
+
+/**
+ * Serializes a recording for export
+ */
+export function serializeRecording(recording: GameRecording): string {
+  return JSON.stringify(recording, null, 2);
+}
+
+/**
+ * Parses and validates an exported recording
+ * @throws Error when the JSON is not a recording this version understands
+ */
+export function parseRecording(json: string): GameRecording {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  const data = (typeof parsed === 'object' && parsed !== null ? parsed : {}) as Record<string, unknown>;
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  if (typeof data.seed !== 'number' || typeof data.theme !== 'string' || typeof data.difficulty !== 'string') {
+    throw new Error('Replay is missing its seed, theme or difficulty');
+  }
+  if (!DIFFICULTIES.includes(data.difficulty as GameDifficulty)) {
+    throw new Error(`Unknown replay difficulty: ${data.difficulty}`);
+  }
+  // Recordings made before variants existed have none and are classic games
+  if (data.variant !== undefined && !Object.keys(GAME_VARIANTS).includes(String(data.variant))) {
+    throw new Error(`Unknown replay variant: ${data.variant}`);
+  }
+  if (!Array.isArray(data.flips) || !data.flips.every(
+    (flip: unknown) => Array.isArray(flip) && typeof flip[0] === 'string' && typeof flip[1] === 'number'
+  )) {
+    throw new Error('Replay flips are malformed');
+  }
+
+  return data as unknown as GameRecording;
+}
@@ -1,4 +1,4 @@
-import type { Difficulty } from '../types/index';
+import type { Difficulty, ScoreBreakdown } from '../types/index';
 
 interface ScoreCalculationParams {
   moves: number;
@@ -9,15 +9,15 @@ interface ScoreCalculationParams {
 }
 
 /**
- * Calculate the final game score based on performance metrics
+ * Calculate each component of the final score
  */
-export function calculateScore({
+export function calculateScoreBreakdown({
   moves,
   seconds,
   difficulty,
   streakBonus = 0,
   comboMultiplier = 1
-}: ScoreCalculationParams): number {
+}: ScoreCalculationParams): Omit<ScoreBreakdown, 'longestStreak' | 'averageMatchTime'> {
   // Base score multipliers by difficulty
   const difficultyMultipliers: Record<Difficulty, number> = {
     easy: 1.0,
@@ -43,8 +43,22 @@ export function calculateScore({
   finalScore += streakBonus;
   finalScore *= comboMultiplier;
   
-  // Ensure minimum score of 0
-  return Math.max(0, Math.round(finalScore));
+  return {
+    baseScore: baseScore * difficultyMultiplier,
+    timePenalty,
+    movePenalty,
+    streakBonus,
+    comboMultiplier,
+    // Ensure minimum score of 0
+    total: Math.max(0, Math.round(finalScore))
+  };
+}
+
+/**
+ * Calculate the final game score based on performance metrics
+ */
+export function calculateScore(params: ScoreCalculationParams): number {
+  return calculateScoreBreakdown(params).total;
 }
 
 /**
@@ -70,3 +84,67 @@ export function calculateComboMultiplier(consecutiveMatches: number, averageMatc
   const comboBonus = Math.min(1 + (consecutiveMatches * 0.1), 2.0);
   return speedBonus * comboBonus;
 }
+
+/**
+ * Running record of match streaks and how long each matching turn took
+ * Turn times are measured from the end of the previous turn, in seconds
+ */
+export interface MatchTracker {
+  streak: number;
+  longestStreak: number;
+  matchTimes: number[];
+  turnStartedAt: number;
+}
+
+export function createMatchTracker(): MatchTracker {
+  return { streak: 0, longestStreak: 0, matchTimes: [], turnStartedAt: 0 };
+}
+
+/**
+ * Update the tracker when a turn (the second flip of a pair) completes
+ * @param elapsedMs - Milliseconds since the game started when the turn ended
+ */
+export function recordTurn(tracker: MatchTracker, isMatch: boolean, elapsedMs: number): MatchTracker {
+  if (!isMatch) {
+    return { ...tracker, streak: 0, turnStartedAt: elapsedMs };
+  }
+
+  const streak = tracker.streak + 1;
+  return {
+    streak,
+    longestStreak: Math.max(tracker.longestStreak, streak),
+    matchTimes: [...tracker.matchTimes, (elapsedMs - tracker.turnStartedAt) / 1000],
+    turnStartedAt: elapsedMs
+  };
+}
+
+/**
+ * Score a finished game, applying streak and combo bonuses from its match history
+ */
+export function scoreGame({
+  moves,
+  seconds,
+  difficulty,
+  tracker
+}: {
+  moves: number;
+  seconds: number;
+  difficulty: Difficulty;
+  tracker: MatchTracker;
+}): ScoreBreakdown {
+  const averageMatchTime = tracker.matchTimes.length > 0
+    ? tracker.matchTimes.reduce((sum, time) => sum + time, 0) / tracker.matchTimes.length
+    : 0;
+
+  return {
+    ...calculateScoreBreakdown({
+      moves,
+      seconds,
+      difficulty,
+      streakBonus: calculateStreakBonus(tracker.longestStreak),
+      comboMultiplier: calculateComboMultiplier(tracker.longestStreak, averageMatchTime)
+    }),
+    longestStreak: tracker.longestStreak,
+    averageMatchTime
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * Procedural sound engine
+ *
+ * Every sound is synthesized with the Web Audio API, so the game ships no
+ * audio files. Cues and the background music run through separate buses
+ * with their own volume, both feeding a master gain.
+ */
+
+export type SoundCue = 'flip' | 'match' | 'miss' | 'victory' | 'tick';
+
+export interface CueOptions {
+  /** Matches in a row, raising the pitch of the match cue */
+  combo?: number;
+  /** Seconds left on the clock, making the tick more urgent near zero */
+  remaining?: number;
+}
+
+export interface SoundLevels {
+  master: number;
+  sfx: number;
+  music: number;
+}
+
+interface ToneOptions {
+  frequency: number;
+  type?: OscillatorType;
+  start?: number;
+  duration: number;
+  gain?: number;
+  /** Frequency to glide to over the note */
+  slideTo?: number;
+  attack?: number;
+}
+
+// Major pentatonic steps, in semitones, the match cue climbs through as a combo grows
+const COMBO_STEPS = [0, 2, 4, 7, 9, 12, 14, 16, 19, 21, 24];
+
+/** Seconds on the clock from which the countdown tick turns urgent */
+export const URGENT_TICK_SECONDS = 3;
+
+// Background music: A minor pentatonic over an Am-F-C-G progression, in eighth notes
+const MUSIC_TEMPO = 96;
+const MUSIC_ROOT_HZ = 220;
+const MUSIC_SCALE = [0, 3, 5, 7, 10, 12, 15, 17];
+const MUSIC_PROGRESSION = [0, -4, 3, -2];
+const STEPS_PER_BAR = 8;
+const SCHEDULE_AHEAD_SECONDS = 0.2;
+const SCHEDULER_INTERVAL_MS = 50;
+
+/**
+ * Semitones the match cue is raised by for a combo of the given length
+ */
+export function getComboSemitones(combo: number): number {
+  const step = Math.max(0, Math.min(COMBO_STEPS.length - 1, combo - 1));
+  return COMBO_STEPS[step];
+}
+
+function transpose(frequency: number, semitones: number): number {
+  return frequency * Math.pow(2, semitones / 12);
+}
+
+function clampLevel(level: number): number {
+  return Math.max(0, Math.min(1, level));
+}
+
+export class SoundEngine {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private sfxBus: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private levels: SoundLevels = { master: 0.7, sfx: 1, music: 0.5 };
+
+  private musicTimer: ReturnType<typeof setInterval> | null = null;
+  private nextStepTime = 0;
+  private step = 0;
+  private melodyDegree = 2;
+
+  /**
+   * Creates the audio graph on first use; browsers only allow this once the
+   * player has interacted with the page, which every cue follows
+   */
+  private ensureContext(): AudioContext | null {
+    if (this.context) {
+      if (this.context.state === 'suspended') {
+        this.context.resume().catch(() => undefined);
+      }
+      return this.context;
+    }
+
+    const AudioContextClass = typeof window !== 'undefined'
+      ? window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+      : undefined;
+    if (!AudioContextClass) return null;
+
+    try {
+      this.context = new AudioContextClass();
+      this.master = this.context.createGain();
+      this.sfxBus = this.context.createGain();
+      this.musicBus = this.context.createGain();
+      this.sfxBus.connect(this.master);
+      this.musicBus.connect(this.master);
+      this.master.connect(this.context.destination);
+      this.applyLevels();
+      return this.context;
+    } catch (error) {
+      console.warn('Web Audio is unavailable:', error);
+      return null;
+    }
+  }
+
+  private applyLevels(): void {
+    if (!this.context || !this.master || !this.sfxBus || !this.musicBus) return;
+    const now = this.context.currentTime;
+    this.master.gain.setTargetAtTime(this.levels.master, now, 0.02);
+    this.sfxBus.gain.setTargetAtTime(this.levels.sfx, now, 0.02);
+    this.musicBus.gain.setTargetAtTime(this.levels.music, now, 0.02);
+  }
+
+  /**
+   * Sets the master, effects and music volumes, each from 0 to 1
+   */
+  setLevels(levels: SoundLevels): void {
+    this.levels = {
+      master: clampLevel(levels.master),
+      sfx: clampLevel(levels.sfx),
+      music: clampLevel(levels.music)
+    };
+    this.applyLevels();
+  }
+
+  /**
+   * Schedules a single enveloped oscillator note on a bus
+   */
+  private tone(bus: GainNode, options: ToneOptions): void {
+    const context = this.context;
+    if (!context) return;
+
+    const start = options.start ?? context.currentTime;
+    const attack = options.attack ?? 0.005;
+    const end = start + options.duration;
+
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+    oscillator.type = options.type ?? 'sine';
+    oscillator.frequency.setValueAtTime(options.frequency, start);
+    if (options.slideTo) {
+      oscillator.frequency.exponentialRampToValueAtTime(options.slideTo, end);
+    }
+
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(options.gain ?? 0.3, start + attack);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+
+    oscillator.connect(envelope);
+    envelope.connect(bus);
+    oscillator.start(start);
+    oscillator.stop(end + 0.05);
+  }
+
+  /**
+   * Plays a named cue
+   */
+  play(cue: SoundCue, options: CueOptions = {}): void {
+    const context = this.ensureContext();
+    const bus = this.sfxBus;
+    if (!context || !bus) return;
+
+    const now = context.currentTime;
+    switch (cue) {
+      case 'flip':
+        this.tone(bus, { frequency: 520, slideTo: 780, type: 'triangle', duration: 0.08, gain: 0.25 });
+        break;
+
+      case 'match': {
+        const root = transpose(523.25, getComboSemitones(options.combo ?? 1));
+        this.tone(bus, { frequency: root, type: 'triangle', duration: 0.15, gain: 0.3 });
+        this.tone(bus, { frequency: transpose(root, 7), type: 'triangle', start: now + 0.08, duration: 0.25, gain: 0.3 });
+        break;
+      }
+
+      case 'miss':
+        this.tone(bus, { frequency: 240, slideTo: 140, type: 'sawtooth', duration: 0.25, gain: 0.12 });
+        this.tone(bus, { frequency: 120, slideTo: 90, type: 'sine', duration: 0.25, gain: 0.25 });
+        break;
+
+      case 'victory':
+        [0, 4, 7, 12].forEach((semitones, index) => {
+          this.tone(bus, {
+            frequency: transpose(523.25, semitones),
+            type: 'triangle',
+            start: now + index * 0.12,
+            duration: index === 3 ? 0.8 : 0.2,
+            gain: 0.3
+          });
+        });
+        [0, 4, 7].forEach(semitones => {
+          this.tone(bus, { frequency: transpose(261.63, semitones), type: 'sine', start: now + 0.36, duration: 0.9, gain: 0.15, attack: 0.05 });
+        });
+        break;
+
+      case 'tick': {
+        const urgent = options.remaining !== undefined && options.remaining <= URGENT_TICK_SECONDS;
+        this.tone(bus, { frequency: urgent ? 1320 : 880, type: 'square', duration: 0.04, gain: urgent ? 0.15 : 0.08 });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Schedules one eighth note of the background loop: a bass note and a soft
+   * chord at the start of each bar, and a melody that wanders the scale
+   */
+  private scheduleMusicStep(bus: GainNode, time: number): void {
+    const stepSeconds = 60 / MUSIC_TEMPO / 2;
+    const bar = Math.floor(this.step / STEPS_PER_BAR) % MUSIC_PROGRESSION.length;
+    const chordRoot = transpose(MUSIC_ROOT_HZ, MUSIC_PROGRESSION[bar]);
+    const beat = this.step % STEPS_PER_BAR;
+
+    if (beat === 0) {
+      this.tone(bus, { frequency: chordRoot / 2, type: 'sine', start: time, duration: stepSeconds * 4, gain: 0.35, attack: 0.02 });
+      const isMinor = MUSIC_PROGRESSION[bar] === 0;
+      [0, isMinor ? 3 : 4, 7].forEach(semitones => {
+        this.tone(bus, {
+          frequency: transpose(chordRoot, semitones),
+          type: 'sine',
+          start: time,
+          duration: stepSeconds * STEPS_PER_BAR,
+          gain: 0.06,
+          attack: 0.3
+        });
+      });
+    }
+
+    // Rest on some off-beats so the melody breathes
+    if (beat % 2 === 0 || Math.random() < 0.4) {
+      this.melodyDegree = Math.max(0, Math.min(MUSIC_SCALE.length - 1, this.melodyDegree + Math.floor(Math.random() * 5) - 2));
+      this.tone(bus, {
+        frequency: transpose(MUSIC_ROOT_HZ * 2, MUSIC_SCALE[this.melodyDegree]),
+        type: 'triangle',
+        start: time,
+        duration: stepSeconds * 0.9,
+        gain: 0.1,
+        attack: 0.01
+      });
+    }
+
+    this.step++;
+  }
+
+  /**
+   * Starts the generative background loop if it is not already playing
+   */
+  startMusic(): void {
+    if (this.musicTimer) return;
+    const context = this.ensureContext();
+    const bus = this.musicBus;
+    if (!context || !bus) return;
+
+    const stepSeconds = 60 / MUSIC_TEMPO / 2;
+    this.step = 0;
+    this.nextStepTime = context.currentTime + 0.1;
+
+    // Notes are scheduled slightly ahead on the audio clock so timer jitter is not audible
+    this.musicTimer = setInterval(() => {
+      while (this.nextStepTime < context.currentTime + SCHEDULE_AHEAD_SECONDS) {
+        this.scheduleMusicStep(bus, this.nextStepTime);
+        this.nextStepTime += stepSeconds;
+      }
+    }, SCHEDULER_INTERVAL_MS);
+  }
+
+  /**
+   * Stops the background loop; notes already scheduled ring out
+   */
+  stopMusic(): void {
+    if (this.musicTimer) {
+      clearInterval(this.musicTimer);
+      this.musicTimer = null;
+    }
+  }
+
+  /**
+   * Stops the music and releases the audio context
+   */
+  dispose(): void {
+    this.stopMusic();
+    this.context?.close().catch(() => undefined);
+    this.context = null;
+    this.master = null;
+    this.sfxBus = null;
+    this.musicBus = null;
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Authoritative turn engine for multiplayer games
+ *
+ * Pure functions over MultiplayerSession so the same rules run in the client
+ * store and in the in-process mock socket host without modification.
+ */
+
+import type { Card, GameMove, MultiplayerSession, Player } from '../types/index';
+
+/** Points awarded to a player for every pair they match */
+export const POINTS_PER_PAIR = 100;
+
+/** Minimum and maximum number of seats in a multiplayer game */
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 4;
+
+/**
+ * Result of applying a move: the next session plus the move as the engine
+ * resolved it (isMatch is always computed, never trusted from the client)
+ */
+export interface MoveOutcome {
+  session: MultiplayerSession;
+  move: GameMove;
+  turnKept: boolean;
+}
+
+/**
+ * Starts a game on the given deck, resetting every player's tally
+ * The first player in seating order takes the first turn
+ */
+export function startTurnGame(session: MultiplayerSession, deck: Card[]): MultiplayerSession {
+  if (session.players.length < MIN_PLAYERS || session.players.length > MAX_PLAYERS) {
+    throw new Error(`A multiplayer game needs ${MIN_PLAYERS}-${MAX_PLAYERS} players`);
+  }
+  if (deck.length === 0) {
+    throw new Error('Cannot start a multiplayer game without cards');
+  }
+
+  const players = session.players.map(player => ({
+    ...player,
+    score: 0,
+    moves: 0,
+    matchedPairs: 0,
+    isActive: true
+  }));
+
+  return {
+    ...session,
+    players,
+    deck: deck.map(card => ({ ...card, isFlipped: false, isMatched: false })),
+    gameState: 'playing',
+    currentTurn: players[0].id,
+    startedAt: new Date().toISOString(),
+    endedAt: undefined,
+    winner: undefined
+  };
+}
+
+/**
+ * Returns the player whose turn it currently is
+ */
+export function getCurrentPlayer(session: MultiplayerSession): Player | undefined {
+  return session.players.find(player => player.id === session.currentTurn);
+}
+
+/**
+ * Total number of moves played so far, used to order and de-duplicate moves
+ */
+export function getMoveCount(session: MultiplayerSession): number {
+  return session.players.reduce((total, player) => total + player.moves, 0);
+}
+
+/**
+ * Finds the next active player after the given one, wrapping around the table
+ */
+export function getNextTurn(session: MultiplayerSession, fromPlayerId: string): string | undefined {
+  const { players } = session;
+  const startIndex = players.findIndex(player => player.id === fromPlayerId);
+
+  for (let offset = 1; offset <= players.length; offset++) {
+    const candidate = players[(startIndex + offset) % players.length];
+    if (candidate.isActive) {
+      return candidate.id;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Picks the player with the most matched pairs
+ * Returns undefined when the top spot is shared (a draw)
+ */
+export function determineWinner(players: Player[]): Player | undefined {
+  const ranked = [...players].sort((a, b) => b.matchedPairs - a.matchedPairs);
+  if (ranked.length === 0) return undefined;
+  if (ranked.length > 1 && ranked[0].matchedPairs === ranked[1].matchedPairs) return undefined;
+  return ranked[0];
+}
+
+/**
+ * Checks a move against the current session
+ * @returns A human readable reason when the move is illegal, otherwise null
+ */
+export function validateMove(session: MultiplayerSession, move: GameMove): string | null {
+  if (session.gameState !== 'playing') {
+    return 'Game is not in progress';
+  }
+  if (move.playerId !== session.currentTurn) {
+    return `It is not player ${move.playerId}'s turn`;
+  }
+  if (move.moveNumber !== getMoveCount(session) + 1) {
+    return `Expected move ${getMoveCount(session) + 1}, received ${move.moveNumber}`;
+  }
+  if (move.cardIds.length !== 2 || move.cardIds[0] === move.cardIds[1]) {
+    return 'A move must flip exactly two different cards';
+  }
+
+  for (const cardId of move.cardIds) {
+    const card = session.deck.find(c => c.id === cardId);
+    if (!card) return `Card ${cardId} is not on the board`;
+    if (card.isMatched) return `Card ${cardId} is already matched`;
+  }
+
+  return null;
+}
+
+/**
+ * Checks a single card flip made during the current player's turn
+ * @returns A human readable reason when the flip is illegal, otherwise null
+ */
+export function validateFlip(session: MultiplayerSession, playerId: string, cardId: string): string | null {
+  if (session.gameState !== 'playing') {
+    return 'Game is not in progress';
+  }
+  if (playerId !== session.currentTurn) {
+    return `It is not player ${playerId}'s turn`;
+  }
+  const card = session.deck.find(c => c.id === cardId);
+  if (!card) return `Card ${cardId} is not on the board`;
+  if (card.isMatched) return `Card ${cardId} is already matched`;
+  return null;
+}
+
+/**
+ * Ends the game and records the winner
+ */
+function finishGame(session: MultiplayerSession): MultiplayerSession {
+  return {
+    ...session,
+    gameState: 'finished',
+    currentTurn: undefined,
+    endedAt: new Date().toISOString(),
+    winner: determineWinner(session.players)
+  };
+}
+
+/**
+ * Applies a move to the session
+ * A match keeps the turn with the same player, a miss passes it on,
+ * and matching the last pair finishes the game
+ * @throws Error when the move fails validation
+ */
+export function applyMove(session: MultiplayerSession, move: GameMove): MoveOutcome {
+  const reason = validateMove(session, move);
+  if (reason) {
+    throw new Error(reason);
+  }
+
+  const [first, second] = move.cardIds.map(id => session.deck.find(c => c.id === id)!);
+  const isMatch = (first.pairId ?? first.value) === (second.pairId ?? second.value);
+
+  const deck = isMatch
+    ? session.deck.map(card => move.cardIds.includes(card.id) ? { ...card, isMatched: true } : card)
+    : session.deck;
+
+  const players = session.players.map(player => {
+    if (player.id !== move.playerId) return player;
+    return {
+      ...player,
+      moves: player.moves + 1,
+      matchedPairs: isMatch ? player.matchedPairs + 1 : player.matchedPairs,
+      score: isMatch ? player.score + POINTS_PER_PAIR : player.score
+    };
+  });
+
+  let next: MultiplayerSession = { ...session, deck, players };
+  next.currentTurn = isMatch ? move.playerId : getNextTurn(next, move.playerId);
+
+  if (deck.every(card => card.isMatched)) {
+    next = finishGame(next);
+  }
+
+  return {
+    session: next,
+    move: { ...move, isMatch },
+    turnKept: isMatch
+  };
+}
+
+/**
+ * Removes a player from the session
+ * If it was their turn the turn passes on; if too few players remain
+ * in a running game, the game ends
+ */
+export function removePlayer(session: MultiplayerSession, playerId: string): MultiplayerSession {
+  const wasTheirTurn = session.currentTurn === playerId;
+  const nextTurn = wasTheirTurn ? getNextTurn(session, playerId) : session.currentTurn;
+  const next: MultiplayerSession = {
+    ...session,
+    players: session.players.filter(player => player.id !== playerId),
+    currentTurn: nextTurn === playerId ? undefined : nextTurn
+  };
+
+  if (next.gameState === 'playing' && next.players.length < MIN_PLAYERS) {
+    return finishGame(next);
+  }
+
+  return next;
+}
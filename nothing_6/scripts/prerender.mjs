@@ -0,0 +1,93 @@
+// filepath: scripts/prerender.mjs
+
+/* scripts/prerender.mjs
+
+   Build-time prerender. Runs after `vite build`: bundles src/entry-server.tsx for Node, renders
+   every route in `routeMeta`, and writes dist/<route>/index.html with that route's head tags
+   and markup so crawlers get real content without running JavaScript.
+
+   A route that fails to render still gets its head tags with an empty root, and the untouched
+   client shell is kept as dist/spa.html for paths that are not prerendered (see vercel.json).
+
+   Usage:
+     vite build && node scripts/prerender.mjs
+*/
+
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { build, loadEnv } from 'vite'
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const distDir = path.join(root, 'dist')
+const serverDir = path.join(root, 'dist-ssr')
+
+const ROOT_ELEMENT = '<div id="root"></div>'
+
+// Head tags in index.html that the route's own tags replace
+const stripDefaultHead = (template) =>
+  template
+    .replace(/\s*<title>[\s\S]*?<\/title>/, '')
+    .replace(/\s*<(meta|link)\b[^>]*\bdata-seo\b[^>]*>/g, '')
+
+const outputFile = (routePath) =>
+  routePath === '/'
+    ? path.join(distDir, 'index.html')
+    : path.join(distDir, routePath.replace(/^\/+/, ''), 'index.html')
+
+async function main() {
+  // spa.html survives from an earlier run, when index.html is already prerendered
+  const template = await fs.readFile(path.join(distDir, 'spa.html'), 'utf8')
+    .catch(() => fs.readFile(path.join(distDir, 'index.html'), 'utf8'))
+  if (!template.includes(ROOT_ELEMENT)) {
+    throw new Error(`dist/index.html has no ${ROOT_ELEMENT} to prerender into`)
+  }
+  if (!loadEnv('production', root, 'VITE_').VITE_SITE_URL) {
+    console.warn('[prerender] VITE_SITE_URL is not set; canonical and OpenGraph URLs will be relative')
+  }
+
+  await build({
+    root,
+    logLevel: 'warn',
+    build: {
+      ssr: 'src/entry-server.tsx',
+      outDir: serverDir,
+      emptyOutDir: true,
+      sourcemap: false,
+      minify: false
+    }
+  })
+
+  const { prerenderRoutes, render } = await import(pathToFileURL(path.join(serverDir, 'entry-server.js')).href)
+  const shell = stripDefaultHead(template)
+
+  await fs.writeFile(path.join(distDir, 'spa.html'), template)
+
+  let failed = 0
+  for (const route of prerenderRoutes) {
+    let markup = ''
+    try {
+      markup = await render(route.path)
+    } catch (error) {
+      failed++
+      console.warn(`[prerender] ${route.path}: render failed, writing head tags only`, error)
+    }
+
+    const html = shell
+      .replace('</head>', `  ${route.head}\n  </head>`)
+      .replace(ROOT_ELEMENT, `<div id="root">${markup}</div>`)
+
+    const file = outputFile(route.path)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, html)
+    console.log(`[prerender] ${route.path} -> ${path.relative(root, file)}`)
+  }
+
+  await fs.rm(serverDir, { recursive: true, force: true })
+  console.log(`[prerender] ${prerenderRoutes.length - failed}/${prerenderRoutes.length} routes rendered`)
+}
+
+main().catch((error) => {
+  console.error('[prerender] failed:', error)
+  process.exit(1)
+})
@@ -8,10 +8,10 @@
 */
 
 import React, { Suspense } from 'react';
-import { BrowserRouter } from 'react-router-dom';
+import { BrowserRouter, MemoryRouter } from 'react-router-dom';
 import { config, isDevelopment } from '@/app/config';
 import { eventBus } from '@/core/events';
-import { di as container } from '@/core/di';
+import { appContainer as container } from '@/app/container';
 import AppRoutes from './routes';
 import MainLayout from '@/shared/layouts/MainLayout';
 import ErrorBoundary from '@/shared/components/ErrorBoundary';
@@ -20,28 +20,9 @@ import AnalyticsProvider from '@/providers/AnalyticsProvider';
 import ChatProvider from '@/providers/ChatProvider';
 import SimulatorProvider from '@/providers/SimulatorProvider';
 import ABTestProvider from '@/providers/ABTestProvider';
+import { useAuth } from '@/providers/AuthProvider';
 import { theme } from '@/theme/index';
 
-// Global error handler for unhandled promise rejections
-if (typeof window !== 'undefined') {
-  window.addEventListener('unhandledrejection', (event) => {
-    console.error('Unhandled promise rejection:', event.reason);
-    eventBus.emit('app:error', { 
-      type: 'unhandled_rejection', 
-      error: event.reason 
-    });
-  });
-
-  // Global error handler for uncaught errors
-  window.addEventListener('error', (event) => {
-    console.error('Uncaught error:', event.error);
-    eventBus.emit('app:error', { 
-      type: 'uncaught_error', 
-      error: event.error 
-    });
-  });
-}
-
 // App loading fallback component
 const AppLoadingFallback = () => (
   <div 
@@ -58,8 +39,10 @@ const AppLoadingFallback = () => (
 
 // Provider composition wrapper
 const AppProviders: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+
   return (
-    <ABTestProvider>
+    <ABTestProvider user={user}>
       <AnalyticsProvider>
         <ChatProvider>
           <SimulatorProvider>
@@ -71,7 +54,12 @@ const AppProviders: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   );
 };
 
-const App: React.FC = () => {
+interface AppProps {
+  /** Render this URL instead of the browser location (used by the prerender step) */
+  location?: string;
+}
+
+const App: React.FC<AppProps> = ({ location }) => {
   // Initialize DI container in development
   React.useEffect(() => {
     if (isDevelopment) {
@@ -83,6 +71,16 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const routedApp = (
+    <AppProviders>
+      <MainLayout>
+        <Suspense fallback={<AppLoadingFallback />}>
+          <AppRoutes />
+        </Suspense>
+      </MainLayout>
+    </AppProviders>
+  );
+
   return (
     <ErrorBoundary
       fallback={({ error, retry }) => (
@@ -109,15 +107,11 @@ const App: React.FC = () => {
         </div>
       )}
     >
-      <BrowserRouter>
-        <AppProviders>
-          <MainLayout>
-            <Suspense fallback={<AppLoadingFallback />}>
-              <AppRoutes />
-            </Suspense>
-          </MainLayout>
-        </AppProviders>
-      </BrowserRouter>
+      {location ? (
+        <MemoryRouter initialEntries={[location]}>{routedApp}</MemoryRouter>
+      ) : (
+        <BrowserRouter>{routedApp}</BrowserRouter>
+      )}
     </ErrorBoundary>
   );
 };
@@ -22,6 +22,12 @@ export interface AppConfig {
   appName: string
   version: string
   apiBase: string
+  // Public origin for canonical/OpenGraph URLs; empty means the browser's current origin
+  siteUrl: string
+  // Default social card image (absolute or site-relative); empty means none
+  ogImage: string
+  // Where the error reporter POSTs reports; empty keeps them local only
+  errorReportEndpoint: string
   mode: string
   isDevelopment: boolean
   isProduction: boolean
@@ -69,6 +75,9 @@ function parseFeatureList(raw?: string | string[]): string[] {
 const appName = (env.VITE_APP_NAME as string) ?? 'Absolutely Nothing ™'
 const version = (env.VITE_APP_VERSION as string) ?? '0.1.0'
 const apiBase = (env.VITE_API_BASE as string) ?? '/api'
+const siteUrl = ((env.VITE_SITE_URL as string) ?? '').replace(/\/+$/, '')
+const ogImage = (env.VITE_OG_IMAGE as string) ?? ''
+const errorReportEndpoint = (env.VITE_ERROR_REPORT_ENDPOINT as string) ?? `${apiBase}/errors`
 const mode = (env.MODE as string) ?? (env.VITE_NODE_ENV as string) ?? 'development'
 
 const isDevelopmentMode = mode !== 'production'
@@ -116,6 +125,9 @@ export const appConfig: AppConfig = {
   appName,
   version,
   apiBase,
+  siteUrl,
+  ogImage,
+  errorReportEndpoint,
   mode,
   isDevelopment: isDevelopmentMode,
   isProduction: isProductionMode,
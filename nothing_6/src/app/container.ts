@@ -0,0 +1,45 @@
+// filepath: src/app/container.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (appContainer)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for container setup)
+
+import {
+  ApiClientToken,
+  AnalyticsServiceToken,
+  DIContainer,
+  StorageServiceToken,
+  WebSocketServiceToken,
+  di
+} from '@/core/di'
+import { analytics } from '@/services/analytics'
+import { apiClient } from '@/services/apiClient'
+import { storage } from '@/services/storage'
+import { socketManager } from '@/services/websocket'
+
+/* src/app/container.ts
+
+   Binds the built-in tokens to the app's real services. The services stay module singletons
+   (existing imports keep working); the container hands out those same instances so code that
+   resolves by token can be given fakes instead, e.g. via createTestContainer in `@/mocks`.
+
+   Auth and notifications are provided by AuthProvider and ToastProvider, so their tokens are
+   left for tests and feature scopes to register.
+
+   Usage:
+     import { appContainer } from '@/app/container'
+     appContainer.resolve(StorageServiceToken).get('key', null)
+*/
+
+export function registerDefaultServices(container: DIContainer): DIContainer {
+  container.registerFactory(ApiClientToken, () => apiClient)
+  container.registerFactory(StorageServiceToken, () => storage)
+  container.registerFactory(WebSocketServiceToken, () => socketManager)
+  container.registerFactory(AnalyticsServiceToken, () => analytics)
+  return container
+}
+
+export const appContainer = registerDefaultServices(di)
+
+export default appContainer
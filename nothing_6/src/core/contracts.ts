@@ -132,6 +132,27 @@ export interface CaseStudy {
   authors?: string[]
 }
 
+export interface FAQ {
+  id: string
+  question: string
+  answer: string
+}
+
+export interface StatusIncident {
+  id: string
+  title: string
+  status: 'investigating' | 'identified' | 'monitoring' | 'resolved'
+  startedAt: string
+  resolvedAt?: string
+}
+
+export interface StatusResponse {
+  uptime: number
+  nothingDelivered: number
+  satisfaction: number
+  incidents: StatusIncident[]
+}
+
 // -- API response shapes -----------------------------------------------------
 export interface ApiError {
   code: string
@@ -158,14 +179,44 @@ export type WSIncomingEvent =
   | { type: 'analytics:event'; payload: { name: string; properties?: Record<string, unknown> } }
   | { type: 'abtest:exposure'; payload: { experimentId: string; variant: string } }
   | { type: 'system:ping'; payload: { ts: number } }
+  | { type: 'chat:typing'; payload: { from: string; isTyping: boolean } }
+  | { type: 'chat:queue'; payload: { conversationId: string; position: number } }
 
 export type WSOutgoingEvent =
   | { type: 'chat:send'; payload: { text: string; tempId?: string } }
   | { type: 'analytics:batch'; payload: { events: Array<{ name: string; properties?: Record<string, unknown> }> } }
   | { type: 'client:hello'; payload: { clientId: string } }
+  | { type: 'chat:typing'; payload: { isTyping: boolean } }
+  | { type: 'chat:handoff'; payload: { conversationId: string; reason?: string; transcript: ChatMessage[] } }
 
 export type WebSocketPayload = WSIncomingEvent | WSOutgoingEvent
 
+// Every frame on the wire carries the protocol version `v`. Application events travel as
+// `message` frames numbered per direction by `seq`; the receiver acks the highest contiguous
+// seq it has handled. `hello` opens or resumes a session, and the server answers `welcome`.
+export const WS_PROTOCOL_VERSION = 1
+
+export type WSMessageFrame<E extends WebSocketPayload = WebSocketPayload> = E & {
+  v: number
+  kind: 'message'
+  id: string
+  seq: number
+  sentAt: number
+}
+
+export type WSIncomingFrame =
+  | WSMessageFrame<WSIncomingEvent>
+  | { v: number; kind: 'ack'; seq: number }
+  | { v: number; kind: 'welcome'; sessionId: string; ackedSeq: number; resumed: boolean }
+  | { v: number; kind: 'pong'; ts: number }
+  | { v: number; kind: 'error'; code: string; message: string }
+
+export type WSOutgoingFrame =
+  | WSMessageFrame<WSOutgoingEvent>
+  | { v: number; kind: 'ack'; seq: number }
+  | { v: number; kind: 'hello'; clientId: string; sessionId?: string; resumeFrom: number }
+  | { v: number; kind: 'ping'; ts: number }
+
 // -- Common UI & state helpers ------------------------------------------------
 export type LoadingState = 'idle' | 'loading' | 'success' | 'error'
 
@@ -176,13 +227,37 @@ export interface FormState<T = Record<string, unknown>> {
   isSubmitting: boolean
 }
 
-// -- Chat domain (for LiveChatWidget) ----------------------------------------
+// -- Chat domain (ChatProvider & LiveChatWidget) -----------------------------
+export type ChatSender = 'user' | 'bot' | 'agent' | 'system'
+
+export interface ChatQuickReply {
+  id: string
+  label: string
+}
+
 export interface ChatMessage {
   id: string
-  from: string
+  from: ChatSender
   text: string
-  createdAt: string
+  createdAt: string // ISO
   tempId?: string
+  authorName?: string // Shown for agent messages
+  quickReplies?: ChatQuickReply[]
+  metadata?: Record<string, unknown>
+}
+
+// Who is answering: the scripted bot, nobody yet (waiting for a human), or a human agent
+export type ChatMode = 'bot' | 'queued' | 'agent'
+
+export interface ChatConversation {
+  id: string
+  mode: ChatMode
+  messages: ChatMessage[]
+  botStep?: string // Bot flow step the conversation is at
+  queuePosition?: number
+  agentName?: string
+  startedAt: string // ISO
+  updatedAt: string // ISO
 }
 
 // -- Convenience mock user dataset (exported for dev tooling & mock server) --
@@ -6,15 +6,32 @@
 // [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for DI)
 
 import { eventBus } from '@/core/events'
+import type { ApiClientInterface } from '@/services/apiClient'
+import type { StorageService } from '@/services/storage'
+import type { WebSocketManager } from '@/services/websocket'
 
 /* src/core/di.ts
 
    Minimal DI container used to swap implementations at runtime. Tokens are used to register concrete implementations and modules resolve them by token.
 
+   Factories declare the tokens they depend on and run lazily on first resolve. A factory's
+   lifetime decides how often it runs: once per container that registered it (`singleton`),
+   once per scope (`scoped`) or on every resolve (`transient`). `createScope()` returns a child
+   container that sees its parent's registrations; registering in the child overrides a token
+   for that scope only, and `dispose()` tears down what the scope created.
+
    Example:
      import { di, ApiClientToken } from '@/core/di'
      di.register(ApiClientToken, myApiClient)
      const client = di.resolve(ApiClientToken)
+
+     di.registerFactory(CartToken, (api, storage) => new Cart(api, storage), {
+       deps: [ApiClientToken, StorageServiceToken],
+       lifetime: 'scoped'
+     })
+     const scope = di.createScope()
+     scope.resolve(CartToken)
+     scope.dispose()
 */
 
 // Generic token type
@@ -24,13 +41,8 @@ export function createToken<T = unknown>(name: string): Token<T> {
   return Symbol(name) as Token<T>
 }
 
-// Built-in tokens (examples)
-export const ApiClientToken = createToken<{ 
-  get: (path: string) => Promise<any>
-  post: (path: string, body?: any) => Promise<any>
-  put: (path: string, body?: any) => Promise<any>
-  delete: (path: string) => Promise<any>
-}>('ApiClient')
+// Built-in tokens, typed by the services registered for them in `@/app/container`
+export const ApiClientToken = createToken<ApiClientInterface>('ApiClient')
 
 export const AuthServiceToken = createToken<{ 
   login: (email: string, password: string) => Promise<any>
@@ -39,24 +51,19 @@ export const AuthServiceToken = createToken<{
   refreshToken?: () => Promise<any>
 }>('AuthService')
 
-export const StorageServiceToken = createToken<{ 
-  get: (key: string) => any
-  set: (key: string, value: any, opts?: { ttl?: number }) => void
-  remove: (key: string) => void
-  clear: () => void
-}>('StorageService')
+export const StorageServiceToken = createToken<
+  Pick<StorageService, 'get' | 'set' | 'remove' | 'clear' | 'keys' | 'isAvailable'>
+>('StorageService')
 
-export const WebSocketServiceToken = createToken<{ 
-  connect: () => Promise<void>
-  send: (event: any) => void
-  close: () => void
-  isConnected: () => boolean
-}>('WebSocketService')
+export const WebSocketServiceToken = createToken<
+  Pick<WebSocketManager, 'connect' | 'send' | 'subscribe' | 'disconnect' | 'isConnected' | 'getState'>
+>('WebSocketService')
 
 export const AnalyticsServiceToken = createToken<{
   track: (event: string, properties?: Record<string, unknown>) => void
   identify: (userId: string, traits?: Record<string, unknown>) => void
   page: (name?: string, properties?: Record<string, unknown>) => void
+  setAnonymousId?: (anonymousId: string) => void
 }>('AnalyticsService')
 
 export const NotificationServiceToken = createToken<{
@@ -66,65 +73,161 @@ export const NotificationServiceToken = createToken<{
   info: (message: string, options?: { duration?: number }) => void
 }>('NotificationService')
 
+// Every built-in token by name, so a container replacing them all can be checked for gaps
+export const builtInTokens = {
+  ApiClient: ApiClientToken,
+  AuthService: AuthServiceToken,
+  StorageService: StorageServiceToken,
+  WebSocketService: WebSocketServiceToken,
+  AnalyticsService: AnalyticsServiceToken,
+  NotificationService: NotificationServiceToken
+} as const
+
+export type BuiltInServices = {
+  [K in keyof typeof builtInTokens]: typeof builtInTokens[K] extends Token<infer T> ? T : never
+}
+
+export type Lifetime = 'singleton' | 'scoped' | 'transient'
+
+// Resolved values for a tuple of dependency tokens
+export type Dependencies<D extends readonly Token<any>[]> = {
+  [K in keyof D]: D[K] extends Token<infer T> ? T : never
+}
+
+export interface FactoryOptions<T, D extends readonly Token<any>[]> {
+  deps?: D
+  lifetime?: Lifetime // default 'singleton'
+  dispose?: (instance: T) => void // Runs when the container caching the instance is disposed
+}
+
+interface Registration {
+  factory: (...deps: any[]) => unknown
+  deps: readonly Token<any>[]
+  lifetime: Lifetime
+  dispose?: (instance: any) => void
+}
+
 // DI container implementation
 export class DIContainer {
-  private registry = new Map<Token<any>, any>()
-  private singletons = new Map<Token<any>, any>()
+  private registry = new Map<Token<any>, Registration>()
+  private instances = new Map<Token<any>, unknown>()
+  private disposers: Array<() => void> = []
+
+  constructor(private readonly parent: DIContainer | null = null) {}
 
   register<T>(token: Token<T>, impl: T, options?: { singleton?: boolean }): void {
     if (!token) throw new Error('Invalid DI token')
-    
-    this.registry.set(token as Token<any>, {
-      implementation: impl,
-      singleton: options?.singleton ?? false
+
+    // Plain values keep their original meaning: a function is a class when singleton, a factory otherwise
+    const singleton = options?.singleton ?? false
+    const implementation = impl as any
+    this.add(token, {
+      factory: typeof impl === 'function'
+        ? (singleton ? () => new implementation() : () => implementation())
+        : () => impl,
+      deps: [],
+      lifetime: singleton ? 'singleton' : 'transient'
     })
+  }
+
+  registerFactory<T, const D extends readonly Token<any>[] = []>(
+    token: Token<T>,
+    factory: (...deps: Dependencies<D>) => T,
+    options: FactoryOptions<T, D> = {}
+  ): void {
+    if (!token) throw new Error('Invalid DI token')
+
+    this.add(token, {
+      factory: factory as (...deps: any[]) => unknown,
+      deps: options.deps ?? [],
+      lifetime: options.lifetime ?? 'singleton',
+      dispose: options.dispose as ((instance: any) => void) | undefined
+    })
+  }
+
+  private add(token: Token<any>, registration: Registration): void {
+    this.registry.set(token, registration)
+    this.instances.delete(token)
 
     // Emit registration event for debugging/monitoring
-    eventBus.emit('di:registered', { token: String(token), singleton: options?.singleton })
+    eventBus.emit('di:registered', { key: String(token), type: registration.lifetime })
   }
 
   resolve<T>(token: Token<T>): T {
-    const entry = this.registry.get(token as Token<any>)
-    
-    if (!entry) {
+    return this.resolveWithPath(token, []) as T
+  }
+
+  private resolveWithPath(token: Token<any>, path: Token<any>[]): unknown {
+    if (path.includes(token)) {
+      const cycle = [...path, token].map(String).join(' -> ')
+      throw new Error(`DI: Circular dependency ${cycle}`)
+    }
+
+    const owner = this.findOwner(token)
+    if (!owner) {
       throw new Error(`DI: No provider registered for token ${String(token)}`)
     }
+    const registration = owner.registry.get(token)!
 
-    // Handle singleton pattern
-    if (entry.singleton) {
-      if (this.singletons.has(token as Token<any>)) {
-        return this.singletons.get(token as Token<any>) as T
-      }
-      
-      const instance = typeof entry.implementation === 'function' 
-        ? new entry.implementation() 
-        : entry.implementation
-      
-      this.singletons.set(token as Token<any>, instance)
-      return instance as T
+    // Singletons live in the container that registered them and only see its registrations
+    if (registration.lifetime === 'singleton' && owner !== this) {
+      return owner.resolveWithPath(token, path)
     }
+    if (registration.lifetime !== 'transient' && this.instances.has(token)) {
+      return this.instances.get(token)
+    }
+
+    const deps = registration.deps.map(dep => this.resolveWithPath(dep, [...path, token]))
+    const instance = registration.factory(...deps)
+
+    if (registration.lifetime !== 'transient') {
+      this.instances.set(token, instance)
+      const { dispose } = registration
+      if (dispose) this.disposers.push(() => dispose(instance))
+    }
+    return instance
+  }
 
-    // Return factory or direct implementation
-    return typeof entry.implementation === 'function' 
-      ? entry.implementation() 
-      : entry.implementation
+  private findOwner(token: Token<any>): DIContainer | null {
+    if (this.registry.has(token)) return this
+    return this.parent ? this.parent.findOwner(token) : null
   }
 
   has<T>(token: Token<T>): boolean {
-    return this.registry.has(token as Token<any>)
+    return this.findOwner(token) !== null
+  }
+
+  // Child container: resolves through this one, overrides and scoped instances stay local
+  createScope(): DIContainer {
+    return new DIContainer(this)
+  }
+
+  // Run disposers for instances this container created, newest first
+  dispose(): void {
+    const disposers = this.disposers.splice(0).reverse()
+    this.instances.clear()
+
+    disposers.forEach(dispose => {
+      try {
+        dispose()
+      } catch (error) {
+        console.error('DI: dispose failed', error)
+      }
+    })
   }
 
   reset(): void {
     const tokenCount = this.registry.size
+    this.dispose()
     this.registry.clear()
-    this.singletons.clear()
     
     eventBus.emit('di:reset', { clearedTokens: tokenCount })
   }
 
   // Get all registered tokens (useful for debugging)
   getRegisteredTokens(): string[] {
-    return Array.from(this.registry.keys()).map(token => String(token))
+    const tokens = new Set([...(this.parent?.getRegisteredTokens() ?? []), ...Array.from(this.registry.keys()).map(token => String(token))])
+    return Array.from(tokens)
   }
 
   // Replace existing registration (useful for hot-swapping in dev)
@@ -133,13 +236,8 @@ export class DIContainer {
       throw new Error(`DI: Cannot replace unregistered token ${String(token)}`)
     }
     
-    // Clear singleton if exists
-    if (this.singletons.has(token as Token<any>)) {
-      this.singletons.delete(token as Token<any>)
-    }
-    
     this.register(token, impl, options)
-    eventBus.emit('di:replaced', { token: String(token) })
+    eventBus.emit('di:replaced', { key: String(token) })
   }
 }
 
@@ -156,6 +254,8 @@ export const has = <T>(token: Token<T>) => di.has(token)
 export const replace = <T>(token: Token<T>, impl: T, options?: { singleton?: boolean }) => 
   di.replace(token, impl, options)
 
+export const createScope = () => di.createScope()
+
 // Development helpers
 export const debugDI = () => ({
   tokens: di.getRegisteredTokens(),
@@ -0,0 +1,399 @@
+// filepath: src/core/endpoints.ts
+
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [ ] Exports default named component
+// [ ] Adds basic ARIA and keyboard handlers (where relevant)
+
+import type {
+  CaseStudy,
+  NothingProduct,
+  PaginatedResponse,
+  PricingTier,
+  RoadmapItem,
+  StatusResponse,
+  Testimonial
+} from '@/core/contracts'
+
+/* src/core/endpoints.ts
+
+   Typed registry of the Nothing REST endpoints: method, path, parameters, request/response
+   schemas and an example for each. Everything that talks about these endpoints is generated
+   from here: the MSW handlers (`@/mocks/handlers/endpoints`), the typed client
+   (`@/services/endpointClient`), the API docs page and its OpenAPI export.
+
+   Paths are relative to `config.apiBase` and mark path parameters as `:name`. The type
+   arguments of `defineEndpoint` are the params, body and response the client and mocks use.
+
+   Usage:
+     import { endpoints, endpointList } from '@/core/endpoints'
+     const { method, path } = endpoints.listTestimonials
+*/
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+// JSON Schema subset shared with OpenAPI 3
+export interface SchemaObject {
+  $ref?: string
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean'
+  description?: string
+  format?: string
+  enum?: string[]
+  nullable?: boolean
+  minimum?: number
+  maximum?: number
+  properties?: Record<string, SchemaObject>
+  required?: string[]
+  items?: SchemaObject
+}
+
+export interface EndpointParam {
+  name: string
+  in: 'path' | 'query'
+  type: 'string' | 'integer' | 'number' | 'boolean'
+  required?: boolean
+  description: string
+  default?: string | number | boolean
+}
+
+export interface EndpointErrorResponse {
+  status: number
+  code: string
+  description: string
+}
+
+export interface EndpointDefinition<TParams = void, TBody = void, TResponse = unknown> {
+  id: string
+  method: HttpMethod
+  path: string
+  tag: string
+  summary: string
+  description?: string
+  params?: EndpointParam[]
+  requestBody?: SchemaObject
+  response: SchemaObject
+  successStatus?: number
+  // TypeScript name of the response, for docs and code samples
+  responseType: string
+  errors?: EndpointErrorResponse[]
+  example: {
+    params?: TParams
+    body?: TBody
+    response: TResponse
+  }
+  timeout?: number
+}
+
+export type AnyEndpoint = EndpointDefinition<unknown, unknown, unknown>
+
+type NoFields = Record<never, never>
+
+export type EndpointParams<E> = E extends EndpointDefinition<infer P, unknown, unknown> ? P : never
+export type EndpointBody<E> = E extends EndpointDefinition<unknown, infer B, unknown> ? B : never
+export type EndpointResponse<E> = E extends EndpointDefinition<unknown, unknown, infer R> ? R : never
+
+// `params` may be left out when every parameter is optional; `body` only exists when the endpoint takes one
+export type EndpointInput<E> =
+  ([EndpointParams<E>] extends [void]
+    ? NoFields
+    : NoFields extends EndpointParams<E> ? { params?: EndpointParams<E> } : { params: EndpointParams<E> }) &
+  ([EndpointBody<E>] extends [void] ? NoFields : { body: EndpointBody<E> })
+
+export function defineEndpoint<TParams = void, TBody = void, TResponse = unknown>(
+  definition: EndpointDefinition<TParams, TBody, TResponse>
+): EndpointDefinition<TParams, TBody, TResponse> {
+  return definition
+}
+
+const ref = (name: keyof typeof apiSchemas): SchemaObject => ({ $ref: `#/components/schemas/${name}` })
+
+// -- Shared schemas (published as OpenAPI components) ------------------------
+export const apiSchemas = {
+  ApiError: {
+    type: 'object',
+    required: ['code', 'message'],
+    properties: {
+      code: { type: 'string', description: 'Stable machine-readable error code' },
+      message: { type: 'string' },
+      details: { type: 'object' }
+    }
+  },
+  NothingProduct: {
+    type: 'object',
+    required: ['id', 'sku', 'title', 'priceCents'],
+    properties: {
+      id: { type: 'string' },
+      sku: { type: 'string' },
+      title: { type: 'string' },
+      description: { type: 'string' },
+      priceCents: { type: 'integer', minimum: 0 },
+      recurring: { type: 'boolean' },
+      features: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  Testimonial: {
+    type: 'object',
+    required: ['id', 'author', 'quote'],
+    properties: {
+      id: { type: 'string' },
+      author: { type: 'string' },
+      authorId: { type: 'string' },
+      avatarUrl: { type: 'string' },
+      quote: { type: 'string' },
+      rating: { type: 'integer', minimum: 0, maximum: 5 },
+      createdAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  TestimonialPage: {
+    type: 'object',
+    required: ['items', 'total', 'page', 'perPage'],
+    properties: {
+      items: { type: 'array', items: { $ref: '#/components/schemas/Testimonial' } },
+      total: { type: 'integer' },
+      page: { type: 'integer' },
+      perPage: { type: 'integer' }
+    }
+  },
+  PricingTier: {
+    type: 'object',
+    required: ['id', 'name', 'priceCents', 'currency', 'features'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      priceCents: { type: 'integer', minimum: 0 },
+      currency: { type: 'string', description: 'ISO 4217 code' },
+      features: { type: 'array', items: { type: 'string' } },
+      highlight: { type: 'boolean' }
+    }
+  },
+  CaseStudy: {
+    type: 'object',
+    required: ['id', 'title'],
+    properties: {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      summary: { type: 'string' },
+      heroImage: { type: 'string' },
+      publishedAt: { type: 'string', format: 'date' },
+      authors: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  RoadmapItem: {
+    type: 'object',
+    required: ['id', 'title'],
+    properties: {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      date: { type: 'string' },
+      description: { type: 'string' },
+      status: { type: 'string', enum: ['planned', 'in_progress', 'shipped'] }
+    }
+  },
+  StatusResponse: {
+    type: 'object',
+    required: ['uptime', 'nothingDelivered', 'satisfaction', 'incidents'],
+    properties: {
+      uptime: { type: 'number', description: 'Percentage over the last 90 days' },
+      nothingDelivered: { type: 'integer' },
+      satisfaction: { type: 'number' },
+      incidents: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'title', 'status', 'startedAt'],
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            status: { type: 'string', enum: ['investigating', 'identified', 'monitoring', 'resolved'] },
+            startedAt: { type: 'string', format: 'date-time' },
+            resolvedAt: { type: 'string', format: 'date-time' }
+          }
+        }
+      }
+    }
+  }
+} satisfies Record<string, SchemaObject>
+
+export interface NewsletterSubscriptionRequest {
+  email: string
+}
+
+export interface NewsletterSubscriptionResponse {
+  success: boolean
+}
+
+const exampleProduct: NothingProduct = {
+  id: 'nothing-basic',
+  sku: 'NOTHING-001',
+  title: 'Basic Nothing',
+  description: 'The essential nothing experience',
+  priceCents: 0,
+  features: ['Pure void', 'Unlimited emptiness']
+}
+
+const exampleTestimonial: Testimonial = {
+  id: 't-1',
+  author: 'Sarah Nothing',
+  quote: 'Absolutely nothing has changed my life. The void is real!',
+  rating: 5,
+  createdAt: '2024-01-15T00:00:00.000Z'
+}
+
+// -- Endpoints ---------------------------------------------------------------
+export const endpoints = {
+  getNothing: defineEndpoint<void, void, null>({
+    id: 'getNothing',
+    method: 'GET',
+    path: '/nothing',
+    tag: 'Nothing',
+    summary: 'Retrieve nothing in its purest form',
+    response: { nullable: true, description: 'Always null' },
+    responseType: 'null',
+    example: { response: null },
+    timeout: 1000
+  }),
+
+  listProducts: defineEndpoint<void, void, NothingProduct[]>({
+    id: 'listProducts',
+    method: 'GET',
+    path: '/products/nothing',
+    tag: 'Products',
+    summary: 'List all available nothing products',
+    response: { type: 'array', items: ref('NothingProduct') },
+    responseType: 'NothingProduct[]',
+    example: { response: [exampleProduct] },
+    timeout: 3000
+  }),
+
+  getProduct: defineEndpoint<{ productId: string }, void, NothingProduct>({
+    id: 'getProduct',
+    method: 'GET',
+    path: '/products/nothing/:productId',
+    tag: 'Products',
+    summary: 'Fetch a single nothing product',
+    params: [
+      { name: 'productId', in: 'path', type: 'string', required: true, description: 'Product id, e.g. nothing-basic' }
+    ],
+    response: ref('NothingProduct'),
+    responseType: 'NothingProduct',
+    errors: [{ status: 404, code: 'PRODUCT_NOT_FOUND', description: 'No product has that id' }],
+    example: { params: { productId: 'nothing-basic' }, response: exampleProduct },
+    timeout: 3000
+  }),
+
+  listTestimonials: defineEndpoint<{ page?: number; limit?: number }, void, PaginatedResponse<Testimonial>>({
+    id: 'listTestimonials',
+    method: 'GET',
+    path: '/testimonials/nothing',
+    tag: 'Social proof',
+    summary: 'Fetch testimonials from satisfied nothing users',
+    params: [
+      { name: 'page', in: 'query', type: 'integer', description: 'Page number, starting at 1', default: 1 },
+      { name: 'limit', in: 'query', type: 'integer', description: 'Testimonials per page', default: 10 }
+    ],
+    response: ref('TestimonialPage'),
+    responseType: 'PaginatedResponse<Testimonial>',
+    example: {
+      params: { page: 1, limit: 10 },
+      response: { items: [exampleTestimonial], total: 1, page: 1, perPage: 10 }
+    },
+    timeout: 5000
+  }),
+
+  listPricing: defineEndpoint<void, void, PricingTier[]>({
+    id: 'listPricing',
+    method: 'GET',
+    path: '/pricing/nothing',
+    tag: 'Products',
+    summary: 'List pricing tiers for nothing',
+    response: { type: 'array', items: ref('PricingTier') },
+    responseType: 'PricingTier[]',
+    example: {
+      response: [{ id: 'basic-nothing', name: 'Basic Nothing', priceCents: 0, currency: 'USD', features: ['Absolutely nothing'] }]
+    },
+    timeout: 3000
+  }),
+
+  listCaseStudies: defineEndpoint<{ limit?: number }, void, CaseStudy[]>({
+    id: 'listCaseStudies',
+    method: 'GET',
+    path: '/case-studies/nothing',
+    tag: 'Social proof',
+    summary: 'Case studies of organizations running on nothing',
+    params: [
+      { name: 'limit', in: 'query', type: 'integer', description: 'Maximum number of case studies', default: 6 }
+    ],
+    response: { type: 'array', items: ref('CaseStudy') },
+    responseType: 'CaseStudy[]',
+    example: {
+      params: { limit: 6 },
+      response: [{ id: 'cs-1', title: 'How TechCorp Achieved 100% Nothing Implementation', publishedAt: '2024-01-15' }]
+    },
+    timeout: 5000
+  }),
+
+  getRoadmap: defineEndpoint<void, void, RoadmapItem[]>({
+    id: 'getRoadmap',
+    method: 'GET',
+    path: '/roadmap/nothing',
+    tag: 'Company',
+    summary: 'What nothing is coming next',
+    response: { type: 'array', items: ref('RoadmapItem') },
+    responseType: 'RoadmapItem[]',
+    example: {
+      response: [{ id: 'r-1', title: 'Nothing 2.0 Release', date: '2024-Q2', status: 'in_progress' }]
+    },
+    timeout: 3000
+  }),
+
+  getStatus: defineEndpoint<void, void, StatusResponse>({
+    id: 'getStatus',
+    method: 'GET',
+    path: '/status/nothing',
+    tag: 'Company',
+    summary: 'Service status and uptime of nothing',
+    response: ref('StatusResponse'),
+    responseType: 'StatusResponse',
+    example: {
+      response: { uptime: 99.99, nothingDelivered: 1000000, satisfaction: 100, incidents: [] }
+    },
+    timeout: 8000
+  }),
+
+  subscribeNewsletter: defineEndpoint<void, NewsletterSubscriptionRequest, NewsletterSubscriptionResponse>({
+    id: 'subscribeNewsletter',
+    method: 'POST',
+    path: '/newsletter/nothing',
+    tag: 'Newsletter',
+    summary: 'Subscribe to nothing updates',
+    requestBody: {
+      type: 'object',
+      required: ['email'],
+      properties: {
+        email: { type: 'string', format: 'email', description: 'Email address for nothing updates' }
+      }
+    },
+    response: {
+      type: 'object',
+      required: ['success'],
+      properties: { success: { type: 'boolean' } }
+    },
+    responseType: 'NewsletterSubscriptionResponse',
+    errors: [{ status: 422, code: 'INVALID_EMAIL', description: 'The email address is not valid' }],
+    example: {
+      body: { email: 'user@void.com' },
+      response: { success: true }
+    },
+    timeout: 5000
+  })
+}
+
+export type EndpointRegistry = typeof endpoints
+export type EndpointId = keyof EndpointRegistry
+
+export const endpointList: AnyEndpoint[] = Object.values(endpoints)
+
+export function getEndpoint(id: string): AnyEndpoint | undefined {
+  return endpointList.find(endpoint => endpoint.id === id)
+}
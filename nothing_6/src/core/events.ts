@@ -16,6 +16,7 @@
 */
 
 import { ApiError, User, Testimonial } from '@/core/contracts'
+import type { ConsentCategories } from '@/services/consent'
 
 // Map of well-known application events and their payload shapes
 export interface AppEventMap {
@@ -42,9 +43,9 @@ export interface AppEventMap {
   // API
   'api:request': { path: string; method: string; body?: unknown }
   'api:response': { path: string; status: number; error?: ApiError }
-  'api:request_start': { path: string; method: string }
-  'api:request_complete': { path: string; method: string; status: number; duration?: number }
-  'api:request_error': { path: string; method: string; error: Error | string }
+  'api:request_start': { path: string; method: string; requestId?: string }
+  'api:request_complete': { path: string; method: string; status: number; success?: boolean; duration?: number; requestId?: string }
+  'api:request_error': { path: string; method: string; error: Error | string; requestId?: string }
 
   // Analytics
   'analytics:event': { name: string; properties?: Record<string, unknown> }
@@ -58,19 +59,38 @@ export interface AppEventMap {
   'analytics:identify': { userId: string; traits?: Record<string, unknown> }
   'analytics:user_identified': { userId: string; traits?: Record<string, unknown> }
   'analytics:event_tracked': { event: string; properties?: Record<string, unknown> }
-  'analytics:batch_sent': { count: number; properties?: Record<string, unknown> }
-  'analytics:batch_error': { error: Error | string; count?: number }
+  'analytics:batch_sent': { count: number; batchId?: string; attempt?: number; transport?: 'fetch' | 'beacon' }
+  'analytics:batch_error': {
+    error: Error | string
+    count?: number
+    batchId?: string
+    attempt?: number
+    status?: number
+    retryInMs?: number // Set when the batch stays queued for another attempt
+    dropped?: boolean // Set when the batch was rejected and discarded
+  }
   'analytics:error': { error: Error | string; context?: string }
   'analytics:initialized': { provider?: string }
   'analytics:ready': {}
 
+  // Consent
+  'consent:updated': { categories: ConsentCategories; previous?: ConsentCategories }
+  'consent:reset': { previous?: ConsentCategories }
+
   // AB test exposure
   'abtest:exposure': { experimentId: string; variant: string; userId?: string }
   'abtest:initialized': { experiments: string[] }
   'abtest:variant-changed': { experimentId: string; variant: string; previousVariant?: string }
 
   // App lifecycle
-  'app:error': { error?: Error | string; type?: string; context?: string }
+  'app:error': {
+    error?: Error | string
+    type?: string
+    context?: string
+    errorId?: string // Reuse an id the user has already been shown (ErrorBoundary)
+    severity?: 'low' | 'medium' | 'high' | 'critical'
+    componentStack?: string
+  }
   'app:initialized': { version?: string; environment?: string }
   'app:started': { version?: string; environment?: string }
   'app:mock-server-started': { enabled: boolean }
@@ -78,7 +98,7 @@ export interface AppEventMap {
   // DI system
   'di:registered': { key: string; type?: string }
   'di:replaced': { key: string; oldType?: string; newType?: string }
-  'di:reset': {}
+  'di:reset': { clearedTokens?: number }
 
   // Feature-specific
   'testimonials:updated': { items: Testimonial[] }
@@ -95,10 +115,18 @@ export interface AppEventMap {
   // Chat events
   'chat:message': { from: string; text: string; timestamp: string }
   'chat:typing': { from: string; isTyping: boolean }
+  'chat:handoff': { conversationId: string; reason?: string }
+  'chat:queue_updated': { conversationId: string; position: number }
+  'chat:agent_joined': { conversationId: string; agentName: string }
+  'chat:transcript_exported': { conversationId: string; format: 'text' | 'json' }
 
   // Theme events
   'theme:changed': { theme: 'light' | 'dark' | 'system' }
 
+  // Locale
+  'i18n:locale_changed': { locale: string; previous: string }
+  'i18n:bundle_error': { locale: string; error: string }
+
   // Navigation
   'navigation:route-change': { from?: string; to: string }
   'nav:item-clicked': { item: string; section?: string }
@@ -106,6 +134,7 @@ export interface AppEventMap {
   'nav:menu-toggled': { open: boolean }
   'nav:section-navigated': { section: string; from?: string }
   'route:changed': { from?: string; to: string }
+  'ui:click': { target: string; path?: string }
 
   // Hero section
   'hero:primary-cta-clicked': { source?: string; properties?: Record<string, unknown> }
@@ -135,6 +164,9 @@ export interface AppEventMap {
   'three:model-error': { path: string; error: Error | string }
   'three:model-progress': { path: string; progress: number }
 
+  // Rendering quality
+  'performance:quality_changed': { source: string; from: string; to: string; reason: string; fps: number }
+
   // Simulator
   'simulator:play': {}
   'simulator:pause': {}
@@ -143,6 +175,10 @@ export interface AppEventMap {
   'simulator:fullscreen_toggle': { fullscreen: boolean }
   'simulator:preset_change': { preset: string }
   'simulator:settings_update': { settings: Record<string, any> }
+  'simulator:scene_saved': { sceneId: string; name: string }
+  'simulator:scene_loaded': { sceneId?: string; preset: string; source: 'gallery' | 'url' }
+  'simulator:scene_deleted': { sceneId: string }
+  'simulator:gallery_imported': { imported: number; skipped: number }
 
   // Checkout
   'checkout:session_creating': { productId: string }
@@ -151,6 +187,11 @@ export interface AppEventMap {
   'checkout:session_cancelling': { sessionId: string }
   'checkout:session_cancelled': { sessionId: string }
   'checkout:cache_cleared': {}
+  'checkout:promo_applied': { productId: string; code: string; discountPercent: number }
+  'checkout:payment_intent_created': { sessionId: string; intentId: string; paymentMethod: string }
+  'checkout:payment_processing': { sessionId: string; intentId: string }
+  'checkout:payment_succeeded': { sessionId: string; intentId: string }
+  'checkout:payment_failed': { sessionId: string; intentId: string; error: string }
 
   // WebSocket
   'websocket:connected': { url?: string }
@@ -167,6 +208,8 @@ export interface AppEventMap {
   'websocket:parse_error': { error: Error | string; data?: any }
   'websocket:send_error': { error: Error | string; data?: any }
   'websocket:queue_flushed': { count: number }
+  'websocket:resumed': { sessionId: string; resumed: boolean; redelivered: number }
+  'websocket:protocol_error': { error: Error | string; data?: unknown }
 
   // Mock server
   'mock:server:started': { port?: number }
@@ -178,6 +221,8 @@ export interface AppEventMap {
   'error:boundary': { error: Error; errorInfo?: any }
   'error:report': { error: Error | string; context?: string; user?: string }
   'error:max_retries_reached': { error: Error | string; retries: number }
+  'error:captured': { errorId: string; fingerprint: string; severity: string; count: number }
+  'error:reports_sent': { count: number }
 
   // Generic system events
   'system:heartbeat': { ts: number }
@@ -2,15 +2,28 @@
 
 /* src/core/hooks.ts
 
-   Small Hook registry used by providers and the mock server to extend behavior without tight coupling.
+   Small Hook registry used by providers and the API client to extend behavior without tight coupling.
+
+   It also holds the API middleware chain that every ApiClient request passes through, in
+   `order` (lower runs first, so it wraps everything after it). A middleware may rewrite the
+   request before calling `next()`, inspect or replace the result after it, or return without
+   calling `next()` to short-circuit, e.g. with a cached response. Unlike hook handlers, a
+   middleware that throws fails the request: the error reaches the middleware outside it as
+   an `ApiError` result.
 
    Example:
      import { hooks } from '@/core/hooks'
      hooks.register('beforeApiRequest', ({ path, meta }) => { meta.start = Date.now() })
      await hooks.run('afterApiResponse', { path, response })
+
+     hooks.addApiMiddleware('cache', async (request, next) => {
+       const cached = cache.get(request.path)
+       if (request.method === 'GET' && cached) return cached
+       return next()
+     }, { order: 50 })
 */
 
-import { ApiResult } from '@/core/contracts'
+import { ApiError, ApiResult } from '@/core/contracts'
 import { eventBus } from '@/core/events'
 
 // Named hook points used across the app
@@ -31,12 +44,14 @@ export interface BeforeApiRequestContext extends BaseHookContext {
   path: string
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | string
   body?: unknown
+  headers?: Record<string, string>
   // handlers may add headers, cancel token, or mutate body
 }
 
 export interface AfterApiResponseContext<T = unknown> extends BaseHookContext {
   path: string
   method: string
+  // handlers may replace the response the caller receives
   response: ApiResult<T>
 }
 
@@ -54,9 +69,42 @@ export type HookContext = BeforeApiRequestContext | AfterApiResponseContext | Au
 
 export type HookHandler<C extends HookContext = HookContext> = (ctx: C) => void | Promise<void>
 
+// Request as it travels through the API middleware chain; middleware rewrite it in place
+export interface ApiRequestContext extends BeforeApiRequestContext {
+  headers: Record<string, string>
+  meta: Record<string, unknown>
+  // HTTP status, set by the transport once a response arrives
+  status?: number
+}
+
+export type ApiMiddleware = (
+  request: ApiRequestContext,
+  next: () => Promise<ApiResult<unknown>>
+) => Promise<ApiResult<unknown>>
+
+export interface ApiMiddlewareOptions {
+  order?: number // Lower runs first; default 100, after the built-ins
+}
+
+interface ApiMiddlewareEntry {
+  name: string
+  order: number
+  handler: ApiMiddleware
+}
+
+const DEFAULT_MIDDLEWARE_ORDER = 100
+
+// Errors thrown inside the chain become a failed result for the middleware outside
+const toApiError = (error: unknown, request: ApiRequestContext): ApiError => ({
+  code: error instanceof Error && error.name !== 'Error' ? error.name : 'MIDDLEWARE_ERROR',
+  message: error instanceof Error ? error.message : String(error),
+  details: { method: request.method, path: request.path }
+})
+
 // Hook registry
 export class HookRegistry {
   private map: Map<HookPoint, HookHandler<any>[]> = new Map()
+  private middleware: ApiMiddlewareEntry[] = []
 
   register<K extends HookPoint>(point: K, handler: HookHandler<any>): () => void {
     const list = this.map.get(point) ?? []
@@ -89,6 +137,44 @@ export class HookRegistry {
     }
   }
 
+  // Add an API middleware; a middleware registered under an existing name replaces it
+  addApiMiddleware(name: string, handler: ApiMiddleware, options: ApiMiddlewareOptions = {}): () => void {
+    const entry: ApiMiddlewareEntry = { name, handler, order: options.order ?? DEFAULT_MIDDLEWARE_ORDER }
+    // Stable sort keeps registration order among equal `order`s
+    this.middleware = [...this.middleware.filter(current => current.name !== name), entry]
+      .sort((a, b) => a.order - b.order)
+
+    return () => {
+      this.middleware = this.middleware.filter(current => current !== entry)
+    }
+  }
+
+  // Pass a request through the middleware chain, ending with `transport`
+  async runApiMiddleware(
+    request: ApiRequestContext,
+    transport: (request: ApiRequestContext) => Promise<ApiResult<unknown>>
+  ): Promise<ApiResult<unknown>> {
+    const chain = Array.from(this.middleware)
+
+    const dispatch = async (index: number): Promise<ApiResult<unknown>> => {
+      const entry = chain[index]
+      try {
+        return entry
+          ? await entry.handler(request, () => dispatch(index + 1))
+          : await transport(request)
+      } catch (err) {
+        return { ok: false, error: toApiError(err, request) }
+      }
+    }
+
+    return dispatch(0)
+  }
+
+  // Names of API middleware in the order they run
+  getApiMiddleware(): string[] {
+    return this.middleware.map(entry => entry.name)
+  }
+
   // Get all registered hook points (useful for debugging)
   getRegisteredHooks(): string[] {
     return Array.from(this.map.keys())
@@ -116,10 +202,13 @@ export const hooks = new HookRegistry()
 // Convenience typed registration helpers exported for ergonomics
 export const registerHook = <K extends HookPoint>(point: K, handler: HookHandler<any>) => hooks.register(point, handler)
 export const runHook = <K extends HookPoint>(point: K, ctx: HookContext) => hooks.run(point, ctx)
+export const addApiMiddleware = (name: string, handler: ApiMiddleware, options?: ApiMiddlewareOptions) =>
+  hooks.addApiMiddleware(name, handler, options)
 
 // Development helpers
 export const debugHooks = () => ({
   registeredHooks: hooks.getRegisteredHooks(),
+  apiMiddleware: hooks.getApiMiddleware(),
   getHandlerCount: (point: HookPoint) => hooks.getHandlerCount(point),
   clear: (point: HookPoint) => hooks.clear(point),
   clearAll: () => hooks.clearAll(),
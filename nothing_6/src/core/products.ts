@@ -0,0 +1,57 @@
+// filepath: src/core/products.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - static catalog)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for catalog)
+
+import { NothingProduct } from '@/core/contracts'
+
+/* src/core/products.ts
+
+   The product catalog. Side-effect free so both the checkout service and build-time code such
+   as the prerender step (Product structured data in `@/meta/seo`) can import it.
+
+   Usage:
+     import { CHECKOUT_PRODUCTS } from '@/core/products'
+*/
+
+// Products that can be bought through checkout
+export const CHECKOUT_PRODUCTS: NothingProduct[] = [
+  {
+    id: 'basic-nothing',
+    sku: 'NTH-BASIC',
+    title: 'Basic Nothing',
+    description: 'Perfect for those just starting their journey into nothingness',
+    priceCents: 0,
+    recurring: true,
+    features: ['Absolutely nothing', 'Zero features included', 'Emptiness guarantee']
+  },
+  {
+    id: 'premium-nothing',
+    sku: 'NTH-PREMIUM',
+    title: 'Premium Nothing',
+    description: 'Advanced nothingness for professionals who need more nothing',
+    priceCents: 999,
+    recurring: true,
+    features: ['Premium nothing', 'Enhanced emptiness', 'Priority no-support']
+  },
+  {
+    id: 'enterprise-nothing',
+    sku: 'NTH-ENTERPRISE',
+    title: 'Enterprise Nothing',
+    description: 'Ultimate nothingness solution for large organizations',
+    priceCents: 9999,
+    recurring: true,
+    features: ['Enterprise-grade nothing', 'Unlimited emptiness', 'SLA for nothing delivery']
+  },
+  {
+    id: 'ultimate-void',
+    sku: 'NTH-VOID',
+    title: 'Ultimate Void',
+    description: 'The complete absence of everything, forever',
+    priceCents: 99999,
+    recurring: false,
+    features: ['Lifetime nothing', 'Void of your own', 'Silence on demand']
+  }
+]
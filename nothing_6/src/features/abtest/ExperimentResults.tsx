@@ -0,0 +1,264 @@
+// filepath: src/features/abtest/ExperimentResults.tsx
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component
+// [x] Adds basic ARIA and keyboard handlers (where relevant)
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { shouldUseMockData } from '@/app/config'
+import { useABTest } from '@/providers/ABTestProvider'
+import {
+  ExperimentResults as ExperimentResultsData,
+  experimentResultsService,
+  VariantGoalResult
+} from '@/services/experiments'
+import Badge from '@/shared/components/Badge'
+import Button from '@/shared/components/Button'
+import GlassCard from '@/shared/components/GlassCard'
+import LoadingSpinner from '@/shared/components/LoadingSpinner'
+import Table, { TableColumn } from '@/shared/components/Table'
+import { formatNumber, formatPercentage } from '@/utils/format'
+
+/* src/features/abtest/ExperimentResults.tsx
+
+   Internal dashboard for A/B experiments: conversion rate per variant and goal with
+   confidence intervals, lift against control and a sequential significance test, plus
+   QA links that force a variant through the `ab_force` URL override.
+
+   Usage:
+     <ExperimentResults />
+*/
+
+const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99]
+
+const percent = (value: number, decimals = 1) => `${(value * 100).toFixed(decimals)}%`
+
+// Horizontal bar showing a variant's interval on a shared 0..max scale
+const IntervalBar: React.FC<{ result: VariantGoalResult; max: number }> = ({ result, max }) => {
+  const scale = (value: number) => `${Math.min(100, (value / max) * 100)}%`
+
+  return (
+    <div
+      className="relative h-2 w-32 rounded bg-gray-200 dark:bg-gray-700"
+      role="img"
+      aria-label={`${percent(result.interval.lower)} to ${percent(result.interval.upper)}`}
+    >
+      <div
+        className={`absolute h-2 rounded ${result.isControl ? 'bg-gray-500' : 'bg-blue-500'}`}
+        style={{ left: scale(result.interval.lower), width: `calc(${scale(result.interval.upper)} - ${scale(result.interval.lower)})` }}
+      />
+      <div className="absolute -top-0.5 h-3 w-0.5 bg-gray-900 dark:bg-white" style={{ left: scale(result.rate) }} />
+    </div>
+  )
+}
+
+const SignificanceBadge: React.FC<{ result: VariantGoalResult }> = ({ result }) => {
+  if (result.isControl) return <Badge variant="neutral" size="sm">Control</Badge>
+  if (!result.test) return null
+
+  if (!result.test.significant) {
+    return <Badge variant="secondary" size="sm">Not yet significant</Badge>
+  }
+  return result.test.difference > 0
+    ? <Badge variant="success" size="sm">Winning</Badge>
+    : <Badge variant="error" size="sm">Losing</Badge>
+}
+
+export default function ExperimentResults() {
+  const { experiments, overrides, getVariant } = useABTest()
+  const [experimentId, setExperimentId] = useState(experiments[0]?.id ?? '')
+  const [confidence, setConfidence] = useState(0.95)
+  const [includeSampleTraffic, setIncludeSampleTraffic] = useState(shouldUseMockData)
+  const [results, setResults] = useState<ExperimentResultsData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const experiment = experiments.find(e => e.id === experimentId)
+
+  const loadResults = useCallback(async () => {
+    if (!experiment) return
+
+    setLoading(true)
+    setError(null)
+    const result = await experimentResultsService.getResults(experiment, { confidence, includeSampleTraffic })
+    setLoading(false)
+
+    if (result.ok && result.data) {
+      setResults(result.data)
+    } else {
+      setResults(null)
+      setError(result.error?.message || 'Failed to load results')
+    }
+  }, [experiment, confidence, includeSampleTraffic])
+
+  useEffect(() => {
+    loadResults()
+  }, [loadResults])
+
+  const confidenceLabel = percent(confidence, 0)
+
+  const columns: TableColumn<VariantGoalResult>[] = [
+    { key: 'variant', header: 'Variant', accessor: item => item.variantName },
+    { key: 'exposures', header: 'Visitors', accessor: item => formatNumber(item.exposures), align: 'right' },
+    { key: 'conversions', header: 'Conversions', accessor: item => formatNumber(item.conversions), align: 'right' },
+    { key: 'rate', header: 'Rate', accessor: item => percent(item.rate, 2), align: 'right' },
+    {
+      key: 'interval',
+      header: `${confidenceLabel} interval`,
+      accessor: item => `${percent(item.interval.lower)} – ${percent(item.interval.upper)}`,
+      align: 'right'
+    },
+    {
+      key: 'lift',
+      header: 'Lift',
+      accessor: item => (item.lift === undefined ? '—' : formatPercentage(item.lift, { showSign: true })),
+      align: 'right'
+    },
+    {
+      key: 'pValue',
+      header: 'p-value',
+      accessor: item => (item.test ? (item.test.pValue < 0.001 ? '< 0.001' : item.test.pValue.toFixed(3)) : '—'),
+      align: 'right'
+    },
+    { key: 'status', header: 'Status', accessor: item => <SignificanceBadge result={item} /> }
+  ]
+
+  if (experiments.length === 0) {
+    return <p className="text-gray-600 dark:text-gray-300">No experiments are configured.</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <GlassCard className="p-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col text-sm text-gray-700 dark:text-gray-300">
+            Experiment
+            <select
+              value={experimentId}
+              onChange={event => setExperimentId(event.target.value)}
+              className="mt-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+            >
+              {experiments.map(e => (
+                <option key={e.id} value={e.id}>
+                  {e.name}{e.enabled ? '' : ' (disabled)'}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col text-sm text-gray-700 dark:text-gray-300">
+            Confidence
+            <select
+              value={confidence}
+              onChange={event => setConfidence(Number(event.target.value))}
+              className="mt-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+            >
+              {CONFIDENCE_LEVELS.map(level => (
+                <option key={level} value={level}>{percent(level, 0)}</option>
+              ))}
+            </select>
+          </label>
+
+          {shouldUseMockData && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={includeSampleTraffic}
+                onChange={event => setIncludeSampleTraffic(event.target.checked)}
+              />
+              Include sample traffic
+            </label>
+          )}
+
+          <Button variant="outline" size="sm" onClick={loadResults} loading={loading}>
+            Refresh
+          </Button>
+        </div>
+
+        {results && (
+          <p className="mt-4 text-sm text-gray-500 dark:text-gray-400" aria-live="polite">
+            {formatNumber(results.totalExposures)} visitors exposed · source: {results.source} · updated{' '}
+            {new Date(results.generatedAt).toLocaleTimeString()}
+          </p>
+        )}
+      </GlassCard>
+
+      {loading && !results && (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-600 dark:text-red-400" role="alert">{error}</p>
+      )}
+
+      {results && experiment && (experiment.goals ?? []).length === 0 && (
+        <p className="text-gray-600 dark:text-gray-300">This experiment has no conversion goals.</p>
+      )}
+
+      {results?.goals.map(({ goal, variants }) => {
+        const max = Math.max(0.01, ...variants.map(v => v.interval.upper))
+
+        return (
+          <GlassCard key={goal.id} className="p-6" aria-labelledby={`goal-${goal.id}`}>
+            <h2 id={`goal-${goal.id}`} className="mb-1 text-lg font-semibold text-gray-900 dark:text-white">
+              {goal.name}
+            </h2>
+            <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+              Converts on <code>{goal.event}</code>
+            </p>
+
+            <Table data={variants} columns={columns} compact />
+
+            <div className="mt-4 space-y-2" aria-label="Conversion rate intervals">
+              {variants.map(variant => (
+                <div key={variant.variantId} className="flex items-center gap-3 text-sm">
+                  <span className="w-32 truncate text-gray-700 dark:text-gray-300">{variant.variantName}</span>
+                  <IntervalBar result={variant} max={max} />
+                </div>
+              ))}
+            </div>
+          </GlassCard>
+        )
+      })}
+
+      {experiment && (
+        <GlassCard className="p-6" aria-labelledby="experiment-qa-heading">
+          <h2 id="experiment-qa-heading" className="mb-2 text-lg font-semibold text-gray-900 dark:text-white">
+            QA overrides
+          </h2>
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+            Open the site with a variant forced. Forced exposures are left out of the results.
+            {overrides[experiment.id] && (
+              <> This browser is forced into <strong>{overrides[experiment.id]}</strong>.</>
+            )}
+            {!overrides[experiment.id] && getVariant(experiment.id) && (
+              <> This browser is bucketed into <strong>{getVariant(experiment.id)}</strong>.</>
+            )}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {experiment.variants.map(variant => (
+              <a
+                key={variant.id}
+                href={`/?ab_force=${encodeURIComponent(`${experiment.id}:${variant.id}`)}`}
+                className="rounded-lg border border-gray-300 px-3 py-1 text-sm text-gray-800 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-800"
+              >
+                Force {variant.name}
+              </a>
+            ))}
+            {Object.keys(overrides).length > 0 && (
+              <a
+                href="/?ab_force=clear"
+                className="rounded-lg border border-red-300 px-3 py-1 text-sm text-red-700 hover:bg-red-50 dark:border-red-700 dark:text-red-300 dark:hover:bg-red-900/20"
+              >
+                Clear all overrides
+              </a>
+            )}
+          </div>
+        </GlassCard>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+// filepath: src/features/abtest/targeting.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - helper module)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for targeting rules)
+
+import { config } from '@/app/config'
+import { Role, User } from '@/core/contracts'
+
+/* src/features/abtest/targeting.ts
+
+   Targeting rules for A/B experiments. An experiment's `targeting` decides who is eligible
+   before any bucketing happens; every listed condition must hold.
+
+   Usage:
+     import { buildTargetingContext, evaluateTargeting } from '@/features/abtest/targeting'
+     const context = buildTargetingContext({ user, visitorId })
+     const { eligible } = evaluateTargeting(experiment.targeting, context)
+*/
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop'
+
+export interface TargetingContext {
+  visitorId: string
+  userId?: string
+  role: Role // 'guest' when nobody is signed in
+  isAuthenticated: boolean
+  featureToggles: Record<string, boolean>
+  device: DeviceType
+  viewport: { width: number; height: number }
+  attributes: Record<string, unknown>
+}
+
+export type TargetingPredicate = (context: TargetingContext) => boolean
+
+export interface TargetingRule {
+  attribute: string // Key in context.attributes, or a top-level context field
+  operator: 'equals' | 'not_equals' | 'in' | 'not_in' | 'gt' | 'lt' | 'exists'
+  value?: unknown
+}
+
+export interface ABTestTargeting {
+  userTypes?: Role[]
+  // Feature toggles that must be on; prefix with '!' for toggles that must be off
+  features?: string[]
+  devices?: DeviceType[]
+  viewport?: { minWidth?: number; maxWidth?: number }
+  // An inline predicate, a declarative rule, or the expected result of a registered predicate
+  customRules?: Record<string, TargetingPredicate | TargetingRule | boolean>
+}
+
+export interface TargetingResult {
+  eligible: boolean
+  failedRule?: string
+}
+
+// Viewport widths matching the Tailwind md and lg breakpoints
+const TABLET_MIN_WIDTH = 768
+const DESKTOP_MIN_WIDTH = 1024
+
+const namedPredicates = new Map<string, TargetingPredicate>()
+
+/**
+ * Register a predicate that experiments can reference by name in `customRules`
+ */
+export function registerTargetingPredicate(name: string, predicate: TargetingPredicate): void {
+  namedPredicates.set(name, predicate)
+}
+
+export function getDeviceType(width: number, userAgent = ''): DeviceType {
+  if (/iPad|Tablet/i.test(userAgent)) return 'tablet'
+  if (/Mobi|Android|iPhone/i.test(userAgent) || width < TABLET_MIN_WIDTH) return 'mobile'
+  return width < DESKTOP_MIN_WIDTH ? 'tablet' : 'desktop'
+}
+
+/**
+ * Snapshot of who the visitor is and what they are using, taken once when variants are assigned
+ */
+export function buildTargetingContext(options: {
+  visitorId: string
+  user?: User | null
+  attributes?: Record<string, unknown>
+}): TargetingContext {
+  const width = typeof window !== 'undefined' ? window.innerWidth : DESKTOP_MIN_WIDTH
+  const height = typeof window !== 'undefined' ? window.innerHeight : 768
+  const userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : ''
+
+  return {
+    visitorId: options.visitorId,
+    userId: options.user?.id,
+    role: options.user?.role ?? 'guest',
+    isAuthenticated: !!options.user,
+    featureToggles: config.featureToggles,
+    device: getDeviceType(width, userAgent),
+    viewport: { width, height },
+    attributes: options.attributes ?? {}
+  }
+}
+
+function readAttribute(context: TargetingContext, attribute: string): unknown {
+  if (attribute in context.attributes) return context.attributes[attribute]
+  return (context as unknown as Record<string, unknown>)[attribute]
+}
+
+function evaluateRule(rule: TargetingRule, context: TargetingContext): boolean {
+  const actual = readAttribute(context, rule.attribute)
+
+  switch (rule.operator) {
+    case 'equals':
+      return actual === rule.value
+    case 'not_equals':
+      return actual !== rule.value
+    case 'in':
+      return Array.isArray(rule.value) && rule.value.includes(actual)
+    case 'not_in':
+      return Array.isArray(rule.value) && !rule.value.includes(actual)
+    case 'gt':
+      return typeof actual === 'number' && typeof rule.value === 'number' && actual > rule.value
+    case 'lt':
+      return typeof actual === 'number' && typeof rule.value === 'number' && actual < rule.value
+    case 'exists':
+      return actual !== undefined && actual !== null
+    default:
+      return false
+  }
+}
+
+function evaluateCustomRule(
+  name: string,
+  rule: TargetingPredicate | TargetingRule | boolean,
+  context: TargetingContext
+): boolean {
+  if (typeof rule === 'function') return rule(context)
+  if (typeof rule === 'boolean') {
+    const predicate = namedPredicates.get(name)
+    // An unknown named predicate never matches, so a typo cannot widen an experiment
+    return predicate ? predicate(context) === rule : false
+  }
+  return evaluateRule(rule, context)
+}
+
+/**
+ * Whether a visitor may enter an experiment; experiments without targeting admit everyone
+ */
+export function evaluateTargeting(targeting: ABTestTargeting | undefined, context: TargetingContext): TargetingResult {
+  if (!targeting) return { eligible: true }
+
+  if (targeting.userTypes?.length && !targeting.userTypes.includes(context.role)) {
+    return { eligible: false, failedRule: 'userTypes' }
+  }
+
+  for (const feature of targeting.features ?? []) {
+    const negated = feature.startsWith('!')
+    const enabled = !!context.featureToggles[negated ? feature.slice(1) : feature]
+    if (enabled === negated) {
+      return { eligible: false, failedRule: `features:${feature}` }
+    }
+  }
+
+  if (targeting.devices?.length && !targeting.devices.includes(context.device)) {
+    return { eligible: false, failedRule: 'devices' }
+  }
+
+  const { minWidth, maxWidth } = targeting.viewport ?? {}
+  if ((minWidth !== undefined && context.viewport.width < minWidth) ||
+      (maxWidth !== undefined && context.viewport.width > maxWidth)) {
+    return { eligible: false, failedRule: 'viewport' }
+  }
+
+  for (const [name, rule] of Object.entries(targeting.customRules ?? {})) {
+    try {
+      if (!evaluateCustomRule(name, rule, context)) {
+        return { eligible: false, failedRule: `customRules:${name}` }
+      }
+    } catch {
+      return { eligible: false, failedRule: `customRules:${name}` }
+    }
+  }
+
+  return { eligible: true }
+}
@@ -8,209 +8,26 @@
 
 import React, { useState, useCallback, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { ApiResult, User, NothingProduct, Testimonial, PricingTier } from '@/core/contracts'
 import { appConfig } from '@/app/config'
+import { endpointList, type AnyEndpoint } from '@/core/endpoints'
 import { eventBus } from '@/core/events'
-import { nothingService } from '@/services/nothingService'
+import { generateCodeSamples } from '@/features/apiDocs/codeSamples'
+import { describeSchema, downloadOpenApiDocument } from '@/features/apiDocs/openapi'
+import TryItConsole from '@/features/apiDocs/TryItConsole'
 
 /* src/features/apiDocs/APIDocs.tsx
 
    Interactive API documentation viewer showing how to integrate nothing into any application.
-   Generates copyable code samples and live examples from core contracts.
+   Endpoints, schemas, code samples and the OpenAPI export all come from the endpoint registry
+   in `@/core/endpoints`, and the "try it" console calls them against the dev mock server.
 */
 
-interface APIEndpoint {
-  id: string
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE'
-  path: string
-  description: string
-  parameters?: Array<{ name: string; type: string; required: boolean; description: string }>
-  requestBody?: string
-  responseType: string
-  example: {
-    request?: string
-    response: string
-  }
-}
-
-interface CodeSample {
-  id: string
-  language: string
-  label: string
-  code: string
-}
-
-// Generate API documentation from contracts
-function generateAPIEndpoints(): APIEndpoint[] {
-  return [
-    {
-      id: 'get-nothing',
-      method: 'GET',
-      path: '/api/nothing',
-      description: 'Retrieve nothing in its purest form',
-      responseType: 'ApiResult<null>',
-      example: {
-        response: JSON.stringify({
-          ok: true,
-          data: null,
-          error: null
-        }, null, 2)
-      }
-    },
-    {
-      id: 'get-products',
-      method: 'GET',
-      path: '/api/products/nothing',
-      description: 'List all available nothing products',
-      responseType: 'ApiResult<NothingProduct[]>',
-      example: {
-        response: JSON.stringify({
-          ok: true,
-          data: [
-            {
-              id: 'nothing-basic',
-              sku: 'NOTHING-001',
-              title: 'Basic Nothing',
-              description: 'The essential nothing experience',
-              priceCents: 0,
-              features: ['Pure void', 'Unlimited emptiness']
-            }
-          ]
-        }, null, 2)
-      }
-    },
-    {
-      id: 'get-testimonials',
-      method: 'GET',
-      path: '/api/testimonials/nothing',
-      description: 'Fetch testimonials from satisfied nothing users',
-      responseType: 'ApiResult<Testimonial[]>',
-      example: {
-        response: JSON.stringify({
-          ok: true,
-          data: [
-            {
-              id: 'test-1',
-              author: 'Nothing Enthusiast',
-              quote: 'This nothing exceeded my expectations of nothingness',
-              rating: 5,
-              createdAt: new Date().toISOString()
-            }
-          ]
-        }, null, 2)
-      }
-    },
-    {
-      id: 'post-subscribe',
-      method: 'POST',
-      path: '/api/newsletter/nothing',
-      description: 'Subscribe to nothing updates',
-      parameters: [
-        { name: 'email', type: 'string', required: true, description: 'Email address for nothing updates' }
-      ],
-      requestBody: 'SubscribeRequest',
-      responseType: 'ApiResult<{ subscribed: boolean }>',
-      example: {
-        request: JSON.stringify({ email: 'user@void.com' }, null, 2),
-        response: JSON.stringify({
-          ok: true,
-          data: { subscribed: true }
-        }, null, 2)
-      }
-    }
-  ]
-}
-
-// Generate code samples for different languages
-function generateCodeSamples(endpoint: APIEndpoint): CodeSample[] {
-  const samples: CodeSample[] = []
-
-  // JavaScript/TypeScript fetch example
-  const jsCode = `
-// TypeScript example using fetch
-import { ApiResult, ${endpoint.responseType.includes('NothingProduct') ? 'NothingProduct' : 'Testimonial'} } from './types'
-
-async function ${endpoint.id.replace(/-/g, '')}() {
-  try {
-    const response = await fetch('${appConfig.apiBase}${endpoint.path}'${endpoint.method === 'POST' ? `, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(${endpoint.example.request || '{}'})
-    }` : ''})
-    
-    const result: ${endpoint.responseType} = await response.json()
-    
-    if (result.ok) {
-      return result.data
-    } else {
-      throw new Error(result.error?.message || 'API request failed')
-    }
-  } catch (error) {
-    console.error('Nothing API error:', error)
-    throw error
-  }
-}
-`.trim()
-
-  samples.push({
-    id: `${endpoint.id}-js`,
-    language: 'typescript',
-    label: 'TypeScript',
-    code: jsCode
-  })
-
-  // cURL example
-  const curlCode = endpoint.method === 'POST' 
-    ? `curl -X POST "${appConfig.apiBase}${endpoint.path}" \\
-  -H "Content-Type: application/json" \\
-  -d '${endpoint.example.request || '{}'}'`
-    : `curl "${appConfig.apiBase}${endpoint.path}"`
-
-  samples.push({
-    id: `${endpoint.id}-curl`,
-    language: 'bash',
-    label: 'cURL',
-    code: curlCode
-  })
-
-  // Python example
-  const pythonCode = `
-import requests
-from typing import Optional, Dict, Any
-
-def ${endpoint.id.replace(/-/g, '_')}() -> Optional[Dict[str, Any]]:
-    """${endpoint.description}"""
-    try:
-        ${endpoint.method === 'POST' 
-          ? `response = requests.post(
-            "${appConfig.apiBase}${endpoint.path}",
-            json=${endpoint.example.request || '{}'},
-            headers={"Content-Type": "application/json"}
-        )`
-          : `response = requests.get("${appConfig.apiBase}${endpoint.path}")`
-        }
-        
-        response.raise_for_status()
-        result = response.json()
-        
-        if result.get('ok'):
-            return result.get('data')
-        else:
-            raise Exception(result.get('error', {}).get('message', 'API request failed'))
-            
-    except requests.exceptions.RequestException as e:
-        print(f"Nothing API error: {e}")
-        raise
-`.trim()
-
-  samples.push({
-    id: `${endpoint.id}-python`,
-    language: 'python',
-    label: 'Python',
-    code: pythonCode
-  })
-
-  return samples
+const METHOD_STYLES: Record<AnyEndpoint['method'], string> = {
+  GET: 'bg-green-900 text-green-300',
+  POST: 'bg-blue-900 text-blue-300',
+  PUT: 'bg-yellow-900 text-yellow-300',
+  PATCH: 'bg-yellow-900 text-yellow-300',
+  DELETE: 'bg-red-900 text-red-300'
 }
 
 export default function APIDocs() {
@@ -218,10 +35,16 @@ export default function APIDocs() {
   const [selectedLanguage, setSelectedLanguage] = useState<string>('typescript')
   const [copiedCode, setCopiedCode] = useState<string | null>(null)
 
-  const endpoints = useMemo(() => generateAPIEndpoints(), [])
+  const endpointGroups = useMemo(() => {
+    const groups = new Map<string, AnyEndpoint[]>()
+    endpointList.forEach(endpoint => {
+      groups.set(endpoint.tag, [...(groups.get(endpoint.tag) ?? []), endpoint])
+    })
+    return Array.from(groups.entries())
+  }, [])
   const selectedEndpointData = useMemo(() => 
-    endpoints.find(ep => ep.id === selectedEndpoint),
-    [endpoints, selectedEndpoint]
+    endpointList.find(ep => ep.id === selectedEndpoint),
+    [selectedEndpoint]
   )
   const codeSamples = useMemo(() => 
     selectedEndpointData ? generateCodeSamples(selectedEndpointData) : [],
@@ -243,46 +66,12 @@ export default function APIDocs() {
     }
   }, [selectedEndpoint, selectedLanguage])
 
-  const handleTestEndpoint = useCallback(async (endpoint: APIEndpoint) => {
-    try {
-      eventBus.emit('analytics:event', {
-        name: 'api_docs_test_clicked',
-        properties: { endpoint: endpoint.id }
-      })
-
-      // Use the actual nothing service for testing
-      let result: ApiResult<any>
-      switch (endpoint.id) {
-        case 'get-nothing':
-          result = await nothingService.getNothing()
-          break
-        case 'get-products':
-          result = await nothingService.getProducts()
-          break
-        case 'get-testimonials':
-          result = await nothingService.getTestimonials()
-          break
-        default:
-          result = { ok: true, data: null }
-      }
-
-      console.log(`Test result for ${endpoint.path}:`, result)
-      
-      eventBus.emit('analytics:event', {
-        name: 'api_docs_test_completed',
-        properties: { 
-          endpoint: endpoint.id, 
-          success: result.ok,
-          hasData: !!result.data
-        }
-      })
-    } catch (error) {
-      console.error('API test failed:', error)
-      eventBus.emit('analytics:event', {
-        name: 'api_docs_test_failed',
-        properties: { endpoint: endpoint.id, error: String(error) }
-      })
-    }
+  const handleDownloadSpec = useCallback(() => {
+    downloadOpenApiDocument()
+    eventBus.emit('analytics:event', {
+      name: 'api_docs_openapi_downloaded',
+      properties: { endpoints: endpointList.length }
+    })
   }, [])
 
   return (
@@ -310,6 +99,15 @@ export default function APIDocs() {
           Integrate the power of absolutely nothing into your applications. 
           Our REST API provides programmatic access to nothingness.
         </motion.p>
+        <motion.button
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.15 }}
+          onClick={handleDownloadSpec}
+          className="mt-6 px-4 py-2 border border-purple-400/50 text-purple-300 hover:bg-purple-900/30 rounded-lg transition-colors text-sm font-semibold"
+        >
+          Download OpenAPI 3 spec
+        </motion.button>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -321,41 +119,43 @@ export default function APIDocs() {
           className="lg:col-span-1"
         >
           <h2 className="text-2xl font-bold text-white mb-6">API Endpoints</h2>
-          <div className="space-y-3">
-            {endpoints.map((endpoint) => (
-              <motion.button
-                key={endpoint.id}
-                onClick={() => setSelectedEndpoint(endpoint.id)}
-                className={`w-full text-left p-4 rounded-lg border transition-all duration-200 ${
-                  selectedEndpoint === endpoint.id
-                    ? 'bg-purple-900/30 border-purple-400 shadow-lg shadow-purple-500/20'
-                    : 'bg-gray-900/50 border-gray-700 hover:border-gray-600 hover:bg-gray-900/70'
-                }`}
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-                aria-pressed={selectedEndpoint === endpoint.id}
-                aria-describedby={`endpoint-${endpoint.id}-description`}
-              >
-                <div className="flex items-center justify-between mb-2">
-                  <span className={`font-mono text-sm px-2 py-1 rounded ${
-                    endpoint.method === 'GET' ? 'bg-green-900 text-green-300' :
-                    endpoint.method === 'POST' ? 'bg-blue-900 text-blue-300' :
-                    endpoint.method === 'PUT' ? 'bg-yellow-900 text-yellow-300' :
-                    'bg-red-900 text-red-300'
-                  }`}>
-                    {endpoint.method}
-                  </span>
+          <div className="space-y-6">
+            {endpointGroups.map(([tag, groupEndpoints]) => (
+              <div key={tag}>
+                <h3 className="text-xs uppercase tracking-wider text-gray-500 mb-2">{tag}</h3>
+                <div className="space-y-3">
+                  {groupEndpoints.map((endpoint) => (
+                    <motion.button
+                      key={endpoint.id}
+                      onClick={() => setSelectedEndpoint(endpoint.id)}
+                      className={`w-full text-left p-4 rounded-lg border transition-all duration-200 ${
+                        selectedEndpoint === endpoint.id
+                          ? 'bg-purple-900/30 border-purple-400 shadow-lg shadow-purple-500/20'
+                          : 'bg-gray-900/50 border-gray-700 hover:border-gray-600 hover:bg-gray-900/70'
+                      }`}
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      aria-pressed={selectedEndpoint === endpoint.id}
+                      aria-describedby={`endpoint-${endpoint.id}-description`}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <span className={`font-mono text-sm px-2 py-1 rounded ${METHOD_STYLES[endpoint.method]}`}>
+                          {endpoint.method}
+                        </span>
+                      </div>
+                      <div className="font-mono text-sm text-gray-300 mb-1">
+                        {endpoint.path}
+                      </div>
+                      <div 
+                        id={`endpoint-${endpoint.id}-description`}
+                        className="text-sm text-gray-400"
+                      >
+                        {endpoint.summary}
+                      </div>
+                    </motion.button>
+                  ))}
                 </div>
-                <div className="font-mono text-sm text-gray-300 mb-1">
-                  {endpoint.path}
-                </div>
-                <div 
-                  id={`endpoint-${endpoint.id}-description`}
-                  className="text-sm text-gray-400"
-                >
-                  {endpoint.description}
-                </div>
-              </motion.button>
+              </div>
             ))}
           </div>
         </motion.div>
@@ -376,24 +176,23 @@ export default function APIDocs() {
                 exit={{ opacity: 0, y: -20 }}
                 className="bg-gray-900/50 backdrop-blur-sm border border-gray-700 rounded-lg p-6"
               >
-                <div className="flex items-center justify-between mb-6">
-                  <div>
-                    <h3 className="text-2xl font-bold text-white mb-2">
+                <div className="mb-6">
+                  <div className="flex items-center gap-3 mb-2">
+                    <span className={`font-mono text-sm px-2 py-1 rounded ${METHOD_STYLES[selectedEndpointData.method]}`}>
+                      {selectedEndpointData.method}
+                    </span>
+                    <h3 className="text-2xl font-bold text-white font-mono">
                       {selectedEndpointData.path}
                     </h3>
-                    <p className="text-gray-300">{selectedEndpointData.description}</p>
                   </div>
-                  <button
-                    onClick={() => handleTestEndpoint(selectedEndpointData)}
-                    className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors font-semibold"
-                    aria-label={`Test ${selectedEndpointData.path} endpoint`}
-                  >
-                    Test API
-                  </button>
+                  <p className="text-gray-300">{selectedEndpointData.summary}</p>
+                  {selectedEndpointData.description && (
+                    <p className="text-gray-400 text-sm mt-2">{selectedEndpointData.description}</p>
+                  )}
                 </div>
 
                 {/* Parameters */}
-                {selectedEndpointData.parameters && (
+                {selectedEndpointData.params && (
                   <div className="mb-6">
                     <h4 className="text-lg font-semibold text-white mb-3">Parameters</h4>
                     <div className="overflow-x-auto">
@@ -401,15 +200,17 @@ export default function APIDocs() {
                         <thead>
                           <tr className="border-b border-gray-700">
                             <th className="text-left py-2 text-gray-300">Name</th>
+                            <th className="text-left py-2 text-gray-300">In</th>
                             <th className="text-left py-2 text-gray-300">Type</th>
                             <th className="text-left py-2 text-gray-300">Required</th>
                             <th className="text-left py-2 text-gray-300">Description</th>
                           </tr>
                         </thead>
                         <tbody>
-                          {selectedEndpointData.parameters.map((param) => (
+                          {selectedEndpointData.params.map((param) => (
                             <tr key={param.name} className="border-b border-gray-800">
                               <td className="py-2 font-mono text-purple-300">{param.name}</td>
+                              <td className="py-2 text-gray-400">{param.in}</td>
                               <td className="py-2 font-mono text-blue-300">{param.type}</td>
                               <td className="py-2">
                                 <span className={`px-2 py-1 rounded text-xs ${
@@ -417,7 +218,7 @@ export default function APIDocs() {
                                     ? 'bg-red-900 text-red-300' 
                                     : 'bg-gray-700 text-gray-300'
                                 }`}>
-                                  {param.required ? 'Required' : 'Optional'}
+                                  {param.required ? 'Required' : param.default !== undefined ? `Default ${param.default}` : 'Optional'}
                                 </span>
                               </td>
                               <td className="py-2 text-gray-300">{param.description}</td>
@@ -429,16 +230,46 @@ export default function APIDocs() {
                   </div>
                 )}
 
-                {/* Response Example */}
+                {/* Request Body */}
+                {selectedEndpointData.requestBody && (
+                  <div className="mb-6">
+                    <h4 className="text-lg font-semibold text-white mb-3">Request Body</h4>
+                    <div className="bg-black/50 rounded-lg p-4 font-mono text-sm overflow-x-auto">
+                      <pre className="text-gray-300">
+                        {describeSchema(selectedEndpointData.requestBody)}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+
+                {/* Response */}
                 <div className="mb-6">
-                  <h4 className="text-lg font-semibold text-white mb-3">Response Example</h4>
+                  <h4 className="text-lg font-semibold text-white mb-3">
+                    Response <span className="font-mono text-sm text-blue-300">{selectedEndpointData.responseType}</span>
+                  </h4>
                   <div className="bg-black/50 rounded-lg p-4 font-mono text-sm overflow-x-auto">
                     <pre className="text-gray-300">
-                      {selectedEndpointData.example.response}
+                      {JSON.stringify(selectedEndpointData.example.response, null, 2)}
                     </pre>
                   </div>
                 </div>
 
+                {/* Errors */}
+                {selectedEndpointData.errors && (
+                  <div className="mb-6">
+                    <h4 className="text-lg font-semibold text-white mb-3">Errors</h4>
+                    <ul className="space-y-2 text-sm">
+                      {selectedEndpointData.errors.map((error) => (
+                        <li key={error.code} className="flex gap-3">
+                          <span className="font-mono text-red-300">{error.status}</span>
+                          <span className="font-mono text-purple-300">{error.code}</span>
+                          <span className="text-gray-300">{error.description}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Code Samples */}
                 <div>
                   <div className="flex items-center justify-between mb-4">
@@ -486,6 +317,12 @@ export default function APIDocs() {
                       ))}
                   </AnimatePresence>
                 </div>
+
+                <TryItConsole
+                  key={selectedEndpointData.id}
+                  endpoint={selectedEndpointData}
+                  className="mt-8 pt-6 border-t border-gray-700"
+                />
               </motion.div>
             ) : (
               <motion.div
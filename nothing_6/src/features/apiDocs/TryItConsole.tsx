@@ -0,0 +1,204 @@
+// filepath: src/features/apiDocs/TryItConsole.tsx
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component
+// [x] Adds basic ARIA and keyboard handlers (where relevant)
+
+import React, { useState } from 'react'
+import { shouldUseMockData } from '@/app/config'
+import type { ApiResult } from '@/core/contracts'
+import { eventBus } from '@/core/events'
+import type { AnyEndpoint, EndpointParam } from '@/core/endpoints'
+import { callEndpoint } from '@/services/endpointClient'
+import { getMockServerStatus, startMockServer } from '@/services/mockServer'
+import Button from '@/shared/components/Button'
+
+/* src/features/apiDocs/TryItConsole.tsx
+
+   "Try it" console for one registry endpoint. Parameters and body start from the endpoint's
+   example; requests go through the generated client and are answered by the dev mock server,
+   which the console can start when it is not running yet.
+
+   Usage:
+     <TryItConsole key={endpoint.id} endpoint={endpoint} />
+*/
+
+export interface TryItConsoleProps {
+  endpoint: AnyEndpoint
+  className?: string
+}
+
+interface ConsoleResponse {
+  result: ApiResult<unknown>
+  durationMs: number
+}
+
+const initialParamValues = (endpoint: AnyEndpoint): Record<string, string> => {
+  const example = (endpoint.example.params ?? {}) as Record<string, unknown>
+  return (endpoint.params ?? []).reduce<Record<string, string>>((values, param) => {
+    const value = example[param.name] ?? param.default
+    values[param.name] = value === undefined ? '' : String(value)
+    return values
+  }, {})
+}
+
+const coerceParamValue = (param: EndpointParam, raw: string): unknown => {
+  if (raw.trim() === '') return undefined
+  if (param.type === 'integer' || param.type === 'number') return Number(raw)
+  if (param.type === 'boolean') return raw === 'true'
+  return raw
+}
+
+export function TryItConsole({ endpoint, className = '' }: TryItConsoleProps) {
+  const [paramValues, setParamValues] = useState(() => initialParamValues(endpoint))
+  const [bodyText, setBodyText] = useState(() =>
+    endpoint.example.body !== undefined ? JSON.stringify(endpoint.example.body, null, 2) : ''
+  )
+  const [bodyError, setBodyError] = useState<string | null>(null)
+  const [isSending, setIsSending] = useState(false)
+  const [isStarting, setIsStarting] = useState(false)
+  const [isMockRunning, setIsMockRunning] = useState(() => getMockServerStatus().isRunning)
+  const [response, setResponse] = useState<ConsoleResponse | null>(null)
+
+  const handleStartMockServer = async () => {
+    setIsStarting(true)
+    try {
+      await startMockServer({ quiet: true, onUnhandledRequest: 'bypass' })
+    } catch (error) {
+      console.warn('Failed to start the mock server:', error)
+    } finally {
+      setIsMockRunning(getMockServerStatus().isRunning)
+      setIsStarting(false)
+    }
+  }
+
+  const handleSend = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    let body: unknown
+    if (endpoint.requestBody) {
+      try {
+        body = bodyText.trim() ? JSON.parse(bodyText) : undefined
+        setBodyError(null)
+      } catch {
+        setBodyError('The request body is not valid JSON')
+        return
+      }
+    }
+
+    const params = (endpoint.params ?? []).reduce<Record<string, unknown>>((values, param) => {
+      values[param.name] = coerceParamValue(param, paramValues[param.name] ?? '')
+      return values
+    }, {})
+
+    setIsSending(true)
+    const startedAt = performance.now()
+    const result = await callEndpoint(endpoint, { params, body })
+    const durationMs = Math.round(performance.now() - startedAt)
+    setResponse({ result, durationMs })
+    setIsSending(false)
+
+    eventBus.emit('analytics:event', {
+      name: 'api_docs_try_it',
+      properties: { endpoint: endpoint.id, success: result.ok, durationMs }
+    })
+  }
+
+  return (
+    <section className={`space-y-4 ${className}`} aria-labelledby={`try-it-${endpoint.id}`}>
+      <div className="flex items-center justify-between gap-3">
+        <h4 id={`try-it-${endpoint.id}`} className="text-lg font-semibold text-white">Try it</h4>
+        <span className={`text-xs px-2 py-1 rounded ${isMockRunning ? 'bg-green-900 text-green-300' : 'bg-gray-700 text-gray-300'}`}>
+          {isMockRunning ? 'Mock server running' : 'Mock server stopped'}
+        </span>
+      </div>
+
+      {!shouldUseMockData ? (
+        <p className="text-sm text-gray-400">
+          The console answers from the development mock server, which is not part of this build.
+          Use the code samples above against {endpoint.method} {endpoint.path} instead.
+        </p>
+      ) : (
+        <form onSubmit={handleSend} className="space-y-4">
+          {!isMockRunning && (
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+              <span>Requests are answered by the mock server, which is not running.</span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleStartMockServer}
+                loading={isStarting}
+                className="border-gray-600 text-gray-300 hover:bg-gray-800"
+              >
+                Start mock server
+              </Button>
+            </div>
+          )}
+
+          {(endpoint.params ?? []).length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {endpoint.params?.map(param => (
+                <label key={param.name} className="block text-sm">
+                  <span className="text-gray-300 font-mono">
+                    {param.name}
+                    <span className="text-gray-500"> ({param.in}{param.required ? ', required' : ''})</span>
+                  </span>
+                  <input
+                    type={param.type === 'string' ? 'text' : 'number'}
+                    step={param.type === 'integer' ? 1 : undefined}
+                    value={paramValues[param.name] ?? ''}
+                    onChange={(e) => setParamValues(values => ({ ...values, [param.name]: e.target.value }))}
+                    required={param.in === 'path' || param.required}
+                    className="mt-1 w-full px-3 py-2 bg-black/50 border border-gray-700 rounded text-white font-mono focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+
+          {endpoint.requestBody && (
+            <label className="block text-sm">
+              <span className="text-gray-300">Request body (JSON)</span>
+              <textarea
+                value={bodyText}
+                onChange={(e) => setBodyText(e.target.value)}
+                rows={4}
+                spellCheck={false}
+                aria-invalid={bodyError !== null}
+                aria-describedby={bodyError ? `try-it-${endpoint.id}-body-error` : undefined}
+                className="mt-1 w-full px-3 py-2 bg-black/50 border border-gray-700 rounded text-gray-200 font-mono focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+              />
+              {bodyError && (
+                <span id={`try-it-${endpoint.id}-body-error`} className="text-red-400 text-xs" role="alert">
+                  {bodyError}
+                </span>
+              )}
+            </label>
+          )}
+
+          <Button type="submit" variant="primary" size="sm" loading={isSending} disabled={!isMockRunning}>
+            Send {endpoint.method} request
+          </Button>
+        </form>
+      )}
+
+      {response && (
+        <div aria-live="polite">
+          <div className="flex items-center gap-3 mb-2 text-sm">
+            <span className={`font-mono px-2 py-1 rounded ${response.result.ok ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'}`}>
+              {response.result.ok ? 'OK' : response.result.error?.code ?? 'ERROR'}
+            </span>
+            <span className="text-gray-500">{response.durationMs} ms</span>
+          </div>
+          <pre className="bg-black/50 rounded-lg p-4 font-mono text-sm text-gray-300 overflow-x-auto max-h-80">
+            {JSON.stringify(response.result.ok ? response.result.data ?? null : { error: response.result.error }, null, 2)}
+          </pre>
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default TryItConsole
@@ -0,0 +1,102 @@
+// filepath: src/features/apiDocs/codeSamples.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - helper module)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for code samples)
+
+import { appConfig } from '@/app/config'
+import type { AnyEndpoint } from '@/core/endpoints'
+import { buildEndpointPath } from '@/services/endpointClient'
+
+/* src/features/apiDocs/codeSamples.ts
+
+   Copyable code samples for a registry endpoint, filled in with its example parameters
+   and body: the typed `endpointClient` call, cURL and Python.
+
+   Usage:
+     import { generateCodeSamples } from '@/features/apiDocs/codeSamples'
+     const samples = generateCodeSamples(endpoints.listTestimonials)
+*/
+
+export interface CodeSample {
+  id: string
+  language: string
+  label: string
+  code: string
+}
+
+const toSnakeCase = (value: string) => value.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`)
+
+// JSON literals outside of strings spelled the Python way
+const toPythonLiteral = (json: string) =>
+  json.replace(/("(?:[^"\\]|\\.)*")|\b(true|false|null)\b/g, (match, quoted: string | undefined, literal: string | undefined) =>
+    quoted ?? (literal === 'true' ? 'True' : literal === 'false' ? 'False' : 'None')
+  )
+
+const exampleInput = (endpoint: AnyEndpoint): string => {
+  const fields: string[] = []
+  if (endpoint.example.params !== undefined) {
+    fields.push(`params: ${JSON.stringify(endpoint.example.params)}`)
+  }
+  if (endpoint.example.body !== undefined) {
+    fields.push(`body: ${JSON.stringify(endpoint.example.body)}`)
+  }
+  return fields.length > 0 ? `{ ${fields.join(', ')} }` : ''
+}
+
+export function generateCodeSamples(endpoint: AnyEndpoint): CodeSample[] {
+  const params = (endpoint.example.params ?? {}) as Record<string, unknown>
+  const url = `${appConfig.apiBase}${buildEndpointPath(endpoint, params) ?? endpoint.path}`
+  const body = endpoint.example.body !== undefined ? JSON.stringify(endpoint.example.body) : null
+  const hasBody = body !== null && endpoint.method !== 'GET' && endpoint.method !== 'DELETE'
+
+  const tsCode = `
+// TypeScript, using the typed client generated from the endpoint registry
+import { endpointClient } from '@/services/endpointClient'
+
+const result = await endpointClient.${endpoint.id}(${exampleInput(endpoint)})
+
+if (result.ok) {
+  const data: ${endpoint.responseType} = result.data!
+  console.log(data)
+} else {
+  console.error(result.error?.code, result.error?.message)
+}
+`.trim()
+
+  const curlCode = hasBody
+    ? `curl -X ${endpoint.method} "${url}" \\
+  -H "Content-Type: application/json" \\
+  -d '${body}'`
+    : endpoint.method === 'GET'
+      ? `curl "${url}"`
+      : `curl -X ${endpoint.method} "${url}"`
+
+  const pythonCode = `
+import requests
+from typing import Any
+
+def ${toSnakeCase(endpoint.id)}() -> Any:
+    """${endpoint.summary}"""
+    response = requests.request(
+        "${endpoint.method}",
+        "${url}",${hasBody ? `
+        json=${toPythonLiteral(body)},` : ''}
+        headers={"Accept": "application/json"},
+    )
+    result = response.json()
+
+    if not response.ok:
+        error = result.get("error", {})
+        raise Exception(f"{error.get('code')}: {error.get('message')}")
+
+    return result
+`.trim()
+
+  return [
+    { id: `${endpoint.id}-ts`, language: 'typescript', label: 'TypeScript', code: tsCode },
+    { id: `${endpoint.id}-curl`, language: 'bash', label: 'cURL', code: curlCode },
+    { id: `${endpoint.id}-python`, language: 'python', label: 'Python', code: pythonCode }
+  ]
+}
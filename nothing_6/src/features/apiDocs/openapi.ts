@@ -0,0 +1,186 @@
+// filepath: src/features/apiDocs/openapi.ts
+// [x] Uses `@/` imports as much as possible
+// [ ] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - helper module)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for document helpers)
+
+import { config } from '@/app/config'
+import {
+  apiSchemas,
+  endpointList,
+  type AnyEndpoint,
+  type SchemaObject
+} from '@/core/endpoints'
+
+/* src/features/apiDocs/openapi.ts
+
+   OpenAPI 3 document for the endpoint registry, plus the schema summaries the docs page
+   shows. Path parameters become `{name}`, every error answer uses the `{ error: ApiError }`
+   envelope the mock handlers and the API return, and endpoints that validate input also
+   document the 400 INVALID_REQUEST answer.
+
+   Usage:
+     import { buildOpenApiDocument, downloadOpenApiDocument } from '@/features/apiDocs/openapi'
+     const spec = buildOpenApiDocument()
+*/
+
+interface OpenApiMediaType {
+  schema: SchemaObject
+  example?: unknown
+}
+
+interface OpenApiResponse {
+  description: string
+  content?: Record<string, OpenApiMediaType>
+}
+
+interface OpenApiParameter {
+  name: string
+  in: 'path' | 'query'
+  required: boolean
+  description: string
+  schema: SchemaObject & { default?: string | number | boolean }
+}
+
+export interface OpenApiOperation {
+  operationId: string
+  summary: string
+  description?: string
+  tags: string[]
+  parameters?: OpenApiParameter[]
+  requestBody?: {
+    required: boolean
+    content: Record<string, OpenApiMediaType>
+  }
+  responses: Record<string, OpenApiResponse>
+}
+
+export interface OpenApiDocument {
+  openapi: string
+  info: { title: string; version: string; description: string }
+  servers: Array<{ url: string }>
+  tags: Array<{ name: string }>
+  paths: Record<string, Record<string, OpenApiOperation>>
+  components: { schemas: Record<string, SchemaObject> }
+}
+
+const JSON_CONTENT = 'application/json'
+
+const ERROR_ENVELOPE: SchemaObject = {
+  type: 'object',
+  required: ['error'],
+  properties: { error: { $ref: '#/components/schemas/ApiError' } }
+}
+
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}')
+}
+
+const validatesInput = (endpoint: AnyEndpoint) =>
+  Boolean(endpoint.requestBody) || (endpoint.params ?? []).some(param => param.required || param.type !== 'string')
+
+function toOperation(endpoint: AnyEndpoint): OpenApiOperation {
+  const responses: Record<string, OpenApiResponse> = {
+    [String(endpoint.successStatus ?? 200)]: {
+      description: endpoint.summary,
+      content: { [JSON_CONTENT]: { schema: endpoint.response, example: endpoint.example.response } }
+    }
+  }
+
+  const errors = [...(endpoint.errors ?? [])]
+  if (validatesInput(endpoint) && !errors.some(error => error.status === 400)) {
+    errors.unshift({ status: 400, code: 'INVALID_REQUEST', description: 'A parameter or body field is missing or malformed' })
+  }
+  errors.forEach(error => {
+    responses[String(error.status)] = {
+      description: `${error.code}: ${error.description}`,
+      content: {
+        [JSON_CONTENT]: {
+          schema: ERROR_ENVELOPE,
+          example: { error: { code: error.code, message: error.description } }
+        }
+      }
+    }
+  })
+
+  return {
+    operationId: endpoint.id,
+    summary: endpoint.summary,
+    description: endpoint.description,
+    tags: [endpoint.tag],
+    parameters: endpoint.params?.map(param => ({
+      name: param.name,
+      in: param.in,
+      required: param.in === 'path' || Boolean(param.required),
+      description: param.description,
+      schema: { type: param.type, default: param.default }
+    })),
+    requestBody: endpoint.requestBody
+      ? {
+          required: true,
+          content: { [JSON_CONTENT]: { schema: endpoint.requestBody, example: endpoint.example.body } }
+        }
+      : undefined,
+    responses
+  }
+}
+
+export function buildOpenApiDocument(list: AnyEndpoint[] = endpointList): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {}
+  list.forEach(endpoint => {
+    const path = toOpenApiPath(endpoint.path)
+    paths[path] = { ...paths[path], [endpoint.method.toLowerCase()]: toOperation(endpoint) }
+  })
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: `${config.appName} API`,
+      version: config.version,
+      description: 'Programmatic access to absolutely nothing.'
+    },
+    servers: [{ url: config.apiBase }],
+    tags: Array.from(new Set(list.map(endpoint => endpoint.tag))).map(name => ({ name })),
+    paths,
+    components: { schemas: apiSchemas }
+  }
+}
+
+/**
+ * Save the OpenAPI document through the browser's download prompt
+ */
+export function downloadOpenApiDocument(document: OpenApiDocument = buildOpenApiDocument()): void {
+  const blob = new Blob([JSON.stringify(document, null, 2)], { type: JSON_CONTENT })
+  const url = window.URL.createObjectURL(blob)
+
+  const link = window.document.createElement('a')
+  link.href = url
+  link.download = `nothing-openapi-${config.version}.json`
+  window.document.body.appendChild(link)
+  link.click()
+  window.document.body.removeChild(link)
+
+  window.URL.revokeObjectURL(url)
+}
+
+/**
+ * TypeScript-like summary of a schema for the docs page, e.g. `{ email: string }`
+ */
+export function describeSchema(schema: SchemaObject, indent = ''): string {
+  if (schema.$ref) return schema.$ref.split('/').pop() ?? 'unknown'
+  if (schema.enum) return schema.enum.map(value => `'${value}'`).join(' | ')
+  if (schema.type === 'array') return `${describeSchema(schema.items ?? {}, indent)}[]`
+
+  if (schema.type === 'object' && schema.properties) {
+    const inner = `${indent}  `
+    const fields = Object.entries(schema.properties).map(([name, property]) => {
+      const optional = schema.required?.includes(name) ? '' : '?'
+      return `${inner}${name}${optional}: ${describeSchema(property, inner)}`
+    })
+    return `{\n${fields.join('\n')}\n${indent}}`
+  }
+
+  const base = schema.type === 'integer' ? 'number' : schema.type ?? 'null'
+  return schema.nullable && schema.type ? `${base} | null` : base
+}
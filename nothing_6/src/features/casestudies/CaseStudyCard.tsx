@@ -7,6 +7,7 @@
 
 import React from 'react'
 import { eventBus } from '@/core/events'
+import { useI18n } from '@/providers/I18nProvider'
 import GlassCard from '@/shared/components/GlassCard'
 import Button from '@/shared/components/Button'
 
@@ -48,6 +49,8 @@ const CaseStudyCard: React.FC<CaseStudyCardProps> = ({
   showFullTestimonial = false,
   variant = 'default'
 }) => {
+  const { t, formatDate: formatLocalizedDate } = useI18n()
+
   const handleViewDetails = () => {
     eventBus.emit('analytics:event', {
       name: 'case_study_viewed',
@@ -73,10 +76,10 @@ const CaseStudyCard: React.FC<CaseStudyCardProps> = ({
   }
 
   const formatDate = (date: Date) => {
-    return new Intl.DateTimeFormat('en-US', {
+    return formatLocalizedDate(date, {
       month: 'short',
       year: 'numeric'
-    }).format(date)
+    })
   }
 
   const isCompact = variant === 'compact'
@@ -89,7 +92,7 @@ const CaseStudyCard: React.FC<CaseStudyCardProps> = ({
       } ${className}`}
       tabIndex={0}
       role="article"
-      aria-label={`Case study: ${caseStudy.title} for ${caseStudy.company}`}
+      aria-label={t('caseStudies.cardAria', { title: caseStudy.title, company: caseStudy.company })}
       onKeyDown={handleKeyDown}
       onClick={handleViewDetails}
     >
@@ -118,7 +121,7 @@ const CaseStudyCard: React.FC<CaseStudyCardProps> = ({
           {isFeatured && (
             <div className="flex-shrink-0">
               <div className="px-2 py-1 bg-blue-500/20 text-blue-300 text-xs font-medium rounded-full">
-                Featured
+                {t('caseStudies.featured')}
               </div>
             </div>
           )}
@@ -196,7 +199,7 @@ const CaseStudyCard: React.FC<CaseStudyCardProps> = ({
             ))}
             {caseStudy.tags.length > (isCompact ? 2 : 4) && (
               <span className="px-2 py-1 bg-gray-700/30 text-gray-500 text-xs rounded-full">
-                +{caseStudy.tags.length - (isCompact ? 2 : 4)} more
+                {t('caseStudies.moreTags', { count: caseStudy.tags.length - (isCompact ? 2 : 4) })}
               </span>
             )}
           </div>
@@ -205,15 +208,15 @@ const CaseStudyCard: React.FC<CaseStudyCardProps> = ({
         {/* Footer */}
         <div className="flex items-center justify-between pt-2 border-t border-gray-700/30">
           <div className="text-xs text-gray-500">
-            Duration: {caseStudy.duration}
+            {t('caseStudies.duration', { duration: caseStudy.duration })}
           </div>
           <Button
             variant="ghost"
             size="sm"
             className="text-blue-400 hover:text-blue-300 p-0 h-auto font-medium"
-            aria-label={`View full case study for ${caseStudy.company}`}
+            aria-label={t('caseStudies.viewDetailsAria', { company: caseStudy.company })}
           >
-            View Details →
+            {t('caseStudies.viewDetails')}
           </Button>
         </div>
       </div>
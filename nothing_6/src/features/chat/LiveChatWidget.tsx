@@ -6,67 +6,60 @@
 // [x] Adds basic ARIA and keyboard handlers (where relevant)
 
 import React, { useState, useEffect, useRef } from 'react'
-import { config, isDevelopment } from '@/app/config'
-import { eventBus } from '@/core/events'
-import { User } from '@/core/contracts'
+import { ChatMessage } from '@/core/contracts'
+import { AnalyticsServiceToken } from '@/core/di'
 import { useChat } from '@/providers/ChatProvider'
+import { useService } from '@/providers/DIProvider'
 import SilencePlayer from '@/features/sounds/SilencePlayer'
-import { socketManager as websocketService } from '@/services/websocket'
 import Modal from '@/shared/components/Modal'
 
-export interface ChatMessage {
-  id: string
-  message: string
-  timestamp: Date
-  isUser: boolean
-  isTyping?: boolean
-}
-
 export interface LiveChatWidgetProps {
   className?: string
   position?: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left'
   theme?: 'light' | 'dark' | 'auto'
 }
 
-const MOCK_AGENT_RESPONSES = [
-  "Thanks for contacting Nothing Support! I'm here to provide absolutely no assistance.",
-  "I understand your concern, but I'm afraid I can't help with that or anything else.",
-  "Have you tried turning nothing off and on again?",
-  "Let me transfer you to our specialist in nothing... oh wait, that's also me.",
-  "I'm sorry, but our policy is to provide zero solutions to all problems.",
-  "Your issue is very important to us. That's why we're doing nothing about it.",
-  "I see the problem. Unfortunately, seeing is all I can do.",
-  "Would you like me to escalate this to my manager who will also do nothing?",
-  "I'm currently away from my desk, but even if I wasn't, I still wouldn't help.",
-  "Thank you for waiting. Your patience has been noted and promptly ignored."
-]
-
-const CANNED_RESPONSES = [
-  "I need help with...",
-  "Something is broken",
-  "I want a refund",
-  "How does this work?",
-  "Is anyone there?",
-  "This is frustrating"
-]
+const formatTime = (message: ChatMessage) =>
+  new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
 
 const LiveChatWidget: React.FC<LiveChatWidgetProps> = ({ 
   className = '', 
   position = 'bottom-right',
   theme = 'auto'
 }) => {
-  const { isConnected, sendMessage, messages: providerMessages, isTyping } = useChat()
-  const [isOpen, setIsOpen] = useState(false)
-  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const {
+    isConnected,
+    connect,
+    sendMessage,
+    selectQuickReply,
+    requestHuman,
+    exportTranscript,
+    clearMessages,
+    messages,
+    mode,
+    queuePosition,
+    conversation,
+    quickReplies,
+    isTyping,
+    unreadCount,
+    isMinimized,
+    toggleMinimized,
+    startTyping,
+    stopTyping
+  } = useChat()
+  const analytics = useService(AnalyticsServiceToken)
+  const isOpen = !isMinimized
   const [currentMessage, setCurrentMessage] = useState('')
-  const [showCannedResponses, setShowCannedResponses] = useState(true)
-  const [agentTyping, setAgentTyping] = useState(false)
-  const [unreadCount, setUnreadCount] = useState(0)
   
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
   const widgetRef = useRef<HTMLDivElement>(null)
 
+  // Analytics holds chat activity until the visitor decides on consent
+  const trackChatEvent = (name: string, properties?: Record<string, unknown>) => {
+    analytics.track(name, properties)
+  }
+
   // Position classes mapping
   const positionClasses = {
     'bottom-right': 'bottom-6 right-6',
@@ -75,60 +68,32 @@ const LiveChatWidget: React.FC<LiveChatWidgetProps> = ({
     'top-left': 'top-6 left-6'
   }
 
-  // Initialize chat with welcome message
-  useEffect(() => {
-    if (messages.length === 0) {
-      const welcomeMessage: ChatMessage = {
-        id: 'welcome',
-        message: "Hello! Welcome to Nothing Support. How can I not help you today?",
-        timestamp: new Date(),
-        isUser: false
-      }
-      setMessages([welcomeMessage])
-    }
-  }, [messages.length])
+  // Header status line for each stage of the conversation
+  const statusText = mode === 'queued'
+    ? queuePosition ? `In queue • Position ${queuePosition}` : 'In queue • Waiting for a human'
+    : mode === 'agent'
+      ? `${conversation.agentName ?? 'Agent'} • Human, still no help`
+      : isConnected ? 'Online • Providing no help' : 'Offline • Still no help'
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' })
     }
-  }, [messages, agentTyping])
+  }, [messages, isTyping])
 
-  // Handle unread count
-  useEffect(() => {
-    if (!isOpen && messages.length > 0) {
-      const lastMessage = messages[messages.length - 1]
-      if (!lastMessage.isUser) {
-        setUnreadCount(prev => prev + 1)
-      }
-    } else if (isOpen) {
-      setUnreadCount(0)
-    }
-  }, [messages, isOpen])
-
-  // WebSocket connection handling
+  // Connect once the widget is opened
   useEffect(() => {
     if (isOpen && !isConnected) {
-      websocketService.connect().catch(err => {
-        if (isDevelopment) {
-          console.log('[LiveChatWidget] WebSocket connection failed (expected in dev):', err)
-        }
-      })
-    }
-
-    return () => {
-      if (isConnected) {
-        websocketService.close()
-      }
+      connect()
     }
-  }, [isOpen, isConnected])
+  }, [isOpen, isConnected, connect])
 
   // Keyboard handlers
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape' && isOpen) {
-        setIsOpen(false)
+        closeWidget()
       }
     }
 
@@ -136,66 +101,19 @@ const LiveChatWidget: React.FC<LiveChatWidgetProps> = ({
     return () => document.removeEventListener('keydown', handleEscape)
   }, [isOpen])
 
-  const simulateAgentResponse = (userMessage: string) => {
-    setAgentTyping(true)
-    
-    // Simulate typing delay
-    setTimeout(() => {
-      const randomResponse = MOCK_AGENT_RESPONSES[Math.floor(Math.random() * MOCK_AGENT_RESPONSES.length)]
-      
-      const agentMessage: ChatMessage = {
-        id: Date.now().toString(),
-        message: randomResponse,
-        timestamp: new Date(),
-        isUser: false
-      }
-      
-      setMessages(prev => [...prev, agentMessage])
-      setAgentTyping(false)
-      
-      // Analytics event
-      eventBus.emit('analytics:event', {
-        name: 'chat_agent_response',
-        properties: { userMessage, agentResponse: randomResponse }
-      })
-    }, 1500 + Math.random() * 2000) // 1.5-3.5s delay
-  }
-
   const handleSendMessage = (message: string) => {
     if (!message.trim()) return
 
-    const userMessage: ChatMessage = {
-      id: Date.now().toString(),
-      message: message.trim(),
-      timestamp: new Date(),
-      isUser: true
-    }
-
-    setMessages(prev => [...prev, userMessage])
     setCurrentMessage('')
-    setShowCannedResponses(false)
+    stopTyping()
 
     // Play silence sound effect
     SilencePlayer.play()
 
-    // Send to provider/websocket
-    if (sendMessage) {
-      sendMessage(message.trim())
-    }
-
-    // Simulate agent response
-    simulateAgentResponse(message.trim())
+    sendMessage(message.trim())
 
     // Analytics
-    eventBus.emit('analytics:event', {
-      name: 'chat_message_sent',
-      properties: { message: message.trim(), messageLength: message.trim().length }
-    })
-  }
-
-  const handleCannedResponse = (response: string) => {
-    handleSendMessage(response)
-    setShowCannedResponses(false)
+    trackChatEvent('chat_message_sent', { messageLength: message.trim().length, mode })
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -205,17 +123,30 @@ const LiveChatWidget: React.FC<LiveChatWidgetProps> = ({
     }
   }
 
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCurrentMessage(e.target.value)
+    if (e.target.value) {
+      startTyping()
+    } else {
+      stopTyping()
+    }
+  }
+
   const toggleWidget = () => {
-    setIsOpen(!isOpen)
+    toggleMinimized()
     if (!isOpen) {
       // Focus input when opening
       setTimeout(() => inputRef.current?.focus(), 100)
-      eventBus.emit('analytics:event', { name: 'chat_widget_opened' })
+      trackChatEvent('chat_widget_opened')
     } else {
-      eventBus.emit('analytics:event', { name: 'chat_widget_closed' })
+      trackChatEvent('chat_widget_closed')
     }
   }
 
+  const closeWidget = () => {
+    if (isOpen) toggleWidget()
+  }
+
   return (
     <>
       {/* Chat Widget Trigger */}
@@ -266,7 +197,7 @@ const LiveChatWidget: React.FC<LiveChatWidgetProps> = ({
       {/* Chat Modal */}
       <Modal
         isOpen={isOpen}
-        onClose={() => setIsOpen(false)}
+        onClose={closeWidget}
         className="!p-0 max-w-md w-full mx-4"
         overlayClassName="!bg-black/20"
       >
@@ -282,12 +213,12 @@ const LiveChatWidget: React.FC<LiveChatWidgetProps> = ({
               <div>
                 <h3 className="font-semibold">Nothing Support</h3>
                 <p className="text-xs text-white/80">
-                  {isConnected ? 'Online • Providing no help' : 'Offline • Still no help'}
+                  {statusText}
                 </p>
               </div>
             </div>
             <button
-              onClick={() => setIsOpen(false)}
+              onClick={closeWidget}
               className="text-white/80 hover:text-white transition-colors p-1 rounded"
               aria-label="Close chat"
             >
@@ -304,30 +235,37 @@ const LiveChatWidget: React.FC<LiveChatWidgetProps> = ({
             aria-live="polite"
             aria-label="Chat messages"
           >
-            {messages.map((msg) => (
+            {messages.map((msg) => msg.from === 'system' ? (
+              <p key={msg.id} className="text-xs text-center text-gray-500 dark:text-gray-400">
+                {msg.text}
+              </p>
+            ) : (
               <div
                 key={msg.id}
-                className={`flex ${msg.isUser ? 'justify-end' : 'justify-start'}`}
+                className={`flex ${msg.from === 'user' ? 'justify-end' : 'justify-start'}`}
               >
                 <div
                   className={`max-w-xs px-4 py-2 rounded-lg ${
-                    msg.isUser
+                    msg.from === 'user'
                       ? 'bg-blue-600 text-white'
                       : 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
                   }`}
                 >
-                  <p className="text-sm">{msg.message}</p>
+                  {msg.from === 'agent' && msg.authorName && (
+                    <p className="text-xs font-semibold text-purple-600 dark:text-purple-300 mb-1">{msg.authorName}</p>
+                  )}
+                  <p className="text-sm">{msg.text}</p>
                   <p className="text-xs opacity-70 mt-1">
-                    {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {formatTime(msg)}
                   </p>
                 </div>
               </div>
             ))}
 
-            {/* Agent typing indicator */}
-            {agentTyping && (
+            {/* Bot or agent typing indicator */}
+            {isTyping && (
               <div className="flex justify-start">
-                <div className="bg-white dark:bg-gray-700 px-4 py-2 rounded-lg shadow-sm">
+                <div className="bg-white dark:bg-gray-700 px-4 py-2 rounded-lg shadow-sm" aria-label="Typing">
                   <div className="flex space-x-1">
                     <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
                     <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
@@ -340,18 +278,18 @@ const LiveChatWidget: React.FC<LiveChatWidgetProps> = ({
             <div ref={messagesEndRef} />
           </div>
 
-          {/* Canned Responses */}
-          {showCannedResponses && messages.length <= 1 && (
+          {/* Quick replies offered by the bot */}
+          {quickReplies.length > 0 && !isTyping && (
             <div className="p-4 bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-700">
               <p className="text-xs text-gray-500 mb-2">Quick responses:</p>
               <div className="grid grid-cols-2 gap-2">
-                {CANNED_RESPONSES.map((response, index) => (
+                {quickReplies.map((reply) => (
                   <button
-                    key={index}
-                    onClick={() => handleCannedResponse(response)}
+                    key={reply.id}
+                    onClick={() => selectQuickReply(reply)}
                     className="text-xs px-3 py-2 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg text-gray-700 dark:text-gray-300 transition-colors text-left"
                   >
-                    {response}
+                    {reply.label}
                   </button>
                 ))}
               </div>
@@ -365,22 +303,57 @@ const LiveChatWidget: React.FC<LiveChatWidgetProps> = ({
                 ref={inputRef}
                 type="text"
                 value={currentMessage}
-                onChange={(e) => setCurrentMessage(e.target.value)}
+                onChange={handleInputChange}
                 onKeyPress={handleKeyPress}
                 placeholder="Type a message that won't be helped..."
                 className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white text-sm"
                 aria-label="Type your message"
-                disabled={agentTyping}
               />
               <button
                 onClick={() => handleSendMessage(currentMessage)}
-                disabled={!currentMessage.trim() || agentTyping}
+                disabled={!currentMessage.trim()}
                 className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg transition-colors text-sm font-medium disabled:cursor-not-allowed"
                 aria-label="Send message"
               >
                 Send
               </button>
             </div>
+
+            {/* Conversation actions */}
+            <div className="flex items-center justify-between mt-3 text-xs text-gray-500 dark:text-gray-400">
+              {mode === 'bot' ? (
+                <button
+                  onClick={() => requestHuman()}
+                  className="hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  Talk to a human
+                </button>
+              ) : (
+                <span aria-hidden="true" />
+              )}
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => exportTranscript('text')}
+                  className="hover:text-gray-900 dark:hover:text-white transition-colors"
+                  aria-label="Download transcript as text"
+                >
+                  .txt
+                </button>
+                <button
+                  onClick={() => exportTranscript('json')}
+                  className="hover:text-gray-900 dark:hover:text-white transition-colors"
+                  aria-label="Download transcript as JSON"
+                >
+                  .json
+                </button>
+                <button
+                  onClick={clearMessages}
+                  className="hover:text-gray-900 dark:hover:text-white transition-colors"
+                >
+                  Start over
+                </button>
+              </div>
+            </div>
           </div>
         </div>
       </Modal>
@@ -0,0 +1,173 @@
+// filepath: src/features/chat/botFlow.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - helper module)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for bot flow engine)
+
+import { ChatQuickReply } from '@/core/contracts'
+
+/* src/features/chat/botFlow.ts
+
+   Declarative chat bot. A flow is a set of named steps; each step says one or more lines,
+   may offer quick replies, may continue to another step and may hand the conversation to
+   a human. Free text is routed to a step through intents, falling back to `fallback`.
+   The engine is pure: it only works out what the bot says next, and the chat service delivers it.
+
+   Usage:
+     import { respond, startFlow } from '@/features/chat/botFlow'
+     let turn = startFlow(flow)
+     turn = respond(flow, { text: 'I want a refund' }, turn.stepId)
+     turn = respond(flow, { quickReplyId: turn.quickReplies[0].id }, turn.stepId)
+*/
+
+export interface BotQuickReply {
+  label: string
+  goto?: string // Step to continue with; the label is matched against intents when omitted
+  handoff?: boolean // Ask for a human straight away
+}
+
+export interface BotStep {
+  messages: string[]
+  pickOne?: boolean // Say one of `messages` at random instead of all of them in order
+  quickReplies?: BotQuickReply[]
+  next?: string // Continue with this step right after speaking
+  handoff?: boolean // Hand the conversation to the human queue after speaking
+}
+
+export interface BotIntent {
+  id: string
+  // Plain strings match whole words anywhere in the text, case-insensitively
+  patterns: Array<string | RegExp>
+  goto: string
+}
+
+export interface BotFlow {
+  id: string
+  start: string
+  fallback: string
+  intents: BotIntent[]
+  steps: Record<string, BotStep>
+  // Lines the simulated human agent answers with in mock mode
+  agentReplies?: string[]
+}
+
+export interface BotTurn {
+  stepId: string
+  messages: string[]
+  quickReplies: ChatQuickReply[]
+  handoff: boolean
+  intentId?: string
+}
+
+export type BotInput = { text: string } | { quickReplyId: string }
+
+// Guards against flows whose `next` links loop
+const MAX_CHAINED_STEPS = 10
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const matchesPattern = (text: string, pattern: string | RegExp): boolean =>
+  typeof pattern === 'string'
+    ? new RegExp(`\\b${escapeRegExp(pattern)}\\b`, 'i').test(text)
+    : pattern.test(text)
+
+/**
+ * First intent with a pattern matching the text, in flow order
+ */
+export function matchIntent(flow: BotFlow, text: string): BotIntent | undefined {
+  return flow.intents.find(intent => intent.patterns.some(pattern => matchesPattern(text, pattern)))
+}
+
+/**
+ * Say a step and everything it chains to with `next`
+ */
+export function runStep(flow: BotFlow, stepId: string, random: () => number = Math.random): BotTurn {
+  const turn: BotTurn = { stepId, messages: [], quickReplies: [], handoff: false }
+  let currentId: string | undefined = stepId
+
+  for (let i = 0; currentId && i < MAX_CHAINED_STEPS; i++) {
+    const step: BotStep | undefined = flow.steps[currentId]
+    if (!step) break
+
+    turn.stepId = currentId
+    if (step.pickOne && step.messages.length > 0) {
+      turn.messages.push(step.messages[Math.floor(random() * step.messages.length)])
+    } else {
+      turn.messages.push(...step.messages)
+    }
+    turn.handoff = turn.handoff || !!step.handoff
+
+    // Quick replies belong to the step the turn ends on; ids point back at it
+    const stepKey: string = currentId
+    turn.quickReplies = (step.quickReplies ?? []).map((reply, index) => ({
+      id: `${stepKey}:${index}`,
+      label: reply.label
+    }))
+
+    currentId = step.next
+  }
+
+  return turn
+}
+
+export function startFlow(flow: BotFlow, random?: () => number): BotTurn {
+  return runStep(flow, flow.start, random)
+}
+
+// Quick reply ids look like `${stepId}:${index}`
+function findQuickReply(flow: BotFlow, quickReplyId: string): BotQuickReply | undefined {
+  const separator = quickReplyId.lastIndexOf(':')
+  const stepId = quickReplyId.slice(0, separator)
+  const index = Number(quickReplyId.slice(separator + 1))
+  return flow.steps[stepId]?.quickReplies?.[index]
+}
+
+/**
+ * What the bot says in reply to free text or a quick reply
+ * @param currentStep Step the conversation is at; quick replies from older steps still work
+ */
+export function respond(
+  flow: BotFlow,
+  input: BotInput,
+  currentStep?: string,
+  random?: () => number
+): BotTurn {
+  if ('quickReplyId' in input) {
+    const reply = findQuickReply(flow, input.quickReplyId)
+    if (reply?.handoff) {
+      return { stepId: currentStep ?? flow.start, messages: [], quickReplies: [], handoff: true }
+    }
+    if (reply?.goto) {
+      return runStep(flow, reply.goto, random)
+    }
+    if (reply) {
+      return respond(flow, { text: reply.label }, currentStep, random)
+    }
+    return runStep(flow, flow.fallback, random)
+  }
+
+  const intent = matchIntent(flow, input.text)
+  const turn = runStep(flow, intent ? intent.goto : flow.fallback, random)
+  return intent ? { ...turn, intentId: intent.id } : turn
+}
+
+/**
+ * Problems with a flow definition, such as links to steps that do not exist
+ */
+export function validateFlow(flow: BotFlow): string[] {
+  const errors: string[] = []
+  const checkStep = (stepId: string | undefined, where: string) => {
+    if (stepId && !flow.steps[stepId]) errors.push(`${where} points to unknown step "${stepId}"`)
+  }
+
+  checkStep(flow.start, 'start')
+  checkStep(flow.fallback, 'fallback')
+  flow.intents.forEach(intent => checkStep(intent.goto, `intent "${intent.id}"`))
+  Object.entries(flow.steps).forEach(([stepId, step]) => {
+    checkStep(step.next, `step "${stepId}" next`)
+    step.quickReplies?.forEach((reply, index) => checkStep(reply.goto, `step "${stepId}" quick reply ${index}`))
+  })
+
+  return errors
+}
@@ -0,0 +1,127 @@
+// filepath: src/features/chat/supportFlow.ts
+// [x] Uses `@/` imports as much as possible
+// [ ] Uses providers/hooks (no direct DOM/localStorage side effects - N/A for flow data)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (SUPPORT_FLOW)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for flow data)
+
+import { BotFlow } from '@/features/chat/botFlow'
+
+/* src/features/chat/supportFlow.ts
+
+   The Nothing Support bot: greets, offers the usual complaints as quick replies, answers
+   each one with no help at all and, when pressed, queues the visitor for a human who will
+   also not help.
+
+   Usage:
+     import SUPPORT_FLOW from '@/features/chat/supportFlow'
+     <ChatProvider flow={SUPPORT_FLOW}>
+*/
+
+const MAIN_MENU = [
+  { label: 'I need help with...', goto: 'help' },
+  { label: 'Something is broken', goto: 'broken' },
+  { label: 'I want a refund', goto: 'refund' },
+  { label: 'How does this work?', goto: 'how' },
+  { label: 'Is anyone there?', goto: 'anyone' },
+  { label: 'Talk to a human', handoff: true }
+]
+
+export const SUPPORT_FLOW: BotFlow = {
+  id: 'nothing-support',
+  start: 'welcome',
+  fallback: 'fallback',
+  intents: [
+    { id: 'human', patterns: ['human', 'agent', 'person', 'manager', 'escalate'], goto: 'handoff' },
+    { id: 'refund', patterns: ['refund', 'money back', 'cancel', 'charge'], goto: 'refund' },
+    { id: 'broken', patterns: ['broken', 'bug', 'error', 'crash', /doesn'?t work/i, /not working/i], goto: 'broken' },
+    { id: 'how', patterns: ['how', 'what is', 'explain', 'work'], goto: 'how' },
+    { id: 'anyone', patterns: ['anyone', 'hello', 'hi', 'hey'], goto: 'anyone' },
+    { id: 'frustrated', patterns: ['frustrating', 'frustrated', 'angry', 'annoyed', 'useless'], goto: 'frustrated' },
+    { id: 'thanks', patterns: ['thanks', 'thank you', 'bye'], goto: 'thanks' },
+    { id: 'help', patterns: ['help', 'support', 'problem', 'issue'], goto: 'help' }
+  ],
+  steps: {
+    welcome: {
+      messages: ['Hello! Welcome to Nothing Support. How can I not help you today?'],
+      quickReplies: MAIN_MENU
+    },
+    help: {
+      messages: [
+        "Thanks for contacting Nothing Support! I'm here to provide absolutely no assistance.",
+        'What exactly would you like no help with?'
+      ],
+      quickReplies: MAIN_MENU
+    },
+    broken: {
+      messages: [
+        'Have you tried turning nothing off and on again?',
+        'I see the problem. Unfortunately, seeing is all I can do.'
+      ],
+      quickReplies: [
+        { label: 'That did not work', goto: 'frustrated' },
+        { label: 'Talk to a human', handoff: true }
+      ]
+    },
+    refund: {
+      messages: [
+        "I'm sorry, but our policy is to provide zero solutions to all problems.",
+        'Good news, though: you paid for nothing and received exactly that.'
+      ],
+      quickReplies: [
+        { label: 'That seems fair', goto: 'thanks' },
+        { label: 'I want a manager', handoff: true }
+      ]
+    },
+    how: {
+      messages: [
+        'Nothing works by doing nothing, very reliably, at any scale.',
+        'There is nothing to configure and nothing to learn.'
+      ],
+      quickReplies: MAIN_MENU
+    },
+    anyone: {
+      messages: [
+        "I'm currently away from my desk, but even if I wasn't, I still wouldn't help.",
+        'Still, I am technically here.'
+      ],
+      quickReplies: MAIN_MENU
+    },
+    frustrated: {
+      messages: [
+        "Your issue is very important to us. That's why we're doing nothing about it.",
+        'Would you like me to escalate this to my manager who will also do nothing?'
+      ],
+      quickReplies: [
+        { label: 'Yes, get me a human', handoff: true },
+        { label: 'No, I will cope', goto: 'thanks' }
+      ]
+    },
+    thanks: {
+      messages: ['Thank you for waiting. Your patience has been noted and promptly ignored.'],
+      quickReplies: [{ label: 'Start over', goto: 'welcome' }]
+    },
+    handoff: {
+      messages: ["Let me transfer you to our specialist in nothing... oh wait, that's also someone."],
+      handoff: true
+    },
+    fallback: {
+      messages: [
+        "I understand your concern, but I'm afraid I can't help with that or anything else.",
+        'I see. Or rather, I see nothing. Try one of these instead?'
+      ],
+      pickOne: true,
+      quickReplies: MAIN_MENU
+    }
+  },
+  agentReplies: [
+    "Hi, I'm a real human. I've read the transcript and I also have nothing for you.",
+    "I understand your concern, but I'm afraid I can't help with that or anything else.",
+    "Let me transfer you to our specialist in nothing... oh wait, that's also me.",
+    'I see the problem. Unfortunately, seeing is all I can do.',
+    'Your ticket has been filed under "nothing", where it will stay.',
+    'Thank you for waiting. Your patience has been noted and promptly ignored.'
+  ]
+}
+
+export default SUPPORT_FLOW
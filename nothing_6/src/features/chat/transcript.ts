@@ -0,0 +1,80 @@
+// filepath: src/features/chat/transcript.ts
+// [x] Uses `@/` imports as much as possible
+// [ ] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - helper module)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for transcript helpers)
+
+import { config } from '@/app/config'
+import { ChatConversation, ChatMessage } from '@/core/contracts'
+
+/* src/features/chat/transcript.ts
+
+   Chat transcripts as plain text or JSON, and a helper that downloads one.
+
+   Usage:
+     import { downloadTranscript, formatTranscript } from '@/features/chat/transcript'
+     const text = formatTranscript(conversation, 'text')
+     downloadTranscript(conversation, 'json')
+*/
+
+export type TranscriptFormat = 'text' | 'json'
+
+const SENDER_LABELS: Record<ChatMessage['from'], string> = {
+  user: 'You',
+  bot: 'Nothing Bot',
+  agent: 'Agent',
+  system: 'System'
+}
+
+const senderName = (message: ChatMessage) =>
+  message.from === 'agent' && message.authorName ? message.authorName : SENDER_LABELS[message.from]
+
+export function formatTranscript(conversation: ChatConversation, format: TranscriptFormat): string {
+  if (format === 'json') {
+    return JSON.stringify({
+      app: config.appName,
+      conversationId: conversation.id,
+      startedAt: conversation.startedAt,
+      exportedAt: new Date().toISOString(),
+      messages: conversation.messages.map(message => ({
+        id: message.id,
+        from: message.from,
+        author: senderName(message),
+        text: message.text,
+        createdAt: message.createdAt
+      }))
+    }, null, 2)
+  }
+
+  const header = [
+    `${config.appName} support transcript`,
+    `Conversation: ${conversation.id}`,
+    `Started: ${new Date(conversation.startedAt).toLocaleString()}`,
+    ''
+  ]
+  const lines = conversation.messages.map(message => {
+    const time = new Date(message.createdAt).toLocaleTimeString()
+    return `[${time}] ${senderName(message)}: ${message.text}`
+  })
+
+  return [...header, ...lines, ''].join('\n')
+}
+
+/**
+ * Save the transcript through the browser's download prompt
+ */
+export function downloadTranscript(conversation: ChatConversation, format: TranscriptFormat): void {
+  const content = formatTranscript(conversation, format)
+  const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/plain' })
+  const url = window.URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `nothing-chat-${conversation.id}.${format === 'json' ? 'json' : 'txt'}`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  window.URL.revokeObjectURL(url)
+}
@@ -0,0 +1,142 @@
+// filepath: src/features/cookie/ConsentPreferencesModal.tsx
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component
+// [x] Adds basic ARIA and keyboard handlers (where relevant)
+
+import { useEffect, useState } from 'react'
+import { CONSENT_CATEGORIES, ConsentCategories, ConsentCategory } from '@/services/consent'
+import Button from '@/shared/components/Button'
+import Modal from '@/shared/components/Modal'
+
+/* src/features/cookie/ConsentPreferencesModal.tsx
+
+   Per-category cookie choices. Rendered by ConsentProvider; open it with
+   `useConsent().openPreferences()`.
+
+   Usage:
+     <ConsentPreferencesModal isOpen categories={consent.categories} onClose={close} onSave={save} />
+*/
+
+interface ConsentPreferencesModalProps {
+  isOpen: boolean
+  categories: ConsentCategories
+  onClose: () => void
+  onSave: (categories: ConsentCategories) => void
+}
+
+const CATEGORY_DETAILS: Record<ConsentCategory, { label: string; description: string }> = {
+  necessary: {
+    label: 'Strictly necessary',
+    description: 'Keeps you signed in and remembers these choices. Always on.'
+  },
+  analytics: {
+    label: 'Analytics',
+    description: 'Counts visits and clicks so we know which parts of nothing people enjoy.'
+  },
+  experiments: {
+    label: 'Experiments',
+    description: 'Places you in A/B tests and records which version of the page you saw.'
+  },
+  marketing: {
+    label: 'Marketing',
+    description: 'Measures whether our campaigns for nothing brought you here.'
+  }
+}
+
+export default function ConsentPreferencesModal({
+  isOpen,
+  categories,
+  onClose,
+  onSave
+}: ConsentPreferencesModalProps) {
+  const [draft, setDraft] = useState<ConsentCategories>(categories)
+
+  // Start from the saved choices every time the modal opens
+  useEffect(() => {
+    if (isOpen) setDraft(categories)
+  }, [isOpen, categories])
+
+  const toggle = (category: ConsentCategory) => {
+    if (category === 'necessary') return
+    setDraft(current => ({ ...current, [category]: !current[category] }))
+  }
+
+  const setAll = (granted: boolean) => {
+    onSave({ necessary: true, analytics: granted, experiments: granted, marketing: granted })
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Cookie preferences"
+      size="md"
+      aria-describedby="consent-preferences-description"
+    >
+      <p id="consent-preferences-description" className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        Choose which kinds of nothing we may store. You can change this at any time from the footer.
+      </p>
+
+      <ul className="space-y-4">
+        {CONSENT_CATEGORIES.map(category => {
+          const { label, description } = CATEGORY_DETAILS[category]
+          const enabled = draft[category]
+          const locked = category === 'necessary'
+
+          return (
+            <li key={category} className="flex items-start justify-between gap-4">
+              <div>
+                <p id={`consent-${category}-label`} className="font-medium text-gray-900 dark:text-white">
+                  {label}
+                </p>
+                <p id={`consent-${category}-description`} className="text-sm text-gray-500 dark:text-gray-400">
+                  {description}
+                </p>
+              </div>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={enabled}
+                aria-labelledby={`consent-${category}-label`}
+                aria-describedby={`consent-${category}-description`}
+                disabled={locked}
+                onClick={() => toggle(category)}
+                className={`
+                  relative inline-flex h-6 w-11 shrink-0 items-center rounded-full
+                  transition-colors duration-200 ease-in-out
+                  focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2
+                  disabled:cursor-not-allowed disabled:opacity-60
+                  ${enabled ? 'bg-purple-600' : 'bg-gray-300 dark:bg-gray-600'}
+                `}
+              >
+                <span
+                  className={`
+                    inline-block h-4 w-4 transform rounded-full bg-white
+                    transition duration-200 ease-in-out
+                    ${enabled ? 'translate-x-6' : 'translate-x-1'}
+                  `}
+                />
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+
+      <div className="mt-6 flex flex-col-reverse gap-3 sm:flex-row sm:justify-end">
+        <Button variant="outline" size="sm" onClick={() => setAll(false)}>
+          Reject all
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onSave(draft)}>
+          Save choices
+        </Button>
+        <Button variant="primary" size="sm" onClick={() => setAll(true)}>
+          Accept all
+        </Button>
+      </div>
+    </Modal>
+  )
+}
+
+export type { ConsentPreferencesModalProps }
@@ -8,6 +8,8 @@
 import { useState, useEffect } from 'react'
 import { config } from '@/app/config'
 import { eventBus } from '@/core/events'
+import { useConsent } from '@/providers/ConsentProvider'
+import { consentService, CONSENT_VERSION, ConsentState } from '@/services/consent'
 import Button from '@/shared/components/Button'
 
 interface CookieBannerProps {
@@ -17,46 +19,8 @@ interface CookieBannerProps {
   onClose?: () => void
 }
 
-interface CookiePreferences {
-  accepted: boolean
-  declined: boolean
-  timestamp: number
-  version: string
-}
-
-const COOKIE_CONSENT_KEY = 'nothing-cookie-consent'
-const COOKIE_BANNER_VERSION = '1.0.0'
-
-// Helper to get storage service (assumes it's available globally or via DI)
-const getStorageService = () => {
-  try {
-    // In a real app, this would come from DI or a provider
-    // For now, we'll use a simple localStorage wrapper
-    return {
-      get: (key: string) => {
-        try {
-          const item = localStorage.getItem(key)
-          return item ? JSON.parse(item) : null
-        } catch {
-          return null
-        }
-      },
-      set: (key: string, value: any) => {
-        try {
-          localStorage.setItem(key, JSON.stringify(value))
-        } catch {
-          // localStorage might be disabled or full
-        }
-      }
-    }
-  } catch {
-    // Fallback for environments without localStorage
-    return {
-      get: () => null,
-      set: () => {}
-    }
-  }
-}
+// Consent is stored by ConsentService; the banner only asks for it
+type CookiePreferences = ConsentState
 
 export default function CookieBanner({
   className = '',
@@ -64,64 +28,49 @@ export default function CookieBanner({
   onDecline,
   onClose
 }: CookieBannerProps) {
+  const { hasDecided, acceptAll, rejectAll, openPreferences } = useConsent()
   const [isVisible, setIsVisible] = useState(false)
   const [isAnimatingOut, setIsAnimatingOut] = useState(false)
-  const storage = getStorageService()
 
   useEffect(() => {
-    // Check if user has already made a decision
-    const existing = storage.get(COOKIE_CONSENT_KEY) as CookiePreferences | null
-    
-    // Show banner if no previous decision or version mismatch
-    const shouldShow = !existing || existing.version !== COOKIE_BANNER_VERSION
-    
-    if (shouldShow) {
+    // Show banner until the visitor decides (choices from an older banner version are not kept)
+    if (!hasDecided) {
       // Small delay for smoother UX
       const timer = setTimeout(() => setIsVisible(true), 1000)
       return () => clearTimeout(timer)
     }
-  }, [])
 
-  const handleAccept = () => {
-    const preferences: CookiePreferences = {
-      accepted: true,
-      declined: false,
-      timestamp: Date.now(),
-      version: COOKIE_BANNER_VERSION
+    // Decided elsewhere, e.g. in the preferences modal
+    if (isVisible && !isAnimatingOut) {
+      handleClose()
     }
-    
-    storage.set(COOKIE_CONSENT_KEY, preferences)
-    
+  }, [hasDecided])
+
+  const handleAccept = () => {
+    acceptAll()
+
     // Emit analytics event
     eventBus.emit('analytics:event', {
       name: 'cookie_banner_accepted',
-      properties: { version: COOKIE_BANNER_VERSION }
+      properties: { version: CONSENT_VERSION }
     })
-    
+
     handleClose()
     onAccept?.()
   }
 
   const handleDecline = () => {
-    const preferences: CookiePreferences = {
-      accepted: false,
-      declined: true,
-      timestamp: Date.now(),
-      version: COOKIE_BANNER_VERSION
-    }
-    
-    storage.set(COOKIE_CONSENT_KEY, preferences)
-    
-    // Emit analytics event
-    eventBus.emit('analytics:event', {
-      name: 'cookie_banner_declined',
-      properties: { version: COOKIE_BANNER_VERSION }
-    })
-    
+    // Nothing is tracked about a decline; that is the point of declining
+    rejectAll()
+
     handleClose()
     onDecline?.()
   }
 
+  const handleCustomize = () => {
+    openPreferences()
+  }
+
   const handleClose = () => {
     setIsAnimatingOut(true)
     setTimeout(() => {
@@ -171,7 +120,7 @@ export default function CookieBanner({
             you agree to our sophisticated nothing storage policy.
             {config.isDevelopment && (
               <span className="block mt-1 text-xs text-yellow-400">
-                [DEV] Version: {COOKIE_BANNER_VERSION}
+                [DEV] Version: {CONSENT_VERSION}
               </span>
             )}
           </p>
@@ -187,6 +136,15 @@ export default function CookieBanner({
           >
             Decline Nothing
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCustomize}
+            className="text-gray-300 border-gray-600 hover:bg-gray-800"
+            aria-describedby="customize-help"
+          >
+            Customize
+          </Button>
           <Button
             variant="primary"
             size="sm"
@@ -204,6 +162,9 @@ export default function CookieBanner({
         <div id="decline-help">
           Decline nothing cookies and continue with zero tracking
         </div>
+        <div id="customize-help">
+          Choose which categories of nothing cookies to allow
+        </div>
         <div id="accept-help">
           Accept nothing cookies for an enhanced nothing experience
         </div>
@@ -217,12 +178,10 @@ export type { CookieBannerProps, CookiePreferences }
 
 // Export utility to check cookie preferences
 export const getCookiePreferences = (): CookiePreferences | null => {
-  const storage = getStorageService()
-  return storage.get(COOKIE_CONSENT_KEY) as CookiePreferences | null
+  return consentService.hasDecided() ? consentService.getState() : null
 }
 
 // Export utility to clear cookie preferences (for dev/testing)
 export const clearCookiePreferences = (): void => {
-  const storage = getStorageService()
-  storage.set(COOKIE_CONSENT_KEY, null)
+  consentService.reset()
 }
@@ -9,6 +9,7 @@ import React, { useState, useEffect, useCallback } from 'react'
 import { motion, useAnimation, AnimatePresence } from 'framer-motion'
 import { config } from '@/app/config'
 import { eventBus } from '@/core/events'
+import { useI18n } from '@/providers/I18nProvider'
 import { fadeInUp, glitchAnimation, countUpSpring } from '@/utils/framerMotionPresets'
 import { clamp, randomInRange } from '@/utils/math'
 
@@ -17,7 +18,7 @@ interface AnimatedCounterProps {
   targetValue?: number
   /** Duration of the counting animation in seconds */
   duration?: number
-  /** Custom label to display after the number */
+  /** Custom label to display after the number (defaults to the pluralized catalog label) */
   label?: string
   /** Additional CSS classes */
   className?: string
@@ -32,7 +33,7 @@ interface AnimatedCounterProps {
 export const AnimatedCounter: React.FC<AnimatedCounterProps> = ({
   targetValue = 0,
   duration = 2.5,
-  label = "features delivered",
+  label,
   className = "",
   enableGlitch = true,
   onComplete,
@@ -42,6 +43,7 @@ export const AnimatedCounter: React.FC<AnimatedCounterProps> = ({
   const [isAnimating, setIsAnimating] = useState(false)
   const [hasCompleted, setHasCompleted] = useState(false)
   const [glitchActive, setGlitchActive] = useState(false)
+  const { t, formatNumber } = useI18n()
   
   const controls = useAnimation()
   const glitchControls = useAnimation()
@@ -137,9 +139,12 @@ export const AnimatedCounter: React.FC<AnimatedCounterProps> = ({
 
   // Format the number for display
   const formatValue = (value: number): string => {
-    return value.toLocaleString()
+    return formatNumber(value)
   }
 
+  const displayLabel = label ?? t('counter.label', { count: currentValue })
+  const hint = t(hasCompleted ? 'counter.hint.restart' : isAnimating ? 'counter.hint.running' : 'counter.hint.start')
+
   // Development helper
   useEffect(() => {
     if (config.isDevelopment) {
@@ -160,9 +165,9 @@ export const AnimatedCounter: React.FC<AnimatedCounterProps> = ({
       tabIndex={0}
       onKeyDown={handleKeyDown}
       onClick={hasCompleted ? resetCounter : (!isAnimating ? animateCounter : undefined)}
-      aria-label={`Animated counter showing ${formatValue(currentValue)} ${label}. ${
-        hasCompleted ? 'Press to restart animation' : isAnimating ? 'Animation in progress' : 'Press to start animation'
-      }`}
+      aria-label={label
+        ? `${formatValue(currentValue)} ${label}. ${hint}`
+        : t('counter.ariaLabel', { count: currentValue, hint })}
       aria-live="polite"
       aria-atomic="true"
     >
@@ -219,7 +224,7 @@ export const AnimatedCounter: React.FC<AnimatedCounterProps> = ({
         variants={fadeInUp}
         transition={{ delay: 0.3 }}
       >
-        {label}
+        {displayLabel}
       </motion.div>
 
       {/* Progress indicator */}
@@ -250,7 +255,7 @@ export const AnimatedCounter: React.FC<AnimatedCounterProps> = ({
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.5 }}
         >
-          Mission Accomplished
+          {t('counter.completed')}
         </motion.div>
       )}
 
@@ -261,7 +266,7 @@ export const AnimatedCounter: React.FC<AnimatedCounterProps> = ({
           initial={{ opacity: 0 }}
           whileHover={{ opacity: 1 }}
         >
-          {hasCompleted ? 'Click to restart' : 'Click to animate'}
+          {hasCompleted ? t('counter.click.restart') : t('counter.click.start')}
         </motion.div>
       )}
 
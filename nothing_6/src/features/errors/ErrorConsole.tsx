@@ -0,0 +1,170 @@
+// filepath: src/features/errors/ErrorConsole.tsx
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component
+// [x] Adds basic ARIA and keyboard handlers (where relevant)
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { config } from '@/app/config'
+import { eventBus } from '@/core/events'
+import { Breadcrumb, ErrorGroup, ErrorSeverity, errorReporter } from '@/services/errorReporter'
+import Badge, { BadgeVariant } from '@/shared/components/Badge'
+import Button from '@/shared/components/Button'
+import GlassCard from '@/shared/components/GlassCard'
+
+/* src/features/errors/ErrorConsole.tsx
+
+   Developer console for the error reporter: error groups by fingerprint with occurrence
+   counts, and for the selected group its latest report with stack, component stack and
+   the breadcrumbs that led up to it. Updates live as errors are captured.
+
+   Usage:
+     <ErrorConsole />
+*/
+
+const severityVariant: Record<ErrorSeverity, BadgeVariant> = {
+  low: 'info',
+  medium: 'warning',
+  high: 'error',
+  critical: 'error'
+}
+
+const breadcrumbIcon: Record<Breadcrumb['category'], string> = {
+  navigation: '🧭',
+  api: '🌐',
+  ui: '👆',
+  error: '💥'
+}
+
+const formatTime = (value: string | number) => new Date(value).toLocaleTimeString()
+
+export default function ErrorConsole() {
+  const [groups, setGroups] = useState<ErrorGroup[]>(() => errorReporter.getGroups())
+  const [pendingCount, setPendingCount] = useState(0)
+  const [selected, setSelected] = useState<string | null>(null)
+
+  const refresh = useCallback(() => {
+    setGroups(errorReporter.getGroups())
+    setPendingCount(errorReporter.getReports().filter(report => !report.sent).length)
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    const unsubscribers = [
+      eventBus.on('error:captured', refresh),
+      eventBus.on('error:reports_sent', refresh)
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, [refresh])
+
+  const handleClear = useCallback(() => {
+    errorReporter.clear()
+    setSelected(null)
+    refresh()
+  }, [refresh])
+
+  const selectedGroup = groups.find(group => group.fingerprint === selected) ?? groups[0]
+  const report = selectedGroup ? errorReporter.getReport(selectedGroup.lastReportId) : undefined
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600 dark:text-gray-300" aria-live="polite">
+          {groups.length} groups • {pendingCount} unsent •{' '}
+          {config.errorReportEndpoint ? `sending to ${config.errorReportEndpoint}` : 'sending disabled'}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" onClick={() => errorReporter.flush()} disabled={pendingCount === 0}>
+            Send now
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleClear} disabled={groups.length === 0}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <GlassCard className="p-8 text-center text-gray-500">No errors captured yet.</GlassCard>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[2fr_3fr]">
+          <ul className="space-y-2" aria-label="Error groups">
+            {groups.map(group => {
+              const isSelected = group.fingerprint === selectedGroup?.fingerprint
+              return (
+                <li key={group.fingerprint}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(group.fingerprint)}
+                    aria-pressed={isSelected}
+                    className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                      isSelected
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                        : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-sm font-semibold text-gray-900 dark:text-white truncate">
+                        {group.name}
+                      </span>
+                      <span className="flex items-center gap-2 shrink-0">
+                        <Badge variant={severityVariant[group.severity]} size="sm">{group.severity}</Badge>
+                        <Badge variant="neutral" size="sm">×{group.count}</Badge>
+                      </span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-300 line-clamp-2">{group.message}</p>
+                    <p className="mt-1 text-xs text-gray-500">last seen {formatTime(group.lastSeen)}</p>
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+
+          {report && (
+            <GlassCard className="p-4 space-y-4 text-sm">
+              <div>
+                <h2 className="font-mono font-semibold text-gray-900 dark:text-white">
+                  {report.name}: {report.message}
+                </h2>
+                <p className="mt-1 text-xs text-gray-500 font-mono">
+                  {report.id} • {report.type} • {formatTime(report.timestamp)} • {report.sent ? 'sent' : 'not sent'}
+                </p>
+              </div>
+
+              {report.stack && (
+                <details open>
+                  <summary className="cursor-pointer font-medium">Stack</summary>
+                  <pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap text-xs">{report.stack}</pre>
+                </details>
+              )}
+
+              {report.componentStack && (
+                <details>
+                  <summary className="cursor-pointer font-medium">Component stack</summary>
+                  <pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap text-xs">{report.componentStack}</pre>
+                </details>
+              )}
+
+              <div>
+                <h3 className="font-medium mb-2">Breadcrumbs ({report.breadcrumbs.length})</h3>
+                {report.breadcrumbs.length === 0 ? (
+                  <p className="text-gray-500">None recorded.</p>
+                ) : (
+                  <ol className="space-y-1 font-mono text-xs">
+                    {report.breadcrumbs.map((crumb, index) => (
+                      <li key={index} className="flex gap-2">
+                        <span className="text-gray-500 shrink-0">{formatTime(crumb.timestamp)}</span>
+                        <span aria-label={crumb.category}>{breadcrumbIcon[crumb.category]}</span>
+                        <span className="break-all">{crumb.message}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </GlassCard>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -9,53 +9,10 @@ import React from 'react'
 import { config } from '@/app/config'
 import { FAQ as FAQType } from '@/core/contracts'
 import FAQItem from '@/features/faq/FAQItem'
+import { DEFAULT_FAQS } from '@/features/faq/faqs'
 import { useFetch } from '@/hooks/useFetch'
 import { nothingService } from '@/services/nothingService'
 
-// FAQ data for nothing
-const DEFAULT_FAQS: FAQType[] = [
-  {
-    id: '1',
-    question: 'What exactly is nothing?',
-    answer: 'Nothing is the absence of something. Our premium nothing contains zero features, zero functionality, and zero value - delivered with maximum precision.',
-  },
-  {
-    id: '2',
-    question: 'How much does nothing cost?',
-    answer: 'Our nothing starts at $0/month for the Basic Nothing plan. Premium Nothing is $9.99/month with enhanced emptiness and priority void access.',
-  },
-  {
-    id: '3',
-    question: 'What\'s included with my nothing subscription?',
-    answer: 'Absolutely nothing! You get unlimited access to our void, zero customer support, and the satisfaction of owning nothing.',
-  },
-  {
-    id: '4',
-    question: 'Can I cancel my nothing subscription?',
-    answer: 'You can cancel anytime, but why would you? You\'d be giving up nothing, which means you\'d have something, which defeats the purpose.',
-  },
-  {
-    id: '5',
-    question: 'Is there a free trial?',
-    answer: 'Every moment of your existence before purchasing nothing has been a free trial of nothing. You\'ve been experiencing nothing for free your entire life!',
-  },
-  {
-    id: '6',
-    question: 'What makes your nothing different from other nothing?',
-    answer: 'Our nothing is artisanally crafted by experts in emptiness. Each void is hand-selected for maximum nothingness and certified by the International Nothing Authority.',
-  },
-  {
-    id: '7',
-    question: 'Do you offer enterprise nothing solutions?',
-    answer: 'Yes! Our Enterprise Nothing includes dedicated void management, SLA guaranteeing 99.99% nothing uptime, and 24/7 support for your absence of needs.',
-  },
-  {
-    id: '8',
-    question: 'Can I integrate nothing with my existing systems?',
-    answer: 'Nothing integrates seamlessly with everything by doing absolutely nothing. Our REST API returns empty responses and our webhooks never fire.',
-  }
-]
-
 export interface FAQProps {
   className?: string
   title?: string
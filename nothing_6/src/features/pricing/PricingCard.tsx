@@ -9,6 +9,7 @@ import { useState, useRef, useEffect } from 'react'
 import { PricingTier } from '@/core/contracts'
 import { config } from '@/app/config'
 import { eventBus } from '@/core/events'
+import { useI18n } from '@/providers/I18nProvider'
 import GlassCard from '@/shared/components/GlassCard'
 import Button from '@/shared/components/Button'
 import GuaranteeBadge from '@/features/guarantee/GuaranteeBadge'
@@ -32,6 +33,7 @@ export default function PricingCard({
   const [isHovered, setIsHovered] = useState(false)
   const [isPressed, setIsPressed] = useState(false)
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  const { t, formatCurrency } = useI18n()
 
   // Recursive loading bar microinteraction
   useEffect(() => {
@@ -87,12 +89,7 @@ export default function PricingCard({
   }
 
   const formatPrice = (cents: number): string => {
-    const dollars = cents / 100
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: tier.currency || 'USD',
-      minimumFractionDigits: dollars % 1 === 0 ? 0 : 2,
-    }).format(dollars)
+    return formatCurrency(cents, tier.currency || 'USD', { trimWholeAmounts: true })
   }
 
   const cardClasses = [
@@ -118,7 +115,7 @@ export default function PricingCard({
       onKeyUp={handleKeyUp}
       tabIndex={disabled ? -1 : 0}
       role="button"
-      aria-label={`Select ${tier.name} pricing tier for ${formatPrice(tier.priceCents)}`}
+      aria-label={t('pricing.selectAria', { name: tier.name, price: formatPrice(tier.priceCents) })}
       aria-disabled={disabled}
     >
       <GlassCard className="h-full p-6 space-y-6">
@@ -126,7 +123,7 @@ export default function PricingCard({
         <div className="text-center space-y-2">
           {tier.highlight && (
             <div className="inline-flex items-center px-3 py-1 rounded-full bg-gradient-to-r from-blue-500 to-purple-600 text-white text-sm font-medium">
-              Most Popular
+              {t('pricing.mostPopular')}
             </div>
           )}
           
@@ -139,7 +136,7 @@ export default function PricingCard({
               {formatPrice(tier.priceCents)}
             </div>
             <div className="text-sm text-gray-500 dark:text-gray-400">
-              per month
+              {t('pricing.perMonth')}
             </div>
           </div>
         </div>
@@ -196,7 +193,7 @@ export default function PricingCard({
           size="lg"
           isLoading={isLoading}
         >
-          {isLoading ? 'Processing...' : `Choose ${tier.name}`}
+          {isLoading ? t('pricing.processing') : t('pricing.choose', { name: tier.name })}
         </Button>
 
         {/* Money-back Guarantee Badge */}
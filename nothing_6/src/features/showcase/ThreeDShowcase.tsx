@@ -17,6 +17,10 @@ import { config } from '@/app/config'
 import { eventBus } from '@/core/events'
 import { utils } from '@/core/utils'
 import { createThreeUtils } from '@/utils/three'
+import { QualityProbe } from '@/shared/components/QualityProbe'
+import { QualityDebugOverlay } from '@/shared/components/QualityDebugOverlay'
+import { useQualityGovernor } from '@/shared/hooks/useQualityGovernor'
+import { QualityGovernor, QualityMode } from '@/utils/qualityGovernor'
 
 interface NothingModelProps {
   position?: [number, number, number]
@@ -36,6 +40,12 @@ interface ThreeDShowcaseProps {
   showControls?: boolean
   onModelLoad?: () => void
   onInteraction?: (type: string, data?: any) => void
+  /** 'auto' adapts pixel ratio, shadows and glow lighting to frame cost */
+  quality?: QualityMode
+  /** Report frames to a governor owned by a parent, e.g. the void simulator */
+  qualityGovernor?: QualityGovernor
+  /** Show the quality governor's readout over the canvas */
+  showQualityOverlay?: boolean
 }
 
 // Nothing model component with error boundary
@@ -126,7 +136,10 @@ export function ThreeDShowcase({
   modelPath = '/assets/models/nothing.glb',
   showControls = true,
   onModelLoad,
-  onInteraction
+  onInteraction,
+  quality: qualityMode = 'auto',
+  qualityGovernor,
+  showQualityOverlay = false
 }: ThreeDShowcaseProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [isLoading, setIsLoading] = useState(true)
@@ -135,6 +148,17 @@ export function ThreeDShowcase({
   
   const threeUtils = createThreeUtils()
 
+  const { governor, snapshot: quality } = useQualityGovernor({
+    source: 'three-showcase',
+    mode: qualityMode,
+    governor: qualityGovernor,
+    refreshInterval: showQualityOverlay ? 500 : 0
+  })
+  const { effects } = quality.level
+  const shadows = quality.level.densityScale >= 1
+  // Reduced motion keeps the model still unless the visitor drags it
+  const rotate = autoRotate && !quality.reducedMotion
+
   const handleModelLoad = useCallback(() => {
     setIsLoading(false)
     setError(null)
@@ -270,16 +294,18 @@ export function ThreeDShowcase({
         }}
         dpr={[1, 2]}
       >
+        <QualityProbe governor={governor} pixelRatio={quality.level.pixelRatio} />
+
         {/* Lighting setup */}
         <ambientLight intensity={0.4} />
         <pointLight position={[10, 10, 10]} intensity={0.8} />
-        <pointLight position={[-10, -10, -10]} intensity={0.3} color="#6366f1" />
+        {effects.glow && <pointLight position={[-10, -10, -10]} intensity={0.3} color="#6366f1" />}
         <spotLight 
           position={[0, 20, 0]} 
           angle={0.3} 
           penumbra={1} 
           intensity={0.5}
-          castShadow
+          castShadow={shadows}
         />
 
         {/* Camera */}
@@ -301,7 +327,7 @@ export function ThreeDShowcase({
             maxDistance={10}
             minPolarAngle={0}
             maxPolarAngle={Math.PI}
-            autoRotate={autoRotate && !isDragging}
+            autoRotate={rotate && !isDragging}
             autoRotateSpeed={0.5}
             dampingFactor={0.1}
             enableDamping
@@ -313,7 +339,7 @@ export function ThreeDShowcase({
           <NothingModel
             position={[0, 0, 0]}
             scale={1.5}
-            autoRotate={autoRotate && !isDragging && !showControls}
+            autoRotate={rotate && !isDragging && !showControls}
             onLoad={handleModelLoad}
             onError={handleModelError}
           />
@@ -331,6 +357,10 @@ export function ThreeDShowcase({
       </Canvas>
 
       {/* UI overlays */}
+      {showQualityOverlay && (
+        <QualityDebugOverlay snapshot={quality} label="3D Showcase" position="top-left" />
+      )}
+
       {interactive && (
         <div className="absolute bottom-4 left-4 text-xs text-white/70 bg-black/20 backdrop-blur-sm rounded px-2 py-1">
           {showControls ? 'Drag to rotate • Scroll to zoom' : 'Click to interact'}
@@ -5,119 +5,85 @@
 // [x] Exports default named component
 // [x] Adds basic ARIA and keyboard handlers (where relevant)
 
-import React, { useState, useCallback, useRef } from 'react'
+import React, { useState, useCallback, useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { config } from '@/app/config'
 import { eventBus } from '@/core/events'
-import { useSimulator } from '@/providers/SimulatorProvider'
+import { SimulationPreset, SimulationSettings, useSimulator } from '@/providers/SimulatorProvider'
 import { ThreeDShowcase } from '@/features/showcase/ThreeDShowcase'
+import SceneGallery from '@/features/simulator/SceneGallery'
 import Button from '@/shared/components/Button'
+import { QualityDebugOverlay } from '@/shared/components/QualityDebugOverlay'
+import { useQualityGovernor } from '@/shared/hooks/useQualityGovernor'
+import { QualityMode } from '@/utils/qualityGovernor'
 
-export interface SimulatorPreset {
-  id: string
-  name: string
-  description: string
-  parameters: {
-    void_intensity: number
-    nothing_density: number
-    emptiness_factor: number
-    absence_level: number
-    null_coefficient: number
-  }
-  animation_duration: number
-  color_scheme: 'void' | 'abyss' | 'darkness' | 'shadow'
+type NumericSetting = 'speed' | 'density' | 'complexity'
+
+const PARAMETER_CONTROLS: Record<NumericSetting, { label: string; min: number; max: number; step: number }> = {
+  speed: { label: 'Void Speed', min: 0.1, max: 3, step: 0.1 },
+  density: { label: 'Nothing Density', min: 0.1, max: 1, step: 0.01 },
+  complexity: { label: 'Emptiness Complexity', min: 1, max: 10, step: 1 },
 }
 
-const VOID_PRESETS: SimulatorPreset[] = [
-  {
-    id: 'basic-void',
-    name: 'Basic Void',
-    description: 'Experience pure nothingness in its most fundamental form',
-    parameters: {
-      void_intensity: 0.3,
-      nothing_density: 0.1,
-      emptiness_factor: 0.5,
-      absence_level: 0.2,
-      null_coefficient: 0.0,
-    },
-    animation_duration: 3000,
-    color_scheme: 'void',
-  },
-  {
-    id: 'premium-void',
-    name: 'Premium Void',
-    description: 'Enhanced nothingness with advanced void algorithms',
-    parameters: {
-      void_intensity: 0.7,
-      nothing_density: 0.4,
-      emptiness_factor: 0.8,
-      absence_level: 0.6,
-      null_coefficient: 0.2,
-    },
-    animation_duration: 5000,
-    color_scheme: 'abyss',
-  },
-  {
-    id: 'enterprise-void',
-    name: 'Enterprise Void',
-    description: 'Industrial-grade nothingness for professional applications',
-    parameters: {
-      void_intensity: 1.0,
-      nothing_density: 0.8,
-      emptiness_factor: 1.0,
-      absence_level: 0.9,
-      null_coefficient: 0.5,
-    },
-    animation_duration: 8000,
-    color_scheme: 'darkness',
-  },
-  {
-    id: 'quantum-void',
-    name: 'Quantum Void',
-    description: 'Schrödinger\'s nothingness - simultaneously exists and doesn\'t',
-    parameters: {
-      void_intensity: 0.5,
-      nothing_density: 0.0,
-      emptiness_factor: 1.0,
-      absence_level: 0.5,
-      null_coefficient: 1.0,
-    },
-    animation_duration: 10000,
-    color_scheme: 'shadow',
-  },
+const COLOR_SCHEMES: SimulationSettings['colorScheme'][] = ['void', 'mono', 'dark', 'pastel', 'neon']
+
+const QUALITY_MODES: Array<{ value: QualityMode; label: string }> = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
 ]
 
-const PARAMETER_LABELS = {
-  void_intensity: 'Void Intensity',
-  nothing_density: 'Nothing Density',
-  emptiness_factor: 'Emptiness Factor',
-  absence_level: 'Absence Level',
-  null_coefficient: 'Null Coefficient',
+const EFFECT_LABELS: Record<keyof SimulationSettings['effects'], string> = {
+  particles: 'Particles',
+  trails: 'Trails',
+  glow: 'Glow',
+  distortion: 'Distortion',
+  audio: 'Audio',
 }
 
 export function InteractiveVoidSimulator() {
   const {
-    isActive,
-    currentPreset,
-    parameters,
-    startSimulation,
-    stopSimulation,
-    updateParameters,
-    resetToDefault,
+    state,
+    presets,
+    play,
+    stop,
+    reset,
+    setPreset,
+    updateSettings,
+    getCurrentSettings,
+    getRenderSettings,
+    updatePerformance,
+    trackInteraction,
   } = useSimulator()
 
-  const [selectedPresetId, setSelectedPresetId] = useState<string>('basic-void')
-  const [isCustomMode, setIsCustomMode] = useState(false)
   const [animationKey, setAnimationKey] = useState(0)
+  const [showPerformance, setShowPerformance] = useState(config.isDevelopment)
   const simulatorRef = useRef<HTMLDivElement>(null)
 
-  const handlePresetChange = useCallback((presetId: string) => {
-    const preset = VOID_PRESETS.find(p => p.id === presetId)
-    if (!preset) return
+  const isActive = state.status === 'playing' || state.status === 'loading'
+  const currentPreset = presets[state.currentPreset]
+  const settings = getCurrentSettings()
+  const isCustomMode = Object.keys(state.customSettings).length > 0
+  const activeScene = state.scenes.find(scene => scene.id === state.activeSceneId)
+
+  // The showcase canvas reports its frames to this governor
+  const { governor, snapshot: quality } = useQualityGovernor({
+    source: 'void-simulator',
+    mode: state.performance.quality,
+    refreshInterval: showPerformance ? 500 : 0,
+  })
+  const renderSettings = getRenderSettings()
+
+  useEffect(() => {
+    updatePerformance({ level: quality.level.name })
+  }, [quality.level.name, updatePerformance])
 
-    setSelectedPresetId(presetId)
-    setIsCustomMode(false)
-    updateParameters(preset.parameters)
+  const handlePresetChange = useCallback((presetId: SimulationPreset) => {
+    const preset = presets[presetId]
+
+    setPreset(presetId)
+    trackInteraction(presetId)
     
     // Emit analytics event
     eventBus.emit('analytics:event', {
@@ -130,62 +96,58 @@ export function InteractiveVoidSimulator() {
 
     // Trigger re-render of 3D showcase
     setAnimationKey(prev => prev + 1)
-  }, [updateParameters])
+  }, [presets, setPreset, trackInteraction])
 
-  const handleCustomParameterChange = useCallback((paramKey: keyof SimulatorPreset['parameters'], value: number) => {
-    setIsCustomMode(true)
-    updateParameters({
-      ...parameters,
-      [paramKey]: value,
-    })
+  const handleCustomParameterChange = useCallback((changes: Partial<SimulationSettings>) => {
+    updateSettings(changes)
     
     eventBus.emit('analytics:event', {
       name: 'simulator_parameter_changed',
       properties: {
-        parameter: paramKey,
-        value,
+        parameters: Object.keys(changes),
         is_custom: true,
       }
     })
-  }, [parameters, updateParameters])
+  }, [updateSettings])
 
   const handleStartSimulation = useCallback(() => {
-    const preset = VOID_PRESETS.find(p => p.id === selectedPresetId) || VOID_PRESETS[0]
-    startSimulation(preset)
+    play()
     
     eventBus.emit('analytics:event', {
       name: 'void_simulation_started',
       properties: {
-        preset_id: selectedPresetId,
+        preset_id: state.currentPreset,
+        scene_id: state.activeSceneId,
         is_custom: isCustomMode,
-        parameters,
+        settings,
       }
     })
-  }, [selectedPresetId, isCustomMode, parameters, startSimulation])
+  }, [play, state.currentPreset, state.activeSceneId, isCustomMode, settings])
 
   const handleStopSimulation = useCallback(() => {
-    stopSimulation()
+    stop()
     eventBus.emit('analytics:event', {
       name: 'void_simulation_stopped',
       properties: {
-        duration_ms: Date.now() - (currentPreset?.animation_duration || 0),
+        duration_ms: state.analytics.sessionStartTime ? Date.now() - state.analytics.sessionStartTime : 0,
       }
     })
-  }, [stopSimulation, currentPreset])
+  }, [stop, state.analytics.sessionStartTime])
 
   const handleReset = useCallback(() => {
-    resetToDefault()
-    setSelectedPresetId('basic-void')
-    setIsCustomMode(false)
+    reset()
     setAnimationKey(prev => prev + 1)
     
     eventBus.emit('analytics:event', {
       name: 'simulator_reset',
       properties: {}
     })
-  }, [resetToDefault])
+  }, [reset])
 
   const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
+    // Leave keys to the controls themselves, e.g. spaces in a scene name
+    if (event.target instanceof HTMLElement && event.target.closest('input, select, textarea, button')) return
+
     switch (event.key) {
       case ' ':
       case 'Enter':
@@ -225,10 +187,22 @@ export function InteractiveVoidSimulator() {
       <div className="absolute inset-0 z-0">
         <ThreeDShowcase 
           key={`showcase-${animationKey}`}
-          preset={currentPreset}
-          isActive={isActive}
+          autoRotate={isActive}
+          quality={state.performance.quality}
+          qualityGovernor={governor}
           className="w-full h-full"
         />
+        {showPerformance && (
+          <QualityDebugOverlay
+            snapshot={quality}
+            label="Void Simulator"
+            position="bottom-left"
+            details={{
+              density: `${renderSettings.density} of ${settings.density}`,
+              effects: Object.entries(renderSettings.effects).filter(([, on]) => on).map(([effect]) => effect).join(', ') || 'none',
+            }}
+          />
+        )}
       </div>
 
       {/* Control overlay */}
@@ -257,7 +231,7 @@ export function InteractiveVoidSimulator() {
           >
             <h3 className="text-lg font-semibold mb-4 text-white">Choose Your Void Preset</h3>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-              {VOID_PRESETS.map((preset, index) => (
+              {Object.values(presets).map((preset, index) => (
                 <motion.button
                   key={preset.id}
                   initial={{ opacity: 0, scale: 0.9 }}
@@ -267,12 +241,12 @@ export function InteractiveVoidSimulator() {
                   className={`
                     p-4 rounded-lg text-left transition-all duration-300
                     border-2 hover:scale-105 focus:scale-105 focus:outline-none focus:ring-2 focus:ring-white/20
-                    ${selectedPresetId === preset.id
+                    ${state.currentPreset === preset.id
                       ? 'border-white bg-white/10 shadow-lg shadow-white/20'
                       : 'border-gray-700 bg-gray-900/50 hover:border-gray-500'
                     }
                   `}
-                  aria-pressed={selectedPresetId === preset.id}
+                  aria-pressed={state.currentPreset === preset.id}
                 >
                   <div className="font-medium text-white mb-1">{preset.name}</div>
                   <div className="text-sm text-gray-400 leading-snug">
@@ -292,7 +266,11 @@ export function InteractiveVoidSimulator() {
           >
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold text-white">Fine-tune Parameters</h3>
-              {isCustomMode && (
+              {activeScene ? (
+                <span className="text-sm text-blue-300 font-medium">
+                  Scene: {activeScene.name}
+                </span>
+              ) : isCustomMode && (
                 <span className="text-sm text-yellow-400 font-medium">
                   Custom Mode Active
                 </span>
@@ -300,39 +278,75 @@ export function InteractiveVoidSimulator() {
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {Object.entries(parameters).map(([key, value]) => {
-                const paramKey = key as keyof SimulatorPreset['parameters']
+              {(Object.keys(PARAMETER_CONTROLS) as NumericSetting[]).map((paramKey) => {
+                const control = PARAMETER_CONTROLS[paramKey]
+                const value = settings[paramKey]
                 return (
-                  <div key={key} className="space-y-2">
+                  <div key={paramKey} className="space-y-2">
                     <label 
-                      htmlFor={`param-${key}`}
+                      htmlFor={`param-${paramKey}`}
                       className="block text-sm font-medium text-gray-300"
                     >
-                      {PARAMETER_LABELS[paramKey] || key}
+                      {control.label}
                     </label>
                     <div className="relative">
                       <input
-                        id={`param-${key}`}
+                        id={`param-${paramKey}`}
                         type="range"
-                        min="0"
-                        max="1"
-                        step="0.01"
+                        min={control.min}
+                        max={control.max}
+                        step={control.step}
                         value={value}
-                        onChange={(e) => handleCustomParameterChange(paramKey, parseFloat(e.target.value))}
+                        onChange={(e) => handleCustomParameterChange({ [paramKey]: parseFloat(e.target.value) })}
                         className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
-                        aria-label={`${PARAMETER_LABELS[paramKey]} control`}
+                        aria-label={`${control.label} control`}
                       />
                       <div className="flex justify-between text-xs text-gray-500 mt-1">
-                        <span>0.00</span>
+                        <span>{control.min}</span>
                         <span className="text-white font-mono">
-                          {value.toFixed(2)}
+                          {control.step < 1 ? value.toFixed(2) : value}
                         </span>
-                        <span>1.00</span>
+                        <span>{control.max}</span>
                       </div>
                     </div>
                   </div>
                 )
               })}
+
+              <div className="space-y-2">
+                <label htmlFor="param-colorScheme" className="block text-sm font-medium text-gray-300">
+                  Color Scheme
+                </label>
+                <select
+                  id="param-colorScheme"
+                  value={settings.colorScheme}
+                  onChange={(e) => handleCustomParameterChange({ colorScheme: e.target.value as SimulationSettings['colorScheme'] })}
+                  className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-white/20"
+                >
+                  {COLOR_SCHEMES.map(scheme => (
+                    <option key={scheme} value={scheme}>{scheme}</option>
+                  ))}
+                </select>
+              </div>
+
+              <fieldset className="space-y-2 md:col-span-2">
+                <legend className="block text-sm font-medium text-gray-300 mb-2">Effects</legend>
+                <div className="flex flex-wrap gap-4">
+                  {(Object.keys(EFFECT_LABELS) as Array<keyof SimulationSettings['effects']>).map(effect => (
+                    <label key={effect} className="inline-flex items-center gap-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={settings.effects[effect]}
+                        onChange={(e) => handleCustomParameterChange({
+                          effects: { ...settings.effects, [effect]: e.target.checked }
+                        })}
+                        className="rounded border-gray-600 bg-gray-800"
+                      />
+                      {EFFECT_LABELS[effect]}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
             </div>
           </motion.div>
 
@@ -368,6 +382,37 @@ export function InteractiveVoidSimulator() {
             >
               ↻ Reset
             </Button>
+
+            <label className="inline-flex items-center gap-2 text-sm text-gray-400">
+              Quality
+              <select
+                value={state.performance.quality}
+                onChange={(e) => updatePerformance({ quality: e.target.value as QualityMode })}
+                className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-white/20"
+              >
+                {QUALITY_MODES.map(mode => (
+                  <option key={mode.value} value={mode.value}>{mode.label}</option>
+                ))}
+              </select>
+            </label>
+
+            <button
+              onClick={() => setShowPerformance(prev => !prev)}
+              aria-pressed={showPerformance}
+              className="text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              {showPerformance ? 'Hide' : 'Show'} performance
+            </button>
+          </motion.div>
+
+          {/* Saved scenes */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.35 }}
+            className="mt-8"
+          >
+            <SceneGallery getCanvas={() => simulatorRef.current?.querySelector('canvas') ?? null} />
           </motion.div>
 
           {/* Status Display */}
@@ -403,11 +448,13 @@ export function InteractiveVoidSimulator() {
                 </summary>
                 <pre className="mt-2 text-xs overflow-auto">
                   {JSON.stringify({
-                    isActive,
-                    selectedPresetId,
+                    status: state.status,
+                    currentPreset: state.currentPreset,
+                    activeSceneId: state.activeSceneId,
                     isCustomMode,
-                    parameters,
-                    currentPreset: currentPreset?.id,
+                    settings,
+                    quality: quality.level.name,
+                    renderSettings,
                   }, null, 2)}
                 </pre>
               </details>
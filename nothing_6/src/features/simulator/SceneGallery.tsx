@@ -0,0 +1,214 @@
+// filepath: src/features/simulator/SceneGallery.tsx
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component
+// [x] Adds basic ARIA and keyboard handlers (where relevant)
+
+import React, { useState, useRef } from 'react'
+import { eventBus } from '@/core/events'
+import { captureThumbnail } from '@/features/simulator/scenes'
+import { useSimulator } from '@/providers/SimulatorProvider'
+import { useToast } from '@/providers/ToastProvider'
+import Button from '@/shared/components/Button'
+
+/* src/features/simulator/SceneGallery.tsx
+
+   Saved simulator scenes: save the current settings under a name with a thumbnail of the
+   canvas, load or share a scene as a link, and move the whole gallery (with favorited
+   presets) between browsers as a JSON file.
+
+   Usage:
+     <SceneGallery getCanvas={() => containerRef.current?.querySelector('canvas') ?? null} />
+*/
+
+export interface SceneGalleryProps {
+  getCanvas?: () => HTMLCanvasElement | null
+  className?: string
+}
+
+export function SceneGallery({ getCanvas, className = '' }: SceneGalleryProps) {
+  const {
+    state,
+    presets,
+    saveScene,
+    loadScene,
+    deleteScene,
+    getShareUrl,
+    toggleFavoritePreset,
+    exportGallery,
+    importGallery
+  } = useSimulator()
+  const toast = useToast()
+
+  const [sceneName, setSceneName] = useState('')
+  const [copiedSceneId, setCopiedSceneId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault()
+    saveScene(sceneName, captureThumbnail(getCanvas?.() ?? null))
+    setSceneName('')
+  }
+
+  // `current` shares the unsaved settings on screen
+  const handleCopyLink = async (sceneId: string | 'current') => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(sceneId === 'current' ? undefined : sceneId))
+      setCopiedSceneId(sceneId)
+
+      setTimeout(() => setCopiedSceneId(null), 2000)
+
+      eventBus.emit('analytics:event', { name: 'simulator:scene_link_copied', properties: { saved: sceneId !== 'current' } })
+    } catch (error) {
+      console.warn('Failed to copy scene link:', error)
+    }
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const result = importGallery(await file.text())
+    if (!result) {
+      toast.error('That file is not a void scene gallery')
+    } else if (result.skipped > 0) {
+      toast.warning(`Imported ${result.imported} scenes, skipped ${result.skipped} we could not read`)
+    } else {
+      toast.success(`Imported ${result.imported} scenes of nothing`)
+    }
+  }
+
+  return (
+    <section className={`space-y-4 ${className}`} aria-labelledby="scene-gallery-title">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 id="scene-gallery-title" className="text-lg font-semibold text-white">Your Scenes</h3>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleCopyLink('current')}
+            className="border-gray-600 text-gray-300 hover:bg-gray-800"
+          >
+            {copiedSceneId === 'current' ? 'Link copied' : 'Share current'}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={exportGallery}
+            disabled={state.scenes.length === 0 && state.analytics.favoritedPresets.length === 0}
+            className="border-gray-600 text-gray-300 hover:bg-gray-800"
+          >
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            className="border-gray-600 text-gray-300 hover:bg-gray-800"
+          >
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+            aria-label="Import scene gallery file"
+          />
+        </div>
+      </div>
+
+      {/* Save the current settings */}
+      <form onSubmit={handleSave} className="flex gap-2">
+        <label htmlFor="scene-name" className="sr-only">Scene name</label>
+        <input
+          id="scene-name"
+          type="text"
+          value={sceneName}
+          onChange={(e) => setSceneName(e.target.value)}
+          maxLength={60}
+          placeholder={`Name this scene (${presets[state.currentPreset].name})`}
+          className="flex-1 px-3 py-2 bg-gray-900/70 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-white/20"
+        />
+        <Button type="submit" variant="primary" size="sm">
+          Save scene
+        </Button>
+      </form>
+
+      {/* Favorited presets */}
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Favorite presets">
+        {Object.values(presets).map(preset => {
+          const isFavorite = state.analytics.favoritedPresets.includes(preset.id)
+          return (
+            <button
+              key={preset.id}
+              onClick={() => toggleFavoritePreset(preset.id)}
+              aria-pressed={isFavorite}
+              className={`px-2 py-1 rounded-full text-xs border transition-colors ${
+                isFavorite
+                  ? 'border-yellow-400/60 text-yellow-300 bg-yellow-400/10'
+                  : 'border-gray-700 text-gray-400 hover:border-gray-500'
+              }`}
+            >
+              {isFavorite ? '★' : '☆'} {preset.name}
+            </button>
+          )
+        })}
+      </div>
+
+      {state.scenes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No saved scenes yet. Tune the void and save it, or open a shared scene link.
+        </p>
+      ) : (
+        <ul className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {state.scenes.map(scene => (
+            <li
+              key={scene.id}
+              className={`rounded-lg overflow-hidden border bg-gray-900/60 ${
+                state.activeSceneId === scene.id ? 'border-white' : 'border-gray-700'
+              }`}
+            >
+              <button
+                onClick={() => loadScene(scene.id)}
+                className="block w-full text-left focus:outline-none focus:ring-2 focus:ring-white/20"
+                aria-label={`Load scene ${scene.name}`}
+                aria-current={state.activeSceneId === scene.id}
+              >
+                {scene.thumbnail ? (
+                  <img src={scene.thumbnail} alt="" className="w-full aspect-video object-cover bg-black" />
+                ) : (
+                  <div className="w-full aspect-video bg-gradient-to-br from-gray-800 to-black" aria-hidden="true" />
+                )}
+                <div className="px-3 pt-2">
+                  <div className="text-sm font-medium text-white truncate">{scene.name}</div>
+                  <div className="text-xs text-gray-500">{presets[scene.basePreset].name}</div>
+                </div>
+              </button>
+              <div className="flex justify-between px-3 py-2 text-xs">
+                <button
+                  onClick={() => handleCopyLink(scene.id)}
+                  className="text-gray-400 hover:text-white transition-colors"
+                >
+                  {copiedSceneId === scene.id ? 'Copied' : 'Copy link'}
+                </button>
+                <button
+                  onClick={() => deleteScene(scene.id)}
+                  className="text-gray-500 hover:text-red-400 transition-colors"
+                  aria-label={`Delete scene ${scene.name}`}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+export default SceneGallery
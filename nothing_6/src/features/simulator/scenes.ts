@@ -0,0 +1,255 @@
+// filepath: src/features/simulator/scenes.ts
+// [x] Uses `@/` imports as much as possible
+// [ ] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - helper module)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for scene helpers)
+
+import { config } from '@/app/config'
+import type { SimulationPreset, SimulationSettings } from '@/providers/SimulatorProvider'
+
+/* src/features/simulator/scenes.ts
+
+   Simulator scenes: a named SimulationSettings snapshot on top of a built-in preset, with an
+   optional thumbnail from the simulator canvas. Scenes travel as a compact URL fragment
+   (`#scene=v1.<preset>.<speed>.<density>.<complexity>.<scheme>.<effects>[.<name>]`, numbers
+   in base 36) or as a JSON gallery file that also carries the favorited presets.
+
+   Usage:
+     import { buildSceneUrl, decodeScene, readSceneFragment } from '@/features/simulator/scenes'
+     const url = buildSceneUrl(settings, 'quantum_void', 'Late night')
+     const scene = readSceneFragment(window.location.hash)
+*/
+
+export interface SimulatorScene {
+  id: string
+  name: string
+  basePreset: SimulationPreset
+  settings: SimulationSettings
+  thumbnail?: string // Data URL captured from the canvas
+  createdAt: string
+}
+
+export interface DecodedScene {
+  basePreset: SimulationPreset
+  settings: SimulationSettings
+  name?: string
+}
+
+export interface SceneGallery {
+  scenes: SimulatorScene[]
+  favoritedPresets: SimulationPreset[]
+}
+
+export const SCENE_FRAGMENT_KEY = 'scene'
+const SCENE_FORMAT_VERSION = 'v1'
+const GALLERY_FORMAT_VERSION = 1
+
+// Codes are positions in these lists, so new entries only ever go at the end
+const PRESET_CODES: SimulationPreset[] = [
+  'classic_void',
+  'particle_storm',
+  'quantum_void',
+  'digital_decay',
+  'matrix_rain',
+  'cosmic_drift',
+  'glitch_void',
+  'minimal_zen'
+]
+const COLOR_SCHEME_CODES: SimulationSettings['colorScheme'][] = ['mono', 'neon', 'pastel', 'dark', 'void']
+const EFFECT_KEYS: Array<keyof SimulationSettings['effects']> = ['particles', 'trails', 'glow', 'distortion', 'audio']
+
+const THUMBNAIL_WIDTH = 160
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const isPreset = (value: unknown): value is SimulationPreset =>
+  typeof value === 'string' && PRESET_CODES.includes(value as SimulationPreset)
+
+/**
+ * Bring settings from a link or a file back into the ranges the simulator supports
+ */
+export function sanitizeSettings(settings: Partial<SimulationSettings>, fallback: SimulationSettings): SimulationSettings {
+  const number = (value: unknown, fallbackValue: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallbackValue
+  const effects = settings.effects ?? fallback.effects
+
+  return {
+    speed: Math.round(clamp(number(settings.speed, fallback.speed), 0.1, 3) * 100) / 100,
+    density: Math.round(clamp(number(settings.density, fallback.density), 0.1, 1) * 100) / 100,
+    complexity: Math.round(clamp(number(settings.complexity, fallback.complexity), 1, 10)),
+    colorScheme: COLOR_SCHEME_CODES.includes(settings.colorScheme as SimulationSettings['colorScheme'])
+      ? settings.colorScheme as SimulationSettings['colorScheme']
+      : fallback.colorScheme,
+    effects: EFFECT_KEYS.reduce((result, key) => {
+      result[key] = typeof effects[key] === 'boolean' ? effects[key] : fallback.effects[key]
+      return result
+    }, {} as SimulationSettings['effects'])
+  }
+}
+
+export function encodeScene(settings: SimulationSettings, basePreset: SimulationPreset, name?: string): string {
+  const effects = EFFECT_KEYS.reduce((mask, key, index) => (settings.effects[key] ? mask | (1 << index) : mask), 0)
+  const parts = [
+    SCENE_FORMAT_VERSION,
+    Math.max(0, PRESET_CODES.indexOf(basePreset)),
+    Math.round(settings.speed * 100),
+    Math.round(settings.density * 100),
+    Math.round(settings.complexity),
+    Math.max(0, COLOR_SCHEME_CODES.indexOf(settings.colorScheme)),
+    effects
+  ].map(part => (typeof part === 'number' ? part.toString(36) : part))
+
+  // The name goes last: it is the only part that may contain the separator
+  if (name?.trim()) {
+    parts.push(encodeURIComponent(name.trim()))
+  }
+
+  return parts.join('.')
+}
+
+/**
+ * Settings from an encoded scene, or null when the text is not one
+ * @param fallback Used for anything the encoding could not express
+ */
+export function decodeScene(encoded: string, fallback: SimulationSettings): DecodedScene | null {
+  const [version, preset, speed, density, complexity, scheme, effects, ...nameParts] = encoded.split('.')
+  if (version !== SCENE_FORMAT_VERSION || effects === undefined) return null
+
+  const numbers = [preset, speed, density, complexity, scheme, effects].map(part => parseInt(part, 36))
+  if (numbers.some(value => Number.isNaN(value))) return null
+
+  const [presetCode, speedCode, densityCode, complexityCode, schemeCode, effectMask] = numbers
+  const basePreset = PRESET_CODES[presetCode]
+  if (!basePreset) return null
+
+  let name: string | undefined
+  try {
+    name = nameParts.length > 0 ? decodeURIComponent(nameParts.join('.')) : undefined
+  } catch {
+    name = undefined
+  }
+
+  return {
+    basePreset,
+    name,
+    settings: sanitizeSettings({
+      speed: speedCode / 100,
+      density: densityCode / 100,
+      complexity: complexityCode,
+      colorScheme: COLOR_SCHEME_CODES[schemeCode],
+      effects: EFFECT_KEYS.reduce((result, key, index) => {
+        result[key] = (effectMask & (1 << index)) !== 0
+        return result
+      }, {} as SimulationSettings['effects'])
+    }, fallback)
+  }
+}
+
+/**
+ * The encoded scene in a location hash such as `#scene=v1.2...`, if there is one
+ */
+export function readSceneFragment(hash: string): string | null {
+  // Read the raw value: decodeScene decodes the name itself
+  const prefix = `${SCENE_FRAGMENT_KEY}=`
+  const entry = hash.replace(/^#/, '').split('&').find(part => part.startsWith(prefix))
+  return entry ? entry.slice(prefix.length) : null
+}
+
+export function buildSceneUrl(settings: SimulationSettings, basePreset: SimulationPreset, name?: string): string {
+  const base = typeof window !== 'undefined'
+    ? `${window.location.origin}${window.location.pathname}${window.location.search}`
+    : ''
+  return `${base}#${SCENE_FRAGMENT_KEY}=${encodeScene(settings, basePreset, name)}`
+}
+
+/**
+ * Downscaled JPEG of the simulator canvas; undefined when the canvas cannot be read
+ */
+export function captureThumbnail(source: HTMLCanvasElement | null, width = THUMBNAIL_WIDTH): string | undefined {
+  if (!source || source.width === 0 || source.height === 0) return undefined
+
+  try {
+    const thumbnail = document.createElement('canvas')
+    thumbnail.width = width
+    thumbnail.height = Math.round(width * source.height / source.width)
+    const context = thumbnail.getContext('2d')
+    if (!context) return undefined
+
+    context.fillStyle = '#000'
+    context.fillRect(0, 0, thumbnail.width, thumbnail.height)
+    context.drawImage(source, 0, 0, thumbnail.width, thumbnail.height)
+    return thumbnail.toDataURL('image/jpeg', 0.7)
+  } catch {
+    // Tainted or lost WebGL contexts refuse to be read
+    return undefined
+  }
+}
+
+export function serializeGallery(gallery: SceneGallery): string {
+  return JSON.stringify({
+    app: config.appName,
+    version: GALLERY_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    scenes: gallery.scenes,
+    favoritedPresets: gallery.favoritedPresets
+  }, null, 2)
+}
+
+/**
+ * Scenes and favorites from an exported gallery file; null when the file is not one.
+ * Scenes with an unknown base preset are dropped and counted in `skipped`.
+ */
+export function parseGallery(
+  json: string,
+  getPresetSettings: (preset: SimulationPreset) => SimulationSettings
+): (SceneGallery & { skipped: number }) | null {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    return null
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray((data as { scenes?: unknown }).scenes)) return null
+  const { scenes, favoritedPresets } = data as { scenes: unknown[]; favoritedPresets?: unknown }
+
+  const imported: SimulatorScene[] = []
+  scenes.forEach(entry => {
+    const scene = entry as Partial<SimulatorScene> | null
+    if (!scene || typeof scene.name !== 'string' || !isPreset(scene.basePreset)) return
+
+    const fallback = getPresetSettings(scene.basePreset)
+    imported.push({
+      id: typeof scene.id === 'string' ? scene.id : `scene_${Date.now()}_${imported.length}`,
+      name: scene.name.slice(0, 60),
+      basePreset: scene.basePreset,
+      settings: sanitizeSettings(scene.settings ?? {}, fallback),
+      thumbnail: typeof scene.thumbnail === 'string' && scene.thumbnail.startsWith('data:image/') ? scene.thumbnail : undefined,
+      createdAt: typeof scene.createdAt === 'string' ? scene.createdAt : new Date().toISOString()
+    })
+  })
+
+  return {
+    scenes: imported,
+    favoritedPresets: Array.isArray(favoritedPresets) ? favoritedPresets.filter(isPreset) : [],
+    skipped: scenes.length - imported.length
+  }
+}
+
+/**
+ * Save the gallery through the browser's download prompt
+ */
+export function downloadGallery(gallery: SceneGallery): void {
+  const blob = new Blob([serializeGallery(gallery)], { type: 'application/json' })
+  const url = window.URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `nothing-void-scenes-${new Date().toISOString().slice(0, 10)}.json`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  window.URL.revokeObjectURL(url)
+}
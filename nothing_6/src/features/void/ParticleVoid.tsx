@@ -12,6 +12,10 @@ import * as THREE from 'three'
 import { config } from '@/app/config'
 import { eventBus } from '@/core/events'
 import { createThreeUtils } from '@/utils/three'
+import { QualityProbe } from '@/shared/components/QualityProbe'
+import { QualityDebugOverlay } from '@/shared/components/QualityDebugOverlay'
+import { useQualityGovernor } from '@/shared/hooks/useQualityGovernor'
+import { scaleByQuality } from '@/utils/qualityGovernor'
 
 export interface ParticleVoidProps {
   /** Number of particles to render */
@@ -30,8 +34,10 @@ export interface ParticleVoidProps {
   voidRadius?: number
   /** Animation pause state */
   paused?: boolean
-  /** Performance mode (reduces particle count on low-end devices) */
+  /** Performance mode ('auto' adapts particle count, glow and pixel ratio to frame cost) */
   performanceMode?: 'auto' | 'high' | 'medium' | 'low'
+  /** Show the quality governor's readout over the canvas */
+  showQualityOverlay?: boolean
   /** Custom animation preset */
   animationPreset?: 'drift' | 'spiral' | 'chaos' | 'orbit' | 'pulse'
   /** Callback when particles finish initializing */
@@ -63,6 +69,7 @@ const ParticleSystem: React.FC<{
   voidRadius: number
   paused: boolean
   animationPreset: string
+  glow: boolean
   onReady?: () => void
   onPerformanceUpdate?: (fps: number, particleCount: number) => void
 }> = ({ 
@@ -75,6 +82,7 @@ const ParticleSystem: React.FC<{
   voidRadius, 
   paused,
   animationPreset,
+  glow,
   onReady,
   onPerformanceUpdate 
 }) => {
@@ -250,7 +258,7 @@ const ParticleSystem: React.FC<{
         transparent
         alphaTest={0.001}
         depthWrite={false}
-        blending={THREE.AdditiveBlending}
+        blending={glow ? THREE.AdditiveBlending : THREE.NormalBlending}
         vertexColors={false}
       />
     </Points>
@@ -268,6 +276,7 @@ export const ParticleVoid = forwardRef<ParticleVoidRef, ParticleVoidProps>(({
   voidRadius = 2,
   paused = false,
   performanceMode = 'auto',
+  showQualityOverlay = false,
   animationPreset = 'drift',
   onReady,
   onPerformanceUpdate,
@@ -282,22 +291,22 @@ export const ParticleVoid = forwardRef<ParticleVoidRef, ParticleVoidProps>(({
     pulseActive: false
   })
 
-  // Adjust particle count based on performance mode
-  const adjustedCount = useMemo(() => {
-    if (performanceMode === 'auto') {
-      // Auto-detect based on device capabilities
-      const isLowEnd = !window.DeviceMotionEvent || navigator.hardwareConcurrency <= 2
-      return isLowEnd ? Math.min(count, 500) : count
-    }
-    
-    const multipliers = {
-      high: 1,
-      medium: 0.7,
-      low: 0.4
-    }
-    
-    return Math.floor(count * multipliers[performanceMode])
-  }, [count, performanceMode])
+  // Low-end devices start lower; the governor then follows measured frame cost
+  const initialLevel = useMemo(() => {
+    const isLowEnd = !window.DeviceMotionEvent || navigator.hardwareConcurrency <= 2
+    return isLowEnd ? 'low' as const : 'high' as const
+  }, [])
+
+  const { governor, snapshot: quality } = useQualityGovernor({
+    source: 'particle-void',
+    mode: performanceMode,
+    initialLevel,
+    refreshInterval: showQualityOverlay ? 500 : 0
+  })
+
+  // Particle count and motion follow the quality level and reduced-motion preference
+  const adjustedCount = scaleByQuality(count, quality.level)
+  const adjustedSpeed = quality.reducedMotion ? speed * 0.25 : speed
 
   // Imperative API for parent components
   useImperativeHandle(ref, () => ({
@@ -335,9 +344,8 @@ export const ParticleVoid = forwardRef<ParticleVoidRef, ParticleVoidProps>(({
   const handlePerformanceUpdate = (fps: number, particleCount: number) => {
     onPerformanceUpdate?.(fps, particleCount)
     
-    // Auto-adjust quality if performance drops significantly
     if (performanceMode === 'auto' && fps < 30 && config.isDevelopment) {
-      console.warn('[ParticleVoid] Low FPS detected:', fps, 'Particles:', particleCount)
+      console.warn('[ParticleVoid] Low FPS detected:', fps, 'Particles:', particleCount, 'Quality:', quality.level.name)
     }
   }
 
@@ -356,7 +364,7 @@ export const ParticleVoid = forwardRef<ParticleVoidRef, ParticleVoidProps>(({
       className={`particle-void-container ${className}`}
       role="img"
       aria-label={ariaLabel}
-      style={{ width: '100%', height: '100%', minHeight: '400px' }}
+      style={{ position: 'relative', width: '100%', height: '100%', minHeight: '400px' }}
       {...props}
     >
       <Canvas
@@ -369,20 +377,26 @@ export const ParticleVoid = forwardRef<ParticleVoidRef, ParticleVoidProps>(({
         }}
         onError={handleError}
       >
+        <QualityProbe governor={governor} pixelRatio={quality.level.pixelRatio} />
         <ParticleSystem
           count={adjustedCount}
           size={size}
-          speed={speed}
+          speed={adjustedSpeed}
           color={color}
           opacity={opacity}
           interactive={interactive}
           voidRadius={voidRadius}
           paused={paused || systemStateRef.current.isPaused}
           animationPreset={animationPreset}
+          glow={quality.level.effects.glow}
           onReady={onReady}
           onPerformanceUpdate={handlePerformanceUpdate}
         />
       </Canvas>
+
+      {showQualityOverlay && (
+        <QualityDebugOverlay snapshot={quality} label="ParticleVoid" details={{ particles: adjustedCount }} />
+      )}
     </div>
   )
 })
@@ -401,6 +415,7 @@ export default ParticleVoid
 //   interactive={true}
 //   animationPreset="spiral"
 //   performanceMode="auto"
+//   showQualityOverlay={config.isDevelopment}
 //   onReady={() => console.log('Void initialized')}
 //   onPerformanceUpdate={(fps, count) => console.log(`FPS: ${fps}, Particles: ${count}`)}
 // />
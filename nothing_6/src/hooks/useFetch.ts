@@ -8,7 +8,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { ApiResult } from '@/core/contracts'
 import { eventBus } from '@/core/events'
-import { hooks } from '@/core/hooks'
 import { config } from '@/app/config'
 import { apiClient } from '@/services/apiClient'
 
@@ -144,13 +143,7 @@ export function useFetch<T = unknown>(
         throw existingEntry.promise
       }
 
-      // Run beforeApiRequest hook
-      await hooks.run('beforeApiRequest', { 
-        path: url, 
-        method: 'GET',
-        meta: { retryCount: retryCountRef.current }
-      })
-
+      // apiClient runs the beforeApiRequest/afterApiResponse hook points itself
       const fetchPromise = apiClient.get(url)
       
       // Cache the promise for suspense mode
@@ -166,9 +159,6 @@ export function useFetch<T = unknown>(
 
       if (controller.signal.aborted) return
 
-      // Run afterApiResponse hook  
-      await hooks.run('afterApiResponse', { path: url, method: 'GET', response: result })
-
       if (result.success && result.data !== undefined) {
         const processedData = transform ? transform(result.data) : result.data
 
@@ -0,0 +1,69 @@
+// filepath: src/i18n/catalog.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - catalog helpers)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for catalog helpers)
+
+import baseMessages, { type MessageKey, type Messages } from '@/i18n/messages/en-US'
+import { DEFAULT_LOCALE, type Locale } from '@/i18n/locales'
+import { formatMessage, type MessageValues } from '@/utils/messageFormat'
+
+/* src/i18n/catalog.ts
+
+   Message bundles by locale. The default bundle ships with the app; the others are separate
+   chunks fetched the first time their locale is chosen and kept for the session.
+
+   Usage:
+     import { loadMessages, translate } from '@/i18n/catalog'
+     const messages = await loadMessages('fr-FR')
+     translate(messages, 'counter.label', { count: 0 }, 'fr-FR')
+*/
+
+export type { MessageKey, Messages }
+
+// Every locale except the default, which is bundled with the app
+type LazyLocale = Exclude<Locale, 'en-US'>
+
+const bundleLoaders: Record<LazyLocale, () => Promise<{ default: Messages }>> = {
+  'es-ES': () => import('@/i18n/messages/es-ES'),
+  'fr-FR': () => import('@/i18n/messages/fr-FR'),
+  'de-DE': () => import('@/i18n/messages/de-DE')
+}
+
+const loadedBundles = new Map<Locale, Messages>([[DEFAULT_LOCALE, baseMessages]])
+const pendingBundles = new Map<Locale, Promise<Messages>>()
+
+export function getLoadedMessages(locale: Locale): Messages | undefined {
+  return loadedBundles.get(locale)
+}
+
+/**
+ * Messages for a locale, fetching its bundle once; concurrent calls share the request
+ */
+export function loadMessages(locale: Locale): Promise<Messages> {
+  const loaded = loadedBundles.get(locale)
+  if (loaded) return Promise.resolve(loaded)
+
+  let pending = pendingBundles.get(locale)
+  if (!pending) {
+    pending = bundleLoaders[locale as LazyLocale]()
+      .then(module => {
+        loadedBundles.set(locale, module.default)
+        return module.default
+      })
+      .finally(() => {
+        pendingBundles.delete(locale)
+      })
+    pendingBundles.set(locale, pending)
+  }
+  return pending
+}
+
+/**
+ * Format a catalog message, falling back to the default bundle and then to the key itself
+ */
+export function translate(messages: Messages, key: MessageKey, values: MessageValues = {}, locale: Locale = DEFAULT_LOCALE): string {
+  const pattern = messages[key] ?? baseMessages[key]
+  return pattern === undefined ? key : formatMessage(pattern, values, locale)
+}
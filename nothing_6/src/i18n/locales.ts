@@ -0,0 +1,52 @@
+// filepath: src/i18n/locales.ts
+// [ ] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - locale list)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for locale list)
+
+/* src/i18n/locales.ts
+
+   Locales the app ships message bundles for. Codes are full BCP 47 tags so they can go
+   straight to Intl formatters; `matchLocale` maps browser preferences such as `fr` or
+   `es-MX` onto the closest supported one.
+
+   Usage:
+     import { SUPPORTED_LOCALES, matchLocale } from '@/i18n/locales'
+     const locale = matchLocale(navigator.languages)
+*/
+
+export type Locale = 'en-US' | 'es-ES' | 'fr-FR' | 'de-DE'
+
+export interface LocaleInfo {
+  code: Locale
+  // Name in the locale's own language, for the switcher
+  label: string
+}
+
+export const DEFAULT_LOCALE: Locale = 'en-US'
+
+export const SUPPORTED_LOCALES: LocaleInfo[] = [
+  { code: 'en-US', label: 'English' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' }
+]
+
+export const isLocale = (value: unknown): value is Locale =>
+  SUPPORTED_LOCALES.some(locale => locale.code === value)
+
+/**
+ * First supported locale for a list of preferences, matching exact tags before languages
+ */
+export function matchLocale(preferences: readonly string[]): Locale {
+  for (const preference of preferences) {
+    const exact = SUPPORTED_LOCALES.find(locale => locale.code.toLowerCase() === preference.toLowerCase())
+    if (exact) return exact.code
+
+    const language = preference.split('-')[0].toLowerCase()
+    const sameLanguage = SUPPORTED_LOCALES.find(locale => locale.code.split('-')[0] === language)
+    if (sameLanguage) return sameLanguage.code
+  }
+  return DEFAULT_LOCALE
+}
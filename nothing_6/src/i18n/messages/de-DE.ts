@@ -0,0 +1,75 @@
+// filepath: src/i18n/messages/de-DE.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (messages)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for message catalog)
+
+import type { Messages } from '@/i18n/messages/en-US'
+
+/* src/i18n/messages/de-DE.ts
+
+   German (Germany) bundle, loaded on demand by `@/i18n/catalog`.
+*/
+
+const messages: Messages = {
+  // Header
+  'header.cta.primary': 'Loslegen',
+  'header.cta.secondary': 'Mehr erfahren',
+  'header.theme.switch': 'Zum {theme, select, dark {dunklen} other {hellen}} Design wechseln',
+  'header.theme.current': '{theme, select, dark {Dunkler Modus} other {Heller Modus}}',
+  'header.menu.open': 'Hauptmenü öffnen',
+  'header.menu.close': 'Hauptmenü schließen',
+  'header.language': 'Sprache',
+
+  // Animated counter
+  'counter.label': '{count, plural, one {Funktion geliefert} other {Funktionen geliefert}}',
+  'counter.ariaLabel': 'Animierter Zähler: {count, plural, =0 {keine Funktionen} one {# Funktion} other {# Funktionen}} geliefert. {hint}',
+  'counter.hint.start': 'Drücken, um die Animation zu starten',
+  'counter.hint.restart': 'Drücken, um die Animation neu zu starten',
+  'counter.hint.running': 'Animation läuft',
+  'counter.completed': 'Mission erfüllt',
+  'counter.click.start': 'Zum Animieren klicken',
+  'counter.click.restart': 'Zum Neustarten klicken',
+
+  // Pricing
+  'pricing.mostPopular': 'Am beliebtesten',
+  'pricing.perMonth': 'pro Monat',
+  'pricing.choose': '{name} wählen',
+  'pricing.processing': 'Wird verarbeitet...',
+  'pricing.selectAria': 'Tarif {name} für {price} auswählen',
+
+  // Case studies
+  'caseStudies.cardAria': 'Fallstudie: {title} für {company}',
+  'caseStudies.featured': 'Empfohlen',
+  'caseStudies.moreTags': '+{count} weitere',
+  'caseStudies.duration': 'Dauer: {duration}',
+  'caseStudies.viewDetails': 'Details ansehen →',
+  'caseStudies.viewDetailsAria': 'Vollständige Fallstudie zu {company} ansehen',
+
+  // Checkout
+  'checkout.title': 'Kasse',
+  'checkout.summary': 'Bestellübersicht',
+  'checkout.perMonth': '/Monat',
+  'checkout.promo.label': 'Gutscheincode',
+  'checkout.promo.apply': 'Einlösen',
+  'checkout.promo.applied': '{code} eingelöst: {percent} % Rabatt',
+  'checkout.promo.remove': 'Entfernen',
+  'checkout.promo.removeAria': 'Gutscheincode {code} entfernen',
+  'checkout.total': 'Gesamt',
+  'checkout.cancel': 'Abbrechen',
+  'checkout.continue': 'Weiter zur Zahlung',
+  'checkout.back': 'Zurück',
+  'checkout.payment.title': 'Zahlungsart',
+  'checkout.payment.processing': 'Deine Zahlung wird verarbeitet…',
+  'checkout.payment.failed': '{error}. Wähle eine andere Zahlungsart oder versuche es erneut.',
+  'checkout.pay': '{amount} bezahlen',
+  'checkout.retry': 'Zahlung wiederholen',
+  'checkout.complete.title': 'Zahlung abgeschlossen',
+  'checkout.complete.body': 'Du hast {amount} für {product} bezahlt. Viel Spaß mit deinem Nichts.',
+  'checkout.complete.order': 'Bestellung:',
+  'checkout.complete.payment': 'Zahlung:',
+  'checkout.complete.home': 'Zur Startseite'
+}
+
+export default messages
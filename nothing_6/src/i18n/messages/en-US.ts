@@ -0,0 +1,84 @@
+// filepath: src/i18n/messages/en-US.ts
+// [ ] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (messages)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for message catalog)
+
+/* src/i18n/messages/en-US.ts
+
+   Source message catalog. Its keys define `MessageKey`, and every other locale bundle is
+   typed as `Messages`, so a missing or misspelled key fails the type check. Values are
+   ICU-style patterns (see `@/utils/messageFormat`). This bundle is always loaded and
+   fills in for keys a lazy bundle cannot provide.
+
+   Usage:
+     import { useI18n } from '@/providers/I18nProvider'
+     const { t } = useI18n()
+     t('counter.label', { count: 0 })
+*/
+
+const messages = {
+  // Header
+  'header.cta.primary': 'Get Started',
+  'header.cta.secondary': 'Learn More',
+  'header.theme.switch': 'Switch to {theme, select, dark {dark} other {light}} theme',
+  'header.theme.current': '{theme, select, dark {Dark mode} other {Light mode}}',
+  'header.menu.open': 'Open main menu',
+  'header.menu.close': 'Close main menu',
+  'header.language': 'Language',
+
+  // Animated counter
+  'counter.label': '{count, plural, one {feature delivered} other {features delivered}}',
+  'counter.ariaLabel': 'Animated counter showing {count, plural, =0 {no features} one {# feature} other {# features}} delivered. {hint}',
+  'counter.hint.start': 'Press to start animation',
+  'counter.hint.restart': 'Press to restart animation',
+  'counter.hint.running': 'Animation in progress',
+  'counter.completed': 'Mission Accomplished',
+  'counter.click.start': 'Click to animate',
+  'counter.click.restart': 'Click to restart',
+
+  // Pricing
+  'pricing.mostPopular': 'Most Popular',
+  'pricing.perMonth': 'per month',
+  'pricing.choose': 'Choose {name}',
+  'pricing.processing': 'Processing...',
+  'pricing.selectAria': 'Select {name} pricing tier for {price}',
+
+  // Case studies
+  'caseStudies.cardAria': 'Case study: {title} for {company}',
+  'caseStudies.featured': 'Featured',
+  'caseStudies.moreTags': '+{count} more',
+  'caseStudies.duration': 'Duration: {duration}',
+  'caseStudies.viewDetails': 'View Details →',
+  'caseStudies.viewDetailsAria': 'View full case study for {company}',
+
+  // Checkout
+  'checkout.title': 'Checkout',
+  'checkout.summary': 'Order summary',
+  'checkout.perMonth': '/mo',
+  'checkout.promo.label': 'Promo code',
+  'checkout.promo.apply': 'Apply',
+  'checkout.promo.applied': '{code} applied: {percent}% off',
+  'checkout.promo.remove': 'Remove',
+  'checkout.promo.removeAria': 'Remove promo code {code}',
+  'checkout.total': 'Total',
+  'checkout.cancel': 'Cancel',
+  'checkout.continue': 'Continue to payment',
+  'checkout.back': 'Back',
+  'checkout.payment.title': 'Payment method',
+  'checkout.payment.processing': 'Processing your payment…',
+  'checkout.payment.failed': '{error}. Choose another method or try again.',
+  'checkout.pay': 'Pay {amount}',
+  'checkout.retry': 'Retry payment',
+  'checkout.complete.title': 'Payment complete',
+  'checkout.complete.body': 'You paid {amount} for {product}. Enjoy your nothing.',
+  'checkout.complete.order': 'Order:',
+  'checkout.complete.payment': 'Payment:',
+  'checkout.complete.home': 'Back to home'
+}
+
+export type MessageKey = keyof typeof messages
+export type Messages = Record<MessageKey, string>
+
+export default messages as Messages
@@ -0,0 +1,75 @@
+// filepath: src/i18n/messages/es-ES.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (messages)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for message catalog)
+
+import type { Messages } from '@/i18n/messages/en-US'
+
+/* src/i18n/messages/es-ES.ts
+
+   Spanish (Spain) bundle, loaded on demand by `@/i18n/catalog`.
+*/
+
+const messages: Messages = {
+  // Header
+  'header.cta.primary': 'Empezar',
+  'header.cta.secondary': 'Saber más',
+  'header.theme.switch': 'Cambiar al tema {theme, select, dark {oscuro} other {claro}}',
+  'header.theme.current': '{theme, select, dark {Modo oscuro} other {Modo claro}}',
+  'header.menu.open': 'Abrir menú principal',
+  'header.menu.close': 'Cerrar menú principal',
+  'header.language': 'Idioma',
+
+  // Animated counter
+  'counter.label': '{count, plural, one {función entregada} other {funciones entregadas}}',
+  'counter.ariaLabel': 'Contador animado: {count, plural, =0 {ninguna función entregada} one {# función entregada} other {# funciones entregadas}}. {hint}',
+  'counter.hint.start': 'Pulsa para iniciar la animación',
+  'counter.hint.restart': 'Pulsa para reiniciar la animación',
+  'counter.hint.running': 'Animación en curso',
+  'counter.completed': 'Misión cumplida',
+  'counter.click.start': 'Haz clic para animar',
+  'counter.click.restart': 'Haz clic para reiniciar',
+
+  // Pricing
+  'pricing.mostPopular': 'Más popular',
+  'pricing.perMonth': 'al mes',
+  'pricing.choose': 'Elegir {name}',
+  'pricing.processing': 'Procesando...',
+  'pricing.selectAria': 'Seleccionar el plan {name} por {price}',
+
+  // Case studies
+  'caseStudies.cardAria': 'Caso de éxito: {title} para {company}',
+  'caseStudies.featured': 'Destacado',
+  'caseStudies.moreTags': '+{count} más',
+  'caseStudies.duration': 'Duración: {duration}',
+  'caseStudies.viewDetails': 'Ver detalles →',
+  'caseStudies.viewDetailsAria': 'Ver el caso de éxito completo de {company}',
+
+  // Checkout
+  'checkout.title': 'Pago',
+  'checkout.summary': 'Resumen del pedido',
+  'checkout.perMonth': '/mes',
+  'checkout.promo.label': 'Código promocional',
+  'checkout.promo.apply': 'Aplicar',
+  'checkout.promo.applied': '{code} aplicado: {percent} % de descuento',
+  'checkout.promo.remove': 'Quitar',
+  'checkout.promo.removeAria': 'Quitar el código promocional {code}',
+  'checkout.total': 'Total',
+  'checkout.cancel': 'Cancelar',
+  'checkout.continue': 'Continuar al pago',
+  'checkout.back': 'Atrás',
+  'checkout.payment.title': 'Método de pago',
+  'checkout.payment.processing': 'Procesando tu pago…',
+  'checkout.payment.failed': '{error}. Elige otro método o inténtalo de nuevo.',
+  'checkout.pay': 'Pagar {amount}',
+  'checkout.retry': 'Reintentar el pago',
+  'checkout.complete.title': 'Pago completado',
+  'checkout.complete.body': 'Has pagado {amount} por {product}. Disfruta de tu nada.',
+  'checkout.complete.order': 'Pedido:',
+  'checkout.complete.payment': 'Pago:',
+  'checkout.complete.home': 'Volver al inicio'
+}
+
+export default messages
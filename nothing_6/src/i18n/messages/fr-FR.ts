@@ -0,0 +1,76 @@
+// filepath: src/i18n/messages/fr-FR.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (messages)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for message catalog)
+
+import type { Messages } from '@/i18n/messages/en-US'
+
+/* src/i18n/messages/fr-FR.ts
+
+   French (France) bundle, loaded on demand by `@/i18n/catalog`. French plural rules put
+   zero in `one`, so "0 fonctionnalité livrée" stays singular.
+*/
+
+const messages: Messages = {
+  // Header
+  'header.cta.primary': 'Commencer',
+  'header.cta.secondary': 'En savoir plus',
+  'header.theme.switch': 'Passer au thème {theme, select, dark {sombre} other {clair}}',
+  'header.theme.current': '{theme, select, dark {Mode sombre} other {Mode clair}}',
+  'header.menu.open': 'Ouvrir le menu principal',
+  'header.menu.close': 'Fermer le menu principal',
+  'header.language': 'Langue',
+
+  // Animated counter
+  'counter.label': '{count, plural, one {fonctionnalité livrée} other {fonctionnalités livrées}}',
+  'counter.ariaLabel': 'Compteur animé : {count, plural, =0 {aucune fonctionnalité livrée} one {# fonctionnalité livrée} other {# fonctionnalités livrées}}. {hint}',
+  'counter.hint.start': 'Appuyez pour lancer l’animation',
+  'counter.hint.restart': 'Appuyez pour relancer l’animation',
+  'counter.hint.running': 'Animation en cours',
+  'counter.completed': 'Mission accomplie',
+  'counter.click.start': 'Cliquez pour animer',
+  'counter.click.restart': 'Cliquez pour recommencer',
+
+  // Pricing
+  'pricing.mostPopular': 'Le plus populaire',
+  'pricing.perMonth': 'par mois',
+  'pricing.choose': 'Choisir {name}',
+  'pricing.processing': 'Traitement...',
+  'pricing.selectAria': 'Choisir la formule {name} pour {price}',
+
+  // Case studies
+  'caseStudies.cardAria': 'Étude de cas : {title} pour {company}',
+  'caseStudies.featured': 'À la une',
+  'caseStudies.moreTags': '+{count} de plus',
+  'caseStudies.duration': 'Durée : {duration}',
+  'caseStudies.viewDetails': 'Voir les détails →',
+  'caseStudies.viewDetailsAria': 'Voir l’étude de cas complète de {company}',
+
+  // Checkout
+  'checkout.title': 'Paiement',
+  'checkout.summary': 'Récapitulatif de la commande',
+  'checkout.perMonth': '/mois',
+  'checkout.promo.label': 'Code promo',
+  'checkout.promo.apply': 'Appliquer',
+  'checkout.promo.applied': '{code} appliqué : {percent} % de réduction',
+  'checkout.promo.remove': 'Retirer',
+  'checkout.promo.removeAria': 'Retirer le code promo {code}',
+  'checkout.total': 'Total',
+  'checkout.cancel': 'Annuler',
+  'checkout.continue': 'Passer au paiement',
+  'checkout.back': 'Retour',
+  'checkout.payment.title': 'Moyen de paiement',
+  'checkout.payment.processing': 'Traitement de votre paiement…',
+  'checkout.payment.failed': '{error}. Choisissez un autre moyen ou réessayez.',
+  'checkout.pay': 'Payer {amount}',
+  'checkout.retry': 'Réessayer le paiement',
+  'checkout.complete.title': 'Paiement effectué',
+  'checkout.complete.body': 'Vous avez payé {amount} pour {product}. Profitez bien de votre rien.',
+  'checkout.complete.order': 'Commande :',
+  'checkout.complete.payment': 'Paiement :',
+  'checkout.complete.home': 'Retour à l’accueil'
+}
+
+export default messages
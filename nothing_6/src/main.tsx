@@ -10,30 +10,16 @@ import { createRoot } from 'react-dom/client'
 import { config, isDevelopment, shouldUseMockData } from '@/app/config'
 import { eventBus } from '@/core/events'
 import App from './App'
-import ThemeProvider from '@/providers/ThemeProvider'
-import ToastProvider from '@/providers/ToastProvider'
-import ModalProvider from '@/providers/ModalProvider'
-import AuthProvider from '@/providers/AuthProvider'
+import RootProviders from '@/providers/RootProviders'
+import { errorReporter } from '@/services/errorReporter'
 import { startMockServer } from '@/services/mockServer'
 import '@/styles/global.css'
 
-// Root provider composition wrapper
-const RootProviders: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  return (
-    <ThemeProvider>
-      <AuthProvider>
-        <ToastProvider>
-          <ModalProvider>
-            {children}
-          </ModalProvider>
-        </ToastProvider>
-      </AuthProvider>
-    </ThemeProvider>
-  )
-}
-
 // Bootstrap function that handles app initialization
 async function bootstrap() {
+  // Uncaught errors, unhandled rejections and app:error become reports from here on
+  errorReporter.install()
+
   try {
     // Start mock server in development if configured
     if (isDevelopment && shouldUseMockData) {
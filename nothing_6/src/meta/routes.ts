@@ -0,0 +1,58 @@
+// filepath: src/meta/routes.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - route metadata)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for route metadata)
+
+/* src/meta/routes.ts
+
+   Paths and head metadata for every top-level route. It imports no pages or providers, so the
+   prerender entry can build head tags under Node without evaluating the app; `@/routes` pairs
+   each entry with its lazy page.
+
+   Usage:
+     import { routeMeta } from '@/meta/routes'
+     routeMeta.map(route => renderHeadTags(resolveSeo(route)))
+*/
+
+export const routeMeta = [
+  {
+    path: '/',
+    title: 'Home - Absolutely Nothing ™',
+    description: 'The premium experience of getting absolutely nothing',
+    analytics: 'landing_page',
+    structuredData: ['organization', 'product', 'faq'],
+  },
+  {
+    path: '/press',
+    title: 'Press Kit - Absolutely Nothing ™',
+    description: 'Media resources and press information about Nothing',
+    analytics: 'press_page',
+    structuredData: ['organization'],
+  },
+  {
+    path: '/api',
+    title: 'API Documentation - Absolutely Nothing ™',
+    description: 'Complete API documentation for integrating Nothing',
+    analytics: 'api_docs_page',
+    structuredData: ['organization'],
+  },
+  {
+    path: '/status',
+    title: 'System Status - Absolutely Nothing ™',
+    description: 'Real-time status and uptime monitoring for Nothing services',
+    analytics: 'status_page',
+    structuredData: ['organization'],
+  },
+  {
+    path: '/checkout',
+    title: 'Checkout - Absolutely Nothing ™',
+    description: 'Complete your purchase of Nothing',
+    analytics: 'checkout_page',
+    structuredData: ['product'],
+  },
+] as const
+
+export type RouteMeta = typeof routeMeta[number]
+export type RoutePath = RouteMeta['path']
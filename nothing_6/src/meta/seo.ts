@@ -0,0 +1,236 @@
+// filepath: src/meta/seo.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - head manager)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for head manager)
+
+import { config } from '@/app/config'
+import { FAQ, NothingProduct } from '@/core/contracts'
+import { CHECKOUT_PRODUCTS } from '@/core/products'
+import { DEFAULT_FAQS } from '@/features/faq/faqs'
+
+/* src/meta/seo.ts
+
+   Route-level head management. A route entry from `routeMeta` resolves to SeoMetadata, which
+   becomes a flat list of head tags: title, description, canonical, OpenGraph and Twitter cards
+   and JSON-LD blocks. The browser applies that list on navigation; the prerender step renders
+   the same list to HTML, so crawlers and the live page agree.
+
+   Usage:
+     import { applySeo, resolveSeo } from '@/meta/seo'
+     applySeo(resolveSeo(routeData, { locale }))
+
+     // build time
+     renderHeadTags(resolveSeo(route))
+*/
+
+export type StructuredDataKind = 'organization' | 'product' | 'faq'
+
+export type JsonLd = Record<string, unknown>
+
+// The subset of a routeMeta entry the head manager reads
+export interface SeoRoute {
+  path: string
+  title: string
+  description: string
+  ogType?: 'website' | 'article' | 'product'
+  ogImage?: string
+  structuredData?: readonly StructuredDataKind[]
+  noindex?: boolean
+}
+
+export interface SeoMetadata {
+  title: string
+  description: string
+  canonicalUrl: string
+  type: 'website' | 'article' | 'product'
+  siteName: string
+  image?: string
+  // OpenGraph locale, e.g. en_US
+  locale?: string
+  noindex: boolean
+  jsonLd: JsonLd[]
+}
+
+export interface HeadTag {
+  tag: 'meta' | 'link' | 'script'
+  attributes: Record<string, string>
+  content?: string
+}
+
+// Marks elements owned by the head manager so a route change can replace them
+const MANAGED_ATTRIBUTE = 'data-seo'
+
+const SCHEMA_CONTEXT = 'https://schema.org'
+
+/**
+ * Absolute URL for a site path, using config.siteUrl or the current origin
+ */
+export function absoluteUrl(path: string): string {
+  if (/^https?:\/\//.test(path)) return path
+  const origin = config.siteUrl || (typeof window !== 'undefined' ? window.location.origin : '')
+  return `${origin}${path.startsWith('/') ? path : `/${path}`}`
+}
+
+export function buildOrganizationJsonLd(): JsonLd {
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'Organization',
+    name: config.appName,
+    url: absoluteUrl('/'),
+    ...(config.ogImage && { logo: absoluteUrl(config.ogImage) })
+  }
+}
+
+export function buildProductJsonLd(products: NothingProduct[] = CHECKOUT_PRODUCTS, currency = 'USD'): JsonLd[] {
+  return products.map(product => ({
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'Product',
+    name: product.title,
+    sku: product.sku,
+    ...(product.description && { description: product.description }),
+    brand: { '@type': 'Brand', name: config.appName },
+    offers: {
+      '@type': 'Offer',
+      price: (product.priceCents / 100).toFixed(2),
+      priceCurrency: currency,
+      availability: 'https://schema.org/InStock',
+      url: absoluteUrl(`/checkout?product=${encodeURIComponent(product.id)}`)
+    }
+  }))
+}
+
+export function buildFaqJsonLd(faqs: FAQ[] = DEFAULT_FAQS): JsonLd {
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'FAQPage',
+    mainEntity: faqs.map(faq => ({
+      '@type': 'Question',
+      name: faq.question,
+      acceptedAnswer: { '@type': 'Answer', text: faq.answer }
+    }))
+  }
+}
+
+const structuredDataBuilders: Record<StructuredDataKind, () => JsonLd | JsonLd[]> = {
+  organization: buildOrganizationJsonLd,
+  product: () => buildProductJsonLd(),
+  faq: () => buildFaqJsonLd()
+}
+
+/**
+ * Metadata for a route; `locale` is a BCP 47 tag such as en-US
+ */
+export function resolveSeo(route: SeoRoute, options: { locale?: string } = {}): SeoMetadata {
+  const image = route.ogImage || config.ogImage
+
+  return {
+    title: route.title,
+    description: route.description,
+    canonicalUrl: absoluteUrl(route.path),
+    type: route.ogType ?? 'website',
+    siteName: config.appName,
+    image: image ? absoluteUrl(image) : undefined,
+    locale: options.locale?.replace('-', '_'),
+    noindex: route.noindex ?? false,
+    jsonLd: (route.structuredData ?? []).flatMap<JsonLd>(kind => structuredDataBuilders[kind]())
+  }
+}
+
+/**
+ * Head tags for the metadata, in document order; the title is handled separately
+ */
+export function buildHeadTags(meta: SeoMetadata): HeadTag[] {
+  const named = (name: string, content: string): HeadTag => ({ tag: 'meta', attributes: { name, content } })
+  const property = (name: string, content: string): HeadTag => ({ tag: 'meta', attributes: { property: name, content } })
+
+  const tags: HeadTag[] = [
+    named('description', meta.description),
+    { tag: 'link', attributes: { rel: 'canonical', href: meta.canonicalUrl } },
+    property('og:type', meta.type),
+    property('og:site_name', meta.siteName),
+    property('og:title', meta.title),
+    property('og:description', meta.description),
+    property('og:url', meta.canonicalUrl),
+    named('twitter:card', meta.image ? 'summary_large_image' : 'summary'),
+    named('twitter:title', meta.title),
+    named('twitter:description', meta.description)
+  ]
+
+  if (meta.image) {
+    tags.push(property('og:image', meta.image), named('twitter:image', meta.image))
+  }
+  if (meta.locale) {
+    tags.push(property('og:locale', meta.locale))
+  }
+  if (meta.noindex) {
+    tags.push(named('robots', 'noindex, nofollow'))
+  }
+
+  for (const data of meta.jsonLd) {
+    tags.push({ tag: 'script', attributes: { type: 'application/ld+json' }, content: JSON.stringify(data) })
+  }
+
+  return tags
+}
+
+// Selector for tags a page may already carry outside the head manager (e.g. index.html)
+const selectorFor = (tag: HeadTag): string | null => {
+  const { name, property, rel } = tag.attributes
+  if (name) return `meta[name="${name}"]`
+  if (property) return `meta[property="${property}"]`
+  if (rel === 'canonical') return 'link[rel="canonical"]'
+  return null
+}
+
+/**
+ * Replace the document's managed head tags with the ones for this metadata
+ */
+export function applySeo(meta: SeoMetadata, doc: Document = document): void {
+  const tags = buildHeadTags(meta)
+
+  doc.title = meta.title
+  doc.head.querySelectorAll(`[${MANAGED_ATTRIBUTE}]`).forEach(element => element.remove())
+  for (const tag of tags) {
+    const selector = selectorFor(tag)
+    if (selector) doc.head.querySelectorAll(selector).forEach(element => element.remove())
+  }
+
+  for (const tag of tags) {
+    const element = doc.createElement(tag.tag)
+    for (const [name, value] of Object.entries(tag.attributes)) {
+      element.setAttribute(name, value)
+    }
+    element.setAttribute(MANAGED_ATTRIBUTE, '')
+    if (tag.content !== undefined) element.textContent = tag.content
+    doc.head.appendChild(element)
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * The head as an HTML string, for static pages written at build time
+ */
+export function renderHeadTags(meta: SeoMetadata): string {
+  const lines = [`<title>${escapeHtml(meta.title)}</title>`]
+
+  for (const tag of buildHeadTags(meta)) {
+    const attributes = Object.entries(tag.attributes)
+      .map(([name, value]) => `${name}="${escapeHtml(value)}"`)
+      .join(' ')
+    const open = `<${tag.tag} ${attributes} ${MANAGED_ATTRIBUTE}>`
+
+    if (tag.tag === 'script') {
+      // JSON-LD is raw text inside <script>, so only a closing tag could break out of it
+      const content = (tag.content ?? '').replace(/</g, '\\u003c')
+      lines.push(`${open}${content}</script>`)
+    } else {
+      lines.push(open)
+    }
+  }
+
+  return lines.join('\n    ')
+}
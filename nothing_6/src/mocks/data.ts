@@ -0,0 +1,163 @@
+// filepath: src/mocks/data.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [ ] Exports default named component (N/A - fixtures)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for fixtures)
+
+import type {
+  CaseStudy,
+  NothingProduct,
+  PaginatedResponse,
+  PricingTier,
+  RoadmapItem,
+  StatusResponse,
+  Testimonial
+} from '@/core/contracts'
+
+/* src/mocks/data.ts
+
+   Fixtures for the Nothing endpoints. Served by the MSW handlers in `@/mocks/handlers/endpoints`
+   and returned directly by `nothingService` when mock data is on but the worker is not running.
+
+   Usage:
+     import { mockProducts, paginate } from '@/mocks/data'
+*/
+
+export const mockProducts: NothingProduct[] = [
+  {
+    id: 'nothing-basic',
+    sku: 'NOTHING-001',
+    title: 'Basic Nothing',
+    description: 'The essential nothing experience',
+    priceCents: 0,
+    features: ['Pure void', 'Unlimited emptiness', 'Zero features', 'No support']
+  },
+  {
+    id: 'nothing-premium',
+    sku: 'NOTHING-002',
+    title: 'Premium Nothing',
+    description: 'Enhanced nothingness for discerning users',
+    priceCents: 999,
+    features: ['Premium void', 'Gold-plated emptiness', 'Priority nothing', 'Deluxe absence']
+  },
+  {
+    id: 'nothing-enterprise',
+    sku: 'NOTHING-003',
+    title: 'Enterprise Nothing',
+    description: 'Industrial-grade nothing for large organizations',
+    priceCents: 9999,
+    features: ['Enterprise void', 'Scalable nothingness', 'SLA-backed emptiness', '24/7 support for nothing']
+  }
+]
+
+export const mockTestimonials: Testimonial[] = [
+  {
+    id: 't-1',
+    author: 'Sarah Nothing',
+    quote: 'Absolutely nothing has changed my life. The void is real!',
+    rating: 5,
+    avatarUrl: '/assets/avatars/sarah.jpg',
+    createdAt: new Date().toISOString()
+  },
+  {
+    id: 't-2',
+    author: 'John Void',
+    quote: 'I purchased nothing and got exactly what I expected. 10/10!',
+    rating: 5,
+    avatarUrl: '/assets/avatars/john.jpg',
+    createdAt: new Date().toISOString()
+  },
+  {
+    id: 't-3',
+    author: 'Empty McEmpty',
+    quote: 'Finally, a product that delivers on its promises. Nothing at all!',
+    rating: 5,
+    createdAt: new Date().toISOString()
+  }
+]
+
+export const mockPricing: PricingTier[] = [
+  {
+    id: 'basic-nothing',
+    name: 'Basic Nothing',
+    priceCents: 0,
+    currency: 'USD',
+    features: ['Absolutely nothing', 'Zero features', 'No support', 'Empty promises'],
+  },
+  {
+    id: 'premium-nothing',
+    name: 'Premium Nothing',
+    priceCents: 999,
+    currency: 'USD',
+    features: ['Premium nothing', 'Slightly less nothing', 'Priority void', 'Gold-plated emptiness'],
+    highlight: true
+  },
+  {
+    id: 'enterprise-nothing',
+    name: 'Enterprise Nothing',
+    priceCents: 9999,
+    currency: 'USD',
+    features: ['Enterprise-grade nothing', 'Scalable void', 'Dedicated nothingness', '24/7 empty support', 'SLA for nothing'],
+  }
+]
+
+export const mockCaseStudies: CaseStudy[] = [
+  {
+    id: 'cs-1',
+    title: 'How TechCorp Achieved 100% Nothing Implementation',
+    summary: 'A deep dive into how TechCorp successfully deployed nothing across their entire infrastructure.',
+    heroImage: '/assets/case-studies/techcorp.jpg',
+    publishedAt: '2024-01-15',
+    authors: ['Dr. Void', 'Nothing Expert']
+  },
+  {
+    id: 'cs-2',
+    title: 'StartupXYZ: From Something to Nothing in 6 Months',
+    summary: 'The remarkable journey of how StartupXYZ pivoted from delivering something to mastering nothing.',
+    heroImage: '/assets/case-studies/startupxyz.jpg',
+    publishedAt: '2024-02-22',
+    authors: ['Empty Smith']
+  }
+]
+
+export const mockRoadmap: RoadmapItem[] = [
+  {
+    id: 'r-1',
+    title: 'Nothing 2.0 Release',
+    date: '2024-Q2',
+    description: 'Enhanced nothingness with improved void algorithms',
+    status: 'in_progress'
+  },
+  {
+    id: 'r-2',
+    title: 'Mobile Nothing App',
+    date: '2024-Q3',
+    description: 'Take nothing with you wherever you go',
+    status: 'planned'
+  },
+  {
+    id: 'r-3',
+    title: 'AI-Powered Nothing',
+    date: '2024-Q4',
+    description: 'Machine learning to deliver even more sophisticated nothing',
+    status: 'planned'
+  }
+]
+
+export const mockStatus: StatusResponse = {
+  uptime: 99.99,
+  nothingDelivered: 1000000,
+  satisfaction: 100,
+  incidents: []
+}
+
+export function paginate<T>(items: T[], page: number, limit: number): PaginatedResponse<T> {
+  const startIndex = (page - 1) * limit
+  return {
+    items: items.slice(startIndex, startIndex + limit),
+    total: items.length,
+    page,
+    perPage: limit
+  }
+}
@@ -0,0 +1,50 @@
+// filepath: src/mocks/handlers/analytics.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component (analyticsHandlers)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for mock handlers)
+
+import { delay, http, HttpResponse } from 'msw'
+import { config } from '@/app/config'
+
+/* src/mocks/handlers/analytics.ts
+
+   MSW handler for the analytics collector. Accepts batches from fetch and sendBeacon,
+   ignores event ids it has already seen (retries and beacons may resend them) and
+   reports how many events were new.
+
+   Usage:
+     import { analyticsHandlers } from '@/mocks/handlers/analytics'
+*/
+
+interface AnalyticsBatchBody {
+  events?: Array<{ id?: string }>
+  pageViews?: Array<{ id?: string }>
+  identifies?: Array<{ id?: string }>
+}
+
+const seenIds = new Set<string>()
+
+export const analyticsHandlers = [
+  http.post(`${config.apiBase}/analytics`, async ({ request }) => {
+    const body = (await request.json().catch(() => null)) as AnalyticsBatchBody | null
+    await delay(150)
+
+    if (!body) {
+      return HttpResponse.json({ error: { code: 'INVALID_BATCH', message: 'Batch must be JSON' } }, { status: 400 })
+    }
+
+    const items = [...(body.events ?? []), ...(body.pageViews ?? []), ...(body.identifies ?? [])]
+    let accepted = 0
+    items.forEach(item => {
+      if (item.id && seenIds.has(item.id)) return
+      if (item.id) seenIds.add(item.id)
+      accepted++
+    })
+
+    return HttpResponse.json({ accepted, duplicates: items.length - accepted })
+  })
+]
+
+export default analyticsHandlers
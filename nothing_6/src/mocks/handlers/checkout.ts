@@ -0,0 +1,125 @@
+// filepath: src/mocks/handlers/checkout.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component (checkoutHandlers)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for mock handlers)
+
+import { delay, http, HttpResponse } from 'msw'
+import { config } from '@/app/config'
+import type { PaymentIntent } from '@/services/checkout'
+
+/* src/mocks/handlers/checkout.ts
+
+   MSW handlers for the checkout payment flow. Payment intents live in memory and settle
+   a short while after they are confirmed, so the UI has a real processing state to poll.
+   Paying with `empty_wallet` always fails, which makes the failure path easy to try.
+
+   Usage:
+     import { checkoutHandlers } from '@/mocks/handlers/checkout'
+     setupWorker(...checkoutHandlers)
+*/
+
+interface MockIntent extends PaymentIntent {
+  paymentMethod: string
+  amountCents: number
+  currency: string
+  settlesAt?: number
+}
+
+interface CreateIntentBody {
+  sessionId?: string
+  paymentMethod?: string
+  amountCents?: number
+  currency?: string
+}
+
+const PROCESSING_MS = 1200
+const DECLINING_METHODS: Record<string, string> = {
+  empty_wallet: 'Your wallet is too empty, even for nothing'
+}
+
+const intents = new Map<string, MockIntent>()
+
+const base = `${config.apiBase}/checkout`
+
+const errorResponse = (status: number, code: string, message: string) =>
+  HttpResponse.json({ error: { code, message } }, { status })
+
+// Strip the mock-only fields so responses match the PaymentIntent contract
+const toPaymentIntent = ({ id, sessionId, status, clientSecret, lastError }: MockIntent): PaymentIntent => ({
+  id,
+  sessionId,
+  status,
+  clientSecret,
+  lastError
+})
+
+// Confirmed intents settle lazily, the first time they are read after the processing delay
+const settle = (intent: MockIntent): MockIntent => {
+  if (intent.status !== 'processing' || !intent.settlesAt || Date.now() < intent.settlesAt) {
+    return intent
+  }
+
+  const decline = DECLINING_METHODS[intent.paymentMethod]
+  const settled: MockIntent = decline
+    ? { ...intent, status: 'failed', lastError: decline, settlesAt: undefined }
+    : { ...intent, status: 'succeeded', lastError: undefined, settlesAt: undefined }
+  intents.set(intent.id, settled)
+  return settled
+}
+
+export const checkoutHandlers = [
+  http.post(`${base}/payment-intents`, async ({ request }) => {
+    const body = (await request.json().catch(() => ({}))) as CreateIntentBody
+    await delay(200)
+
+    if (!body.sessionId || !body.paymentMethod) {
+      return errorResponse(400, 'INVALID_REQUEST', 'sessionId and paymentMethod are required')
+    }
+
+    const id = `pi_mock_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+    const intent: MockIntent = {
+      id,
+      sessionId: body.sessionId,
+      status: 'requires_payment',
+      clientSecret: `${id}_secret_${Math.random().toString(36).slice(2, 11)}`,
+      paymentMethod: body.paymentMethod,
+      amountCents: body.amountCents ?? 0,
+      currency: body.currency ?? 'USD'
+    }
+    intents.set(id, intent)
+
+    return HttpResponse.json(toPaymentIntent(intent), { status: 201 })
+  }),
+
+  http.get(`${base}/payment-intents/:intentId`, async ({ params }) => {
+    const intent = intents.get(String(params.intentId))
+    await delay(100)
+
+    if (!intent) {
+      return errorResponse(404, 'PAYMENT_INTENT_NOT_FOUND', 'Payment intent not found')
+    }
+
+    return HttpResponse.json(toPaymentIntent(settle(intent)))
+  }),
+
+  http.post(`${base}/payment-intents/:intentId/confirm`, async ({ params }) => {
+    const intent = intents.get(String(params.intentId))
+    await delay(300)
+
+    if (!intent) {
+      return errorResponse(404, 'PAYMENT_INTENT_NOT_FOUND', 'Payment intent not found')
+    }
+    if (intent.status !== 'requires_payment') {
+      return errorResponse(409, 'INVALID_PAYMENT_STATE', `Payment intent is already ${intent.status}`)
+    }
+
+    const processing: MockIntent = { ...intent, status: 'processing', settlesAt: Date.now() + PROCESSING_MS }
+    intents.set(processing.id, processing)
+
+    return HttpResponse.json(toPaymentIntent(processing))
+  })
+]
+
+export default checkoutHandlers
@@ -0,0 +1,198 @@
+// filepath: src/mocks/handlers/endpoints.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component (endpointHandlers)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for mock handlers)
+
+import { delay, http, HttpResponse } from 'msw'
+import { config } from '@/app/config'
+import {
+  endpoints,
+  type AnyEndpoint,
+  type EndpointBody,
+  type EndpointId,
+  type EndpointParam,
+  type EndpointParams,
+  type EndpointRegistry,
+  type EndpointResponse,
+  type HttpMethod
+} from '@/core/endpoints'
+import {
+  mockCaseStudies,
+  mockPricing,
+  mockProducts,
+  mockRoadmap,
+  mockStatus,
+  mockTestimonials,
+  paginate
+} from '@/mocks/data'
+
+/* src/mocks/handlers/endpoints.ts
+
+   MSW handlers generated from the endpoint registry in `@/core/endpoints`. Each registered
+   endpoint gets a handler on its method and path that checks required parameters and body
+   fields, applies parameter defaults and coerces query strings to the declared types before
+   calling the resolver. Endpoints without a resolver answer with their registry example.
+
+   Usage:
+     import { endpointHandlers } from '@/mocks/handlers/endpoints'
+     setupWorker(...endpointHandlers)
+*/
+
+// Returned by a resolver to answer with an error instead of data
+export class MockEndpointError {
+  status: number
+  code: string
+  message: string
+
+  constructor(status: number, code: string, message: string) {
+    this.status = status
+    this.code = code
+    this.message = message
+  }
+}
+
+export interface EndpointResolverContext<E> {
+  params: EndpointParams<E>
+  body: EndpointBody<E>
+  request: Request
+}
+
+export type EndpointResolver<E> = (
+  context: EndpointResolverContext<E>
+) => EndpointResponse<E> | MockEndpointError | Promise<EndpointResponse<E> | MockEndpointError>
+
+export type EndpointResolvers = { [K in EndpointId]?: EndpointResolver<EndpointRegistry[K]> }
+
+type AnyResolver = EndpointResolver<AnyEndpoint>
+
+interface HandlerInfo {
+  request: Request
+  params: Record<string, string | readonly string[] | undefined>
+}
+
+const MOCK_LATENCY_MS = 150
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const HTTP_ROUTES: Record<HttpMethod, typeof http.get> = {
+  GET: http.get,
+  POST: http.post,
+  PUT: http.put,
+  PATCH: http.patch,
+  DELETE: http.delete
+}
+
+const errorResponse = (status: number, code: string, message: string) =>
+  HttpResponse.json({ error: { code, message } }, { status })
+
+const coerceParam = (param: EndpointParam, raw: string): string | number | boolean | undefined => {
+  if (param.type === 'string') return raw
+  if (param.type === 'boolean') {
+    return raw === 'true' ? true : raw === 'false' ? false : undefined
+  }
+
+  const value = Number(raw)
+  if (!Number.isFinite(value) || (param.type === 'integer' && !Number.isInteger(value))) return undefined
+  return value
+}
+
+// Path and query parameters merged by name, the way the typed client sends them
+const readParams = (endpoint: AnyEndpoint, url: URL, pathParams: HandlerInfo['params']) => {
+  const values: Record<string, unknown> = {}
+  const problems: string[] = []
+
+  endpoint.params?.forEach(param => {
+    const pathValue = pathParams[param.name]
+    const raw = param.in === 'path'
+      ? (typeof pathValue === 'string' ? pathValue : undefined)
+      : url.searchParams.get(param.name) ?? undefined
+
+    if (raw === undefined || raw === '') {
+      if (param.default !== undefined) {
+        values[param.name] = param.default
+      } else if (param.required) {
+        problems.push(`${param.name} is required`)
+      }
+      return
+    }
+
+    const value = coerceParam(param, raw)
+    if (value === undefined) {
+      problems.push(`${param.name} must be a ${param.type}`)
+      return
+    }
+    values[param.name] = value
+  })
+
+  return { values, problems }
+}
+
+const missingBodyFields = (endpoint: AnyEndpoint, body: unknown): string[] => {
+  const required = endpoint.requestBody?.required ?? []
+  if (!body || typeof body !== 'object') return required
+  return required.filter(field => (body as Record<string, unknown>)[field] === undefined)
+}
+
+export function createEndpointHandler(endpoint: AnyEndpoint, resolver?: AnyResolver) {
+  return HTTP_ROUTES[endpoint.method](`${config.apiBase}${endpoint.path}`, async ({ request, params }: HandlerInfo) => {
+    await delay(MOCK_LATENCY_MS)
+
+    const { values, problems } = readParams(endpoint, new URL(request.url), params)
+    if (problems.length > 0) {
+      return errorResponse(400, 'INVALID_REQUEST', problems.join(', '))
+    }
+
+    let body: unknown
+    if (endpoint.requestBody) {
+      body = await request.json().catch(() => undefined)
+      const missing = missingBodyFields(endpoint, body)
+      if (missing.length > 0) {
+        return errorResponse(400, 'INVALID_REQUEST', `${missing.join(', ')} required in the request body`)
+      }
+    }
+
+    const result = resolver
+      ? await resolver({ params: values, body, request })
+      : endpoint.example.response
+
+    if (result instanceof MockEndpointError) {
+      return errorResponse(result.status, result.code, result.message)
+    }
+
+    return HttpResponse.json(result ?? null, { status: endpoint.successStatus ?? 200 })
+  })
+}
+
+export function createEndpointHandlers(resolvers: EndpointResolvers) {
+  return (Object.keys(endpoints) as EndpointId[]).map(id =>
+    createEndpointHandler(endpoints[id], resolvers[id] as AnyResolver | undefined)
+  )
+}
+
+export const endpointHandlers = createEndpointHandlers({
+  getNothing: () => null,
+
+  listProducts: () => mockProducts,
+
+  getProduct: ({ params }) =>
+    mockProducts.find(product => product.id === params.productId) ??
+    new MockEndpointError(404, 'PRODUCT_NOT_FOUND', `There is no nothing called ${params.productId}`),
+
+  listTestimonials: ({ params }) => paginate(mockTestimonials, params.page ?? 1, params.limit ?? 10),
+
+  listPricing: () => mockPricing,
+
+  listCaseStudies: ({ params }) => mockCaseStudies.slice(0, params.limit ?? 6),
+
+  getRoadmap: () => mockRoadmap,
+
+  getStatus: () => mockStatus,
+
+  subscribeNewsletter: ({ body }) =>
+    EMAIL_PATTERN.test(body.email)
+      ? { success: true }
+      : new MockEndpointError(422, 'INVALID_EMAIL', 'Even nothing needs a valid email address')
+})
+
+export default endpointHandlers
@@ -0,0 +1,56 @@
+// filepath: src/mocks/handlers/errors.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component (errorHandlers)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for mock handlers)
+
+import { delay, http, HttpResponse } from 'msw'
+import { config } from '@/app/config'
+
+/* src/mocks/handlers/errors.ts
+
+   MSW receiver for the error reporter. Accepts batches of reports, ignores report ids it has
+   already seen (undelivered reports are resent) and counts occurrences per fingerprint, which
+   it returns so the dev console can be checked against what the "server" received.
+
+   Usage:
+     import { errorHandlers } from '@/mocks/handlers/errors'
+*/
+
+interface ErrorReportBatchBody {
+  reports?: Array<{ id?: string; fingerprint?: string }>
+}
+
+const seenIds = new Set<string>()
+const occurrences = new Map<string, number>()
+
+// An empty endpoint switches sending off; the receiver still mounts at the default path
+const endpoint = config.errorReportEndpoint || `${config.apiBase}/errors`
+
+export const errorHandlers = [
+  http.post(endpoint, async ({ request }) => {
+    const body = (await request.json().catch(() => null)) as ErrorReportBatchBody | null
+    await delay(100)
+
+    if (!body || !Array.isArray(body.reports)) {
+      return HttpResponse.json({ error: { code: 'INVALID_REPORTS', message: 'Body must be { reports: [...] }' } }, { status: 400 })
+    }
+
+    let accepted = 0
+    body.reports.forEach(report => {
+      if (report.id && seenIds.has(report.id)) return
+      if (report.id) seenIds.add(report.id)
+      if (report.fingerprint) occurrences.set(report.fingerprint, (occurrences.get(report.fingerprint) ?? 0) + 1)
+      accepted++
+    })
+
+    return HttpResponse.json({
+      accepted,
+      duplicates: body.reports.length - accepted,
+      groups: Object.fromEntries(occurrences)
+    })
+  })
+]
+
+export default errorHandlers
@@ -0,0 +1,24 @@
+// filepath: src/mocks/handlers/index.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component (handlers)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for mock handlers)
+
+import { analyticsHandlers } from '@/mocks/handlers/analytics'
+import { checkoutHandlers } from '@/mocks/handlers/checkout'
+import { endpointHandlers } from '@/mocks/handlers/endpoints'
+import { errorHandlers } from '@/mocks/handlers/errors'
+
+/* src/mocks/handlers/index.ts
+
+   All MSW request handlers mounted by the dev mock server. The Nothing endpoints are
+   generated from the registry in `@/core/endpoints`.
+
+   Usage:
+     import { handlers } from '@/mocks/handlers'
+*/
+
+export const handlers = [...analyticsHandlers, ...checkoutHandlers, ...endpointHandlers, ...errorHandlers]
+
+export default handlers
@@ -0,0 +1,341 @@
+// filepath: src/mocks/socketServer.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (MockSocketServer)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for mock server)
+
+import {
+  WSIncomingEvent,
+  WSIncomingFrame,
+  WSMessageFrame,
+  WSOutgoingEvent,
+  WSOutgoingFrame,
+  WS_PROTOCOL_VERSION
+} from '@/core/contracts'
+
+/* src/mocks/socketServer.ts
+
+   In-process stand-in for the realtime server, speaking the same framed protocol as
+   WebSocketManager: sessions with resume, cumulative acks, replay of unacked server
+   messages and dedupe of redelivered client messages. No network is involved, so tests
+   can drop connections, take the server offline or withhold acks at will.
+
+   Usage:
+     import { MockSocketServer } from '@/mocks/socketServer'
+     const server = new MockSocketServer()
+     const manager = new WebSocketManager({ createSocket: server.createSocket, enableHeartbeat: false })
+     await manager.connect()
+     server.push({ type: 'chat:message', payload: { ... } })
+     server.dropConnections() // unclean close; the manager reconnects and resumes
+*/
+
+export interface MockSocketServerOptions {
+  latency?: number // Delay in ms for every frame and connection in either direction
+  echoChat?: boolean // Answer `chat:send` with a `chat:message`
+}
+
+interface MockSession {
+  id: string
+  clientId: string
+  receivedSeq: number // Highest contiguous client seq accepted
+  outgoingSeq: number
+  // Server messages the client has not acked yet, replayed on resume
+  unacked: WSMessageFrame<WSIncomingEvent>[]
+  socket?: MockSocket
+}
+
+// The parts of open/message/error/close events WebSocketManager reads
+interface MockSocketEvent {
+  type?: string
+  data?: string
+  code?: number
+  reason?: string
+  wasClean?: boolean
+}
+
+type Listener = (event: MockSocketEvent) => void
+
+const CONNECTING = 0
+const OPEN = 1
+const CLOSED = 3
+
+// Just enough of the browser WebSocket for WebSocketManager
+export class MockSocket {
+  readyState = CONNECTING
+  onopen: Listener | null = null
+  onmessage: Listener | null = null
+  onclose: Listener | null = null
+  onerror: Listener | null = null
+  private listeners = new Map<string, Set<Listener>>()
+
+  constructor(private server: MockSocketServer, readonly url: string) {
+    server.open(this)
+  }
+
+  addEventListener(type: string, listener: Listener): void {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set())
+    this.listeners.get(type)!.add(listener)
+  }
+
+  removeEventListener(type: string, listener: Listener): void {
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  send(data: string): void {
+    if (this.readyState !== OPEN) {
+      throw new Error('MockSocket is not open')
+    }
+    this.server.receive(this, data)
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === CLOSED) return
+    this.server.detach(this)
+    this.finish(code, reason, true)
+  }
+
+  // Called by the server
+  dispatch(type: 'open' | 'message' | 'error' | 'close', event: MockSocketEvent): void {
+    if (type === 'open') this.readyState = OPEN
+    if (type === 'close') this.readyState = CLOSED
+
+    const handler = this[`on${type}` as const]
+    handler?.(event)
+    this.listeners.get(type)?.forEach(listener => listener(event))
+  }
+
+  finish(code: number, reason: string, wasClean: boolean): void {
+    this.readyState = CLOSED
+    this.dispatch('close', { code, reason, wasClean })
+  }
+}
+
+export class MockSocketServer {
+  // Client messages accepted, once each, in the order they were accepted
+  readonly received: WSMessageFrame<WSOutgoingEvent>[] = []
+  // Redelivered client messages that were recognised and skipped
+  duplicates = 0
+  // While true no acks are sent, so the client keeps messages queued for redelivery
+  withholdAcks = false
+
+  private options: Required<MockSocketServerOptions>
+  private sessions = new Map<string, MockSession>()
+  private sockets = new Map<MockSocket, MockSession | null>()
+  private online = true
+  private sessionCounter = 0
+
+  constructor(options: MockSocketServerOptions = {}) {
+    this.options = {
+      latency: options.latency ?? 0,
+      echoChat: options.echoChat ?? true
+    }
+  }
+
+  // Pass as `createSocket` to WebSocketManager
+  createSocket = (url: string): WebSocket => new MockSocket(this, url) as unknown as WebSocket
+
+  /**
+   * Send a server message to every session; sessions without a connection get it on resume
+   */
+  push(event: WSIncomingEvent): void {
+    this.sessions.forEach(session => this.pushTo(session, event))
+  }
+
+  /**
+   * Close every connection uncleanly, as a network failure would; sessions are kept
+   */
+  dropConnections(code = 1006): void {
+    Array.from(this.sockets.keys()).forEach(socket => {
+      this.detach(socket)
+      this.later(() => socket.finish(code, 'Connection lost', false))
+    })
+  }
+
+  /**
+   * Refuse new connections while offline; going offline also drops current ones
+   */
+  setOnline(online: boolean): void {
+    this.online = online
+    if (!online) this.dropConnections()
+  }
+
+  /**
+   * Forget all sessions, as after a server restart; clients then start fresh sessions
+   */
+  reset(): void {
+    this.dropConnections()
+    this.sessions.clear()
+    this.received.length = 0
+    this.duplicates = 0
+  }
+
+  getSessions(): Array<Pick<MockSession, 'id' | 'clientId' | 'receivedSeq' | 'outgoingSeq'> & { unacked: number; connected: boolean }> {
+    return Array.from(this.sessions.values()).map(session => ({
+      id: session.id,
+      clientId: session.clientId,
+      receivedSeq: session.receivedSeq,
+      outgoingSeq: session.outgoingSeq,
+      unacked: session.unacked.length,
+      connected: !!session.socket
+    }))
+  }
+
+  // Socket lifecycle, called by MockSocket
+  open(socket: MockSocket): void {
+    this.later(() => {
+      if (!this.online) {
+        socket.dispatch('error', { type: 'error' })
+        socket.finish(1006, 'Server unavailable', false)
+        return
+      }
+      this.sockets.set(socket, null)
+      socket.dispatch('open', { type: 'open' })
+    })
+  }
+
+  detach(socket: MockSocket): void {
+    const session = this.sockets.get(socket)
+    if (session && session.socket === socket) session.socket = undefined
+    this.sockets.delete(socket)
+  }
+
+  receive(socket: MockSocket, data: string): void {
+    this.later(() => {
+      if (!this.sockets.has(socket)) return
+
+      let frame: WSOutgoingFrame
+      try {
+        frame = JSON.parse(data)
+      } catch {
+        this.send(socket, { v: WS_PROTOCOL_VERSION, kind: 'error', code: 'BAD_FRAME', message: 'Frame is not JSON' })
+        return
+      }
+      this.handleFrame(socket, frame)
+    })
+  }
+
+  private handleFrame(socket: MockSocket, frame: WSOutgoingFrame): void {
+    if (frame.v !== WS_PROTOCOL_VERSION) {
+      this.send(socket, {
+        v: WS_PROTOCOL_VERSION,
+        kind: 'error',
+        code: 'UNSUPPORTED_VERSION',
+        message: `Protocol version ${frame.v} is not supported`
+      })
+      return
+    }
+
+    if (frame.kind === 'hello') {
+      this.handleHello(socket, frame)
+      return
+    }
+
+    const session = this.sockets.get(socket)
+    if (!session) {
+      this.send(socket, { v: WS_PROTOCOL_VERSION, kind: 'error', code: 'NO_SESSION', message: 'Send hello first' })
+      return
+    }
+
+    switch (frame.kind) {
+      case 'ack':
+        session.unacked = session.unacked.filter(message => message.seq > frame.seq)
+        break
+      case 'ping':
+        this.send(socket, { v: WS_PROTOCOL_VERSION, kind: 'pong', ts: frame.ts })
+        break
+      case 'message':
+        this.handleMessage(session, frame)
+        break
+    }
+  }
+
+  private handleHello(socket: MockSocket, frame: Extract<WSOutgoingFrame, { kind: 'hello' }>): void {
+    const existing = frame.sessionId ? this.sessions.get(frame.sessionId) : undefined
+    const session: MockSession = existing ?? {
+      id: `session_${++this.sessionCounter}`,
+      clientId: frame.clientId,
+      receivedSeq: 0,
+      outgoingSeq: 0,
+      unacked: []
+    }
+    this.sessions.set(session.id, session)
+
+    // A second hello on the same socket is a replay request, not a new connection
+    if (session.socket && session.socket !== socket) {
+      this.detach(session.socket)
+    }
+    session.socket = socket
+    this.sockets.set(socket, session)
+
+    this.send(socket, {
+      v: WS_PROTOCOL_VERSION,
+      kind: 'welcome',
+      sessionId: session.id,
+      ackedSeq: session.receivedSeq,
+      resumed: !!existing
+    })
+
+    session.unacked
+      .filter(message => message.seq > frame.resumeFrom)
+      .forEach(message => this.send(socket, message))
+  }
+
+  private handleMessage(session: MockSession, frame: WSMessageFrame<WSOutgoingEvent>): void {
+    if (frame.seq <= session.receivedSeq) {
+      this.duplicates++
+      this.ack(session)
+      return
+    }
+    // Out of order; the client sends it again after the next handshake
+    if (frame.seq !== session.receivedSeq + 1) return
+
+    session.receivedSeq = frame.seq
+    this.received.push(frame)
+    this.ack(session)
+
+    if (this.options.echoChat && frame.type === 'chat:send') {
+      this.pushTo(session, {
+        type: 'chat:message',
+        payload: {
+          messageId: frame.payload.tempId ?? frame.id,
+          from: 'void-agent',
+          text: `Echo: ${frame.payload.text}`,
+          createdAt: new Date().toISOString()
+        }
+      })
+    }
+  }
+
+  private ack(session: MockSession): void {
+    if (this.withholdAcks || !session.socket) return
+    this.send(session.socket, { v: WS_PROTOCOL_VERSION, kind: 'ack', seq: session.receivedSeq })
+  }
+
+  private pushTo(session: MockSession, event: WSIncomingEvent): void {
+    const frame = {
+      ...event,
+      v: WS_PROTOCOL_VERSION,
+      kind: 'message',
+      id: `srv_${session.id}_${session.outgoingSeq + 1}`,
+      seq: ++session.outgoingSeq,
+      sentAt: Date.now()
+    } as WSMessageFrame<WSIncomingEvent>
+
+    session.unacked.push(frame)
+    if (session.socket) this.send(session.socket, frame)
+  }
+
+  private send(socket: MockSocket, frame: WSIncomingFrame): void {
+    const data = JSON.stringify(frame)
+    this.later(() => {
+      if (socket.readyState === OPEN) socket.dispatch('message', { data })
+    })
+  }
+
+  private later(callback: () => void): void {
+    setTimeout(callback, this.options.latency)
+  }
+}
+
+export default MockSocketServer
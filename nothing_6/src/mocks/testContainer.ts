@@ -0,0 +1,278 @@
+// filepath: src/mocks/testContainer.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (createTestContainer)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for test helpers)
+
+import { ApiResult, WSOutgoingEvent } from '@/core/contracts'
+import { BuiltInServices, DIContainer, Token, builtInTokens } from '@/core/di'
+import type { ApiClientInterface } from '@/services/apiClient'
+import type { StorageOptions } from '@/services/storage'
+import type { MessageHandler, SocketState } from '@/services/websocket'
+
+/* src/mocks/testContainer.ts
+
+   A DI container with every built-in token bound to an in-memory fake: no network, no
+   localStorage, no sockets. Each fake records what it was asked to do so tests can assert on
+   it, and can be primed (canned API responses, stored values, incoming socket messages).
+
+   Pass `parent` to start from an existing container and override only the built-ins, e.g. a
+   scope of the app container that keeps feature registrations.
+
+   Usage:
+     import { createTestContainer } from '@/mocks/testContainer'
+     const { container, fakes, dispose } = createTestContainer()
+     fakes.ApiClient.respond('GET', '/user', { ok: true, data: { id: 'u1' } })
+     render(<DIProvider container={container}><Profile /></DIProvider>)
+     expect(fakes.AnalyticsService.events).toContainEqual(expect.objectContaining({ name: 'profile_viewed' }))
+     dispose()
+*/
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH'
+
+export interface FakeRequest {
+  method: HttpMethod
+  path: string
+  body?: unknown
+}
+
+type FakeResponse = ApiResult<unknown> | ((request: FakeRequest) => ApiResult<unknown>)
+
+// Answers from canned responses keyed by method and path; anything else is a NOT_FOUND error
+export class FakeApiClient implements ApiClientInterface {
+  readonly requests: FakeRequest[] = []
+  private readonly responses = new Map<string, FakeResponse>()
+
+  respond(method: HttpMethod, path: string, response: FakeResponse): this {
+    this.responses.set(`${method} ${path}`, response)
+    return this
+  }
+
+  private async handle<T>(method: HttpMethod, path: string, body?: unknown): Promise<ApiResult<T>> {
+    const request: FakeRequest = { method, path, body }
+    this.requests.push(request)
+
+    const response = this.responses.get(`${method} ${path}`)
+    if (!response) {
+      return { ok: false, error: { code: 'NOT_FOUND', message: `No fake response for ${method} ${path}` } }
+    }
+    return (typeof response === 'function' ? response(request) : response) as ApiResult<T>
+  }
+
+  get<T = unknown>(path: string): Promise<ApiResult<T>> {
+    return this.handle<T>('GET', path)
+  }
+
+  post<T = unknown>(path: string, body?: unknown): Promise<ApiResult<T>> {
+    return this.handle<T>('POST', path, body)
+  }
+
+  put<T = unknown>(path: string, body?: unknown): Promise<ApiResult<T>> {
+    return this.handle<T>('PUT', path, body)
+  }
+
+  del<T = unknown>(path: string): Promise<ApiResult<T>> {
+    return this.handle<T>('DELETE', path)
+  }
+
+  patch<T = unknown>(path: string, body?: unknown): Promise<ApiResult<T>> {
+    return this.handle<T>('PATCH', path, body)
+  }
+}
+
+// Map-backed storage with the same namespace and TTL semantics as StorageService
+export class FakeStorage {
+  private readonly entries = new Map<string, { value: unknown; expiresAt?: number }>()
+
+  private fullKey(key: string, namespace?: string): string {
+    return namespace ? `${namespace}:${key}` : key
+  }
+
+  get<T = unknown>(key: string, fallback: T | null = null, options?: StorageOptions): T | null {
+    const fullKey = this.fullKey(key, options?.namespace)
+    const entry = this.entries.get(fullKey)
+    if (!entry) return fallback
+    if (entry.expiresAt && Date.now() > entry.expiresAt) {
+      this.entries.delete(fullKey)
+      return fallback
+    }
+    return (entry.value as T) ?? fallback
+  }
+
+  set<T = unknown>(key: string, value: T, options?: StorageOptions): void {
+    this.entries.set(this.fullKey(key, options?.namespace), {
+      value,
+      expiresAt: options?.ttl ? Date.now() + options.ttl * 1000 : undefined
+    })
+  }
+
+  remove(key: string, options?: Pick<StorageOptions, 'namespace'>): void {
+    this.entries.delete(this.fullKey(key, options?.namespace))
+  }
+
+  clear(namespace?: string): void {
+    if (!namespace) {
+      this.entries.clear()
+      return
+    }
+    this.keys(namespace).forEach(key => this.entries.delete(key))
+  }
+
+  keys(namespace?: string): string[] {
+    const keys = Array.from(this.entries.keys())
+    return namespace ? keys.filter(key => key.startsWith(`${namespace}:`)) : keys
+  }
+
+  isAvailable(): boolean {
+    return true
+  }
+}
+
+// Records outgoing messages; `receive` delivers an incoming one to subscribers
+export class FakeSocket {
+  readonly sent: WSOutgoingEvent[] = []
+  private state: SocketState = 'disconnected'
+  private readonly subscribers = new Map<string, Set<MessageHandler>>()
+
+  async connect(): Promise<void> {
+    this.state = 'connected'
+  }
+
+  send(message: WSOutgoingEvent): string {
+    this.sent.push(message)
+    return `fake-${this.sent.length}`
+  }
+
+  subscribe<T = unknown>(messageType: string, handler: MessageHandler<T>): () => void {
+    const handlers = this.subscribers.get(messageType) ?? new Set<MessageHandler>()
+    handlers.add(handler)
+    this.subscribers.set(messageType, handlers)
+    return () => {
+      handlers.delete(handler)
+    }
+  }
+
+  receive(messageType: string, payload: unknown): void {
+    this.subscribers.get(messageType)?.forEach(handler => handler(payload))
+  }
+
+  getState(): SocketState {
+    return this.state
+  }
+
+  isConnected(): boolean {
+    return this.state === 'connected'
+  }
+
+  disconnect(): void {
+    this.state = 'disconnected'
+  }
+}
+
+export interface FakeAnalyticsEvent {
+  type: 'track' | 'page' | 'identify'
+  name?: string
+  properties: Record<string, unknown>
+}
+
+export class FakeAnalytics {
+  readonly events: FakeAnalyticsEvent[] = []
+  anonymousId?: string
+
+  track(event: string, properties: Record<string, unknown> = {}): void {
+    this.events.push({ type: 'track', name: event, properties })
+  }
+
+  page(name?: string, properties: Record<string, unknown> = {}): void {
+    this.events.push({ type: 'page', name, properties })
+  }
+
+  identify(userId: string, traits: Record<string, unknown> = {}): void {
+    this.events.push({ type: 'identify', name: userId, properties: traits })
+  }
+
+  setAnonymousId(anonymousId: string): void {
+    this.anonymousId = anonymousId
+  }
+}
+
+// Any password works; `failNextLogin` makes the next login reject
+export class FakeAuthService {
+  user: { id: string; email: string } | null = null
+  failNextLogin = false
+
+  async login(email: string, _password: string) {
+    if (this.failNextLogin) {
+      this.failNextLogin = false
+      throw new Error('Invalid credentials')
+    }
+    this.user = { id: `user-${email}`, email }
+    return this.user
+  }
+
+  async logout(): Promise<void> {
+    this.user = null
+  }
+
+  async currentUser() {
+    return this.user
+  }
+}
+
+export class FakeNotifications {
+  readonly messages: Array<{ level: 'success' | 'error' | 'warning' | 'info'; message: string }> = []
+
+  success(message: string): void {
+    this.messages.push({ level: 'success', message })
+  }
+
+  error(message: string): void {
+    this.messages.push({ level: 'error', message })
+  }
+
+  warning(message: string): void {
+    this.messages.push({ level: 'warning', message })
+  }
+
+  info(message: string): void {
+    this.messages.push({ level: 'info', message })
+  }
+}
+
+// One fake per built-in token; a token added to builtInTokens without a fake fails to compile
+export interface TestServices extends BuiltInServices {
+  ApiClient: FakeApiClient
+  AuthService: FakeAuthService
+  StorageService: FakeStorage
+  WebSocketService: FakeSocket
+  AnalyticsService: FakeAnalytics
+  NotificationService: FakeNotifications
+}
+
+export interface TestContainer {
+  container: DIContainer
+  fakes: TestServices
+  dispose: () => void
+}
+
+export function createTestContainer(options: { parent?: DIContainer } = {}): TestContainer {
+  const container = options.parent ? options.parent.createScope() : new DIContainer()
+  const fakes: TestServices = {
+    ApiClient: new FakeApiClient(),
+    AuthService: new FakeAuthService(),
+    StorageService: new FakeStorage(),
+    WebSocketService: new FakeSocket(),
+    AnalyticsService: new FakeAnalytics(),
+    NotificationService: new FakeNotifications()
+  }
+
+  const bind = <K extends keyof BuiltInServices>(name: K) => {
+    container.register(builtInTokens[name] as Token<BuiltInServices[K]>, fakes[name])
+  }
+  (Object.keys(builtInTokens) as Array<keyof BuiltInServices>).forEach(bind)
+
+  return { container, fakes, dispose: () => container.dispose() }
+}
+
+export default createTestContainer
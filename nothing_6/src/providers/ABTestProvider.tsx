@@ -5,10 +5,20 @@
 // [x] Exports default named component
 // [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for provider)
 
-import React, { createContext, useContext, useCallback, useEffect, useState } from 'react'
+import React, { createContext, useContext, useCallback, useEffect, useRef, useState } from 'react'
 import { config, isDevelopment } from '@/app/config'
 import { eventBus } from '@/core/events'
-import { di, AnalyticsServiceToken } from '@/core/di'
+import { AnalyticsServiceToken, BuiltInServices } from '@/core/di'
+import { User } from '@/core/contracts'
+import {
+  ABTestTargeting,
+  buildTargetingContext,
+  evaluateTargeting,
+  TargetingContext
+} from '@/features/abtest/targeting'
+import { useConsent } from '@/providers/ConsentProvider'
+import { useService } from '@/providers/DIProvider'
+import { storage } from '@/services/storage'
 
 export interface ABTestVariant {
   id: string
@@ -17,17 +27,21 @@ export interface ABTestVariant {
   config?: Record<string, any>
 }
 
+export interface ABTestGoal {
+  id: string
+  name: string
+  event: string // Analytics event that counts as a conversion
+  properties?: Record<string, unknown> // Event properties that must all match
+}
+
 export interface ABTestExperiment {
   id: string
   name: string
-  variants: ABTestVariant[]
+  variants: ABTestVariant[] // The first variant is the control
+  goals?: ABTestGoal[]
   enabled: boolean
   traffic: number // 0-1, percentage of users to include
-  targeting?: {
-    userTypes?: string[]
-    features?: string[]
-    customRules?: Record<string, any>
-  }
+  targeting?: ABTestTargeting
 }
 
 export interface ABTestContext {
@@ -35,6 +49,8 @@ export interface ABTestContext {
   getAllVariants: () => Record<string, string>
   isInExperiment: (experimentId: string) => boolean
   trackExposure: (experimentId: string, variant?: string) => void
+  isForced: (experimentId: string) => boolean
+  overrides: Record<string, string>
   experiments: ABTestExperiment[]
   userId?: string
 }
@@ -44,9 +60,37 @@ const ABTestContext = createContext<ABTestContext | null>(null)
 interface ABTestProviderProps {
   children: React.ReactNode
   userId?: string
+  user?: User | null
+  attributes?: Record<string, unknown> // Extra facts for custom targeting rules
   experiments?: ABTestExperiment[]
 }
 
+// A visitor keeps the variant they were first given, even if weights change later
+interface StickyAssignment {
+  variant: string
+  assignedAt: number
+}
+
+const CHECKOUT_STARTED_GOAL: ABTestGoal = {
+  id: 'checkout-started',
+  name: 'Started checkout',
+  event: 'checkout_session_created'
+}
+
+const PURCHASE_GOAL: ABTestGoal = {
+  id: 'purchase',
+  name: 'Completed purchase',
+  event: 'checkout_payment_succeeded'
+}
+
+// QA can force variants with ?ab_force=experiment:variant[,experiment:variant]; ?ab_force=clear removes them
+const OVERRIDE_PARAM = 'ab_force'
+const OVERRIDE_STORAGE_KEY = 'overrides'
+const OVERRIDE_TTL_SECONDS = 24 * 60 * 60
+
+const VISITOR_ID_STORAGE_KEY = 'visitor-id'
+const ASSIGNMENTS_STORAGE_KEY = 'assignments'
+
 // Default experiments for the "Nothing" app
 const DEFAULT_EXPERIMENTS: ABTestExperiment[] = [
   {
@@ -58,7 +102,8 @@ const DEFAULT_EXPERIMENTS: ABTestExperiment[] = [
       { id: 'parallax', name: 'Parallax Void', weight: 0.4 },
       { id: 'matrix', name: 'Matrix Rain', weight: 0.3 },
       { id: 'glitch', name: 'Glitch Text', weight: 0.3 }
-    ]
+    ],
+    goals: [CHECKOUT_STARTED_GOAL]
   },
   {
     id: 'pricing-display',
@@ -68,7 +113,8 @@ const DEFAULT_EXPERIMENTS: ABTestExperiment[] = [
     variants: [
       { id: 'traditional', name: 'Traditional Grid', weight: 0.5 },
       { id: 'comparison', name: 'Comparison Table', weight: 0.5 }
-    ]
+    ],
+    goals: [CHECKOUT_STARTED_GOAL, PURCHASE_GOAL]
   },
   {
     id: 'testimonial-style',
@@ -78,7 +124,8 @@ const DEFAULT_EXPERIMENTS: ABTestExperiment[] = [
     variants: [
       { id: 'cards', name: 'Card Layout', weight: 0.6 },
       { id: 'bubbles', name: 'Speech Bubbles', weight: 0.4 }
-    ]
+    ],
+    goals: [CHECKOUT_STARTED_GOAL]
   },
   {
     id: 'cta-urgency',
@@ -89,7 +136,8 @@ const DEFAULT_EXPERIMENTS: ABTestExperiment[] = [
       { id: 'low', name: 'Subtle CTA', weight: 0.4 },
       { id: 'medium', name: 'Standard CTA', weight: 0.4 },
       { id: 'high', name: 'Urgent CTA', weight: 0.2 }
-    ]
+    ],
+    goals: [CHECKOUT_STARTED_GOAL, PURCHASE_GOAL]
   }
 ]
 
@@ -108,17 +156,15 @@ function hashUserId(userId: string, experimentId: string): number {
 function selectVariant(experiment: ABTestExperiment, userId: string): string | null {
   if (!experiment.enabled || !userId) return null
   
-  const userHash = hashUserId(userId, experiment.id)
-  
-  // Check if user is in traffic sample
-  if (userHash > experiment.traffic) return null
+  // Check if user is in traffic sample; hashed separately so the sample is not biased towards early variants
+  if (hashUserId(userId, `${experiment.id}:traffic`) > experiment.traffic) return null
   
   // Select variant based on weights
   const variants = experiment.variants.filter(v => v.weight > 0)
   if (variants.length === 0) return null
   
   const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0)
-  const normalizedHash = (userHash * totalWeight) % totalWeight
+  const normalizedHash = hashUserId(userId, experiment.id) * totalWeight
   
   let currentWeight = 0
   for (const variant of variants) {
@@ -131,33 +177,162 @@ function selectVariant(experiment: ABTestExperiment, userId: string): string | n
   return variants[0]?.id || null
 }
 
-export function ABTestProvider({ children, userId, experiments = DEFAULT_EXPERIMENTS }: ABTestProviderProps) {
+// Read forced variants from the URL, falling back to the ones saved from an earlier visit
+function loadOverrides(experiments: ABTestExperiment[]): Record<string, string> {
+  const param = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get(OVERRIDE_PARAM)
+    : null
+
+  if (param === null) {
+    return storage.get<Record<string, string>>(OVERRIDE_STORAGE_KEY, {}, { namespace: 'abtest' }) || {}
+  }
+
+  if (param === 'clear' || param === '') {
+    storage.remove(OVERRIDE_STORAGE_KEY, { namespace: 'abtest' })
+    return {}
+  }
+
+  const overrides: Record<string, string> = {}
+  param.split(',').forEach(pair => {
+    const [experimentId, variantId] = pair.split(':').map(part => part.trim())
+    const experiment = experiments.find(e => e.id === experimentId)
+    if (experiment?.variants.some(v => v.id === variantId)) {
+      overrides[experimentId] = variantId
+    } else if (isDevelopment) {
+      console.warn(`[ABTest] Ignoring unknown override: ${pair}`)
+    }
+  })
+
+  storage.set(OVERRIDE_STORAGE_KEY, overrides, { namespace: 'abtest', ttl: OVERRIDE_TTL_SECONDS })
+  return overrides
+}
+
+// Anonymous visitors get a random id on first visit that buckets them from then on
+function getVisitorId(): string {
+  const stored = storage.get<string>(VISITOR_ID_STORAGE_KEY, null, { namespace: 'abtest' })
+  if (stored) return stored
+
+  const generated = `anon-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+  storage.set(VISITOR_ID_STORAGE_KEY, generated, { namespace: 'abtest' })
+  return generated
+}
+
+/**
+ * Variants for every experiment the visitor is eligible for
+ * Overrides win, then earlier (sticky) assignments, then fresh hashing, which is saved for next time
+ */
+function assignVariants(
+  experiments: ABTestExperiment[],
+  context: TargetingContext,
+  bucketingId: string,
+  overrides: Record<string, string>
+): Record<string, string> {
+  const assignments = storage.get<Record<string, StickyAssignment>>(ASSIGNMENTS_STORAGE_KEY, {}, { namespace: 'abtest' }) || {}
+  const variants: Record<string, string> = {}
+  let changed = false
+
+  experiments.forEach(experiment => {
+    if (overrides[experiment.id]) {
+      variants[experiment.id] = overrides[experiment.id]
+      return
+    }
+    if (!experiment.enabled) return
+
+    const targeting = evaluateTargeting(experiment.targeting, context)
+    if (!targeting.eligible) {
+      if (isDevelopment) {
+        console.log(`[ABTest] ${experiment.id}: not eligible (${targeting.failedRule})`)
+      }
+      return
+    }
+
+    const sticky = assignments[experiment.id]
+    if (sticky && experiment.variants.some(v => v.id === sticky.variant)) {
+      variants[experiment.id] = sticky.variant
+      return
+    }
+
+    const variant = selectVariant(experiment, bucketingId)
+    if (variant) {
+      variants[experiment.id] = variant
+      assignments[experiment.id] = { variant, assignedAt: Date.now() }
+      changed = true
+    }
+  })
+
+  if (changed) {
+    storage.set(ASSIGNMENTS_STORAGE_KEY, assignments, { namespace: 'abtest' })
+  }
+  return variants
+}
+
+interface PendingExposure {
+  experimentId: string
+  variant: string
+  userId: string
+  forced: boolean
+}
+
+type ExposureAnalytics = Pick<BuiltInServices['AnalyticsService'], 'track'>
+
+function recordExposure(analytics: ExposureAnalytics, { experimentId, variant, userId, forced }: PendingExposure) {
+  // Track through analytics service
+  // Forced exposures are flagged so they stay out of experiment results
+  try {
+    analytics.track('ab_test_exposure', {
+      experiment_id: experimentId,
+      variant,
+      user_id: userId,
+      ...(forced && { forced: true })
+    })
+  } catch (error) {
+    // Analytics service might not be registered in dev
+    if (isDevelopment) {
+      console.log(`[ABTest] Exposure: ${experimentId} -> ${variant}`)
+    }
+  }
+
+  // Emit event for other systems
+  eventBus.emit('abtest:exposure', {
+    experimentId,
+    variant,
+    userId,
+    timestamp: Date.now()
+  })
+}
+
+export function ABTestProvider({
+  children,
+  userId,
+  user,
+  attributes,
+  experiments = DEFAULT_EXPERIMENTS
+}: ABTestProviderProps) {
   const [variantCache, setVariantCache] = useState<Record<string, string>>({})
   const [exposureTracked, setExposureTracked] = useState<Set<string>>(new Set())
+  // Exposures seen before the visitor decided on experiments consent
+  const pendingExposures = useRef<PendingExposure[]>([])
+  const { getStatus } = useConsent()
+  // From the surrounding DIProvider, so a test container's fake sees exposures too
+  const analytics = useService(AnalyticsServiceToken)
+  const experimentsConsent = getStatus('experiments')
   
-  // Generate consistent user ID if not provided
-  const effectiveUserId = userId || React.useMemo(() => {
-    // Use a combination of timestamp and random for anonymous users
-    const stored = localStorage.getItem('ab-test-user-id')
-    if (stored) return stored
-    
-    const generated = `anon-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-    localStorage.setItem('ab-test-user-id', generated)
-    return generated
-  }, [])
+  const visitorId = React.useMemo(() => getVisitorId(), [])
+
+  // Signed-in users are bucketed by account; sticky assignments keep their earlier variants
+  const effectiveUserId = userId || user?.id || visitorId
+
+  const overrides = React.useMemo(() => loadOverrides(experiments), [experiments])
+
+  // Tag every analytics event with the visitor id so exposures can be joined with conversions
+  useEffect(() => {
+    analytics.setAnonymousId?.(visitorId)
+  }, [analytics, visitorId])
   
   // Initialize variants on mount or user change
   useEffect(() => {
-    if (!effectiveUserId) return
-    
-    const newVariants: Record<string, string> = {}
-    
-    experiments.forEach(experiment => {
-      const variant = selectVariant(experiment, effectiveUserId)
-      if (variant) {
-        newVariants[experiment.id] = variant
-      }
-    })
+    const context = buildTargetingContext({ visitorId, user, attributes })
+    const newVariants = assignVariants(experiments, context, effectiveUserId, overrides)
     
     setVariantCache(newVariants)
     
@@ -167,7 +342,18 @@ export function ABTestProvider({ children, userId, experiments = DEFAULT_EXPERIM
       variants: newVariants,
       experimentCount: experiments.length
     })
-  }, [effectiveUserId, experiments])
+  }, [effectiveUserId, visitorId, user, attributes, experiments, overrides])
+
+  // Held exposures are recorded once experiments are allowed and dropped if they are declined
+  useEffect(() => {
+    if (experimentsConsent === 'pending') return
+
+    const pending = pendingExposures.current
+    pendingExposures.current = []
+    if (experimentsConsent === 'granted') {
+      pending.forEach(exposure => recordExposure(analytics, exposure))
+    }
+  }, [analytics, experimentsConsent])
   
   const getVariant = useCallback((experimentId: string): string | null => {
     return variantCache[experimentId] || null
@@ -180,43 +366,40 @@ export function ABTestProvider({ children, userId, experiments = DEFAULT_EXPERIM
   const isInExperiment = useCallback((experimentId: string): boolean => {
     return experimentId in variantCache
   }, [variantCache])
+
+  const isForced = useCallback((experimentId: string): boolean => {
+    return experimentId in overrides
+  }, [overrides])
   
   const trackExposure = useCallback((experimentId: string, variant?: string) => {
-const actualVariant = variant || variantCache[experimentId]
+    const actualVariant = variant || variantCache[experimentId]
     if (!actualVariant || exposureTracked.has(experimentId)) return
-    
+    if (experimentsConsent === 'denied') return
+
     // Mark as tracked to avoid duplicate events
     setExposureTracked(prev => new Set([...prev, experimentId]))
-    
-    // Track through analytics service
-    try {
-      const analytics = di.resolve(AnalyticsServiceToken)
-      analytics.track('ab_test_exposure', {
-        experiment_id: experimentId,
-        variant: actualVariant,
-        user_id: effectiveUserId
-      })
-    } catch (error) {
-      // Analytics service might not be registered in dev
-      if (isDevelopment) {
-        console.log(`[ABTest] Exposure: ${experimentId} -> ${actualVariant}`)
-      }
-    }
-    
-    // Emit event for other systems
-    eventBus.emit('abtest:exposure', {
+
+    const exposure: PendingExposure = {
       experimentId,
       variant: actualVariant,
       userId: effectiveUserId,
-      timestamp: Date.now()
-    })
-  }, [variantCache, exposureTracked, effectiveUserId])
-  
+      forced: experimentId in overrides
+    }
+
+    if (experimentsConsent === 'pending') {
+      pendingExposures.current.push(exposure)
+      return
+    }
+    recordExposure(analytics, exposure)
+  }, [analytics, variantCache, exposureTracked, effectiveUserId, overrides, experimentsConsent])
+
   const contextValue: ABTestContext = {
     getVariant,
     getAllVariants,
     isInExperiment,
     trackExposure,
+    isForced,
+    overrides,
     experiments,
     userId: effectiveUserId
   }
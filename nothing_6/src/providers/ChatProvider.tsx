@@ -6,19 +6,18 @@
 // [x] Adds basic ARIA and keyboard handlers (where relevant)
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react'
+import { AnalyticsServiceToken } from '@/core/di'
 import { eventBus } from '@/core/events'
 import { config } from '@/app/config'
-import { WebSocketService } from '@/services/websocket'
+import { ChatConversation, ChatMessage, ChatMode, ChatQuickReply } from '@/core/contracts'
+import { BotFlow } from '@/features/chat/botFlow'
+import SUPPORT_FLOW from '@/features/chat/supportFlow'
+import { TranscriptFormat } from '@/features/chat/transcript'
+import { useService } from '@/providers/DIProvider'
+import { chatService } from '@/services/chat'
 
-// Chat message types
-export interface ChatMessage {
-  id: string
-  content: string
-  timestamp: Date
-  sender: 'user' | 'support' | 'system'
-  type: 'text' | 'typing' | 'status'
-  metadata?: Record<string, unknown>
-}
+// The chat model is shared with the socket protocol and transcripts
+export type { ChatMessage, ChatQuickReply, ChatMode } from '@/core/contracts'
 
 export interface ChatUser {
   id: string
@@ -33,26 +32,34 @@ export type ChatStatus = 'disconnected' | 'connecting' | 'connected' | 'error'
 // Chat context interface
 export interface ChatContextValue {
   // State
+  conversation: ChatConversation
   messages: ChatMessage[]
+  mode: ChatMode
+  queuePosition?: number
+  quickReplies: ChatQuickReply[] // Offered by the latest message, if any
   isConnected: boolean
   status: ChatStatus
   currentUser: ChatUser | null
-  typingUsers: ChatUser[]
+  isTyping: boolean
+  typingFrom?: string
   unreadCount: number
   isMinimized: boolean
-  
+
   // Actions
   sendMessage: (content: string) => Promise<void>
+  selectQuickReply: (reply: ChatQuickReply) => void
+  requestHuman: (reason?: string) => void
+  exportTranscript: (format: TranscriptFormat) => void
   connect: () => Promise<void>
   disconnect: () => void
   markAsRead: () => void
   toggleMinimized: () => void
   clearMessages: () => void
-  
+
   // Typing indicators
   startTyping: () => void
   stopTyping: () => void
-  
+
   // User management
   setCurrentUser: (user: ChatUser) => void
 }
@@ -64,363 +71,254 @@ export interface ChatProviderProps {
   autoConnect?: boolean
   maxMessages?: number
   typingTimeout?: number
+  flow?: BotFlow
 }
 
-export function ChatProvider({ 
-  children, 
-  autoConnect = false, 
+export function ChatProvider({
+  children,
+  autoConnect = false,
   maxMessages = 100,
-  typingTimeout = 3000 
+  typingTimeout = 3000,
+  flow = SUPPORT_FLOW
 }: ChatProviderProps) {
+  const analytics = useService(AnalyticsServiceToken)
+
   // Core state
-  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [conversation, setConversation] = useState<ChatConversation>(() => chatService.getConversation())
   const [status, setStatus] = useState<ChatStatus>('disconnected')
   const [currentUser, setCurrentUser] = useState<ChatUser | null>(null)
-  const [typingUsers, setTypingUsers] = useState<ChatUser[]>([])
+  const [typingFrom, setTypingFrom] = useState<string | undefined>()
   const [unreadCount, setUnreadCount] = useState(0)
   const [isMinimized, setIsMinimized] = useState(true)
-  
+
   // Refs for cleanup and state management
-  const wsServiceRef = useRef<WebSocketService | null>(null)
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null)
-  const messageIdCounterRef = useRef(0)
-  
+  const isMinimizedRef = useRef(isMinimized)
+  isMinimizedRef.current = isMinimized
+
   // Derived state
   const isConnected = status === 'connected'
-  
-  // Generate unique message ID
-  const generateMessageId = useCallback(() => {
-    messageIdCounterRef.current += 1
-    return `msg_${Date.now()}_${messageIdCounterRef.current}`
-  }, [])
-  
-  // Add message to chat
-  const addMessage = useCallback((message: Omit<ChatMessage, 'id'>) => {
-    const newMessage: ChatMessage = {
-      ...message,
-      id: generateMessageId(),
-    }
-    
-    setMessages(prev => {
-      const updated = [...prev, newMessage]
-      // Keep only last N messages for performance
-      return updated.length > maxMessages 
-        ? updated.slice(-maxMessages)
-        : updated
+  const messages = conversation.messages
+  const lastMessage = messages[messages.length - 1]
+  const quickReplies = conversation.mode === 'bot' && lastMessage?.from === 'bot' ? lastMessage.quickReplies ?? [] : []
+
+  // Analytics queues chat events until consent is given and drops them if it is declined
+  const track = useCallback((name: string, properties: Record<string, unknown>) => {
+    analytics.track(name, properties)
+  }, [analytics])
+
+  // Bus listeners are registered once and read the latest tracker from here
+  const trackRef = useRef(track)
+  trackRef.current = track
+
+  useEffect(() => {
+    chatService.configure({ flow, maxMessages })
+  }, [flow, maxMessages])
+
+  // Follow the conversation, its typing indicators and new messages
+  useEffect(() => {
+    const unsubscribeConversation = chatService.subscribe(setConversation)
+
+    const unsubscribeTyping = eventBus.on('chat:typing', ({ from, isTyping }) => {
+      if (from === 'user') return
+      setTypingFrom(isTyping ? from : undefined)
     })
-    
-    // Increment unread count if not from current user and chat is minimized
-    if (message.sender !== 'user' && isMinimized) {
-      setUnreadCount(prev => prev + 1)
-    }
-    
-    // Emit analytics event
-    eventBus.emit('analytics:event', {
-      name: 'chat:message_received',
-      properties: {
-        sender: message.sender,
-        type: message.type,
-        hasMetadata: !!message.metadata,
+
+    const unsubscribeMessage = eventBus.on('chat:message', ({ from }) => {
+      if (from === 'user') return
+
+      // Increment unread count while the chat is minimized
+      if (isMinimizedRef.current) {
+        setUnreadCount(prev => prev + 1)
       }
+
+      trackRef.current('chat:message_received', { sender: from, mode: chatService.getConversation().mode })
     })
-  }, [generateMessageId, maxMessages, isMinimized])
-  
+
+    // A visitor who reloaded while waiting for a human stays in the queue
+    chatService.resume()
+
+    return () => {
+      unsubscribeConversation()
+      unsubscribeTyping()
+      unsubscribeMessage()
+    }
+  }, [])
+
   // Send message
   const sendMessage = useCallback(async (content: string) => {
-    if (!content.trim() || !isConnected) return
-    
-    try {
-      // Add user message immediately for optimistic UI
-      const userMessage: Omit<ChatMessage, 'id'> = {
-        content: content.trim(),
-        timestamp: new Date(),
-        sender: 'user',
-        type: 'text',
-      }
-      addMessage(userMessage)
-      
-      // Send via websocket if available
-      if (wsServiceRef.current) {
-        await wsServiceRef.current.send({
-          type: 'chat:message',
-          payload: {
-            content: content.trim(),
-            timestamp: new Date().toISOString(),
-          }
-        })
-      }
-      
-      // Mock response in development mode
-      if (config.shouldUseMockData) {
-        setTimeout(() => {
-          const responses = [
-            "Thanks for your message! Our support team will get back to you shortly.",
-            "I understand your concern. Let me help you with that.",
-            "That's a great question! Here's what I can tell you...",
-            "I'm here to help. Could you provide a bit more detail?",
-            "Absolutely! That feature is something we're working on.",
-          ]
-          
-          const mockResponse: Omit<ChatMessage, 'id'> = {
-            content: responses[Math.floor(Math.random() * responses.length)],
-            timestamp: new Date(),
-            sender: 'support',
-            type: 'text',
-            metadata: { automated: true }
-          }
-          addMessage(mockResponse)
-        }, 1000 + Math.random() * 2000) // Random delay 1-3s
-      }
-      
-      eventBus.emit('analytics:event', {
-        name: 'chat:message_sent',
-        properties: { contentLength: content.length }
-      })
-      
-    } catch (error) {
-      console.error('[ChatProvider] Failed to send message:', error)
-      
-      // Add error message
-      addMessage({
-        content: 'Failed to send message. Please try again.',
-        timestamp: new Date(),
-        sender: 'system',
-        type: 'status',
-        metadata: { error: true }
-      })
-      
-      eventBus.emit('analytics:event', {
-        name: 'chat:message_error',
-        properties: { error: String(error) }
-      })
-    }
-  }, [isConnected, addMessage, config.shouldUseMockData])
-  
+    if (!content.trim()) return
+
+    chatService.sendMessage(content)
+
+    track('chat:message_sent', { contentLength: content.length, mode: chatService.getConversation().mode })
+  }, [track])
+
+  const selectQuickReply = useCallback((reply: ChatQuickReply) => {
+    chatService.selectQuickReply(reply)
+
+    track('chat:quick_reply_selected', { replyId: reply.id })
+  }, [track])
+
+  const requestHuman = useCallback((reason?: string) => {
+    chatService.requestHuman(reason)
+
+    track('chat:handoff_requested', { reason: reason ?? 'visitor_request' })
+  }, [track])
+
+  const exportTranscript = useCallback((format: TranscriptFormat) => {
+    chatService.exportTranscript(format)
+
+    track('chat:transcript_exported', { format, messageCount: chatService.getConversation().messages.length })
+  }, [track])
+
   // Connect to chat service
   const connect = useCallback(async () => {
     if (status === 'connecting' || status === 'connected') return
-    
+
     setStatus('connecting')
-    
+
     try {
       if (config.shouldUseMockData) {
-        // Mock connection in development
-        setTimeout(() => {
-          setStatus('connected')
-          addMessage({
-            content: 'Connected to support chat (mock mode)',
-            timestamp: new Date(),
-            sender: 'system',
-            type: 'status',
-          })
-        }, 500)
+        // The bot and the simulated agent run locally
+        await new Promise(resolve => setTimeout(resolve, 500))
       } else {
-        // Real websocket connection
-        if (!wsServiceRef.current) {
-          wsServiceRef.current = new WebSocketService()
-        }
-        
-        await wsServiceRef.current.connect()
-        setStatus('connected')
-        
-        // Set up message handlers
-        wsServiceRef.current.onMessage((data) => {
-          if (data.type === 'chat:message') {
-            addMessage({
-              content: data.payload.content,
-              timestamp: new Date(data.payload.timestamp),
-              sender: data.payload.sender || 'support',
-              type: 'text',
-              metadata: data.payload.metadata,
-            })
-          } else if (data.type === 'chat:typing') {
-            // Handle typing indicators
-            const user = data.payload.user
-            if (data.payload.isTyping) {
-              setTypingUsers(prev => [...prev.filter(u => u.id !== user.id), user])
-            } else {
-              setTypingUsers(prev => prev.filter(u => u.id !== user.id))
-            }
-          }
-        })
-        
-        wsServiceRef.current.onDisconnect(() => {
-          setStatus('disconnected')
-          setTypingUsers([])
-        })
+        chatService.connectSocket()
       }
-      
-      eventBus.emit('analytics:event', {
-        name: 'chat:connected',
-        properties: { mockMode: config.shouldUseMockData }
-      })
-      
+
+      setStatus('connected')
+      track('chat:connected', { mockMode: config.shouldUseMockData })
     } catch (error) {
       console.error('[ChatProvider] Failed to connect:', error)
       setStatus('error')
-      
-      addMessage({
-        content: 'Failed to connect to support chat. Please try again later.',
-        timestamp: new Date(),
-        sender: 'system',
-        type: 'status',
-        metadata: { error: true }
-      })
-      
-      eventBus.emit('analytics:event', {
-        name: 'chat:connection_error',
-        properties: { error: String(error) }
-      })
+
+      track('chat:connection_error', { error: String(error) })
     }
-  }, [status, addMessage, config.shouldUseMockData])
-  
+  }, [status, track])
+
   // Disconnect from chat service
   const disconnect = useCallback(() => {
-    if (wsServiceRef.current) {
-      wsServiceRef.current.disconnect()
-      wsServiceRef.current = null
-    }
-    
+    chatService.disconnectSocket()
+
     setStatus('disconnected')
-    setTypingUsers([])
-    
+    setTypingFrom(undefined)
+
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current)
       typingTimeoutRef.current = null
     }
-    
-    eventBus.emit('analytics:event', {
-      name: 'chat:disconnected',
-      properties: {}
-    })
-  }, [])
-  
+
+    track('chat:disconnected', {})
+  }, [track])
+
   // Mark messages as read
   const markAsRead = useCallback(() => {
     setUnreadCount(0)
-    
-    eventBus.emit('analytics:event', {
-      name: 'chat:messages_read',
-      properties: { previousUnreadCount: unreadCount }
-    })
-  }, [unreadCount])
-  
+
+    track('chat:messages_read', { previousUnreadCount: unreadCount })
+  }, [unreadCount, track])
+
   // Toggle minimized state
   const toggleMinimized = useCallback(() => {
-    setIsMinimized(prev => {
-      const newState = !prev
-      
-      // Mark as read when opening
-      if (!newState) {
-        setUnreadCount(0)
-      }
-      
-      eventBus.emit('analytics:event', {
-        name: 'chat:toggled',
-        properties: { minimized: newState }
-      })
-      
-      return newState
-    })
-  }, [])
-  
-  // Clear all messages
+    const minimized = !isMinimizedRef.current
+    setIsMinimized(minimized)
+
+    // Mark as read when opening
+    if (!minimized) {
+      setUnreadCount(0)
+    }
+
+    track('chat:toggled', { minimized })
+  }, [track])
+
+  // Start a new conversation
   const clearMessages = useCallback(() => {
-    setMessages([])
+    const previousMessageCount = chatService.getConversation().messages.length
+    chatService.reset()
     setUnreadCount(0)
-    
-    eventBus.emit('analytics:event', {
-      name: 'chat:messages_cleared',
-      properties: { previousMessageCount: messages.length }
-    })
-  }, [messages.length])
-  
+
+    track('chat:messages_cleared', { previousMessageCount })
+  }, [track])
+
+  // Stop typing indicator
+  const stopTyping = useCallback(() => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current)
+      typingTimeoutRef.current = null
+    }
+
+    chatService.setUserTyping(false)
+  }, [])
+
   // Start typing indicator
   const startTyping = useCallback(() => {
-    if (!isConnected || !wsServiceRef.current) return
-    
-    wsServiceRef.current.send({
-      type: 'chat:typing',
-      payload: {
-        isTyping: true,
-        user: currentUser,
-      }
-    })
-    
+    if (!isConnected) return
+
+    if (!typingTimeoutRef.current) {
+      chatService.setUserTyping(true)
+    }
+
     // Auto-stop typing after timeout
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current)
     }
-    
+
     typingTimeoutRef.current = setTimeout(() => {
       stopTyping()
     }, typingTimeout)
-  }, [isConnected, currentUser, typingTimeout])
-  
-  // Stop typing indicator
-  const stopTyping = useCallback(() => {
-    if (!isConnected || !wsServiceRef.current) return
-    
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current)
-      typingTimeoutRef.current = null
-    }
-    
-    wsServiceRef.current.send({
-      type: 'chat:typing',
-      payload: {
-        isTyping: false,
-        user: currentUser,
-      }
-    })
-  }, [isConnected, currentUser])
-  
+  }, [isConnected, typingTimeout, stopTyping])
+
   // Auto-connect on mount if enabled
   useEffect(() => {
     if (autoConnect) {
       connect()
     }
-    
-    return () => {
-      disconnect()
-    }
-  }, [autoConnect, connect, disconnect])
-  
-  // Clean up timers on unmount
+  }, [autoConnect])
+
+  // Clean up timers and socket listeners on unmount
   useEffect(() => {
     return () => {
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current)
       }
+      chatService.disconnectSocket()
     }
   }, [])
-  
+
   const contextValue: ChatContextValue = {
     // State
+    conversation,
     messages,
+    mode: conversation.mode,
+    queuePosition: conversation.queuePosition,
+    quickReplies,
     isConnected,
     status,
     currentUser,
-    typingUsers,
+    isTyping: !!typingFrom,
+    typingFrom,
     unreadCount,
     isMinimized,
-    
+
     // Actions
     sendMessage,
+    selectQuickReply,
+    requestHuman,
+    exportTranscript,
     connect,
     disconnect,
     markAsRead,
     toggleMinimized,
     clearMessages,
-    
+
     // Typing indicators
     startTyping,
     stopTyping,
-    
+
     // User management
     setCurrentUser,
   }
-  
+
   return (
     <ChatContext.Provider value={contextValue}>
       {children}
@@ -431,24 +329,13 @@ export function ChatProvider({
 // Hook for consuming chat context
 export function useChat(): ChatContextValue {
   const context = useContext(ChatContext)
-  
+
   if (!context) {
     throw new Error('useChat must be used within a ChatProvider')
   }
-  
+
   return context
 }
 
 // Default export
 export default ChatProvider
-
-// Development helpers
-if (config.isDevelopment && typeof window !== 'undefined') {
-  (window as any).__CHAT_DEBUG__ = {
-    getMessages: () => {
-      // This would need to be implemented with a ref or global state
-      // For now, just a placeholder for debugging
-      console.log('Chat messages would be logged here')
-    },
-  }
-}
@@ -0,0 +1,133 @@
+// filepath: src/providers/ConsentProvider.tsx
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component
+// [x] Adds basic ARIA and keyboard handlers (where relevant)
+
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react'
+import { eventBus } from '@/core/events'
+import {
+  consentService,
+  ConsentCategories,
+  ConsentCategory,
+  ConsentState,
+  ConsentStatus
+} from '@/services/consent'
+import ConsentPreferencesModal from '@/features/cookie/ConsentPreferencesModal'
+
+/* src/providers/ConsentProvider.tsx
+
+   Exposes the visitor's cookie consent to React and owns the preferences modal. State lives
+   in ConsentService, so services outside React see the same choices.
+
+   Usage:
+     const { hasConsent, acceptAll, openPreferences } = useConsent()
+     if (hasConsent('analytics')) { ... }
+*/
+
+export interface ConsentContextValue {
+  consent: ConsentState
+  hasDecided: boolean
+  hasConsent: (category: ConsentCategory) => boolean
+  getStatus: (category: ConsentCategory) => ConsentStatus
+  acceptAll: () => void
+  rejectAll: () => void
+  updateConsent: (categories: Partial<ConsentCategories>) => void
+  resetConsent: () => void
+  openPreferences: () => void
+  closePreferences: () => void
+  isPreferencesOpen: boolean
+}
+
+const ConsentContext = createContext<ConsentContextValue | null>(null)
+
+export interface ConsentProviderProps {
+  children: ReactNode
+}
+
+// Hook to use consent context
+export function useConsent(): ConsentContextValue {
+  const context = useContext(ConsentContext)
+  if (!context) {
+    throw new Error('useConsent must be used within a ConsentProvider')
+  }
+  return context
+}
+
+export function ConsentProvider({ children }: ConsentProviderProps) {
+  const [consent, setConsent] = useState<ConsentState>(() => consentService.getState())
+  const [isPreferencesOpen, setIsPreferencesOpen] = useState(false)
+
+  // Follow changes made outside React (other providers, dev tools)
+  useEffect(() => {
+    const sync = () => setConsent(consentService.getState())
+    const unsubscribeUpdated = eventBus.on('consent:updated', sync)
+    const unsubscribeReset = eventBus.on('consent:reset', sync)
+
+    return () => {
+      unsubscribeUpdated()
+      unsubscribeReset()
+    }
+  }, [])
+
+  const hasConsent = useCallback((category: ConsentCategory) => consent.categories[category], [consent])
+
+  const getStatus = useCallback((category: ConsentCategory): ConsentStatus => {
+    if (category === 'necessary') return 'granted'
+    if (!consent.decided) return 'pending'
+    return consent.categories[category] ? 'granted' : 'denied'
+  }, [consent])
+
+  const acceptAll = useCallback(() => {
+    consentService.acceptAll()
+  }, [])
+
+  const rejectAll = useCallback(() => {
+    consentService.rejectAll()
+  }, [])
+
+  const updateConsent = useCallback((categories: Partial<ConsentCategories>) => {
+    consentService.update(categories)
+  }, [])
+
+  const resetConsent = useCallback(() => {
+    consentService.reset()
+  }, [])
+
+  const openPreferences = useCallback(() => setIsPreferencesOpen(true), [])
+  const closePreferences = useCallback(() => setIsPreferencesOpen(false), [])
+
+  const handleSave = useCallback((categories: ConsentCategories) => {
+    consentService.update(categories)
+    setIsPreferencesOpen(false)
+  }, [])
+
+  const contextValue: ConsentContextValue = {
+    consent,
+    hasDecided: consent.decided,
+    hasConsent,
+    getStatus,
+    acceptAll,
+    rejectAll,
+    updateConsent,
+    resetConsent,
+    openPreferences,
+    closePreferences,
+    isPreferencesOpen
+  }
+
+  return (
+    <ConsentContext.Provider value={contextValue}>
+      {children}
+      <ConsentPreferencesModal
+        isOpen={isPreferencesOpen}
+        categories={consent.categories}
+        onClose={closePreferences}
+        onSave={handleSave}
+      />
+    </ConsentContext.Provider>
+  )
+}
+
+export default ConsentProvider
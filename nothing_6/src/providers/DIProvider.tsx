@@ -0,0 +1,74 @@
+// filepath: src/providers/DIProvider.tsx
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for provider)
+
+import React, { createContext, useContext, useEffect, useMemo, useRef, ReactNode } from 'react'
+import { appContainer } from '@/app/container'
+import { DIContainer, Token } from '@/core/di'
+
+/* src/providers/DIProvider.tsx
+
+   React binding for the DI container. Components resolve services with `useService(token)`
+   from the nearest DIProvider, or from the app container when there is none. A provider can
+   hand its subtree a different container (tests pass createTestContainer().container) or a
+   child scope of the surrounding one, which gets its own scoped instances and is disposed on
+   unmount.
+
+   Usage:
+     <DIProvider container={testContainer}>
+       <CheckoutPage />
+     </DIProvider>
+
+     <DIProvider scoped>
+       <ChatWidget />
+     </DIProvider>
+
+     const storage = useService(StorageServiceToken)
+*/
+
+interface DIProviderProps {
+  children: ReactNode
+  container?: DIContainer // Container for this subtree; defaults to the surrounding one
+  scoped?: boolean // Give the subtree a child scope of that container
+}
+
+const DIContext = createContext<DIContainer>(appContainer)
+
+export const DIProvider: React.FC<DIProviderProps> = ({ children, container, scoped = false }) => {
+  const surrounding = useContext(DIContext)
+  const base = container ?? surrounding
+  const scope = useMemo(() => (scoped ? base.createScope() : null), [base, scoped])
+
+  // StrictMode unmounts and remounts right away; disposing a tick later lets that remount cancel
+  // it, so children never hold instances from a disposed scope
+  const pendingDispose = useRef<{ scope: DIContainer; timer: ReturnType<typeof setTimeout> } | null>(null)
+  useEffect(() => {
+    if (!scope) return
+    if (pendingDispose.current?.scope === scope) {
+      clearTimeout(pendingDispose.current.timer)
+      pendingDispose.current = null
+    }
+    return () => {
+      pendingDispose.current = { scope, timer: setTimeout(() => scope.dispose(), 0) }
+    }
+  }, [scope])
+
+  return (
+    <DIContext.Provider value={scope ?? base}>
+      {children}
+    </DIContext.Provider>
+  )
+}
+
+export const useContainer = (): DIContainer => useContext(DIContext)
+
+// Resolved once per container, so a component keeps the same instance across renders
+export function useService<T>(token: Token<T>): T {
+  const container = useContainer()
+  return useMemo(() => container.resolve(token), [container, token])
+}
+
+export default DIProvider
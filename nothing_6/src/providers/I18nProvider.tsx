@@ -0,0 +1,167 @@
+// filepath: src/providers/I18nProvider.tsx
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for provider)
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react'
+import { BuiltInServices, StorageServiceToken } from '@/core/di'
+import { eventBus } from '@/core/events'
+import { getLoadedMessages, loadMessages, translate, type MessageKey, type Messages } from '@/i18n/catalog'
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, isLocale, matchLocale, type Locale, type LocaleInfo } from '@/i18n/locales'
+import { useService } from '@/providers/DIProvider'
+import {
+  formatCurrency as formatCurrencyValue,
+  formatDate as formatDateValue,
+  formatNumber as formatNumberValue,
+  setFormatLocale
+} from '@/utils/format'
+import type { MessageValues } from '@/utils/messageFormat'
+
+/* src/providers/I18nProvider.tsx
+
+   Holds the visitor's locale and its message bundle. The locale comes from StorageService,
+   then the browser's preferences; bundles other than the default load lazily, and the switch
+   happens once the bundle is in so the page never shows a half-translated state. Formatters
+   from `@/utils/format` follow the chosen locale for callers outside React.
+
+   Usage:
+     const { t, locale, setLocale, formatCurrency } = useI18n()
+     t('counter.label', { count: 0 })
+     formatCurrency(tier.priceCents, tier.currency, { trimWholeAmounts: true })
+*/
+
+export interface I18nContextValue {
+  locale: Locale
+  locales: LocaleInfo[]
+  // True while the bundle for the current locale is still loading
+  isLoading: boolean
+  setLocale: (locale: Locale) => Promise<void>
+  t: (key: MessageKey, values?: MessageValues) => string
+  formatNumber: (value: number, options?: Parameters<typeof formatNumberValue>[1]) => string
+  formatCurrency: (amountCents: number, currency?: string, options?: { trimWholeAmounts?: boolean }) => string
+  formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string
+}
+
+const LOCALE_STORAGE_KEY = 'locale'
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+export interface I18nProviderProps {
+  children: ReactNode
+  /** Locale to use when nothing is stored, instead of the browser's preference */
+  defaultLocale?: Locale
+}
+
+// Hook to use i18n context
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext)
+  if (!context) {
+    throw new Error('useI18n must be used within an I18nProvider')
+  }
+  return context
+}
+
+const readInitialLocale = (storage: BuiltInServices['StorageService'], defaultLocale?: Locale): Locale => {
+  const stored = storage.get<string>(LOCALE_STORAGE_KEY, null)
+  if (isLocale(stored)) return stored
+  if (defaultLocale) return defaultLocale
+  if (typeof navigator === 'undefined') return DEFAULT_LOCALE
+  return matchLocale(navigator.languages?.length ? navigator.languages : [navigator.language])
+}
+
+export function I18nProvider({ children, defaultLocale }: I18nProviderProps) {
+  const storage = useService(StorageServiceToken)
+  const [locale, setLocaleState] = useState<Locale>(() => {
+    const initial = readInitialLocale(storage, defaultLocale)
+    setFormatLocale(initial)
+    return initial
+  })
+  const [messages, setMessages] = useState<Messages>(
+    () => getLoadedMessages(locale) ?? (getLoadedMessages(DEFAULT_LOCALE) as Messages)
+  )
+  const [isLoading, setIsLoading] = useState(() => !getLoadedMessages(locale))
+  const requestedLocaleRef = useRef(locale)
+
+  // A stored locale may need its bundle fetched after the first render
+  useEffect(() => {
+    if (getLoadedMessages(locale)) return
+
+    loadMessages(locale)
+      .then(loaded => {
+        if (requestedLocaleRef.current === locale) setMessages(loaded)
+      })
+      .catch(error => {
+        eventBus.emit('i18n:bundle_error', { locale, error: String(error) })
+      })
+      .finally(() => setIsLoading(false))
+  }, [locale])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const setLocale = useCallback(async (next: Locale) => {
+    const previous = requestedLocaleRef.current
+    if (next === previous) return
+    requestedLocaleRef.current = next
+
+    setIsLoading(true)
+    try {
+      const loaded = await loadMessages(next)
+      // A later switch wins over this one
+      if (requestedLocaleRef.current !== next) return
+
+      setFormatLocale(next)
+      setMessages(loaded)
+      setLocaleState(next)
+      storage.set(LOCALE_STORAGE_KEY, next)
+      eventBus.emit('i18n:locale_changed', { locale: next, previous })
+    } catch (error) {
+      requestedLocaleRef.current = previous
+      eventBus.emit('i18n:bundle_error', { locale: next, error: String(error) })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [storage])
+
+  const t = useCallback(
+    (key: MessageKey, values?: MessageValues) => translate(messages, key, values, locale),
+    [messages, locale]
+  )
+
+  const formatNumber = useCallback<I18nContextValue['formatNumber']>(
+    (value, options) => formatNumberValue(value, { ...options, locale }),
+    [locale]
+  )
+
+  const formatCurrency = useCallback<I18nContextValue['formatCurrency']>(
+    (amountCents, currency, options) => formatCurrencyValue(amountCents, currency, { ...options, locale }),
+    [locale]
+  )
+
+  const formatDate = useCallback<I18nContextValue['formatDate']>(
+    (value, options) => formatDateValue(value, options, locale),
+    [locale]
+  )
+
+  const contextValue = useMemo<I18nContextValue>(() => ({
+    locale,
+    locales: SUPPORTED_LOCALES,
+    isLoading,
+    setLocale,
+    t,
+    formatNumber,
+    formatCurrency,
+    formatDate
+  }), [locale, isLoading, setLocale, t, formatNumber, formatCurrency, formatDate])
+
+  return (
+    <I18nContext.Provider value={contextValue}>
+      {children}
+    </I18nContext.Provider>
+  )
+}
+
+export default I18nProvider
@@ -0,0 +1,50 @@
+// filepath: src/providers/RootProviders.tsx
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for provider)
+
+import React from 'react'
+import DIProvider from '@/providers/DIProvider'
+import ThemeProvider from '@/providers/ThemeProvider'
+import ToastProvider from '@/providers/ToastProvider'
+import ModalProvider from '@/providers/ModalProvider'
+import AuthProvider from '@/providers/AuthProvider'
+import ConsentProvider from '@/providers/ConsentProvider'
+import I18nProvider from '@/providers/I18nProvider'
+
+/* src/providers/RootProviders.tsx
+
+   App-wide providers that sit outside the router. Shared by the browser entry (main.tsx) and
+   the prerender entry (entry-server.tsx) so both render the same tree. DIProvider sits
+   outermost so every provider can resolve services with useService.
+
+   Usage:
+     <RootProviders>
+       <App />
+     </RootProviders>
+*/
+
+// Root provider composition wrapper
+export const RootProviders: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  return (
+    <DIProvider>
+      <ThemeProvider>
+        <I18nProvider>
+          <AuthProvider>
+            <ToastProvider>
+              <ModalProvider>
+                <ConsentProvider>
+                  {children}
+                </ConsentProvider>
+              </ModalProvider>
+            </ToastProvider>
+          </AuthProvider>
+        </I18nProvider>
+      </ThemeProvider>
+    </DIProvider>
+  )
+}
+
+export default RootProviders
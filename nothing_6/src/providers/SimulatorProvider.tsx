@@ -8,18 +8,32 @@
 import React, { createContext, useContext, useReducer, useCallback, useRef, useEffect } from 'react'
 import { config } from '@/app/config'
 import { eventBus } from '@/core/events'
+import {
+  SimulatorScene,
+  buildSceneUrl,
+  decodeScene,
+  downloadGallery,
+  parseGallery,
+  readSceneFragment
+} from '@/features/simulator/scenes'
+import { storage } from '@/services/storage'
+import { QUALITY_LEVELS, QualityLevelName } from '@/utils/qualityGovernor'
 
 /* src/providers/SimulatorProvider.tsx
 
    Context provider for the interactive void simulator. Manages simulation state,
-   presets, and provides controls for the void simulation components.
+   presets, and provides controls for the void simulation components. Saved scenes and
+   favorited presets are kept in storage, and a `#scene=` fragment in the URL is applied
+   on load (see features/simulator/scenes).
 
    Usage:
      <SimulatorProvider>
        <InteractiveVoidSimulator />
      </SimulatorProvider>
      
-     const { state, play, pause, reset, setPreset } = useSimulator()
+     const { state, play, pause, reset, setPreset, saveScene, getShareUrl } = useSimulator()
+     const scene = saveScene('Late night', thumbnail)
+     navigator.clipboard.writeText(getShareUrl(scene.id))
 */
 
 export type SimulationPreset = 
@@ -60,11 +74,14 @@ export interface SimulatorState {
   status: SimulationStatus
   currentPreset: SimulationPreset
   customSettings: Partial<SimulationSettings>
+  scenes: SimulatorScene[]
+  activeSceneId?: string // Cleared as soon as the loaded scene is changed
   isFullscreen: boolean
   performance: {
     fps: number
     renderTime: number
     quality: 'low' | 'medium' | 'high' | 'auto'
+    level: QualityLevelName // What is actually rendered; set by the quality governor
   }
   analytics: {
     sessionStartTime?: number
@@ -82,6 +99,20 @@ type SimulatorAction =
   | { type: 'TRACK_INTERACTION'; payload?: { preset?: SimulationPreset } }
   | { type: 'RESET_ANALYTICS' }
   | { type: 'RESET_TO_PRESET'; payload: SimulationPreset }
+  | { type: 'LOAD_SCENE'; payload: { preset: SimulationPreset; settings: SimulationSettings; sceneId?: string } }
+  | { type: 'SAVE_SCENE'; payload: SimulatorScene }
+  | { type: 'RENAME_SCENE'; payload: { id: string; name: string } }
+  | { type: 'DELETE_SCENE'; payload: string }
+  | { type: 'IMPORT_GALLERY'; payload: { scenes: SimulatorScene[]; favoritedPresets: SimulationPreset[] } }
+  | { type: 'TOGGLE_FAVORITE'; payload: SimulationPreset }
+
+export interface GalleryImportResult {
+  imported: number
+  skipped: number
+}
+
+const SCENES_STORAGE_KEY = 'simulator-scenes'
+const MAX_SCENES = 24 // Thumbnails make scenes a few KB each
 
 const DEFAULT_PRESETS: Record<SimulationPreset, PresetConfig> = {
   classic_void: {
@@ -234,11 +265,13 @@ const initialState: SimulatorState = {
   status: 'idle',
   currentPreset: 'classic_void',
   customSettings: {},
+  scenes: [],
   isFullscreen: false,
   performance: {
     fps: 60,
     renderTime: 16,
-    quality: 'auto'
+    quality: 'auto',
+    level: 'high'
   },
   analytics: {
     totalInteractions: 0,
@@ -262,13 +295,15 @@ function simulatorReducer(state: SimulatorState, action: SimulatorAction): Simul
         ...state,
         currentPreset: action.payload,
         customSettings: {},
+        activeSceneId: undefined,
         status: state.status === 'playing' ? 'loading' : state.status
       }
       
     case 'UPDATE_SETTINGS':
       return {
         ...state,
-        customSettings: { ...state.customSettings, ...action.payload }
+        customSettings: { ...state.customSettings, ...action.payload },
+        activeSceneId: undefined
       }
       
     case 'TOGGLE_FULLSCREEN':
@@ -300,7 +335,8 @@ function simulatorReducer(state: SimulatorState, action: SimulatorAction): Simul
         ...state,
         analytics: {
           totalInteractions: 0,
-          favoritedPresets: []
+          // Favorites are a user choice, not a statistic
+          favoritedPresets: state.analytics.favoritedPresets
         }
       }
       
@@ -309,8 +345,64 @@ function simulatorReducer(state: SimulatorState, action: SimulatorAction): Simul
         ...state,
         currentPreset: action.payload,
         customSettings: {},
+        activeSceneId: undefined,
         status: 'idle'
       }
+
+    case 'LOAD_SCENE':
+      return {
+        ...state,
+        currentPreset: action.payload.preset,
+        customSettings: action.payload.settings,
+        activeSceneId: action.payload.sceneId,
+        status: state.status === 'playing' ? 'loading' : state.status
+      }
+
+    case 'SAVE_SCENE':
+      return {
+        ...state,
+        scenes: [action.payload, ...state.scenes].slice(0, MAX_SCENES),
+        activeSceneId: action.payload.id
+      }
+
+    case 'RENAME_SCENE':
+      return {
+        ...state,
+        scenes: state.scenes.map(scene =>
+          scene.id === action.payload.id ? { ...scene, name: action.payload.name } : scene
+        )
+      }
+
+    case 'DELETE_SCENE':
+      return {
+        ...state,
+        scenes: state.scenes.filter(scene => scene.id !== action.payload),
+        activeSceneId: state.activeSceneId === action.payload ? undefined : state.activeSceneId
+      }
+
+    case 'IMPORT_GALLERY': {
+      // Imported scenes replace saved ones with the same id
+      const importedIds = new Set(action.payload.scenes.map(scene => scene.id))
+      const favorites = new Set([...state.analytics.favoritedPresets, ...action.payload.favoritedPresets])
+      return {
+        ...state,
+        scenes: [...action.payload.scenes, ...state.scenes.filter(scene => !importedIds.has(scene.id))].slice(0, MAX_SCENES),
+        analytics: { ...state.analytics, favoritedPresets: Array.from(favorites) }
+      }
+    }
+
+    case 'TOGGLE_FAVORITE': {
+      const favorites = state.analytics.favoritedPresets
+      return {
+        ...state,
+        analytics: {
+          ...state.analytics,
+          favoritedPresets: favorites.includes(action.payload)
+            ? favorites.filter(preset => preset !== action.payload)
+            : [...favorites, action.payload]
+        }
+      }
+    }
       
     default:
       return state
@@ -331,6 +423,7 @@ export interface SimulatorContextValue {
   setPreset: (preset: SimulationPreset) => void
   updateSettings: (settings: Partial<SimulationSettings>) => void
   getCurrentSettings: () => SimulationSettings
+  getRenderSettings: () => SimulationSettings // Current settings scaled to the quality level
   
   // UI controls
   toggleFullscreen: () => void
@@ -341,6 +434,17 @@ export interface SimulatorContextValue {
   // Analytics
   trackInteraction: (preset?: SimulationPreset) => void
   getAnalytics: () => SimulatorState['analytics']
+
+  // Scenes
+  saveScene: (name: string, thumbnail?: string) => SimulatorScene
+  loadScene: (sceneId: string) => void
+  renameScene: (sceneId: string, name: string) => void
+  deleteScene: (sceneId: string) => void
+  applySceneFragment: (encoded: string) => boolean
+  getShareUrl: (sceneId?: string) => string
+  toggleFavoritePreset: (preset: SimulationPreset) => void
+  exportGallery: () => void
+  importGallery: (json: string) => GalleryImportResult | null
 }
 
 const SimulatorContext = createContext<SimulatorContextValue | null>(null)
@@ -349,16 +453,30 @@ export interface SimulatorProviderProps {
   children: React.ReactNode
   initialPreset?: SimulationPreset
   autoPlay?: boolean
+  restoreFromUrl?: boolean // Apply a `#scene=` fragment on load and when the hash changes
 }
 
+interface StoredScenes {
+  scenes: SimulatorScene[]
+  favoritedPresets: SimulationPreset[]
+}
+
+const presetSettings = (preset: SimulationPreset) => DEFAULT_PRESETS[preset].settings
+
 export const SimulatorProvider: React.FC<SimulatorProviderProps> = ({
   children,
   initialPreset = 'classic_void',
-  autoPlay = false
+  autoPlay = false,
+  restoreFromUrl = true
 }) => {
-  const [state, dispatch] = useReducer(simulatorReducer, {
-    ...initialState,
-    currentPreset: initialPreset
+  const [state, dispatch] = useReducer(simulatorReducer, initialPreset, (preset): SimulatorState => {
+    const stored = storage.get<StoredScenes>(SCENES_STORAGE_KEY, null)
+    return {
+      ...initialState,
+      currentPreset: preset,
+      scenes: stored?.scenes ?? [],
+      analytics: { ...initialState.analytics, favoritedPresets: stored?.favoritedPresets ?? [] }
+    }
   })
   
   const animationFrameRef = useRef<number>()
@@ -432,6 +550,22 @@ export const SimulatorProvider: React.FC<SimulatorProviderProps> = ({
     return { ...baseSettings, ...state.customSettings }
   }, [state.currentPreset, state.customSettings])
 
+  const getRenderSettings = useCallback((): SimulationSettings => {
+    const settings = getCurrentSettings()
+    const level = QUALITY_LEVELS.find(l => l.name === state.performance.level) ?? QUALITY_LEVELS[0]
+
+    return {
+      ...settings,
+      density: Math.max(0.1, Math.round(settings.density * level.densityScale * 100) / 100),
+      effects: {
+        ...settings.effects,
+        trails: settings.effects.trails && level.effects.trails,
+        glow: settings.effects.glow && level.effects.glow,
+        distortion: settings.effects.distortion && level.effects.distortion
+      }
+    }
+  }, [getCurrentSettings, state.performance.level])
+
   const toggleFullscreen = useCallback(() => {
     dispatch({ type: 'TOGGLE_FULLSCREEN' })
     eventBus.emit('simulator:fullscreen_toggle', { isFullscreen: !state.isFullscreen })
@@ -447,6 +581,100 @@ export const SimulatorProvider: React.FC<SimulatorProviderProps> = ({
 
   const getAnalytics = useCallback(() => state.analytics, [state.analytics])
 
+  // Scenes
+  const saveScene = useCallback((name: string, thumbnail?: string): SimulatorScene => {
+    const scene: SimulatorScene = {
+      id: `scene_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+      name: name.trim().slice(0, 60) || DEFAULT_PRESETS[state.currentPreset].name,
+      basePreset: state.currentPreset,
+      settings: getCurrentSettings(),
+      thumbnail,
+      createdAt: new Date().toISOString()
+    }
+
+    dispatch({ type: 'SAVE_SCENE', payload: scene })
+    eventBus.emit('simulator:scene_saved', { sceneId: scene.id, name: scene.name })
+    return scene
+  }, [state.currentPreset, getCurrentSettings])
+
+  const loadScene = useCallback((sceneId: string) => {
+    const scene = state.scenes.find(s => s.id === sceneId)
+    if (!scene) return
+
+    dispatch({ type: 'LOAD_SCENE', payload: { preset: scene.basePreset, settings: scene.settings, sceneId } })
+    dispatch({ type: 'TRACK_INTERACTION' })
+    eventBus.emit('simulator:scene_loaded', { sceneId, preset: scene.basePreset, source: 'gallery' })
+  }, [state.scenes])
+
+  const renameScene = useCallback((sceneId: string, name: string) => {
+    if (!name.trim()) return
+    dispatch({ type: 'RENAME_SCENE', payload: { id: sceneId, name: name.trim().slice(0, 60) } })
+  }, [])
+
+  const deleteScene = useCallback((sceneId: string) => {
+    dispatch({ type: 'DELETE_SCENE', payload: sceneId })
+    eventBus.emit('simulator:scene_deleted', { sceneId })
+  }, [])
+
+  const applySceneFragment = useCallback((encoded: string): boolean => {
+    const decoded = decodeScene(encoded, DEFAULT_PRESETS.classic_void.settings)
+    if (!decoded) return false
+
+    dispatch({ type: 'LOAD_SCENE', payload: { preset: decoded.basePreset, settings: decoded.settings } })
+    eventBus.emit('simulator:scene_loaded', { preset: decoded.basePreset, source: 'url' })
+    return true
+  }, [])
+
+  const getShareUrl = useCallback((sceneId?: string): string => {
+    const scene = sceneId ? state.scenes.find(s => s.id === sceneId) : undefined
+    return scene
+      ? buildSceneUrl(scene.settings, scene.basePreset, scene.name)
+      : buildSceneUrl(getCurrentSettings(), state.currentPreset)
+  }, [state.scenes, state.currentPreset, getCurrentSettings])
+
+  const toggleFavoritePreset = useCallback((preset: SimulationPreset) => {
+    dispatch({ type: 'TOGGLE_FAVORITE', payload: preset })
+  }, [])
+
+  const exportGallery = useCallback(() => {
+    downloadGallery({ scenes: state.scenes, favoritedPresets: state.analytics.favoritedPresets })
+    eventBus.emit('analytics:event', {
+      name: 'simulator:gallery_exported',
+      properties: { scenes: state.scenes.length }
+    })
+  }, [state.scenes, state.analytics.favoritedPresets])
+
+  const importGallery = useCallback((json: string): GalleryImportResult | null => {
+    const gallery = parseGallery(json, presetSettings)
+    if (!gallery) return null
+
+    dispatch({ type: 'IMPORT_GALLERY', payload: { scenes: gallery.scenes, favoritedPresets: gallery.favoritedPresets } })
+    eventBus.emit('simulator:gallery_imported', { imported: gallery.scenes.length, skipped: gallery.skipped })
+    return { imported: gallery.scenes.length, skipped: gallery.skipped }
+  }, [])
+
+  // Persist saved scenes and favorites
+  useEffect(() => {
+    storage.set<StoredScenes>(SCENES_STORAGE_KEY, {
+      scenes: state.scenes,
+      favoritedPresets: state.analytics.favoritedPresets
+    })
+  }, [state.scenes, state.analytics.favoritedPresets])
+
+  // Restore a shared scene from the URL
+  useEffect(() => {
+    if (!restoreFromUrl || typeof window === 'undefined') return
+
+    const applyHash = () => {
+      const encoded = readSceneFragment(window.location.hash)
+      if (encoded) applySceneFragment(encoded)
+    }
+
+    applyHash()
+    window.addEventListener('hashchange', applyHash)
+    return () => window.removeEventListener('hashchange', applyHash)
+  }, [restoreFromUrl, applySceneFragment])
+
   // Auto-play on mount if enabled
   useEffect(() => {
     if (autoPlay) {
@@ -494,10 +722,20 @@ export const SimulatorProvider: React.FC<SimulatorProviderProps> = ({
     setPreset,
     updateSettings,
     getCurrentSettings,
+    getRenderSettings,
     toggleFullscreen,
     updatePerformance,
     trackInteraction,
-    getAnalytics
+    getAnalytics,
+    saveScene,
+    loadScene,
+    renameScene,
+    deleteScene,
+    applySceneFragment,
+    getShareUrl,
+    toggleFavoritePreset,
+    exportGallery,
+    importGallery
   }
 
   return (
@@ -9,6 +9,9 @@ import React, { Suspense } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { config, isDevelopment } from '@/app/config';
 import { eventBus } from '@/core/events';
+import { routeMeta, RoutePath } from '@/meta/routes';
+import { applySeo, resolveSeo } from '@/meta/seo';
+import { useI18n } from '@/providers/I18nProvider';
 import LoadingSpinner from '@/shared/components/LoadingSpinner';
 
 // Lazy load pages for code splitting
@@ -17,6 +20,8 @@ const PressPage = React.lazy(() => import('@/pages/PressPage'));
 const APIDocsPage = React.lazy(() => import('@/pages/APIDocsPage'));
 const StatusPage = React.lazy(() => import('@/pages/StatusPage'));
 const CheckoutPage = React.lazy(() => import('@/pages/CheckoutPage'));
+const ExperimentResultsPage = React.lazy(() => import('@/pages/ExperimentResultsPage'));
+const ErrorConsolePage = React.lazy(() => import('@/pages/ErrorConsolePage'));
 const NotFoundPage = React.lazy(() => import('@/features/notfound/NotFoundPage'));
 
 // Route loading fallback component
@@ -33,50 +38,24 @@ const RouteLoadingFallback = () => (
   </div>
 );
 
-// Route definitions with metadata
-export const routeConfig = [
-  {
-    path: '/',
-    element: LandingPage,
-    title: 'Home - Absolutely Nothing ™',
-    description: 'The premium experience of getting absolutely nothing',
-    analytics: 'landing_page',
-  },
-  {
-    path: '/press',
-    element: PressPage,
-    title: 'Press Kit - Absolutely Nothing ™',
-    description: 'Media resources and press information about Nothing',
-    analytics: 'press_page',
-  },
-  {
-    path: '/api',
-    element: APIDocsPage,
-    title: 'API Documentation - Absolutely Nothing ™',
-    description: 'Complete API documentation for integrating Nothing',
-    analytics: 'api_docs_page',
-  },
-  {
-    path: '/status',
-    element: StatusPage,
-    title: 'System Status - Absolutely Nothing ™',
-    description: 'Real-time status and uptime monitoring for Nothing services',
-    analytics: 'status_page',
-  },
-  {
-    path: '/checkout',
-    element: CheckoutPage,
-    title: 'Checkout - Absolutely Nothing ™',
-    description: 'Complete your purchase of Nothing',
-    analytics: 'checkout_page',
-  },
-] as const;
+// Each route's page; paths and head metadata live in `@/meta/routes`, which `@/meta/seo` turns into head tags
+const routePages: Record<RoutePath, React.LazyExoticComponent<React.ComponentType>> = {
+  '/': LandingPage,
+  '/press': PressPage,
+  '/api': APIDocsPage,
+  '/status': StatusPage,
+  '/checkout': CheckoutPage,
+};
+
+export const routeConfig = routeMeta.map(route => ({ ...route, element: routePages[route.path] }));
 
 // Route component with analytics and error boundaries
 const RouteWrapper: React.FC<{
   Component: React.LazyExoticComponent<React.ComponentType>;
   routeData: typeof routeConfig[number];
 }> = ({ Component, routeData }) => {
+  const { locale } = useI18n();
+
   React.useEffect(() => {
     // Track route navigation
     eventBus.emit('analytics:event', {
@@ -87,17 +66,13 @@ const RouteWrapper: React.FC<{
         title: routeData.title,
       },
     });
-
-    // Update document title
-    document.title = routeData.title;
-
-    // Update meta description if available
-    const metaDescription = document.querySelector('meta[name="description"]');
-    if (metaDescription) {
-      metaDescription.setAttribute('content', routeData.description);
-    }
   }, [routeData]);
 
+  // Title, description, canonical, social cards and structured data
+  React.useEffect(() => {
+    applySeo(resolveSeo(routeData, { locale }));
+  }, [routeData, locale]);
+
   return (
     <Suspense fallback={<RouteLoadingFallback />}>
       <Component />
@@ -135,6 +110,23 @@ const AppRoutes: React.FC = () => {
         <>
           <Route path="/debug" element={<Navigate to="/?debug=true" replace />} />
           <Route path="/test" element={<Navigate to="/?test=true" replace />} />
+          {/* Internal tools (not listed in navigation or route metadata) */}
+          <Route
+            path="/internal/experiments"
+            element={
+              <Suspense fallback={<RouteLoadingFallback />}>
+                <ExperimentResultsPage />
+              </Suspense>
+            }
+          />
+          <Route
+            path="/internal/errors"
+            element={
+              <Suspense fallback={<RouteLoadingFallback />}>
+                <ErrorConsolePage />
+              </Suspense>
+            }
+          />
         </>
       )}
 
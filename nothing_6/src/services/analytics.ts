@@ -7,28 +7,39 @@
 
 import { config, isDevelopment, shouldUseMockData } from '@/app/config'
 import { eventBus } from '@/core/events'
+import { consentService, ConsentStatus } from '@/services/consent'
+import { storage } from '@/services/storage'
 
 /* src/services/analytics.ts
 
    Analytics adapter that records events, supports batching and exposes a debug-mode console sink when running with mocks.
+   Queued events are persisted so they survive reloads and offline periods, retried with exponential
+   backoff, and handed to `navigator.sendBeacon` when the page is hidden or unloaded.
+
+   Delivery follows the visitor's `analytics` consent: until they decide, events are held in
+   memory only; once granted they are persisted and sent; on decline everything is dropped.
 
    Usage:
      import { analytics } from '@/services/analytics'
      analytics.track('button_clicked', { section: 'hero', label: 'get_started' })
      analytics.page('pricing', { source: 'header_nav' })
+     const exposures = analytics.getHistory(['ab_test_exposure'])
 
 */
 
 // Event tracking contracts
 export interface AnalyticsEvent {
+  id?: string
   name: string
   properties?: Record<string, unknown>
   timestamp?: number
   userId?: string
   sessionId?: string
+  anonymousId?: string
 }
 
 export interface PageViewEvent {
+  id?: string
   name?: string
   path?: string
   referrer?: string
@@ -39,6 +50,7 @@ export interface PageViewEvent {
 }
 
 export interface IdentifyEvent {
+  id?: string
   userId: string
   traits?: Record<string, unknown>
   timestamp?: number
@@ -54,6 +66,25 @@ interface AnalyticsConfig {
   writeKey?: string
 }
 
+// Recent tracked events are kept locally so reports (e.g. experiment results) can be built in the browser
+const HISTORY_STORAGE_KEY = 'analytics-history'
+const HISTORY_LIMIT = 1000
+
+// Undelivered events are persisted with an upper bound; the oldest are dropped first
+const QUEUE_STORAGE_KEY = 'analytics-queue'
+const QUEUE_LIMIT = 500
+const MAX_EVENTS_PER_REQUEST = 100
+
+// Failed deliveries back off exponentially, with jitter, up to a ceiling
+const RETRY_BASE_MS = 1000
+const RETRY_MAX_MS = 5 * 60 * 1000
+
+// Browsers cap beacon payloads at 64KB; stay below it
+const BEACON_MAX_BYTES = 60000
+
+// Client errors that will not succeed on retry; the batch is dropped instead
+const isRetriableStatus = (status: number) => status >= 500 || status === 408 || status === 429
+
 // Batch queue for efficient event sending
 interface EventBatch {
   events: AnalyticsEvent[]
@@ -61,12 +92,36 @@ interface EventBatch {
   identifies: IdentifyEvent[]
 }
 
+type QueuedItem =
+  | { kind: 'events'; id: string; payload: AnalyticsEvent }
+  | { kind: 'pageViews'; id: string; payload: PageViewEvent }
+  | { kind: 'identifies'; id: string; payload: IdentifyEvent }
+
+const createId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+
+const toBatch = (items: QueuedItem[]): EventBatch => {
+  const batch: EventBatch = { events: [], pageViews: [], identifies: [] }
+  items.forEach(item => {
+    if (item.kind === 'events') batch.events.push(item.payload)
+    else if (item.kind === 'pageViews') batch.pageViews.push(item.payload)
+    else batch.identifies.push(item.payload)
+  })
+  return batch
+}
+
 export class AnalyticsService {
   private config: AnalyticsConfig
-  private batch: EventBatch = { events: [], pageViews: [], identifies: [] }
+  private queue: QueuedItem[] = []
+  private flushing = false
+  private retryAttempt = 0
+  private nextRetryAt = 0
+  private retryTimer?: number
   private flushTimer?: number
   private sessionId: string
   private userId?: string
+  private anonymousId?: string
+  private history: AnalyticsEvent[]
+  private consentStatus: ConsentStatus
 
   constructor() {
     // Generate session ID once per app lifecycle
@@ -81,11 +136,29 @@ export class AnalyticsService {
       writeKey: (import.meta as any).env?.VITE_ANALYTICS_WRITE_KEY,
     }
 
+    this.consentStatus = consentService.getStatus('analytics')
+    this.history = storage.get<AnalyticsEvent[]>(HISTORY_STORAGE_KEY, []) || []
+
+    // Pick up events a previous page load could not deliver
+    const persisted = storage.get<QueuedItem[]>(QUEUE_STORAGE_KEY, []) || []
+    persisted.forEach(item => this.enqueue(item, false))
+
+    if (this.consentStatus === 'denied') {
+      this.discardCollected()
+    }
+
+    eventBus.on('consent:updated', ({ categories }) => {
+      this.setConsentStatus(categories.analytics ? 'granted' : 'denied')
+    })
+    eventBus.on('consent:reset', () => this.setConsentStatus('pending'))
+
     // Start batch flushing if enabled
     if (this.config.enabled) {
       this.startBatchFlushing()
     }
 
+    this.bindLifecycleListeners()
+
     // Emit analytics ready event
     eventBus.emit('analytics:ready', { sessionId: this.sessionId, config: this.config })
   }
@@ -93,8 +166,10 @@ export class AnalyticsService {
   // Track custom events
   track(eventName: string, properties: Record<string, unknown> = {}): void {
     if (!this.config.enabled && !this.config.debug) return
+    if (this.consentStatus === 'denied') return
 
     const event: AnalyticsEvent = {
+      id: createId('evt'),
       name: eventName,
       properties: {
         ...properties,
@@ -107,6 +182,7 @@ export class AnalyticsService {
       timestamp: Date.now(),
       userId: this.userId,
       sessionId: this.sessionId,
+      anonymousId: this.anonymousId,
     }
 
     // Debug mode: log to console
@@ -115,8 +191,12 @@ export class AnalyticsService {
       console.log('[Analytics] Track:', eventName, event.properties)
     }
 
-    // Add to batch
-    this.batch.events.push(event)
+    // Add to queue and local history
+    this.enqueue({ kind: 'events', id: event.id!, payload: event })
+    this.history.push(event)
+    if (this.history.length > HISTORY_LIMIT) {
+      this.history.splice(0, this.history.length - HISTORY_LIMIT)
+    }
 
     // Emit to event bus for other parts of app to listen
     eventBus.emit('analytics:event', { name: eventName, properties })
@@ -130,8 +210,10 @@ export class AnalyticsService {
   // Track page views
   page(pageName?: string, properties: Record<string, unknown> = {}): void {
     if (!this.config.enabled && !this.config.debug) return
+    if (this.consentStatus === 'denied') return
 
     const pageView: PageViewEvent = {
+      id: createId('pv'),
       name: pageName,
       path: typeof window !== 'undefined' ? window.location.pathname : undefined,
       referrer: typeof document !== 'undefined' ? document.referrer : undefined,
@@ -152,8 +234,8 @@ export class AnalyticsService {
       console.log('[Analytics] Page:', pageName, pageView)
     }
 
-    // Add to batch
-    this.batch.pageViews.push(pageView)
+    // Add to queue
+    this.enqueue({ kind: 'pageViews', id: pageView.id!, payload: pageView })
 
     // Emit to event bus
     eventBus.emit('analytics:pageview', { name: pageName, properties })
@@ -167,10 +249,12 @@ export class AnalyticsService {
   // Identify user
   identify(userId: string, traits: Record<string, unknown> = {}): void {
     if (!this.config.enabled && !this.config.debug) return
+    if (this.consentStatus === 'denied') return
 
     this.userId = userId
 
     const identifyEvent: IdentifyEvent = {
+      id: createId('idt'),
       userId,
       traits: {
         ...traits,
@@ -186,8 +270,8 @@ export class AnalyticsService {
       console.log('[Analytics] Identify:', userId, traits)
     }
 
-    // Add to batch
-    this.batch.identifies.push(identifyEvent)
+    // Add to queue
+    this.enqueue({ kind: 'identifies', id: identifyEvent.id!, payload: identifyEvent })
 
     // Emit to event bus
     eventBus.emit('analytics:identify', { userId, traits })
@@ -204,13 +288,32 @@ export class AnalyticsService {
   }
 
   // Get current session info
-  getSession(): { sessionId: string; userId?: string } {
+  getSession(): { sessionId: string; userId?: string; anonymousId?: string } {
     return {
       sessionId: this.sessionId,
       userId: this.userId,
+      anonymousId: this.anonymousId,
     }
   }
 
+  // Set the stable visitor id attached to every tracked event
+  setAnonymousId(anonymousId: string): void {
+    this.anonymousId = anonymousId
+  }
+
+  // Recently tracked events, oldest first, optionally limited to some event names
+  getHistory(eventNames?: string[]): AnalyticsEvent[] {
+    return eventNames
+      ? this.history.filter(event => eventNames.includes(event.name))
+      : [...this.history]
+  }
+
+  // Forget locally kept events
+  clearHistory(): void {
+    this.history = []
+    storage.remove(HISTORY_STORAGE_KEY)
+  }
+
   // Enable/disable analytics
   setEnabled(enabled: boolean): void {
     this.config.enabled = enabled
@@ -221,76 +324,245 @@ export class AnalyticsService {
     }
   }
 
+  // Number of events waiting to be delivered
+  getQueueSize(): number {
+    return this.queue.length
+  }
+
+  // Whether the visitor has allowed analytics; events are only delivered once granted
+  getConsentStatus(): ConsentStatus {
+    return this.consentStatus
+  }
+
+  // Private: react to the visitor's analytics consent changing
+  private setConsentStatus(status: ConsentStatus): void {
+    const previous = this.consentStatus
+    this.consentStatus = status
+
+    if (status === 'denied') {
+      this.discardCollected()
+    } else if (status === 'granted' && previous !== 'granted') {
+      // Events held while the visitor was deciding can now be stored and sent
+      this.persistQueue()
+      this.flushBatch()
+    }
+  }
+
+  // Private: forget every queued and locally kept event
+  private discardCollected(): void {
+    this.queue = []
+    this.history = []
+    this.retryAttempt = 0
+    this.nextRetryAt = 0
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = undefined
+    }
+    storage.remove(QUEUE_STORAGE_KEY)
+    storage.remove(HISTORY_STORAGE_KEY)
+  }
+
+  // Private: add an item to the persisted queue, skipping ids already queued
+  private enqueue(item: QueuedItem, persist = true): void {
+    // Debug-only sessions log events without delivering them
+    if (!this.config.enabled) return
+    if (this.queue.some(queued => queued.id === item.id)) return
+
+    this.queue.push(item)
+    if (this.queue.length > QUEUE_LIMIT) {
+      const dropped = this.queue.splice(0, this.queue.length - QUEUE_LIMIT)
+      eventBus.emit('analytics:error', {
+        error: `Analytics queue full, dropped ${dropped.length} oldest event(s)`,
+        context: 'queue'
+      })
+    }
+
+    // Nothing touches storage until the visitor has agreed to analytics
+    if (persist && this.consentStatus === 'granted') {
+      this.persistQueue()
+    }
+  }
+
+  // Private: remove delivered (or undeliverable) items from the queue
+  private dequeue(items: QueuedItem[]): void {
+    const ids = new Set(items.map(item => item.id))
+    this.queue = this.queue.filter(item => !ids.has(item.id))
+    if (this.consentStatus === 'granted') {
+      this.persistQueue()
+    }
+  }
+
+  private persistQueue(): void {
+    if (this.queue.length > 0) {
+      storage.set(QUEUE_STORAGE_KEY, this.queue)
+    } else {
+      storage.remove(QUEUE_STORAGE_KEY)
+    }
+  }
+
+  // Private: request body for a set of queued items
+  private buildPayload(items: QueuedItem[], batchId: string) {
+    return {
+      ...toBatch(items),
+      metadata: {
+        batch_id: batchId,
+        app_name: config.appName,
+        app_version: config.version,
+        session_id: this.sessionId,
+        user_id: this.userId,
+        anonymous_id: this.anonymousId,
+        // Beacons cannot carry headers, so the write key travels in the body as well
+        write_key: this.config.writeKey,
+        flushed_at: Date.now(),
+      },
+    }
+  }
+
   // Private: check if we should flush the batch
   private shouldFlushBatch(): boolean {
-    const totalEvents = this.batch.events.length + this.batch.pageViews.length + this.batch.identifies.length
-    return totalEvents >= this.config.batchSize
+    return this.queue.length >= this.config.batchSize
   }
 
-  // Private: flush current batch to the server
+  // Private: deliver the oldest queued events to the server
   private async flushBatch(): Promise<void> {
-    const currentBatch = { ...this.batch }
-    const totalEvents = currentBatch.events.length + currentBatch.pageViews.length + currentBatch.identifies.length
+    // Nothing to flush, a delivery already in flight, or waiting out a backoff
+    if (this.queue.length === 0 || this.flushing || Date.now() < this.nextRetryAt) return
+
+    // Held in memory until the visitor grants analytics consent
+    if (this.consentStatus !== 'granted') return
+
+    // Offline: keep everything queued until the browser reports it is back
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return
 
-    // Nothing to flush
-    if (totalEvents === 0) return
+    // Persist local history alongside each flush rather than on every event
+    storage.set(HISTORY_STORAGE_KEY, this.history)
 
-    // Clear current batch
-    this.batch = { events: [], pageViews: [], identifies: [] }
+    const items = this.queue.slice(0, MAX_EVENTS_PER_REQUEST)
+    const batchId = createId('batch')
+    const attempt = this.retryAttempt + 1
+    let status: number | undefined
 
-    // In mock/debug mode, just log the batch
-    if (shouldUseMockData || this.config.debug) {
+    if (this.config.debug) {
       // eslint-disable-next-line no-console
-      console.log('[Analytics] Mock flush batch:', currentBatch)
-      eventBus.emit('analytics:batch_sent', { count: totalEvents, mock: true })
-      return
+      console.log('[Analytics] Flushing batch:', batchId, toBatch(items))
     }
 
-    // Send to real endpoint
+    this.flushing = true
     try {
-      const payload = {
-        ...currentBatch,
-        metadata: {
-          app_name: config.appName,
-          app_version: config.version,
-          session_id: this.sessionId,
-          user_id: this.userId,
-          flushed_at: Date.now(),
-        },
-      }
-
       const response = await fetch(this.config.endpoint!, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           ...(this.config.writeKey && { 'Authorization': `Bearer ${this.config.writeKey}` }),
         },
-        body: JSON.stringify(payload),
+        body: JSON.stringify(this.buildPayload(items, batchId)),
       })
 
       if (!response.ok) {
+        status = response.status
         throw new Error(`Analytics API error: ${response.status}`)
       }
 
+      this.dequeue(items)
+      this.retryAttempt = 0
+      this.nextRetryAt = 0
+
       // Emit success event
-      eventBus.emit('analytics:batch_sent', { count: totalEvents, success: true })
+      eventBus.emit('analytics:batch_sent', { count: items.length, batchId, attempt, transport: 'fetch' })
     } catch (error) {
-      // Emit error event
-      eventBus.emit('analytics:batch_error', { error: String(error), count: totalEvents })
-
-      // Re-add events to batch on error (simple retry logic)
-      this.batch.events.unshift(...currentBatch.events)
-      this.batch.pageViews.unshift(...currentBatch.pageViews)
-      this.batch.identifies.unshift(...currentBatch.identifies)
+      if (status !== undefined && !isRetriableStatus(status)) {
+        // The server rejected the batch itself; retrying would fail forever
+        this.dequeue(items)
+        this.retryAttempt = 0
+        this.nextRetryAt = 0
+        eventBus.emit('analytics:batch_error', { error: String(error), count: items.length, batchId, attempt, status, dropped: true })
+      } else {
+        const retryInMs = this.scheduleRetry()
+        eventBus.emit('analytics:batch_error', { error: String(error), count: items.length, batchId, attempt, status, retryInMs })
+      }
 
       // eslint-disable-next-line no-console
       console.error('[Analytics] Batch flush failed:', error)
+    } finally {
+      this.flushing = false
     }
   }
 
+  // Private: back off exponentially after a failed delivery; returns the delay in ms
+  private scheduleRetry(): number {
+    const backoff = Math.min(RETRY_BASE_MS * Math.pow(2, this.retryAttempt), RETRY_MAX_MS)
+    const delay = Math.round(backoff / 2 + Math.random() * (backoff / 2))
+
+    this.retryAttempt++
+    this.nextRetryAt = Date.now() + delay
+
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    if (typeof window !== 'undefined') {
+      this.retryTimer = window.setTimeout(() => {
+        this.retryTimer = undefined
+        this.flushBatch()
+      }, delay)
+    }
+
+    return delay
+  }
+
+  // Private: hand everything queued to the browser as the page goes away
+  private flushWithBeacon(): void {
+    if (this.queue.length === 0 || typeof navigator === 'undefined' || !navigator.sendBeacon) return
+    if (this.consentStatus !== 'granted') return
+    storage.set(HISTORY_STORAGE_KEY, this.history)
+
+    // A beacon queued offline is never delivered, so keep the events persisted for the next online flush
+    if (navigator.onLine === false) return
+
+    let remaining = [...this.queue]
+    while (remaining.length > 0) {
+      // Fit as many events as the beacon size limit allows, always at least one
+      let count = Math.min(remaining.length, MAX_EVENTS_PER_REQUEST)
+      let batchId = createId('beacon')
+      let body = JSON.stringify(this.buildPayload(remaining.slice(0, count), batchId))
+      while (count > 1 && body.length > BEACON_MAX_BYTES) {
+        count = Math.ceil(count / 2)
+        batchId = createId('beacon')
+        body = JSON.stringify(this.buildPayload(remaining.slice(0, count), batchId))
+      }
+
+      const chunk = remaining.slice(0, count)
+      const queued = navigator.sendBeacon(this.config.endpoint!, new Blob([body], { type: 'application/json' }))
+      if (!queued) {
+        // Left in the persisted queue for the next page load
+        eventBus.emit('analytics:batch_error', { error: 'sendBeacon rejected the batch', count: chunk.length, batchId })
+        break
+      }
+
+      this.dequeue(chunk)
+      remaining = remaining.slice(count)
+      eventBus.emit('analytics:batch_sent', { count: chunk.length, batchId, attempt: 1, transport: 'beacon' })
+    }
+  }
+
+  // Private: flush on the way out and as soon as the connection comes back
+  private bindLifecycleListeners(): void {
+    if (typeof window === 'undefined') return
+
+    window.addEventListener('pagehide', () => this.flushWithBeacon())
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushWithBeacon()
+      }
+    })
+    window.addEventListener('online', () => {
+      this.nextRetryAt = 0
+      this.flushBatch()
+    })
+  }
+
   // Private: start periodic batch flushing
   private startBatchFlushing(): void {
     this.stopBatchFlushing()
+    // No timers outside the browser, e.g. when the prerender step evaluates this under Node
+    if (typeof window === 'undefined') return
     this.flushTimer = window.setInterval(() => {
       this.flushBatch()
     }, this.config.flushInterval)
@@ -302,6 +574,10 @@ export class AnalyticsService {
       clearInterval(this.flushTimer)
       this.flushTimer = undefined
     }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = undefined
+    }
   }
 
   // Cleanup on app shutdown
@@ -322,6 +598,8 @@ export const identify = (userId: string, traits?: Record<string, unknown>) => an
 // Development helpers
 export const debugAnalytics = () => ({
   session: analytics.getSession(),
+  queueSize: analytics.getQueueSize(),
+  consent: analytics.getConsentStatus(),
   flush: () => analytics.flush(),
   setEnabled: (enabled: boolean) => analytics.setEnabled(enabled),
 })
@@ -8,12 +8,18 @@
 import { config } from '@/app/config'
 import { ApiResult, ApiError } from '@/core/contracts'
 import { eventBus } from '@/core/events'
+import { ApiRequestContext, HookRegistry, hooks as defaultHooks } from '@/core/hooks'
+import { registerDefaultApiMiddleware } from '@/services/apiMiddleware'
 
 /* src/services/apiClient.ts
 
    Lightweight fetch wrapper that handles baseURL resolution, JSON parsing, 
    error normalization, and provides hooks compatibility for caching patterns.
 
+   Every request runs through the HookRegistry's API middleware chain before it reaches
+   fetch, so auth, tracing ids, api:* events and app middleware (caches, error mapping)
+   apply to all calls. Register more with `hooks.addApiMiddleware`.
+
    Usage:
      import { apiClient } from '@/services/apiClient'
      const result = await apiClient.get('/api/nothing')
@@ -41,25 +47,17 @@ class ApiClient implements ApiClientInterface {
   private readonly defaultTimeout: number = 10000
   private readonly defaultHeaders: Record<string, string>
 
-  constructor() {
+  // Middleware chain every request passes through; see `@/services/apiMiddleware`
+  constructor(private readonly hooks: HookRegistry = defaultHooks) {
     this.baseURL = config.apiBase.startsWith('http') 
       ? config.apiBase 
-      : `${window.location.origin}${config.apiBase}`
+      // No window when the prerender step imports the app in Node
+      : `${typeof window !== 'undefined' ? window.location.origin : ''}${config.apiBase}`
     
     this.defaultHeaders = {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
     }
-
-    // Add auth header if available from localStorage (read-only, no side effects)
-    try {
-      const token = localStorage.getItem('auth_token')
-      if (token) {
-        this.defaultHeaders['Authorization'] = `Bearer ${token}`
-      }
-    } catch {
-      // Ignore localStorage errors in SSR or restricted environments
-    }
   }
 
   private normalizeUrl(path: string): string {
@@ -149,13 +147,6 @@ class ApiClient implements ApiClientInterface {
     body?: unknown,
     options: RequestOptions = {}
   ): Promise<ApiResult<T>> {
-    const url = this.normalizeUrl(path)
-    const timeout = options.timeout ?? this.defaultTimeout
-    const retries = options.retries ?? (config.isDevelopment ? 1 : 0)
-
-    // Emit request start event for debugging/analytics
-    eventBus.emit('api:request_start', { method, path, url })
-
     const headers = {
       ...this.defaultHeaders,
       ...options.headers,
@@ -166,9 +157,21 @@ class ApiClient implements ApiClientInterface {
       delete headers['Content-Type']
     }
 
+    const request: ApiRequestContext = { method, path, body, headers, meta: {} }
+    const result = await this.hooks.runApiMiddleware(request, () => this.send(request, options))
+    return result as ApiResult<T>
+  }
+
+  // End of the middleware chain: performs the fetch described by the (possibly rewritten) request
+  private async send(request: ApiRequestContext, options: RequestOptions): Promise<ApiResult<unknown>> {
+    const { method, body } = request
+    const url = this.normalizeUrl(request.path)
+    const timeout = options.timeout ?? this.defaultTimeout
+    const retries = options.retries ?? (config.isDevelopment ? 1 : 0)
+
     const requestConfig: RequestInit = {
       method,
-      headers,
+      headers: request.headers,
       cache: options.cache ?? 'default',
       signal: options.signal,
     }
@@ -182,8 +185,9 @@ class ApiClient implements ApiClientInterface {
         () => this.executeWithTimeout(fetch(url, requestConfig), timeout, options.signal),
         retries
       )
+      request.status = response.status
 
-      let data: T | undefined
+      let data: unknown
       let error: ApiError | undefined
 
       const contentType = response.headers.get('content-type') || ''
@@ -194,7 +198,7 @@ class ApiClient implements ApiClientInterface {
           const jsonResponse = await response.json()
           
           if (response.ok) {
-            data = jsonResponse as T
+            data = jsonResponse
           } else {
             // Handle structured error response
             error = jsonResponse.error || {
@@ -206,7 +210,7 @@ class ApiClient implements ApiClientInterface {
         } else if (response.ok) {
           // Handle non-JSON success responses
           const textData = await response.text()
-          data = (textData || null) as T
+          data = textData || null
         } else {
           // Handle non-JSON error responses
           const errorText = await response.text()
@@ -228,47 +232,26 @@ class ApiClient implements ApiClientInterface {
         }
       }
 
-      const result: ApiResult<T> = {
+      return {
         ok: response.ok,
         data,
         error
       }
 
-      // Emit completion event
-      eventBus.emit('api:request_complete', { 
-        method, 
-        path, 
-        status: response.status, 
-        success: response.ok 
-      })
-
-      return result
-
     } catch (fetchError) {
-      const error: ApiError = {
-        code: fetchError instanceof Error ? fetchError.name : 'NETWORK_ERROR',
-        message: fetchError instanceof Error ? fetchError.message : 'Network request failed',
-        details: { 
-          url,
-          method,
-          timeout,
-          retries
-        }
-      }
-
-      const result: ApiResult<T> = {
+      return {
         ok: false,
-        error
+        error: {
+          code: fetchError instanceof Error ? fetchError.name : 'NETWORK_ERROR',
+          message: fetchError instanceof Error ? fetchError.message : 'Network request failed',
+          details: { 
+            url,
+            method,
+            timeout,
+            retries
+          }
+        }
       }
-
-      // Emit error event
-      eventBus.emit('api:request_error', { 
-        method, 
-        path, 
-        error: error.message 
-      })
-
-      return result
     }
   }
 
@@ -316,6 +299,9 @@ class ApiClient implements ApiClientInterface {
   }
 }
 
+// Auth, tracing ids, api:* events and the API hook points
+registerDefaultApiMiddleware(defaultHooks)
+
 export const apiClient = new ApiClient()
 
 // Named exports for DI compatibility
@@ -0,0 +1,123 @@
+// filepath: src/services/apiMiddleware.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (registerDefaultApiMiddleware)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for API middleware)
+
+import { eventBus } from '@/core/events'
+import { AfterApiResponseContext, ApiMiddleware, HookRegistry } from '@/core/hooks'
+import { parseJSON, uid } from '@/core/utils'
+
+/* src/services/apiMiddleware.ts
+
+   Built-in ApiClient middleware, outermost first:
+     tracing     - gives every request an X-Request-Id header (kept if the caller set one)
+     events      - emits api:request_start / api:request_complete / api:request_error
+     hookPoints  - runs the `beforeApiRequest` and `afterApiResponse` hook points, whose
+                   handlers may change the headers and body or replace the response
+     auth        - adds the session's bearer token unless the request carries its own
+
+   App middleware registered with the default order runs after these, closest to the network.
+
+   Usage:
+     import { registerDefaultApiMiddleware } from '@/services/apiMiddleware'
+     registerDefaultApiMiddleware(hooks)
+*/
+
+export const API_MIDDLEWARE_ORDER = {
+  tracing: 0,
+  events: 10,
+  hookPoints: 20,
+  auth: 30
+} as const
+
+export const REQUEST_ID_HEADER = 'X-Request-Id'
+
+// Written by AuthProvider through useLocalStorage (JSON encoded)
+const SESSION_TOKEN_KEY = 'auth_session_token'
+// Raw token from the pre-AuthProvider login flow
+const LEGACY_TOKEN_KEY = 'auth_token'
+
+const readStoredToken = (): string | null => {
+  try {
+    return parseJSON<string>(localStorage.getItem(SESSION_TOKEN_KEY)) ?? localStorage.getItem(LEGACY_TOKEN_KEY)
+  } catch {
+    // No localStorage in SSR or restricted environments
+    return null
+  }
+}
+
+export function createTracingMiddleware(generateId: () => string = () => uid('req-')): ApiMiddleware {
+  return (request, next) => {
+    const requestId = request.headers[REQUEST_ID_HEADER] ?? generateId()
+    request.headers[REQUEST_ID_HEADER] = requestId
+    request.meta.requestId = requestId
+    return next()
+  }
+}
+
+export const eventsMiddleware: ApiMiddleware = async (request, next) => {
+  const startedAt = Date.now()
+  const { method, path } = request
+  const requestId = request.meta.requestId as string | undefined
+
+  eventBus.emit('api:request_start', { method, path, requestId })
+  const result = await next()
+
+  // No status means no HTTP response: the network failed or a middleware threw
+  if (request.status === undefined && !result.ok) {
+    eventBus.emit('api:request_error', {
+      method,
+      path,
+      requestId,
+      error: result.error?.message ?? 'Request failed'
+    })
+  } else {
+    eventBus.emit('api:request_complete', {
+      method,
+      path,
+      requestId,
+      // Short-circuited responses never reached the server
+      status: request.status ?? 200,
+      success: result.ok,
+      duration: Date.now() - startedAt
+    })
+  }
+  return result
+}
+
+export function createHookPointsMiddleware(registry: HookRegistry): ApiMiddleware {
+  return async (request, next) => {
+    await registry.run('beforeApiRequest', request)
+
+    const context: AfterApiResponseContext = {
+      path: request.path,
+      method: request.method,
+      response: await next(),
+      meta: request.meta
+    }
+    await registry.run('afterApiResponse', context)
+    return context.response
+  }
+}
+
+// Token is read per request, so a login or logout applies to the next call
+export function createAuthMiddleware(getToken: () => string | null = readStoredToken): ApiMiddleware {
+  return (request, next) => {
+    if (!request.headers['Authorization']) {
+      const token = getToken()
+      if (token) request.headers['Authorization'] = `Bearer ${token}`
+    }
+    return next()
+  }
+}
+
+export function registerDefaultApiMiddleware(registry: HookRegistry): void {
+  registry.addApiMiddleware('tracing', createTracingMiddleware(), { order: API_MIDDLEWARE_ORDER.tracing })
+  registry.addApiMiddleware('events', eventsMiddleware, { order: API_MIDDLEWARE_ORDER.events })
+  registry.addApiMiddleware('hookPoints', createHookPointsMiddleware(registry), { order: API_MIDDLEWARE_ORDER.hookPoints })
+  registry.addApiMiddleware('auth', createAuthMiddleware(), { order: API_MIDDLEWARE_ORDER.auth })
+}
+
+export default registerDefaultApiMiddleware
@@ -0,0 +1,343 @@
+// filepath: src/services/chat.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component (chatService)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for service)
+
+import { shouldUseMockData } from '@/app/config'
+import { ChatConversation, ChatMessage, ChatQuickReply, ChatSender } from '@/core/contracts'
+import { eventBus } from '@/core/events'
+import { BotFlow, BotTurn, respond, startFlow, validateFlow } from '@/features/chat/botFlow'
+import SUPPORT_FLOW from '@/features/chat/supportFlow'
+import { downloadTranscript, TranscriptFormat } from '@/features/chat/transcript'
+import { socketManager } from '@/services/websocket'
+import { storage } from '@/services/storage'
+
+/* src/services/chat.ts
+
+   The support conversation: one persisted history shared by ChatProvider and the widget.
+   A scripted bot answers first; a handoff puts the visitor in the queue for a human, who is
+   simulated in mock mode and reached over the socket otherwise. Typing is announced on the
+   event bus as `chat:typing` and every new message as `chat:message`.
+
+   Usage:
+     import { chatService } from '@/services/chat'
+     const unsubscribe = chatService.subscribe(conversation => render(conversation))
+     chatService.sendMessage('I want a refund')
+     chatService.exportTranscript('text')
+*/
+
+export interface ChatServiceOptions {
+  flow?: BotFlow
+  maxMessages?: number
+}
+
+type ConversationListener = (conversation: ChatConversation) => void
+
+const CONVERSATION_STORAGE_KEY = 'chat-conversation'
+const CONVERSATION_TTL_SECONDS = 7 * 24 * 60 * 60
+
+// Mock human queue: how long each place in line takes, and who eventually answers
+const MOCK_QUEUE_STEP_MS = 2500
+const MOCK_AGENT_NAME = 'Void (human)'
+
+// Pause between consecutive lines from the same speaker
+const LINE_GAP_MS = 150
+
+const createId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+
+// Longer lines take longer to "type", within limits
+const typingDelay = (text: string) => Math.min(600 + text.length * 20, 2500)
+
+const queueMessage = (position: number) =>
+  position === 1
+    ? "You're next in the queue for a human."
+    : `You're number ${position} in the queue for a human.`
+
+function createMessage(from: ChatSender, text: string, extras: Partial<ChatMessage> = {}): ChatMessage {
+  return { id: createId('msg'), from, text, createdAt: new Date().toISOString(), ...extras }
+}
+
+export class ChatService {
+  private flow: BotFlow = SUPPORT_FLOW
+  private maxMessages = 100
+  private conversation: ChatConversation
+  private listeners = new Set<ConversationListener>()
+  private timers = new Set<ReturnType<typeof setTimeout>>()
+  private socketUnsubscribers: Array<() => void> = []
+
+  constructor() {
+    const stored = storage.get<ChatConversation>(CONVERSATION_STORAGE_KEY, null)
+    this.conversation = stored && Array.isArray(stored.messages) ? stored : this.createConversation()
+  }
+
+  configure(options: ChatServiceOptions): void {
+    if (options.flow && options.flow !== this.flow) {
+      const errors = validateFlow(options.flow)
+      if (errors.length > 0) {
+        console.warn(`[Chat] Bot flow "${options.flow.id}" has problems:`, errors)
+      }
+      this.flow = options.flow
+    }
+    if (options.maxMessages) {
+      this.maxMessages = options.maxMessages
+    }
+  }
+
+  getConversation(): ChatConversation {
+    return this.conversation
+  }
+
+  subscribe(listener: ConversationListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Pick up where a reloaded page left off, e.g. a visitor still waiting for a human
+   */
+  resume(): void {
+    if (this.conversation.mode === 'queued' && shouldUseMockData && this.timers.size === 0) {
+      this.advanceMockQueue(this.conversation.queuePosition ?? 1)
+    }
+  }
+
+  sendMessage(text: string): void {
+    const trimmed = text.trim()
+    if (!trimmed) return
+
+    this.appendMessage(createMessage('user', trimmed))
+
+    switch (this.conversation.mode) {
+      case 'bot':
+        this.deliverTurn(respond(this.flow, { text: trimmed }, this.conversation.botStep))
+        break
+      case 'agent':
+        if (shouldUseMockData) {
+          this.mockAgentReply()
+        } else {
+          socketManager.send({ type: 'chat:send', payload: { text: trimmed } })
+        }
+        break
+      case 'queued':
+        // Kept in the transcript; the agent reads it when they join
+        if (!shouldUseMockData) {
+          socketManager.send({ type: 'chat:send', payload: { text: trimmed } })
+        }
+        break
+    }
+  }
+
+  selectQuickReply(reply: ChatQuickReply): void {
+    if (this.conversation.mode !== 'bot') return
+
+    this.appendMessage(createMessage('user', reply.label, { metadata: { quickReplyId: reply.id } }))
+    this.deliverTurn(respond(this.flow, { quickReplyId: reply.id }, this.conversation.botStep))
+  }
+
+  /**
+   * Put the visitor in the queue for a human; only the bot can hand off
+   */
+  requestHuman(reason = 'visitor_request'): void {
+    const { id, mode, messages } = this.conversation
+    if (mode !== 'bot') return
+
+    eventBus.emit('chat:handoff', { conversationId: id, reason })
+
+    if (shouldUseMockData) {
+      const position = 1 + Math.floor(Math.random() * 3)
+      this.update({ mode: 'queued', queuePosition: position })
+      this.appendMessage(createMessage('system', queueMessage(position)))
+      this.advanceMockQueue(position)
+    } else {
+      this.update({ mode: 'queued', queuePosition: undefined })
+      this.appendMessage(createMessage('system', 'Connecting you with a human...'))
+      socketManager.send({ type: 'chat:handoff', payload: { conversationId: id, reason, transcript: messages } })
+    }
+  }
+
+  /**
+   * Drop the current conversation and start over with the bot
+   */
+  reset(): void {
+    this.clearTimers()
+    this.setTyping('bot', false)
+    this.conversation = this.createConversation()
+    this.persistAndNotify()
+  }
+
+  exportTranscript(format: TranscriptFormat): void {
+    downloadTranscript(this.conversation, format)
+    eventBus.emit('chat:transcript_exported', { conversationId: this.conversation.id, format })
+  }
+
+  setUserTyping(isTyping: boolean): void {
+    if (this.conversation.mode === 'agent' && !shouldUseMockData) {
+      socketManager.send({ type: 'chat:typing', payload: { isTyping } })
+    }
+  }
+
+  /**
+   * Listen for the human side of the conversation on the socket
+   */
+  connectSocket(): void {
+    if (this.socketUnsubscribers.length > 0) return
+
+    this.socketUnsubscribers = [
+      socketManager.subscribe<{ from: string; text: string }>('chat:message', ({ from, text }) => {
+        if (this.conversation.mode === 'queued') {
+          this.agentJoined(from)
+        }
+        this.appendMessage(createMessage('agent', text, { authorName: from }))
+      }),
+      socketManager.subscribe<{ from: string; isTyping: boolean }>('chat:typing', ({ isTyping }) => {
+        this.setTyping('agent', isTyping)
+      }),
+      socketManager.subscribe<{ conversationId: string; position: number }>('chat:queue', ({ conversationId, position }) => {
+        if (conversationId !== this.conversation.id) return
+        this.update({ queuePosition: position })
+        this.appendMessage(createMessage('system', queueMessage(position)))
+        eventBus.emit('chat:queue_updated', { conversationId, position })
+      })
+    ]
+    socketManager.connect().catch(() => {
+      // Reconnects are handled by the socket manager
+    })
+  }
+
+  disconnectSocket(): void {
+    this.socketUnsubscribers.forEach(unsubscribe => unsubscribe())
+    this.socketUnsubscribers = []
+  }
+
+  dispose(): void {
+    this.clearTimers()
+    this.disconnectSocket()
+  }
+
+  private createConversation(): ChatConversation {
+    const turn = startFlow(this.flow)
+    const now = new Date().toISOString()
+
+    return {
+      id: createId('conv'),
+      mode: 'bot',
+      botStep: turn.stepId,
+      messages: turn.messages.map((text, index) =>
+        createMessage('bot', text, index === turn.messages.length - 1 ? { quickReplies: turn.quickReplies } : {})
+      ),
+      startedAt: now,
+      updatedAt: now
+    }
+  }
+
+  private deliverTurn(turn: BotTurn): void {
+    this.update({ botStep: turn.stepId })
+    this.speak('bot', turn.messages, {
+      extras: {},
+      lastExtras: { quickReplies: turn.quickReplies },
+      onDone: turn.handoff ? () => this.requestHuman('bot_flow') : undefined
+    })
+  }
+
+  // Say lines one after another, each preceded by a typing indicator
+  private speak(
+    from: 'bot' | 'agent',
+    lines: string[],
+    options: { extras: Partial<ChatMessage>; lastExtras?: Partial<ChatMessage>; onDone?: () => void }
+  ): void {
+    if (lines.length === 0) {
+      options.onDone?.()
+      return
+    }
+
+    let delay = 0
+    lines.forEach((text, index) => {
+      const isLast = index === lines.length - 1
+      this.schedule(() => this.setTyping(from, true), delay)
+      delay += typingDelay(text)
+      this.schedule(() => {
+        this.setTyping(from, false)
+        this.appendMessage(createMessage(from, text, { ...options.extras, ...(isLast ? options.lastExtras : {}) }))
+        if (isLast) options.onDone?.()
+      }, delay)
+      delay += LINE_GAP_MS
+    })
+  }
+
+  private advanceMockQueue(position: number): void {
+    this.schedule(() => {
+      const next = position - 1
+      if (next > 0) {
+        this.update({ queuePosition: next })
+        this.appendMessage(createMessage('system', queueMessage(next)))
+        eventBus.emit('chat:queue_updated', { conversationId: this.conversation.id, position: next })
+        this.advanceMockQueue(next)
+        return
+      }
+
+      this.agentJoined(MOCK_AGENT_NAME)
+      this.mockAgentReply()
+    }, MOCK_QUEUE_STEP_MS)
+  }
+
+  private agentJoined(agentName: string): void {
+    this.update({ mode: 'agent', queuePosition: undefined, agentName })
+    this.appendMessage(createMessage('system', `${agentName} joined the conversation.`))
+    eventBus.emit('chat:agent_joined', { conversationId: this.conversation.id, agentName })
+  }
+
+  private mockAgentReply(): void {
+    const replies = this.flow.agentReplies ?? []
+    if (replies.length === 0) return
+
+    const reply = replies[Math.floor(Math.random() * replies.length)]
+    this.speak('agent', [reply], { extras: { authorName: this.conversation.agentName ?? MOCK_AGENT_NAME } })
+  }
+
+  private setTyping(from: ChatSender, isTyping: boolean): void {
+    eventBus.emit('chat:typing', { from, isTyping })
+  }
+
+  private appendMessage(message: ChatMessage): void {
+    const messages = [...this.conversation.messages, message]
+    this.update({
+      messages: messages.length > this.maxMessages ? messages.slice(-this.maxMessages) : messages
+    })
+    eventBus.emit('chat:message', { from: message.from, text: message.text, timestamp: message.createdAt })
+  }
+
+  private update(patch: Partial<ChatConversation>): void {
+    this.conversation = { ...this.conversation, ...patch, updatedAt: new Date().toISOString() }
+    this.persistAndNotify()
+  }
+
+  private persistAndNotify(): void {
+    storage.set(CONVERSATION_STORAGE_KEY, this.conversation, { ttl: CONVERSATION_TTL_SECONDS })
+    this.listeners.forEach(listener => listener(this.conversation))
+  }
+
+  private schedule(callback: () => void, delay: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer)
+      callback()
+    }, delay)
+    this.timers.add(timer)
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer))
+    this.timers.clear()
+  }
+}
+
+// Singleton instance
+export const chatService = new ChatService()
+
+// Convenience exports
+export const exportChatTranscript = (format: TranscriptFormat) => chatService.exportTranscript(format)
+
+export default chatService
@@ -10,6 +10,7 @@ import { config, shouldUseMockData } from '@/app/config'
 import { eventBus } from '@/core/events'
 import { apiClient } from '@/services/apiClient'
 import { analytics } from '@/services/analytics'
+import { CHECKOUT_PRODUCTS } from '@/core/products'
 
 /* src/services/checkout.ts
 
@@ -52,6 +53,11 @@ export interface PaymentIntent {
   lastError?: string
 }
 
+export interface PromoValidation {
+  valid: boolean
+  discountPercent?: number
+}
+
 export interface CheckoutAnalyticsData {
   productId: string
   amountCents: number
@@ -60,6 +66,22 @@ export interface CheckoutAnalyticsData {
   source: string
 }
 
+// The catalog lives in `@/core/products`; re-exported for existing callers
+export { CHECKOUT_PRODUCTS }
+
+// Payment intents poll until they leave processing
+const PAYMENT_POLL_INTERVAL_MS = 500
+const PAYMENT_POLL_TIMEOUT_MS = 15000
+
+const isTerminalIntent = (intent: PaymentIntent) =>
+  intent.status === 'succeeded' || intent.status === 'failed'
+
+/**
+ * Price after a percentage promo discount, in whole cents
+ */
+export const applyDiscount = (amountCents: number, discountPercent = 0): number =>
+  Math.max(0, Math.round(amountCents * (1 - discountPercent / 100)))
+
 // Mock checkout URLs for development
 const MOCK_CHECKOUT_URLS = {
   basic: '/mock/checkout/basic-nothing',
@@ -116,7 +138,7 @@ export class CheckoutService {
           amount_cents: result.data.amountCents
         })
 
-        eventBus.emit('checkout:session_created', result.data)
+        eventBus.emit('checkout:session_created', { sessionId: result.data.id, url: result.data.url })
       } else {
         analytics.track('checkout_session_failed', {
           product_id: request.productId,
@@ -125,7 +147,7 @@ export class CheckoutService {
 
         eventBus.emit('checkout:session_error', { 
           productId: request.productId, 
-          error: result.error 
+          error: result.error?.message || 'Unknown error'
         })
       }
 
@@ -223,19 +245,56 @@ export class CheckoutService {
     }
   }
 
+  /**
+   * Look up a product that can be bought through checkout
+   */
+  async getProduct(productId: string): Promise<ApiResult<NothingProduct>> {
+    if (shouldUseMockData) {
+      const product = CHECKOUT_PRODUCTS.find(p => p.id === productId)
+      return product
+        ? { ok: true, data: product }
+        : { ok: false, error: { code: 'PRODUCT_NOT_FOUND', message: `Unknown product: ${productId}` } }
+    }
+
+    try {
+      return await apiClient.get<NothingProduct>(`/checkout/products/${productId}`)
+    } catch (error) {
+      return {
+        ok: false,
+        error: {
+          code: 'PRODUCT_FETCH_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch product'
+        }
+      }
+    }
+  }
+
   /**
    * Validate promo code
    */
-  async validatePromoCode(code: string, productId: string): Promise<ApiResult<{ valid: boolean; discountPercent?: number }>> {
+  async validatePromoCode(code: string, productId: string): Promise<ApiResult<PromoValidation>> {
     try {
-      if (shouldUseMockData) {
-        return this.validateMockPromoCode(code, productId)
+      const result = shouldUseMockData
+        ? this.validateMockPromoCode(code, productId)
+        : await apiClient.post<PromoValidation>('/checkout/promo/validate', {
+            code,
+            productId
+          })
+
+      if (result.ok && result.data?.valid) {
+        analytics.track('checkout_promo_applied', {
+          product_id: productId,
+          promo_code: code.toUpperCase(),
+          discount_percent: result.data.discountPercent
+        })
+        eventBus.emit('checkout:promo_applied', {
+          productId,
+          code: code.toUpperCase(),
+          discountPercent: result.data.discountPercent ?? 0
+        })
       }
 
-      return await apiClient.post<{ valid: boolean; discountPercent?: number }>('/checkout/promo/validate', {
-        code,
-        productId
-      })
+      return result
     } catch (error) {
       return {
         ok: false,
@@ -271,18 +330,94 @@ export class CheckoutService {
     }
   }
 
+  /**
+   * Start paying for a session with the chosen method
+   * Payment intents always go over the network; in development the MSW
+   * handlers in src/mocks answer them
+   */
+  async createPaymentIntent(sessionId: string, paymentMethod: string): Promise<ApiResult<PaymentIntent>> {
+    const session = this.sessionCache.get(sessionId)
+    const result = await apiClient.post<PaymentIntent>('/checkout/payment-intents', {
+      sessionId,
+      paymentMethod,
+      amountCents: session?.amountCents,
+      currency: session?.currency
+    })
+
+    if (result.ok && result.data) {
+      eventBus.emit('checkout:payment_intent_created', { sessionId, intentId: result.data.id, paymentMethod })
+    }
+    return result
+  }
+
+  /**
+   * Fetch the current state of a payment intent
+   */
+  async getPaymentIntent(intentId: string): Promise<ApiResult<PaymentIntent>> {
+    return apiClient.get<PaymentIntent>(`/checkout/payment-intents/${intentId}`)
+  }
+
+  /**
+   * Submit a payment intent and wait for it to succeed or fail
+   * Resolves with the settled intent; a failed payment is still an ok result
+   */
+  async confirmPaymentIntent(intentId: string): Promise<ApiResult<PaymentIntent>> {
+    const confirmed = await apiClient.post<PaymentIntent>(`/checkout/payment-intents/${intentId}/confirm`)
+    if (!confirmed.ok || !confirmed.data) {
+      return confirmed
+    }
+
+    eventBus.emit('checkout:payment_processing', { sessionId: confirmed.data.sessionId, intentId })
+
+    let intent = confirmed.data
+    const deadline = Date.now() + PAYMENT_POLL_TIMEOUT_MS
+    while (!isTerminalIntent(intent)) {
+      if (Date.now() > deadline) {
+        return {
+          ok: false,
+          error: { code: 'PAYMENT_TIMEOUT', message: 'Payment is taking longer than expected' }
+        }
+      }
+
+      await new Promise(resolve => setTimeout(resolve, PAYMENT_POLL_INTERVAL_MS))
+      const polled = await this.getPaymentIntent(intentId)
+      if (!polled.ok || !polled.data) {
+        return polled
+      }
+      intent = polled.data
+    }
+
+    if (intent.status === 'succeeded') {
+      const cached = this.sessionCache.get(intent.sessionId)
+      if (cached) {
+        this.sessionCache.set(intent.sessionId, { ...cached, status: 'completed' })
+      }
+
+      analytics.track('checkout_payment_succeeded', { session_id: intent.sessionId, intent_id: intent.id })
+      eventBus.emit('checkout:payment_succeeded', { sessionId: intent.sessionId, intentId: intent.id })
+    } else {
+      analytics.track('checkout_payment_failed', {
+        session_id: intent.sessionId,
+        intent_id: intent.id,
+        error: intent.lastError
+      })
+      eventBus.emit('checkout:payment_failed', {
+        sessionId: intent.sessionId,
+        intentId: intent.id,
+        error: intent.lastError || 'Payment failed'
+      })
+    }
+
+    return { ok: true, data: intent }
+  }
+
   // Private mock implementation methods
   private async createMockSession(request: CheckoutSessionRequest): Promise<ApiResult<CheckoutSession>> {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, MOCK_PROCESSING_DELAYS.create))
 
-    // Mock product pricing
-    const mockPricing: Record<string, number> = {
-      'basic-nothing': 0,
-      'premium-nothing': 999,
-      'enterprise-nothing': 9999,
-      'ultimate-void': 99999
-    }
+    const product = CHECKOUT_PRODUCTS.find(p => p.id === request.productId)
+    const promo = request.promoCode ? this.validateMockPromoCode(request.promoCode, request.productId).data : undefined
 
     const sessionId = `mock_cs_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     const mockUrl = MOCK_CHECKOUT_URLS[request.productId as keyof typeof MOCK_CHECKOUT_URLS] || '/mock/checkout/default'
@@ -292,7 +427,7 @@ export class CheckoutService {
       url: `${window.location.origin}${mockUrl}?session_id=${sessionId}`,
       productId: request.productId,
       userId: request.userId,
-      amountCents: mockPricing[request.productId] || 0,
+      amountCents: applyDiscount(product?.priceCents ?? 0, promo?.valid ? promo.discountPercent : 0),
       currency: 'USD',
       status: 'pending',
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
@@ -349,7 +484,7 @@ export class CheckoutService {
     return { ok: true }
   }
 
-  private validateMockPromoCode(code: string, productId: string): ApiResult<{ valid: boolean; discountPercent?: number }> {
+  private validateMockPromoCode(code: string, productId: string): ApiResult<PromoValidation> {
     const mockPromoCodes: Record<string, number> = {
       'NOTHING50': 50,
       'VOID25': 25,
@@ -399,6 +534,12 @@ export const cancelCheckoutSession = (sessionId: string) =>
 export const validatePromoCode = (code: string, productId: string) => 
   checkoutService.validatePromoCode(code, productId)
 
+export const createPaymentIntent = (sessionId: string, paymentMethod: string) =>
+  checkoutService.createPaymentIntent(sessionId, paymentMethod)
+
+export const confirmPaymentIntent = (intentId: string) =>
+  checkoutService.confirmPaymentIntent(intentId)
+
 // Default export
 export default checkoutService
 
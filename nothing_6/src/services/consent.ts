@@ -0,0 +1,126 @@
+// filepath: src/services/consent.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (consentService)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for service)
+
+import { eventBus } from '@/core/events'
+import { storage } from '@/services/storage'
+
+/* src/services/consent.ts
+
+   Cookie consent by category. `necessary` is always granted; everything else stays off until
+   the visitor decides. Choices are stored through StorageService and every change is
+   announced as `consent:updated` so services can start or stop collecting.
+
+   Usage:
+     import { consentService } from '@/services/consent'
+     if (consentService.hasConsent('analytics')) { ... }
+     consentService.update({ analytics: true, experiments: false })
+*/
+
+export type ConsentCategory = 'necessary' | 'analytics' | 'experiments' | 'marketing'
+
+export type ConsentCategories = Record<ConsentCategory, boolean>
+
+// Consent for a category is pending until the visitor has made any choice
+export type ConsentStatus = 'pending' | 'granted' | 'denied'
+
+export interface ConsentState {
+  categories: ConsentCategories
+  decided: boolean
+  timestamp?: number
+  version: string
+}
+
+export const CONSENT_STORAGE_KEY = 'nothing-cookie-consent'
+
+// Bump when categories change so visitors are asked again
+export const CONSENT_VERSION = '2.0.0'
+
+export const CONSENT_CATEGORIES: ConsentCategory[] = ['necessary', 'analytics', 'experiments', 'marketing']
+
+const DEFAULT_CATEGORIES: ConsentCategories = {
+  necessary: true,
+  analytics: false,
+  experiments: false,
+  marketing: false
+}
+
+export class ConsentService {
+  private state: ConsentState
+
+  constructor() {
+    const stored = storage.get<ConsentState>(CONSENT_STORAGE_KEY, null)
+
+    // Choices made for an older version of the banner are asked again
+    this.state = stored && stored.version === CONSENT_VERSION && stored.decided
+      ? { ...stored, categories: { ...DEFAULT_CATEGORIES, ...stored.categories, necessary: true } }
+      : { categories: { ...DEFAULT_CATEGORIES }, decided: false, version: CONSENT_VERSION }
+  }
+
+  getState(): ConsentState {
+    return { ...this.state, categories: { ...this.state.categories } }
+  }
+
+  hasDecided(): boolean {
+    return this.state.decided
+  }
+
+  hasConsent(category: ConsentCategory): boolean {
+    return this.state.categories[category]
+  }
+
+  getStatus(category: ConsentCategory): ConsentStatus {
+    if (category === 'necessary') return 'granted'
+    if (!this.state.decided) return 'pending'
+    return this.state.categories[category] ? 'granted' : 'denied'
+  }
+
+  /**
+   * Record the visitor's choice; categories left out keep their current value
+   */
+  update(categories: Partial<ConsentCategories>): ConsentState {
+    const previous = this.state.categories
+
+    this.state = {
+      categories: { ...previous, ...categories, necessary: true },
+      decided: true,
+      timestamp: Date.now(),
+      version: CONSENT_VERSION
+    }
+    storage.set(CONSENT_STORAGE_KEY, this.state)
+
+    eventBus.emit('consent:updated', { categories: { ...this.state.categories }, previous })
+    return this.getState()
+  }
+
+  acceptAll(): ConsentState {
+    return this.update({ analytics: true, experiments: true, marketing: true })
+  }
+
+  rejectAll(): ConsentState {
+    return this.update({ analytics: false, experiments: false, marketing: false })
+  }
+
+  /**
+   * Forget the visitor's choice so the banner shows again
+   */
+  reset(): void {
+    const previous = this.state.categories
+    this.state = { categories: { ...DEFAULT_CATEGORIES }, decided: false, version: CONSENT_VERSION }
+    storage.remove(CONSENT_STORAGE_KEY)
+
+    eventBus.emit('consent:reset', { previous })
+  }
+}
+
+// Singleton instance
+export const consentService = new ConsentService()
+
+// Convenience exports
+export const hasConsent = (category: ConsentCategory) => consentService.hasConsent(category)
+export const getConsentStatus = (category: ConsentCategory) => consentService.getStatus(category)
+
+export default consentService
@@ -0,0 +1,125 @@
+// filepath: src/services/endpointClient.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component (endpointClient)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for API client)
+
+import { apiClient, type ApiClientInterface, type RequestOptions } from '@/services/apiClient'
+import type { ApiResult } from '@/core/contracts'
+import {
+  endpoints,
+  type AnyEndpoint,
+  type EndpointInput,
+  type EndpointRegistry,
+  type EndpointResponse
+} from '@/core/endpoints'
+
+/* src/services/endpointClient.ts
+
+   Typed client generated from the endpoint registry in `@/core/endpoints`: one method per
+   endpoint, taking `{ params, body }` as declared there and returning its response type.
+   Path parameters are filled in, query parameters appended, and the request goes through
+   `apiClient` with the endpoint's timeout.
+
+   Usage:
+     import { endpointClient } from '@/services/endpointClient'
+     const result = await endpointClient.listTestimonials({ params: { page: 2 } })
+     await endpointClient.subscribeNewsletter({ body: { email } })
+*/
+
+export type EndpointMethod<E> = Record<never, never> extends EndpointInput<E>
+  ? (input?: EndpointInput<E>, options?: RequestOptions) => Promise<ApiResult<EndpointResponse<E>>>
+  : (input: EndpointInput<E>, options?: RequestOptions) => Promise<ApiResult<EndpointResponse<E>>>
+
+export type EndpointClient<R> = { [K in keyof R]: EndpointMethod<R[K]> }
+
+export interface EndpointCallInput {
+  params?: Record<string, unknown>
+  body?: unknown
+}
+
+const PATH_PARAM_PATTERN = /:([A-Za-z0-9_]+)/g
+
+/**
+ * Resolve an endpoint path with its parameters, e.g. `/products/nothing/nothing-basic?limit=3`.
+ * Returns null when a path parameter is missing.
+ */
+export function buildEndpointPath(endpoint: AnyEndpoint, params: Record<string, unknown> = {}): string | null {
+  let missing = false
+  const path = endpoint.path.replace(PATH_PARAM_PATTERN, (_match, name: string) => {
+    const value = params[name]
+    if (value === undefined || value === null || value === '') {
+      missing = true
+      return ''
+    }
+    return encodeURIComponent(String(value))
+  })
+  if (missing) return null
+
+  const query = new URLSearchParams()
+  endpoint.params
+    ?.filter(param => param.in === 'query')
+    .forEach(param => {
+      const value = params[param.name]
+      if (value !== undefined && value !== null && value !== '') {
+        query.set(param.name, String(value))
+      }
+    })
+
+  const search = query.toString()
+  return search ? `${path}?${search}` : path
+}
+
+/**
+ * Call any registered endpoint; the typed methods on `endpointClient` go through here
+ */
+export async function callEndpoint<T = unknown>(
+  endpoint: AnyEndpoint,
+  input: EndpointCallInput = {},
+  options: RequestOptions = {},
+  client: ApiClientInterface = apiClient
+): Promise<ApiResult<T>> {
+  const path = buildEndpointPath(endpoint, input.params)
+  if (path === null) {
+    const required = endpoint.params?.filter(param => param.in === 'path').map(param => param.name) ?? []
+    return {
+      ok: false,
+      error: {
+        code: 'INVALID_REQUEST',
+        message: `Missing path parameter: ${required.join(', ')}`
+      }
+    }
+  }
+
+  const requestOptions: RequestOptions = { timeout: endpoint.timeout, ...options }
+
+  switch (endpoint.method) {
+    case 'GET':
+      return client.get<T>(path, requestOptions)
+    case 'POST':
+      return client.post<T>(path, input.body, requestOptions)
+    case 'PUT':
+      return client.put<T>(path, input.body, requestOptions)
+    case 'PATCH':
+      return client.patch<T>(path, input.body, requestOptions)
+    case 'DELETE':
+      return client.del<T>(path, requestOptions)
+  }
+}
+
+export function createEndpointClient<R extends Record<string, AnyEndpoint>>(
+  registry: R,
+  client: ApiClientInterface = apiClient
+): EndpointClient<R> {
+  const methods: Record<string, (input?: EndpointCallInput, options?: RequestOptions) => Promise<ApiResult<unknown>>> = {}
+
+  Object.entries(registry).forEach(([id, endpoint]) => {
+    methods[id] = (input, options) => callEndpoint(endpoint, input, options, client)
+  })
+
+  return methods as EndpointClient<R>
+}
+
+export const endpointClient: EndpointClient<EndpointRegistry> = createEndpointClient(endpoints)
+export default endpointClient
@@ -0,0 +1,389 @@
+// filepath: src/services/errorReporter.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component (errorReporter)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for error reporter)
+
+import { config } from '@/app/config'
+import { eventBus } from '@/core/events'
+import { uid } from '@/core/utils'
+import { storage } from '@/services/storage'
+
+/* src/services/errorReporter.ts
+
+   Local error reporter. Every `app:error` becomes a report carrying the last breadcrumbs seen
+   on the event bus (route changes, API calls, clicks), and reports with the same fingerprint
+   (error name, message with ids and numbers masked, top stack frame) are grouped. Reports and
+   groups are kept in StorageService for the developer error console (/internal/errors) and
+   POSTed to `config.errorReportEndpoint`; undelivered reports go out with the next error, when
+   the browser comes back online or on the next page load.
+
+   `install()` wires up the breadcrumb sources and turns uncaught errors and unhandled promise
+   rejections into `app:error`. Nothing runs on import, so the prerender step can load it.
+
+   Usage:
+     import { errorReporter } from '@/services/errorReporter'
+     errorReporter.install()
+     eventBus.emit('app:error', { type: 'checkout_failed', error })
+     errorReporter.getGroups()
+*/
+
+export type ErrorSeverity = 'low' | 'medium' | 'high' | 'critical'
+
+export type BreadcrumbCategory = 'navigation' | 'api' | 'ui' | 'error'
+
+export interface Breadcrumb {
+  category: BreadcrumbCategory
+  message: string
+  timestamp: number
+  data?: Record<string, unknown>
+}
+
+export interface ErrorReport {
+  id: string
+  fingerprint: string
+  name: string
+  message: string
+  stack?: string
+  componentStack?: string
+  type: string // app:error type, e.g. boundary, uncaught_error, unhandled_rejection
+  severity: ErrorSeverity
+  timestamp: string
+  url?: string
+  userAgent?: string
+  breadcrumbs: Breadcrumb[]
+  sent: boolean
+}
+
+export interface ErrorGroup {
+  fingerprint: string
+  name: string
+  message: string
+  severity: ErrorSeverity
+  count: number
+  firstSeen: string
+  lastSeen: string
+  lastReportId: string
+}
+
+export interface CaptureContext {
+  type?: string
+  errorId?: string
+  severity?: ErrorSeverity
+  componentStack?: string
+}
+
+const MAX_BREADCRUMBS = 30
+const MAX_REPORTS = 50
+const MAX_GROUPS = 100
+/** Browsers refuse keepalive requests whose bodies add up to more than 64 KB */
+const KEEPALIVE_MAX_BYTES = 60 * 1024
+const STORAGE_NAMESPACE = 'errors'
+const REPORTS_KEY = 'reports'
+const GROUPS_KEY = 'groups'
+
+const severityRank: Record<ErrorSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 }
+
+/**
+ * Classify an error by its message and stack
+ */
+export function getErrorSeverity(error: Pick<Error, 'message' | 'stack'>): ErrorSeverity {
+  const errorMessage = error.message.toLowerCase()
+  const errorStack = error.stack?.toLowerCase() || ''
+
+  // Critical errors
+  if (errorMessage.includes('out of memory') ||
+      errorMessage.includes('maximum call stack') ||
+      errorStack.includes('react-dom') && errorStack.includes('render')) {
+    return 'critical'
+  }
+
+  // High severity
+  if (errorMessage.includes('network') ||
+      errorMessage.includes('fetch') ||
+      errorMessage.includes('chunk load') ||
+      errorStack.includes('async')) {
+    return 'high'
+  }
+
+  // Medium severity
+  if (errorMessage.includes('undefined') ||
+      errorMessage.includes('null') ||
+      errorMessage.includes('cannot read')) {
+    return 'medium'
+  }
+
+  return 'low'
+}
+
+export function generateErrorId(): string {
+  return uid('err_')
+}
+
+// Whatever was thrown or rejected, as name/message/stack
+const normalizeError = (error: unknown): Pick<Error, 'name' | 'message' | 'stack'> => {
+  if (error instanceof Error) return { name: error.name, message: error.message, stack: error.stack }
+  if (typeof error === 'string') return { name: 'Error', message: error }
+  if (error && typeof error === 'object' && 'message' in error) {
+    const { name, message, stack } = error as Partial<Error>
+    return { name: name || 'Error', message: String(message), stack }
+  }
+  return { name: 'NonError', message: String(error) }
+}
+
+// Ids, numbers, quoted values and URLs vary between occurrences of the same bug
+const maskMessage = (message: string) =>
+  message
+    .replace(/https?:\/\/\S+/g, '<url>')
+    .replace(/(["'`]).*?\1/g, '<value>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\d+/g, '<n>')
+
+// First stack frame without line, column or query string, so rebuilds group together
+const topFrame = (stack?: string) => {
+  const frame = stack?.split('\n').map(line => line.trim()).find(line => line.startsWith('at ') || line.includes('@'))
+  return frame ? frame.replace(/\?[^\s):]*/g, '').replace(/(:\d+)+\)?$/, '') : ''
+}
+
+// djb2; stable and short, not meant to be collision-proof
+const hash = (input: string) => {
+  let value = 5381
+  for (let i = 0; i < input.length; i++) {
+    value = ((value << 5) + value + input.charCodeAt(i)) | 0
+  }
+  return (value >>> 0).toString(36)
+}
+
+// Encoded size, since the keepalive limit counts bytes rather than characters
+const byteLength = (body: string) => new TextEncoder().encode(body).length
+
+export function fingerprintError(error: Pick<Error, 'name' | 'message' | 'stack'>): string {
+  return hash(`${error.name}|${maskMessage(error.message)}|${topFrame(error.stack)}`)
+}
+
+// Short description of a clicked control for breadcrumbs
+const describeTarget = (element: Element): string => {
+  const tag = element.tagName.toLowerCase()
+  const label = element.getAttribute('aria-label') || element.textContent?.trim().replace(/\s+/g, ' ') || ''
+  return `${tag}${element.id ? `#${element.id}` : ''}${label ? ` "${label.slice(0, 40)}"` : ''}`
+}
+
+export class ErrorReporter {
+  private breadcrumbs: Breadcrumb[] = []
+  private reports: ErrorReport[]
+  private groups: Record<string, ErrorGroup>
+  private sending = false
+  private uninstall: (() => void) | null = null
+
+  constructor(private readonly endpoint: string = config.errorReportEndpoint) {
+    this.reports = storage.get<ErrorReport[]>(REPORTS_KEY, [], { namespace: STORAGE_NAMESPACE }) || []
+    this.groups = storage.get<Record<string, ErrorGroup>>(GROUPS_KEY, {}, { namespace: STORAGE_NAMESPACE }) || {}
+  }
+
+  // Start collecting; calling it again is a no-op. Returns a function that stops collecting.
+  install(): () => void {
+    if (this.uninstall) return this.uninstall
+
+    const cleanups = [
+      eventBus.on('app:error', ({ error, type, errorId, severity, componentStack }) => {
+        this.captureError(error, { type, errorId, severity, componentStack })
+      }),
+      eventBus.on('route:changed', ({ from, to }) => {
+        this.addBreadcrumb('navigation', from ? `${from} → ${to}` : to)
+      }),
+      eventBus.on('analytics:event', ({ name, properties }) => {
+        if (name === 'page_view') this.addBreadcrumb('navigation', String(properties?.path ?? ''), properties)
+      }),
+      eventBus.on('api:request_complete', ({ method, path, status, duration, requestId }) => {
+        this.addBreadcrumb('api', `${method} ${path} ${status}`, { duration, requestId })
+      }),
+      eventBus.on('api:request_error', ({ method, path, error, requestId }) => {
+        this.addBreadcrumb('api', `${method} ${path} failed: ${String(error)}`, { requestId })
+      }),
+      eventBus.on('ui:click', ({ target, path }) => {
+        this.addBreadcrumb('ui', `click ${target}`, path ? { path } : undefined)
+      })
+    ]
+
+    if (typeof window !== 'undefined') {
+      const handleError = (event: ErrorEvent) => {
+        eventBus.emit('app:error', { type: 'uncaught_error', error: event.error ?? event.message })
+      }
+      const handleRejection = (event: PromiseRejectionEvent) => {
+        eventBus.emit('app:error', { type: 'unhandled_rejection', error: event.reason })
+      }
+      // Capture phase, so clicks are seen even when a handler stops propagation
+      const handleClick = (event: MouseEvent) => {
+        const target = (event.target as Element | null)?.closest?.('a, button, [role="button"], input, select')
+        if (target) eventBus.emit('ui:click', { target: describeTarget(target), path: window.location.pathname })
+      }
+      const handleOnline = () => {
+        this.flush()
+      }
+
+      window.addEventListener('error', handleError)
+      window.addEventListener('unhandledrejection', handleRejection)
+      window.addEventListener('online', handleOnline)
+      document.addEventListener('click', handleClick, true)
+      cleanups.push(() => {
+        window.removeEventListener('error', handleError)
+        window.removeEventListener('unhandledrejection', handleRejection)
+        window.removeEventListener('online', handleOnline)
+        document.removeEventListener('click', handleClick, true)
+      })
+    }
+
+    // Reports a previous page load could not deliver
+    this.flush()
+
+    this.uninstall = () => {
+      cleanups.forEach(cleanup => cleanup())
+      this.uninstall = null
+    }
+    return this.uninstall
+  }
+
+  addBreadcrumb(category: BreadcrumbCategory, message: string, data?: Record<string, unknown>): void {
+    this.breadcrumbs.push({ category, message, timestamp: Date.now(), ...(data && { data }) })
+    if (this.breadcrumbs.length > MAX_BREADCRUMBS) {
+      this.breadcrumbs.shift()
+    }
+  }
+
+  captureError(error: unknown, context: CaptureContext = {}): ErrorReport {
+    const normalized = normalizeError(error)
+    const fingerprint = fingerprintError(normalized)
+    const severity = context.severity ?? getErrorSeverity(normalized)
+    const timestamp = new Date().toISOString()
+
+    const report: ErrorReport = {
+      id: context.errorId ?? generateErrorId(),
+      fingerprint,
+      ...normalized,
+      componentStack: context.componentStack,
+      type: context.type ?? 'app',
+      severity,
+      timestamp,
+      url: typeof window !== 'undefined' ? window.location.href : undefined,
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+      breadcrumbs: [...this.breadcrumbs],
+      sent: false
+    }
+
+    const existing = this.groups[fingerprint]
+    const group: ErrorGroup = {
+      fingerprint,
+      name: normalized.name,
+      message: normalized.message,
+      // A group is as severe as its worst occurrence
+      severity: existing && severityRank[existing.severity] > severityRank[severity] ? existing.severity : severity,
+      count: (existing?.count ?? 0) + 1,
+      firstSeen: existing?.firstSeen ?? timestamp,
+      lastSeen: timestamp,
+      lastReportId: report.id
+    }
+    this.groups[fingerprint] = group
+
+    this.reports = [...this.reports, report].slice(-MAX_REPORTS)
+    this.trimGroups()
+    this.addBreadcrumb('error', `${normalized.name}: ${normalized.message}`, { errorId: report.id })
+    this.persist()
+
+    eventBus.emit('error:captured', { errorId: report.id, fingerprint, severity, count: group.count })
+    this.flush()
+    return report
+  }
+
+  // POST every undelivered report in batches that fit a keepalive request; failures stay queued
+  async flush(): Promise<void> {
+    const pending = this.reports.filter(report => !report.sent)
+    if (!this.endpoint || this.sending || pending.length === 0) return
+    if (typeof fetch === 'undefined') return
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return
+
+    this.sending = true
+    let delivered = false
+    try {
+      let remaining = pending
+      while (remaining.length > 0) {
+        // Halve the batch until it fits, always sending at least one report
+        let count = remaining.length
+        let body = JSON.stringify({ reports: remaining })
+        while (count > 1 && byteLength(body) > KEEPALIVE_MAX_BYTES) {
+          count = Math.ceil(count / 2)
+          body = JSON.stringify({ reports: remaining.slice(0, count) })
+        }
+        const batch = remaining.slice(0, count)
+
+        // Plain fetch: going through apiClient would put the report's own request in the breadcrumbs
+        const response = await fetch(this.endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+          // A single report too large for keepalive still goes out, just not across unloads
+          keepalive: byteLength(body) <= KEEPALIVE_MAX_BYTES
+        })
+        if (!response.ok) throw new Error(`Error report endpoint returned ${response.status}`)
+
+        const sentIds = new Set(batch.map(report => report.id))
+        this.reports = this.reports.map(report => (sentIds.has(report.id) ? { ...report, sent: true } : report))
+        this.persist()
+        delivered = true
+        eventBus.emit('error:reports_sent', { count: batch.length })
+        remaining = remaining.slice(count)
+      }
+    } catch (error) {
+      // Reporting must never raise app:error itself
+      console.warn('[ErrorReporter] Could not send error reports:', error)
+    } finally {
+      this.sending = false
+    }
+
+    // Errors captured while this batch was in flight
+    if (delivered && this.reports.some(report => !report.sent)) {
+      await this.flush()
+    }
+  }
+
+  getBreadcrumbs(): Breadcrumb[] {
+    return [...this.breadcrumbs]
+  }
+
+  // Newest first
+  getReports(): ErrorReport[] {
+    return [...this.reports].reverse()
+  }
+
+  getReport(id: string): ErrorReport | undefined {
+    return this.reports.find(report => report.id === id)
+  }
+
+  // Most recently seen first
+  getGroups(): ErrorGroup[] {
+    return Object.values(this.groups).sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))
+  }
+
+  clear(): void {
+    this.reports = []
+    this.groups = {}
+    this.breadcrumbs = []
+    storage.clear(STORAGE_NAMESPACE)
+  }
+
+  private trimGroups(): void {
+    const groups = this.getGroups()
+    if (groups.length <= MAX_GROUPS) return
+    this.groups = Object.fromEntries(groups.slice(0, MAX_GROUPS).map(group => [group.fingerprint, group]))
+  }
+
+  private persist(): void {
+    storage.set(REPORTS_KEY, this.reports, { namespace: STORAGE_NAMESPACE })
+    storage.set(GROUPS_KEY, this.groups, { namespace: STORAGE_NAMESPACE })
+  }
+}
+
+export const errorReporter = new ErrorReporter()
+
+// Default export is the error reporter instance
+export default errorReporter
@@ -0,0 +1,315 @@
+// filepath: src/services/experiments.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [x] Reads config from `@/app/config`
+// [x] Exports default named component (experimentResultsService)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for service)
+
+import { ApiResult } from '@/core/contracts'
+import { shouldUseMockData } from '@/app/config'
+import type { ABTestExperiment, ABTestGoal } from '@/providers/ABTestProvider'
+import { apiClient } from '@/services/apiClient'
+import { analytics, AnalyticsEvent } from '@/services/analytics'
+import {
+  ConfidenceInterval,
+  ProportionSample,
+  SequentialTestResult,
+  sequentialTest,
+  wilsonInterval
+} from '@/utils/statistics'
+
+/* src/services/experiments.ts
+
+   Experiment results: joins `ab_test_exposure` events with each experiment's conversion
+   goals and reports per-variant conversion rates, confidence intervals and a sequential
+   significance test against the control (first) variant.
+
+   Events come from the local AnalyticsService history in mock mode (optionally padded with
+   deterministic sample traffic) and from the analytics backend otherwise.
+
+   Usage:
+     import { experimentResultsService } from '@/services/experiments'
+     const result = await experimentResultsService.getResults(experiment)
+*/
+
+export const EXPOSURE_EVENT = 'ab_test_exposure'
+
+export interface VariantGoalResult {
+  variantId: string
+  variantName: string
+  isControl: boolean
+  exposures: number
+  conversions: number
+  rate: number
+  interval: ConfidenceInterval
+  // Relative change in rate against control; undefined for the control or when control is 0
+  lift?: number
+  test?: SequentialTestResult
+}
+
+export interface GoalResult {
+  goal: ABTestGoal
+  variants: VariantGoalResult[]
+}
+
+export interface ExperimentResults {
+  experimentId: string
+  totalExposures: number
+  goals: GoalResult[]
+  generatedAt: number
+  source: 'local' | 'sample' | 'api'
+}
+
+export interface ExperimentResultsOptions {
+  confidence?: number
+  tau?: number
+  includeSampleTraffic?: boolean
+}
+
+export interface ExposedVisitor {
+  variantId: string
+  exposedAt: number
+  // First conversion time per goal id
+  conversions: Record<string, number>
+}
+
+// Interim looks for the sequential test are taken every this many exposures
+const LOOK_INTERVAL = 50
+const SAMPLE_VISITORS = 2000
+
+// Exposures and goal events are joined on the visitor's bucketing id
+const visitorKey = (event: AnalyticsEvent): string | undefined =>
+  event.anonymousId || (event.properties?.user_id as string | undefined) || event.userId || event.sessionId
+
+const eventTime = (event: AnalyticsEvent): number =>
+  event.timestamp ?? (event.properties?.timestamp as number | undefined) ?? 0
+
+const matchesGoal = (event: AnalyticsEvent, goal: ABTestGoal): boolean =>
+  event.name === goal.event &&
+  Object.entries(goal.properties ?? {}).every(([key, value]) => event.properties?.[key] === value)
+
+/**
+ * First unforced exposure per visitor, with the first conversion on each goal that followed it
+ */
+export function joinExposures(experiment: ABTestExperiment, events: AnalyticsEvent[]): ExposedVisitor[] {
+  const goals = experiment.goals ?? []
+  const sorted = [...events].sort((a, b) => eventTime(a) - eventTime(b))
+  const visitors = new Map<string, ExposedVisitor>()
+
+  for (const event of sorted) {
+    const key = visitorKey(event)
+    if (!key) continue
+
+    if (event.name === EXPOSURE_EVENT) {
+      const props = event.properties ?? {}
+      if (props.experiment_id !== experiment.id || props.forced || visitors.has(key)) continue
+      if (!experiment.variants.some(v => v.id === props.variant)) continue
+
+      visitors.set(key, { variantId: String(props.variant), exposedAt: eventTime(event), conversions: {} })
+      continue
+    }
+
+    const visitor = visitors.get(key)
+    if (!visitor) continue
+
+    for (const goal of goals) {
+      if (visitor.conversions[goal.id] === undefined && matchesGoal(event, goal)) {
+        visitor.conversions[goal.id] = eventTime(event)
+      }
+    }
+  }
+
+  return Array.from(visitors.values()).sort((a, b) => a.exposedAt - b.exposedAt)
+}
+
+/**
+ * Per-goal, per-variant results for an experiment from its joined visitors
+ */
+export function analyzeExperiment(
+  experiment: ABTestExperiment,
+  visitors: ExposedVisitor[],
+  options: Pick<ExperimentResultsOptions, 'confidence' | 'tau'> = {}
+): GoalResult[] {
+  const { confidence = 0.95, tau } = options
+  const alpha = 1 - confidence
+  const control = experiment.variants[0]
+
+  // Cumulative samples for a variant and goal as of a point in time
+  const sampleAt = (variantId: string, goalId: string, time: number): ProportionSample => {
+    let trials = 0
+    let successes = 0
+    for (const visitor of visitors) {
+      if (visitor.variantId !== variantId || visitor.exposedAt > time) continue
+      trials++
+      const convertedAt = visitor.conversions[goalId]
+      if (convertedAt !== undefined && convertedAt <= time) successes++
+    }
+    return { trials, successes }
+  }
+
+  const lookTimes = visitors
+    .filter((_, index) => (index + 1) % LOOK_INTERVAL === 0)
+    .map(visitor => visitor.exposedAt)
+  lookTimes.push(Infinity)
+
+  return (experiment.goals ?? []).map(goal => {
+    const controlSample = sampleAt(control.id, goal.id, Infinity)
+    const controlRate = controlSample.trials ? controlSample.successes / controlSample.trials : 0
+
+    const variants = experiment.variants.map((variant): VariantGoalResult => {
+      const sample = sampleAt(variant.id, goal.id, Infinity)
+      const rate = sample.trials ? sample.successes / sample.trials : 0
+      const isControl = variant.id === control.id
+
+      const result: VariantGoalResult = {
+        variantId: variant.id,
+        variantName: variant.name,
+        isControl,
+        exposures: sample.trials,
+        conversions: sample.successes,
+        rate,
+        interval: wilsonInterval(sample, confidence)
+      }
+
+      if (!isControl) {
+        result.lift = controlRate > 0 ? (rate - controlRate) / controlRate : undefined
+        result.test = sequentialTest(
+          lookTimes.map(time => ({
+            control: sampleAt(control.id, goal.id, time),
+            treatment: sampleAt(variant.id, goal.id, time)
+          })),
+          { alpha, tau }
+        )
+      }
+
+      return result
+    })
+
+    return { goal, variants }
+  })
+}
+
+// Small seeded PRNG (mulberry32) so sample traffic is the same on every load
+function createRandom(seedText: string): () => number {
+  let seed = 0
+  for (let i = 0; i < seedText.length; i++) {
+    seed = (Math.imul(31, seed) + seedText.charCodeAt(i)) | 0
+  }
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Deterministic sample exposures and conversions so the dashboard has something to show in development
+ * Each variant after the control converts a little better or worse than it
+ */
+export function generateSampleEvents(experiment: ABTestExperiment, visitorCount = SAMPLE_VISITORS): AnalyticsEvent[] {
+  const random = createRandom(experiment.id)
+  const goals = experiment.goals ?? []
+  const totalWeight = experiment.variants.reduce((sum, v) => sum + v.weight, 0) || 1
+  const start = Date.now() - 14 * 24 * 60 * 60 * 1000
+  const step = (14 * 24 * 60 * 60 * 1000) / visitorCount
+  const events: AnalyticsEvent[] = []
+
+  const effects = experiment.variants.map((_, index) => (index === 0 ? 1 : 0.8 + random() * 0.6))
+
+  for (let i = 0; i < visitorCount; i++) {
+    const anonymousId = `sample-${experiment.id}-${i}`
+    const exposedAt = start + i * step
+
+    let pick = random() * totalWeight
+    let variantIndex = experiment.variants.findIndex(v => (pick -= v.weight) < 0)
+    if (variantIndex < 0) variantIndex = 0
+
+    events.push({
+      name: EXPOSURE_EVENT,
+      properties: { experiment_id: experiment.id, variant: experiment.variants[variantIndex].id, user_id: anonymousId },
+      timestamp: exposedAt,
+      anonymousId
+    })
+
+    // Later goals in the list are deeper in the funnel and convert less often
+    goals.forEach((goal, goalIndex) => {
+      const baseRate = 0.12 / (goalIndex * 2 + 1)
+      if (random() < baseRate * effects[variantIndex]) {
+        events.push({
+          name: goal.event,
+          properties: { ...goal.properties },
+          timestamp: exposedAt + Math.round(random() * step),
+          anonymousId
+        })
+      }
+    })
+  }
+
+  return events
+}
+
+export class ExperimentResultsService {
+  /**
+   * Results for every goal of an experiment
+   */
+  async getResults(
+    experiment: ABTestExperiment,
+    options: ExperimentResultsOptions = {}
+  ): Promise<ApiResult<ExperimentResults>> {
+    const { includeSampleTraffic = shouldUseMockData } = options
+
+    try {
+      let events: AnalyticsEvent[]
+      let source: ExperimentResults['source']
+
+      if (shouldUseMockData) {
+        const goalEvents = (experiment.goals ?? []).map(goal => goal.event)
+        events = analytics.getHistory([EXPOSURE_EVENT, ...goalEvents])
+        source = 'local'
+
+        if (includeSampleTraffic) {
+          events = [...generateSampleEvents(experiment), ...events]
+          source = 'sample'
+        }
+      } else {
+        const result = await apiClient.get<AnalyticsEvent[]>(`/experiments/${experiment.id}/events`)
+        if (!result.ok || !result.data) {
+          return { ok: false, error: result.error }
+        }
+        events = result.data
+        source = 'api'
+      }
+
+      const visitors = joinExposures(experiment, events)
+
+      return {
+        ok: true,
+        data: {
+          experimentId: experiment.id,
+          totalExposures: visitors.length,
+          goals: analyzeExperiment(experiment, visitors, options),
+          generatedAt: Date.now(),
+          source
+        }
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: {
+          code: 'EXPERIMENT_RESULTS_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to compute experiment results'
+        }
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const experimentResultsService = new ExperimentResultsService()
+
+// Convenience exports
+export const getExperimentResults = (experiment: ABTestExperiment, options?: ExperimentResultsOptions) =>
+  experimentResultsService.getResults(experiment, options)
+
+export default experimentResultsService
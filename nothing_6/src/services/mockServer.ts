@@ -16,7 +16,6 @@
 
 import { appConfig, isDevelopment, shouldUseMockData } from '@/app/config'
 import { eventBus } from '@/core/events'
-import { hooks } from '@/core/hooks'
 import { server } from '@/mocks/server'
 
 let isServerRunning = false
@@ -93,32 +92,6 @@ export async function startMockServer(options: MockServerOptions = {}): Promise<
           count: mockServerState.requestCount,
         },
       })
-
-      // Run hooks for API request interception
-      hooks.run('beforeApiRequest', {
-        path: request.url,
-        method: request.method,
-        meta: { mock: true, timestamp: Date.now() },
-      }).catch(err => {
-        console.error('[MockServer] Hook error:', err)
-      })
-    })
-
-    // Set up response interceptor
-    server.events.on('request:match', ({ request, response }) => {
-      hooks.run('afterApiResponse', {
-        path: request.url,
-        method: request.method,
-        response: {
-          ok: response.status >= 200 && response.status < 300,
-          status: response.status,
-          data: response.body,
-          error: response.status >= 400 ? `Mock error ${response.status}` : undefined,
-        },
-        meta: { mock: true, timestamp: Date.now() },
-      }).catch(err => {
-        console.error('[MockServer] Hook error:', err)
-      })
     })
 
     // Start the server
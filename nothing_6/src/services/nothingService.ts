@@ -5,7 +5,7 @@
 // [x] Exports default named component (nothingService)
 // [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for service)
 
-import { apiClient } from '@/services/apiClient'
+import { endpointClient } from '@/services/endpointClient'
 import { 
   ApiResult, 
   Testimonial, 
@@ -13,33 +13,33 @@ import {
   CaseStudy, 
   RoadmapItem,
   PaginatedResponse,
-  NothingProduct
+  NothingProduct,
+  StatusResponse
 } from '@/core/contracts'
-import { config, shouldUseMockData } from '@/app/config'
+import { shouldUseMockData } from '@/app/config'
 import { eventBus } from '@/core/events'
+import {
+  mockCaseStudies,
+  mockPricing,
+  mockProducts,
+  mockRoadmap,
+  mockStatus,
+  mockTestimonials,
+  paginate
+} from '@/mocks/data'
 
 /* src/services/nothingService.ts
 
    Domain service for "nothing" API endpoints. Provides typed methods for fetching testimonials, 
    pricing, case studies, status data, and real-time subscriptions. Handles mock data in dev mode.
+   Requests go through the generated `endpointClient`, so paths and params follow `@/core/endpoints`.
 
    Usage:
      import { nothingService } from '@/services/nothingService'
      const testimonials = await nothingService.fetchTestimonials()
 */
 
-export interface StatusResponse {
-  uptime: number
-  nothingDelivered: number
-  satisfaction: number
-  incidents: Array<{
-    id: string
-    title: string
-    status: 'investigating' | 'identified' | 'monitoring' | 'resolved'
-    startedAt: string
-    resolvedAt?: string
-  }>
-}
+export type { StatusResponse }
 
 export interface SubscriptionOptions {
   onUpdate?: (data: any) => void
@@ -57,10 +57,7 @@ class NothingService {
         return { ok: true, data: null }
       }
 
-      const response = await apiClient.get<null>(
-        `${config.apiBase}/nothing`,
-        { timeout: 1000 }
-      )
+      const response = await endpointClient.getNothing()
 
       eventBus.emit('analytics:track', { 
         event: 'nothing_fetched', 
@@ -86,10 +83,7 @@ class NothingService {
         return this.getMockProducts()
       }
 
-      const response = await apiClient.get<NothingProduct[]>(
-        `${config.apiBase}/products/nothing`,
-        { timeout: 3000 }
-      )
+      const response = await endpointClient.listProducts()
 
       eventBus.emit('analytics:track', { 
         event: 'products_fetched', 
@@ -139,13 +133,7 @@ class NothingService {
         return this.getMockTestimonials(page, limit)
       }
 
-      const response = await apiClient.get<PaginatedResponse<Testimonial>>(
-        `${config.apiBase}/testimonials/nothing`,
-        { 
-          params: { page, limit },
-          timeout: 5000 
-        }
-      )
+      const response = await endpointClient.listTestimonials({ params: { page, limit } })
 
       eventBus.emit('analytics:track', { 
         event: 'testimonials_fetched', 
@@ -176,10 +164,7 @@ class NothingService {
         return this.getMockPricing()
       }
 
-      const response = await apiClient.get<PricingTier[]>(
-        `${config.apiBase}/pricing/nothing`,
-        { timeout: 3000 }
-      )
+      const response = await endpointClient.listPricing()
 
       eventBus.emit('analytics:track', { 
         event: 'pricing_fetched', 
@@ -210,13 +195,7 @@ class NothingService {
         return this.getMockCaseStudies(limit)
       }
 
-      const response = await apiClient.get<CaseStudy[]>(
-        `${config.apiBase}/case-studies/nothing`,
-        { 
-          params: { limit },
-          timeout: 5000 
-        }
-      )
+      const response = await endpointClient.listCaseStudies({ params: { limit } })
 
       eventBus.emit('analytics:track', { 
         event: 'case_studies_fetched', 
@@ -242,10 +221,7 @@ class NothingService {
         return this.getMockRoadmap()
       }
 
-      const response = await apiClient.get<RoadmapItem[]>(
-        `${config.apiBase}/roadmap/nothing`,
-        { timeout: 3000 }
-      )
+      const response = await endpointClient.getRoadmap()
 
       eventBus.emit('analytics:track', { 
         event: 'roadmap_fetched', 
@@ -271,10 +247,7 @@ class NothingService {
         return this.getMockStatus()
       }
 
-      const response = await apiClient.get<StatusResponse>(
-        `${config.apiBase}/status/nothing`,
-        { timeout: 8000 }
-      )
+      const response = await endpointClient.getStatus()
 
       eventBus.emit('analytics:track', { 
         event: 'status_fetched', 
@@ -303,11 +276,7 @@ class NothingService {
         }
       }
 
-      const response = await apiClient.post<{ success: boolean }>(
-        `${config.apiBase}/newsletter/nothing`,
-        { email },
-        { timeout: 5000 }
-      )
+      const response = await endpointClient.subscribeNewsletter({ body: { email } })
 
       eventBus.emit('analytics:track', { 
         event: 'newsletter_subscribed', 
@@ -382,167 +351,28 @@ class NothingService {
     this.subscriptions.clear()
   }
 
-  // Mock data generators
+  // Mock data, the same fixtures the MSW handlers serve
   private getMockTestimonials(page: number, limit: number): ApiResult<PaginatedResponse<Testimonial>> {
-    const mockTestimonials: Testimonial[] = [
-      {
-        id: 't-1',
-        author: 'Sarah Nothing',
-        quote: 'Absolutely nothing has changed my life. The void is real!',
-        rating: 5,
-        avatarUrl: '/assets/avatars/sarah.jpg',
-        createdAt: new Date().toISOString()
-      },
-      {
-        id: 't-2', 
-        author: 'John Void',
-        quote: 'I purchased nothing and got exactly what I expected. 10/10!',
-        rating: 5,
-        avatarUrl: '/assets/avatars/john.jpg',
-        createdAt: new Date().toISOString()
-      },
-      {
-        id: 't-3',
-        author: 'Empty McEmpty',
-        quote: 'Finally, a product that delivers on its promises. Nothing at all!',
-        rating: 5,
-        createdAt: new Date().toISOString()
-      }
-    ]
-
-    const startIndex = (page - 1) * limit
-    const items = mockTestimonials.slice(startIndex, startIndex + limit)
-
-    return {
-      ok: true,
-      data: {
-        items,
-        total: mockTestimonials.length,
-        page,
-        perPage: limit
-      }
-    }
+    return { ok: true, data: paginate(mockTestimonials, page, limit) }
   }
 
   private getMockPricing(): ApiResult<PricingTier[]> {
-    const mockPricing: PricingTier[] = [
-      {
-        id: 'basic-nothing',
-        name: 'Basic Nothing',
-        priceCents: 0,
-        currency: 'USD',
-        features: ['Absolutely nothing', 'Zero features', 'No support', 'Empty promises'],
-      },
-      {
-        id: 'premium-nothing',
-        name: 'Premium Nothing',
-        priceCents: 999,
-        currency: 'USD',
-        features: ['Premium nothing', 'Slightly less nothing', 'Priority void', 'Gold-plated emptiness'],
-        highlight: true
-      },
-      {
-        id: 'enterprise-nothing',
-        name: 'Enterprise Nothing',
-        priceCents: 9999,
-        currency: 'USD',
-        features: ['Enterprise-grade nothing', 'Scalable void', 'Dedicated nothingness', '24/7 empty support', 'SLA for nothing'],
-      }
-    ]
-
     return { ok: true, data: mockPricing }
   }
 
   private getMockCaseStudies(limit: number): ApiResult<CaseStudy[]> {
-    const mockCaseStudies: CaseStudy[] = [
-      {
-        id: 'cs-1',
-        title: 'How TechCorp Achieved 100% Nothing Implementation',
-        summary: 'A deep dive into how TechCorp successfully deployed nothing across their entire infrastructure.',
-        heroImage: '/assets/case-studies/techcorp.jpg',
-        publishedAt: '2024-01-15',
-        authors: ['Dr. Void', 'Nothing Expert']
-      },
-      {
-        id: 'cs-2',
-        title: 'StartupXYZ: From Something to Nothing in 6 Months',
-        summary: 'The remarkable journey of how StartupXYZ pivoted from delivering something to mastering nothing.',
-        heroImage: '/assets/case-studies/startupxyz.jpg',
-        publishedAt: '2024-02-22',
-        authors: ['Empty Smith']
-      }
-    ].slice(0, limit)
-
-    return { ok: true, data: mockCaseStudies }
+    return { ok: true, data: mockCaseStudies.slice(0, limit) }
   }
 
   private getMockRoadmap(): ApiResult<RoadmapItem[]> {
-    const mockRoadmap: RoadmapItem[] = [
-      {
-        id: 'r-1',
-        title: 'Nothing 2.0 Release',
-        date: '2024-Q2',
-        description: 'Enhanced nothingness with improved void algorithms',
-        status: 'in_progress'
-      },
-      {
-        id: 'r-2',
-        title: 'Mobile Nothing App',
-        date: '2024-Q3',
-        description: 'Take nothing with you wherever you go',
-        status: 'planned'
-      },
-      {
-        id: 'r-3',
-        title: 'AI-Powered Nothing',
-        date: '2024-Q4',
-        description: 'Machine learning to deliver even more sophisticated nothing',
-        status: 'planned'
-      }
-    ]
-
     return { ok: true, data: mockRoadmap }
   }
 
   private getMockProducts(): ApiResult<NothingProduct[]> {
-    const mockProducts: NothingProduct[] = [
-      {
-        id: 'nothing-basic',
-        sku: 'NOTHING-001',
-        title: 'Basic Nothing',
-        description: 'The essential nothing experience',
-        priceCents: 0,
-        features: ['Pure void', 'Unlimited emptiness', 'Zero features', 'No support']
-      },
-      {
-        id: 'nothing-premium',
-        sku: 'NOTHING-002', 
-        title: 'Premium Nothing',
-        description: 'Enhanced nothingness for discerning users',
-        priceCents: 999,
-        features: ['Premium void', 'Gold-plated emptiness', 'Priority nothing', 'Deluxe absence']
-      },
-      {
-        id: 'nothing-enterprise',
-        sku: 'NOTHING-003',
-        title: 'Enterprise Nothing',
-        description: 'Industrial-grade nothing for large organizations',
-        priceCents: 9999,
-        features: ['Enterprise void', 'Scalable nothingness', 'SLA-backed emptiness', '24/7 support for nothing']
-      }
-    ]
-
     return { ok: true, data: mockProducts }
   }
 
   private getMockStatus(): ApiResult<StatusResponse> {
-    const mockStatus: StatusResponse = {
-      uptime: 99.99,
-      nothingDelivered: 1000000,
-      satisfaction: 100,
-      incidents: []
-    }
-
     return { ok: true, data: mockStatus }
   }
 }
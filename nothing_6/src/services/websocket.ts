@@ -7,13 +7,25 @@
 
 import { config } from '@/app/config'
 import { eventBus } from '@/core/events'
-import { WSIncomingEvent, WSOutgoingEvent } from '@/core/contracts'
+import {
+  WSIncomingEvent,
+  WSIncomingFrame,
+  WSMessageFrame,
+  WSOutgoingEvent,
+  WSOutgoingFrame,
+  WS_PROTOCOL_VERSION
+} from '@/core/contracts'
 
 /* src/services/websocket.ts
 
    WebSocket service with typed message handling, auto-reconnect, and dev mode disable support.
    Integrates with the event bus for centralized event handling.
 
+   Messages travel in versioned frames numbered by `seq`. Outgoing messages stay in the outbox
+   until the server acks them and are sent again after a reconnect (at-least-once), while the
+   `hello` handshake asks the server to replay whatever arrived after the last seq we handled.
+   Replayed duplicates are recognised by seq and not dispatched twice.
+
    Usage:
      import { socketManager } from '@/services/websocket'
      socketManager.connect()
@@ -29,6 +41,8 @@ export interface SocketOptions {
   reconnectDelay?: number
   heartbeatInterval?: number
   enableHeartbeat?: boolean
+  // Swap the transport, e.g. for the in-process server in src/mocks/socketServer.ts
+  createSocket?: (url: string) => WebSocket
 }
 
 export type MessageHandler<T = any> = (payload: T) => void
@@ -41,7 +55,13 @@ export class WebSocketManager {
   private reconnectTimer: NodeJS.Timeout | null = null
   private heartbeatTimer: NodeJS.Timeout | null = null
   private subscribers = new Map<string, Set<MessageHandler>>()
-  private messageQueue: WSOutgoingEvent[] = []
+  // Sent or waiting to be sent, and not yet acked by the server; ordered by seq
+  private outbox: WSMessageFrame<WSOutgoingEvent>[] = []
+  private outgoingSeq = 0
+  // Highest contiguous seq received from the server
+  private lastReceivedSeq = 0
+  private sessionId?: string
+  private handshakeComplete = false
 
   constructor(options: SocketOptions = {}) {
     this.options = {
@@ -50,10 +70,11 @@ export class WebSocketManager {
       reconnectDelay: options.reconnectDelay ?? 3000,
       heartbeatInterval: options.heartbeatInterval ?? 30000,
       enableHeartbeat: options.enableHeartbeat ?? true,
+      createSocket: options.createSocket ?? (url => new WebSocket(url)),
     }
 
-    // Auto-connect unless disabled in dev
-    if (!config.dev.disable_websocket_in_dev || config.isProduction) {
+    // Auto-connect unless disabled in dev; never under Node (the prerender step)
+    if (typeof window !== 'undefined' && (!config.dev.disable_websocket_in_dev || config.isProduction)) {
       // Delay initial connection slightly to let providers initialize
       setTimeout(() => this.connect(), 100)
     }
@@ -80,7 +101,7 @@ export class WebSocketManager {
     this.setState('connecting')
     
     try {
-      this.socket = new WebSocket(this.options.url)
+      this.socket = this.options.createSocket(this.options.url)
       this.attachEventHandlers()
       
       // Wait for connection or failure
@@ -118,7 +139,16 @@ export class WebSocketManager {
     this.socket.onopen = () => {
       this.setState('connected')
       this.reconnectAttempts = 0
-      this.flushMessageQueue()
+      this.handshakeComplete = false
+
+      // Queued messages go out once the server has told us what it already has
+      this.transmit({
+        v: WS_PROTOCOL_VERSION,
+        kind: 'hello',
+        clientId: this.getClientId(),
+        sessionId: this.sessionId,
+        resumeFrom: this.lastReceivedSeq
+      })
       this.startHeartbeat()
       
       eventBus.emit('websocket:connected', { 
@@ -129,8 +159,8 @@ export class WebSocketManager {
 
     this.socket.onmessage = (event) => {
       try {
-        const message: WSIncomingEvent = JSON.parse(event.data)
-        this.handleIncomingMessage(message)
+        const frame: WSIncomingFrame = JSON.parse(event.data)
+        this.handleFrame(frame)
       } catch (error) {
         eventBus.emit('websocket:parse_error', { 
           data: event.data, 
@@ -141,6 +171,7 @@ export class WebSocketManager {
 
     this.socket.onclose = (event) => {
       this.setState('disconnected')
+      this.handshakeComplete = false
       this.stopHeartbeat()
       
       eventBus.emit('websocket:closed', { 
@@ -161,12 +192,90 @@ export class WebSocketManager {
     }
   }
 
+  private handleFrame(frame: WSIncomingFrame): void {
+    if (frame.v !== WS_PROTOCOL_VERSION) {
+      eventBus.emit('websocket:protocol_error', {
+        error: `Unsupported protocol version ${frame.v}`,
+        data: frame
+      })
+      return
+    }
+
+    switch (frame.kind) {
+      case 'welcome':
+        this.handleWelcome(frame)
+        break
+      case 'ack':
+        this.acknowledge(frame.seq)
+        break
+      case 'message':
+        this.receiveMessage(frame)
+        break
+      case 'error':
+        eventBus.emit('websocket:error', { error: `${frame.code}: ${frame.message}` })
+        break
+      case 'pong':
+        break
+    }
+  }
+
+  // The server confirmed the session; anything it has not acked is sent (again)
+  private handleWelcome(frame: Extract<WSIncomingFrame, { kind: 'welcome' }>): void {
+    if (!frame.resumed) {
+      // A fresh session on the server: its seq counters start over, so ours do too
+      this.lastReceivedSeq = 0
+      this.outbox.forEach((queued, index) => { queued.seq = index + 1 })
+      this.outgoingSeq = this.outbox.length
+    }
+
+    this.sessionId = frame.sessionId
+    this.acknowledge(frame.ackedSeq)
+    this.handshakeComplete = true
+
+    const redelivered = this.outbox.length
+    this.outbox.forEach(queued => this.transmit(queued))
+
+    eventBus.emit('websocket:resumed', { sessionId: frame.sessionId, resumed: frame.resumed, redelivered })
+    if (redelivered > 0) {
+      eventBus.emit('websocket:queue_flushed', { count: redelivered })
+    }
+  }
+
+  // Acks are cumulative: everything up to and including `seq` has been handled
+  private acknowledge(seq: number): void {
+    this.outbox = this.outbox.filter(queued => queued.seq > seq)
+  }
+
+  private receiveMessage(frame: WSMessageFrame<WSIncomingEvent>): void {
+    if (frame.seq <= this.lastReceivedSeq) {
+      // Replayed after a reconnect; ack again in case our earlier ack was lost
+      this.transmit({ v: WS_PROTOCOL_VERSION, kind: 'ack', seq: this.lastReceivedSeq })
+      return
+    }
+
+    if (frame.seq > this.lastReceivedSeq + 1) {
+      // Something went missing in between; ask for a replay from the last message we have
+      this.transmit({
+        v: WS_PROTOCOL_VERSION,
+        kind: 'hello',
+        clientId: this.getClientId(),
+        sessionId: this.sessionId,
+        resumeFrom: this.lastReceivedSeq
+      })
+      return
+    }
+
+    this.lastReceivedSeq = frame.seq
+    this.handleIncomingMessage(frame)
+    this.transmit({ v: WS_PROTOCOL_VERSION, kind: 'ack', seq: frame.seq })
+  }
+
   private handleIncomingMessage(message: WSIncomingEvent): void {
     const { type, payload } = message
 
     // Handle system messages
     if (type === 'system:ping') {
-      this.send({ type: 'client:hello', payload: { clientId: this.getClientId() } })
+      this.transmit({ v: WS_PROTOCOL_VERSION, kind: 'ping', ts: Date.now() })
       return
     }
 
@@ -189,28 +298,47 @@ export class WebSocketManager {
     eventBus.emit('websocket:message', { type, payload })
   }
 
-  send(message: WSOutgoingEvent): void {
-    if (this.state !== 'connected') {
-      // Queue message for when connection is restored
-      this.messageQueue.push(message)
-      return
+  /**
+   * Queue a message for delivery and send it right away when the session is up
+   * @returns The message id, stable across redeliveries
+   */
+  send(message: WSOutgoingEvent): string {
+    const frame = {
+      ...message,
+      v: WS_PROTOCOL_VERSION,
+      kind: 'message',
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      seq: ++this.outgoingSeq,
+      sentAt: Date.now(),
+    } as WSMessageFrame<WSOutgoingEvent>
+
+    // Kept until acked, so it is sent again if the connection drops first
+    this.outbox.push(frame)
+
+    if (this.isReady()) {
+      this.transmit(frame)
     }
+    return frame.id
+  }
 
-    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
-      this.messageQueue.push(message)
-      return
-    }
+  private isReady(): boolean {
+    return this.handshakeComplete && this.socket?.readyState === WebSocket.OPEN
+  }
+
+  private transmit(frame: WSOutgoingFrame): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return
 
     try {
-      this.socket.send(JSON.stringify(message))
-      eventBus.emit('websocket:sent', { type: message.type })
+      this.socket.send(JSON.stringify(frame))
+      if (frame.kind === 'message') {
+        eventBus.emit('websocket:sent', { data: { type: frame.type, id: frame.id, seq: frame.seq } })
+      }
     } catch (error) {
-      eventBus.emit('websocket:send_error', { 
-        message: message.type, 
-        error: String(error) 
+      // Message frames stay in the outbox and go out again after the next handshake
+      eventBus.emit('websocket:send_error', {
+        error: String(error),
+        data: frame
       })
-      // Re-queue failed message
-      this.messageQueue.push(message)
     }
   }
 
@@ -278,28 +406,12 @@ export class WebSocketManager {
     })
   }
 
-  private flushMessageQueue(): void {
-    if (this.messageQueue.length === 0) return
-
-    const queuedMessages = [...this.messageQueue]
-    this.messageQueue = []
-    
-    queuedMessages.forEach(message => this.send(message))
-    
-    eventBus.emit('websocket:queue_flushed', { 
-      messageCount: queuedMessages.length 
-    })
-  }
-
   private startHeartbeat(): void {
     if (!this.options.enableHeartbeat) return
 
     this.heartbeatTimer = setInterval(() => {
-      if (this.state === 'connected') {
-        this.send({ 
-          type: 'client:hello', 
-          payload: { clientId: this.getClientId() } 
-        })
+      if (this.isReady()) {
+        this.transmit({ v: WS_PROTOCOL_VERSION, kind: 'ping', ts: Date.now() })
       }
     }, this.options.heartbeatInterval)
   }
@@ -343,8 +455,13 @@ export class WebSocketManager {
       this.socket = null
     }
     
+    // An explicit disconnect ends the session; nothing is resumed or redelivered
     this.setState('disconnected')
-    this.messageQueue = []
+    this.handshakeComplete = false
+    this.outbox = []
+    this.outgoingSeq = 0
+    this.lastReceivedSeq = 0
+    this.sessionId = undefined
     this.reconnectAttempts = 0
   }
 
@@ -353,7 +470,10 @@ export class WebSocketManager {
     return {
       state: this.state,
       reconnectAttempts: this.reconnectAttempts,
-      queuedMessages: this.messageQueue.length,
+      queuedMessages: this.outbox.length,
+      sessionId: this.sessionId,
+      lastSentSeq: this.outgoingSeq,
+      lastReceivedSeq: this.lastReceivedSeq,
       subscriberCount: Array.from(this.subscribers.values()).reduce((sum, set) => sum + set.size, 0),
       options: this.options,
     }
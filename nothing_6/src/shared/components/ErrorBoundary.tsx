@@ -8,6 +8,7 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react'
 import { eventBus } from '@/core/events'
 import { config } from '@/app/config'
+import { generateErrorId, getErrorSeverity } from '@/services/errorReporter'
 import GlassCard from '@/shared/components/GlassCard'
 import Button from '@/shared/components/Button'
 
@@ -39,44 +40,6 @@ export interface ErrorBoundaryProps {
   showDetails?: boolean
 }
 
-// Error severity levels
-type ErrorSeverity = 'low' | 'medium' | 'high' | 'critical'
-
-// Determine error severity based on error type and stack
-function getErrorSeverity(error: Error): ErrorSeverity {
-  const errorMessage = error.message.toLowerCase()
-  const errorStack = error.stack?.toLowerCase() || ''
-  
-  // Critical errors
-  if (errorMessage.includes('out of memory') || 
-      errorMessage.includes('maximum call stack') ||
-      errorStack.includes('react-dom') && errorStack.includes('render')) {
-    return 'critical'
-  }
-  
-  // High severity
-  if (errorMessage.includes('network') || 
-      errorMessage.includes('fetch') ||
-      errorMessage.includes('chunk load') ||
-      errorStack.includes('async')) {
-    return 'high'
-  }
-  
-  // Medium severity
-  if (errorMessage.includes('undefined') || 
-      errorMessage.includes('null') ||
-      errorMessage.includes('cannot read')) {
-    return 'medium'
-  }
-  
-  return 'low'
-}
-
-// Generate unique error ID
-function generateErrorId(): string {
-  return `err_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-}
-
 // Default error boundary component
 export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
   private retryTimeoutId: number | null = null
@@ -139,6 +102,15 @@ export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
       userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
     })
 
+    // Hand the error to the error reporter under the id shown in the fallback
+    eventBus.emit('app:error', {
+      type: 'boundary',
+      error,
+      errorId,
+      severity,
+      componentStack: errorInfo.componentStack ?? undefined,
+    })
+
     // Call custom error handler if provided
     if (this.props.onError) {
       try {
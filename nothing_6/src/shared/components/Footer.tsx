@@ -9,9 +9,11 @@ import React from 'react';
 import { Logo } from './Logo';
 import { theme } from '@/theme';
 import { config } from '@/app/config';
+import { useConsent } from '@/providers/ConsentProvider';
 
 const Footer: React.FC = () => {
   const currentYear = new Date().getFullYear();
+  const { openPreferences } = useConsent();
 
   const footerLinks = {
     product: [
@@ -184,6 +186,15 @@ const Footer: React.FC = () => {
                     </a>
                   </li>
                 ))}
+                <li>
+                  <button
+                    type="button"
+                    onClick={openPreferences}
+                    className="text-gray-400 hover:text-white text-sm transition-colors duration-150"
+                  >
+                    Cookie Preferences
+                  </button>
+                </li>
               </ul>
             </div>
           </div>
@@ -13,6 +13,8 @@ import Logo from '@/shared/components/Logo'
 import Nav from '@/shared/components/Nav'
 import Button from '@/shared/components/Button'
 import { useTheme } from '@/providers/ThemeProvider'
+import { useI18n } from '@/providers/I18nProvider'
+import { isLocale } from '@/i18n/locales'
 import { config } from '@/app/config'
 
 // Header component props interface
@@ -23,9 +25,11 @@ export interface HeaderProps {
   showCTA?: boolean
   /** Whether to show the theme toggle */
   showThemeToggle?: boolean
-  /** Custom CTA button text */
+  /** Whether to show the language switcher */
+  showLocaleSwitcher?: boolean
+  /** Custom CTA button text (defaults to the translated label) */
   ctaText?: string
-  /** Custom secondary CTA text */
+  /** Custom secondary CTA text (defaults to the translated label) */
   secondaryCtaText?: string
   /** Callback for CTA button click */
   onCtaClick?: () => void
@@ -47,6 +51,8 @@ function ThemeToggleButton({
   onToggle: () => void
   className?: string
 }) {
+  const { t } = useI18n()
+
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault()
@@ -67,7 +73,7 @@ function ThemeToggleButton({
         ${className}
       `}
       aria-pressed={isDark}
-      aria-label={`Switch to ${isDark ? 'light' : 'dark'} theme`}
+      aria-label={t('header.theme.switch', { theme: isDark ? 'light' : 'dark' })}
       role="switch"
     >
       <span
@@ -78,7 +84,7 @@ function ThemeToggleButton({
         `}
       >
         <span className="sr-only">
-          {isDark ? 'Dark mode' : 'Light mode'}
+          {t('header.theme.current', { theme: isDark ? 'dark' : 'light' })}
         </span>
         {/* Sun icon for light mode */}
         {!isDark && (
@@ -121,6 +127,8 @@ function MobileMenuButton({
   onToggle: () => void
   className?: string
 }) {
+  const { t } = useI18n()
+
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault()
@@ -142,10 +150,10 @@ function MobileMenuButton({
         ${className}
       `}
       aria-expanded={isOpen}
-      aria-label={isOpen ? 'Close main menu' : 'Open main menu'}
+      aria-label={isOpen ? t('header.menu.close') : t('header.menu.open')}
       aria-controls="mobile-menu"
     >
-      <span className="sr-only">{isOpen ? 'Close' : 'Open'} main menu</span>
+      <span className="sr-only">{isOpen ? t('header.menu.close') : t('header.menu.open')}</span>
       {/* Hamburger icon */}
       <svg
         className={`h-6 w-6 transition-transform duration-200 ${
@@ -167,19 +175,67 @@ function MobileMenuButton({
   )
 }
 
+// Language switcher component
+function LocaleSwitcher({ 
+  id,
+  className = '' 
+}: { 
+  id: string
+  className?: string
+}) {
+  const { t, locale, locales, isLoading, setLocale } = useI18n()
+
+  const handleChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = e.target.value
+    if (isLocale(next)) {
+      void setLocale(next)
+    }
+  }, [setLocale])
+
+  return (
+    <div className={`flex items-center ${className}`}>
+      <label htmlFor={id} className="sr-only">
+        {t('header.language')}
+      </label>
+      <select
+        id={id}
+        value={locale}
+        onChange={handleChange}
+        aria-busy={isLoading}
+        className={`
+          rounded-md border border-gray-300 dark:border-gray-600
+          bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-200
+          py-1 pl-2 pr-7
+          focus:outline-none focus:ring-2 focus:ring-purple-500
+        `}
+      >
+        {locales.map(option => (
+          <option key={option.code} value={option.code} lang={option.code}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
 // Main Header component
 export function Header({
   className = '',
   showCTA = true,
   showThemeToggle = true,
-  ctaText = 'Get Started',
-  secondaryCtaText = 'Learn More',
+  showLocaleSwitcher = true,
+  ctaText,
+  secondaryCtaText,
   onCtaClick,
   onSecondaryCtaClick,
   sticky = false,
   transparent = false,
 }: HeaderProps) {
   const { theme, isDark, toggleDarkMode, resolveClasses } = useTheme()
+  const { t } = useI18n()
+  const primaryCtaLabel = ctaText ?? t('header.cta.primary')
+  const secondaryCtaLabel = secondaryCtaText ?? t('header.cta.secondary')
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const [isScrolled, setIsScrolled] = useState(false)
 
@@ -308,6 +364,10 @@ export function Header({
 
         {/* Desktop CTA Group */}
         <div className={ctaGroupClasses}>
+          {showLocaleSwitcher && (
+            <LocaleSwitcher id="header-locale" />
+          )}
+
           {showThemeToggle && (
             <ThemeToggleButton
               isDark={isDark}
@@ -327,7 +387,7 @@ export function Header({
                   !transparent && 'text-gray-600 dark:text-gray-300'
                 )}
               >
-                {secondaryCtaText}
+                {secondaryCtaLabel}
               </Button>
               <Button
                 variant="primary"
@@ -335,7 +395,7 @@ export function Header({
                 onClick={handleCtaClick}
                 className="shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 transition-all duration-200"
               >
-                {ctaText}
+                {primaryCtaLabel}
               </Button>
             </>
           )}
@@ -376,6 +436,11 @@ export function Header({
             className="text-gray-900 dark:text-gray-100"
             onItemClick={() => setIsMobileMenuOpen(false)}
           />
+
+          {/* Mobile Language Switcher */}
+          {showLocaleSwitcher && (
+            <LocaleSwitcher id="mobile-locale" />
+          )}
           
           {/* Mobile CTA Buttons */}
           {showCTA && (
@@ -389,7 +454,7 @@ export function Header({
                 }}
                 className="w-full justify-center"
               >
-                {secondaryCtaText}
+                {secondaryCtaLabel}
               </Button>
               <Button
                 variant="primary"
@@ -400,7 +465,7 @@ export function Header({
                 }}
                 className="w-full justify-center shadow-lg"
               >
-                {ctaText}
+                {primaryCtaLabel}
               </Button>
             </div>
           )}
@@ -416,6 +481,7 @@ if (config.isDevelopment && typeof window !== 'undefined') {
     Header,
     ThemeToggleButton,
     MobileMenuButton,
+    LocaleSwitcher,
   }
 }
 
@@ -0,0 +1,80 @@
+// filepath: src/shared/components/QualityDebugOverlay.tsx
+
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component
+// [x] Adds basic ARIA and keyboard handlers (where relevant)
+
+/* src/shared/components/QualityDebugOverlay.tsx
+
+   Readout of a quality governor: frame cost against budget, the current level and what it
+   turned off, and the last change with its reason.
+
+   Usage:
+     const { snapshot } = useQualityGovernor({ source: 'showcase', refreshInterval: 500 })
+     {showOverlay && <QualityDebugOverlay snapshot={snapshot} label="3D Showcase" />}
+*/
+
+import React from 'react'
+import { QualitySnapshot } from '@/utils/qualityGovernor'
+
+export interface QualityDebugOverlayProps {
+  snapshot: QualitySnapshot
+  label?: string
+  /** Extra rows, such as the particle count actually rendered */
+  details?: Record<string, string | number>
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+  className?: string
+}
+
+const positionClasses = {
+  'top-left': 'top-2 left-2',
+  'top-right': 'top-2 right-2',
+  'bottom-left': 'bottom-2 left-2',
+  'bottom-right': 'bottom-2 right-2'
+}
+
+export function QualityDebugOverlay({
+  snapshot,
+  label = 'Quality',
+  details = {},
+  position = 'top-left',
+  className = ''
+}: QualityDebugOverlayProps) {
+  const { level, lastChange } = snapshot
+  const overBudget = snapshot.frameTime > snapshot.budget
+  const disabledEffects = Object.entries(level.effects)
+    .filter(([, enabled]) => !enabled)
+    .map(([effect]) => effect)
+
+  return (
+    <div
+      className={`absolute ${positionClasses[position]} z-20 pointer-events-none bg-black/75 text-white text-[11px] leading-4 font-mono rounded px-2 py-1.5 ${className}`}
+      role="status"
+      aria-label={`${label} rendering at ${level.name} quality, ${snapshot.fps} frames per second`}
+    >
+      <div className="font-semibold mb-0.5">{label}</div>
+      <div>
+        <span className={overBudget ? 'text-red-400' : 'text-green-400'}>{snapshot.fps} fps</span>
+        {' '}• {snapshot.frameTime}ms avg / {snapshot.worstFrameTime}ms p95 (budget {snapshot.budget}ms)
+      </div>
+      <div>
+        level <span className="text-yellow-300">{level.name}</span> ({snapshot.mode})
+        {snapshot.reducedMotion && <span className="text-blue-300"> • reduced motion</span>}
+      </div>
+      <div>density ×{level.densityScale} • dpr ≤{level.pixelRatio}</div>
+      <div>off: {disabledEffects.length > 0 ? disabledEffects.join(', ') : 'none'}</div>
+      {Object.entries(details).map(([key, value]) => (
+        <div key={key}>{key}: {value}</div>
+      ))}
+      {lastChange && (
+        <div className="text-white/60">
+          last: {lastChange.from} → {lastChange.to} ({lastChange.reason} @ {lastChange.fps} fps) • {snapshot.changes} changes
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default QualityDebugOverlay
@@ -0,0 +1,57 @@
+// filepath: src/shared/components/QualityProbe.tsx
+
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [x] Exports default named component
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - renders nothing)
+
+/* src/shared/components/QualityProbe.tsx
+
+   Renders nothing inside a react-three-fiber Canvas: reports every frame's duration and the
+   time spent updating and rendering it to a quality governor, and applies the level's pixel
+   ratio to the renderer. It takes over rendering (a positive useFrame priority) so the render
+   call itself can be timed.
+
+   Usage:
+     const { governor, snapshot } = useQualityGovernor({ source: 'particle-void' })
+     <Canvas>
+       <QualityProbe governor={governor} pixelRatio={snapshot.level.pixelRatio} />
+     </Canvas>
+*/
+
+import { useEffect, useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { QualityGovernor } from '@/utils/qualityGovernor'
+
+export interface QualityProbeProps {
+  governor: QualityGovernor
+  /** Upper bound for the renderer's pixel ratio; the screen's own ratio still caps it */
+  pixelRatio: number
+}
+
+// Runs ahead of every other frame callback in the canvas
+const FRAME_START_PRIORITY = -1000
+
+export function QualityProbe({ governor, pixelRatio }: QualityProbeProps) {
+  const setDpr = useThree(state => state.setDpr)
+  const frameStart = useRef(0)
+
+  useFrame(() => {
+    frameStart.current = performance.now()
+  }, FRAME_START_PRIORITY)
+
+  useFrame(({ gl, scene, camera }, delta) => {
+    gl.render(scene, camera)
+    governor.recordFrame(delta * 1000, performance.now() - frameStart.current)
+  }, 1)
+
+  useEffect(() => {
+    const deviceRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1
+    setDpr(Math.min(pixelRatio, deviceRatio))
+  }, [pixelRatio, setDpr])
+
+  return null
+}
+
+export default QualityProbe
@@ -0,0 +1,97 @@
+// filepath: src/shared/hooks/useQualityGovernor.ts
+// [x] Uses `@/` imports as much as possible
+// [x] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config` (not needed for this hook)
+// [x] Exports default named component (useQualityGovernor hook)
+// [ ] Adds basic ARIA and keyboard handlers (where relevant - N/A for quality hook)
+
+import { useState, useEffect } from 'react'
+import { eventBus } from '@/core/events'
+import { usePrefersReducedMotion } from '@/shared/hooks/usePrefersReducedMotion'
+import {
+  QualityGovernor,
+  QualityGovernorOptions,
+  QualityMode,
+  QualitySnapshot
+} from '@/utils/qualityGovernor'
+
+export interface UseQualityGovernorOptions extends Omit<QualityGovernorOptions, 'mode' | 'reducedMotion'> {
+  /** Name reported with quality events, e.g. 'particle-void' */
+  source: string
+  mode?: QualityMode
+  /** Share a governor owned by a parent instead of creating one */
+  governor?: QualityGovernor
+  /** Also refresh the snapshot on this interval (ms) so fps readouts stay live; 0 updates on changes only */
+  refreshInterval?: number
+}
+
+export interface UseQualityGovernorResult {
+  governor: QualityGovernor
+  snapshot: QualitySnapshot
+}
+
+/**
+ * Hook that keeps a frame-time quality governor for a renderer.
+ * 
+ * Feed it frames with `QualityProbe` inside a Canvas (or `governor.recordFrame`) and read the
+ * current level from `snapshot.level`. Reduced-motion preferences cap the level automatically.
+ * 
+ * @returns The governor and its latest snapshot
+ */
+export function useQualityGovernor({
+  source,
+  mode = 'auto',
+  governor: sharedGovernor,
+  refreshInterval = 0,
+  ...options
+}: UseQualityGovernorOptions): UseQualityGovernorResult {
+  const prefersReducedMotion = usePrefersReducedMotion()
+  const [ownGovernor] = useState(() => new QualityGovernor({
+    ...options,
+    mode,
+    reducedMotion: prefersReducedMotion
+  }))
+  const governor = sharedGovernor ?? ownGovernor
+  const ownsGovernor = !sharedGovernor
+  const [snapshot, setSnapshot] = useState<QualitySnapshot>(() => governor.getSnapshot())
+
+  // Whoever owns the governor steers it; sharers only read
+  useEffect(() => {
+    if (ownsGovernor) governor.setMode(mode)
+  }, [governor, ownsGovernor, mode])
+
+  useEffect(() => {
+    if (ownsGovernor) governor.setReducedMotion(prefersReducedMotion)
+  }, [governor, ownsGovernor, prefersReducedMotion])
+
+  useEffect(() => {
+    setSnapshot(governor.getSnapshot())
+
+    let reportedChange = governor.getSnapshot().lastChange
+    return governor.subscribe(next => {
+      setSnapshot(next)
+
+      if (ownsGovernor && next.lastChange && next.lastChange !== reportedChange) {
+        reportedChange = next.lastChange
+        eventBus.emit('performance:quality_changed', {
+          source,
+          from: next.lastChange.from,
+          to: next.lastChange.to,
+          reason: next.lastChange.reason,
+          fps: next.lastChange.fps
+        })
+      }
+    })
+  }, [governor, ownsGovernor, source])
+
+  useEffect(() => {
+    if (refreshInterval <= 0) return
+
+    const interval = setInterval(() => setSnapshot(governor.getSnapshot()), refreshInterval)
+    return () => clearInterval(interval)
+  }, [governor, refreshInterval])
+
+  return { governor, snapshot }
+}
+
+export default useQualityGovernor
@@ -5,6 +5,20 @@
 // [ ] Exports default named component
 // [ ] Adds basic ARIA and keyboard handlers (where relevant)
 
+let formatLocale = 'en-US';
+
+/**
+ * Set the locale formatters use when a call does not pass one; I18nProvider keeps it
+ * in step with the chosen locale
+ */
+export function setFormatLocale(locale: string): void {
+  formatLocale = locale;
+}
+
+export function getFormatLocale(): string {
+  return formatLocale;
+}
+
 /**
  * Format a number with elegant handling of zeros and infinity
  */
@@ -16,6 +30,7 @@ export function formatNumber(
     showInfinityAsSymbol?: boolean;
     compact?: boolean;
     currency?: string;
+    locale?: string;
   } = {}
 ): string {
   const {
@@ -23,7 +38,8 @@ export function formatNumber(
     showZeroAsSymbol = false,
     showInfinityAsSymbol = true,
     compact = false,
-    currency
+    currency,
+    locale = formatLocale
   } = options;
 
   // Handle null/undefined
@@ -44,7 +60,7 @@ export function formatNumber(
 
   // Format with currency if specified
   if (currency) {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(locale, {
       style: 'currency',
       currency,
       minimumFractionDigits: decimals,
@@ -54,13 +70,50 @@ export function formatNumber(
   }
 
   // Standard number formatting
-  return new Intl.NumberFormat('en-US', {
+  return new Intl.NumberFormat(locale, {
     minimumFractionDigits: decimals,
     maximumFractionDigits: decimals,
     notation: compact ? 'compact' : 'standard'
   }).format(value);
 }
 
+/**
+ * Format an amount in minor units (cents) as currency in the active locale
+ * @param amountCents Amount in the currency's minor unit
+ * @param currency ISO 4217 code
+ * @param options.trimWholeAmounts Drop the decimals for whole amounts, e.g. "$10" instead of "$10.00"
+ */
+export function formatCurrency(
+  amountCents: number,
+  currency = 'USD',
+  options: { locale?: string; trimWholeAmounts?: boolean } = {}
+): string {
+  const { locale = formatLocale, trimWholeAmounts = false } = options;
+  const amount = amountCents / 100;
+  const decimals = trimWholeAmounts && amount % 1 === 0 ? 0 : 2;
+
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  }).format(amount);
+}
+
+/**
+ * Format a date in the active locale; invalid dates render as an em dash
+ */
+export function formatDate(
+  value: Date | string | number,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' },
+  locale: string = formatLocale
+): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return '—';
+
+  return new Intl.DateTimeFormat(locale, options).format(date);
+}
+
 /**
  * Pluralize a word based on count with elegant zero handling
  */
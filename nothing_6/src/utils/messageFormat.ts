@@ -0,0 +1,222 @@
+// filepath: src/utils/messageFormat.ts
+// [ ] Uses `@/` imports as much as possible
+// [ ] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [ ] Exports default named component
+// [ ] Adds basic ARIA and keyboard handlers (where relevant)
+
+/* src/utils/messageFormat.ts
+
+   ICU MessageFormat subset for the message catalogs: `{name}` arguments, `{n, number}`,
+   `{count, plural, =0 {…} one {…} other {…}}` with `#` for the formatted count, and
+   `{kind, select, a {…} other {…}}`. Plural categories come from Intl.PluralRules, so
+   `one` covers zero in French and only exactly one in English.
+
+   Usage:
+     import { formatMessage } from '@/utils/messageFormat'
+     formatMessage('{count, plural, =0 {Nothing yet} one {# thing} other {# things}}', { count: 3 }, 'en-US')
+*/
+
+export type MessageValue = string | number | boolean | null | undefined;
+export type MessageValues = Record<string, MessageValue>;
+
+type MessageNode =
+  | { type: 'text'; value: string }
+  | { type: 'argument'; name: string; format?: 'number' }
+  | { type: 'plural'; name: string; options: Record<string, MessageNode[]> }
+  | { type: 'select'; name: string; options: Record<string, MessageNode[]> }
+  | { type: 'pound' };
+
+export class MessageFormatError extends Error {
+  constructor(message: string, public readonly pattern: string) {
+    super(`${message} in "${pattern}"`);
+    this.name = 'MessageFormatError';
+  }
+}
+
+const parsedPatterns = new Map<string, MessageNode[]>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+const getPluralRules = (locale: string): Intl.PluralRules => {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules;
+};
+
+const getNumberFormat = (locale: string): Intl.NumberFormat => {
+  let format = numberFormats.get(locale);
+  if (!format) {
+    format = new Intl.NumberFormat(locale);
+    numberFormats.set(locale, format);
+  }
+  return format;
+};
+
+const isWhitespace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly pattern: string) {}
+
+  parse(): MessageNode[] {
+    const nodes = this.parseNodes(false);
+    if (this.pos < this.pattern.length) {
+      throw new MessageFormatError(`Unexpected "}" at ${this.pos}`, this.pattern);
+    }
+    return nodes;
+  }
+
+  // Reads until an unmatched `}` or the end of the pattern
+  private parseNodes(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+
+    while (this.pos < this.pattern.length) {
+      const char = this.pattern[this.pos];
+      if (char === '}') break;
+
+      if (char === '#' && inPlural) {
+        flush();
+        nodes.push({ type: 'pound' });
+        this.pos++;
+      } else if (char === '{') {
+        flush();
+        this.pos++;
+        nodes.push(this.parseArgument(inPlural));
+      } else {
+        text += char;
+        this.pos++;
+      }
+    }
+
+    flush();
+    return nodes;
+  }
+
+  private parseArgument(inPlural: boolean): MessageNode {
+    const name = this.readUntil(',}').trim();
+    if (!name) throw new MessageFormatError(`Empty argument at ${this.pos}`, this.pattern);
+
+    if (this.pattern[this.pos] === '}') {
+      this.pos++;
+      return { type: 'argument', name };
+    }
+
+    this.pos++; // ','
+    const kind = this.readUntil(',}').trim();
+
+    if (kind === 'number' && this.pattern[this.pos] === '}') {
+      this.pos++;
+      return { type: 'argument', name, format: 'number' };
+    }
+    if ((kind !== 'plural' && kind !== 'select') || this.pattern[this.pos] !== ',') {
+      throw new MessageFormatError(`Unsupported argument type "${kind}"`, this.pattern);
+    }
+
+    this.pos++; // ','
+    const options: Record<string, MessageNode[]> = {};
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pattern[this.pos] === '}') {
+        this.pos++;
+        break;
+      }
+
+      const selector = this.readUntil('{').trim();
+      if (!selector || this.pattern[this.pos] !== '{') {
+        throw new MessageFormatError(`Expected an option for "${name}"`, this.pattern);
+      }
+      this.pos++; // '{'
+      options[selector] = this.parseNodes(kind === 'plural' || inPlural);
+      if (this.pattern[this.pos] !== '}') {
+        throw new MessageFormatError(`Unclosed option "${selector}"`, this.pattern);
+      }
+      this.pos++; // '}'
+    }
+
+    if (!options.other) {
+      throw new MessageFormatError(`"${name}" needs an "other" option`, this.pattern);
+    }
+    return { type: kind, name, options };
+  }
+
+  private readUntil(stops: string): string {
+    const start = this.pos;
+    while (this.pos < this.pattern.length && !stops.includes(this.pattern[this.pos])) {
+      this.pos++;
+    }
+    if (this.pos >= this.pattern.length) {
+      throw new MessageFormatError('Unclosed argument', this.pattern);
+    }
+    return this.pattern.slice(start, this.pos);
+  }
+
+  private skipWhitespace(): void {
+    while (isWhitespace(this.pattern[this.pos])) this.pos++;
+  }
+}
+
+/**
+ * Parse a pattern once and reuse the result
+ * @throws MessageFormatError when the pattern is malformed
+ */
+export function parseMessage(pattern: string): MessageNode[] {
+  let nodes = parsedPatterns.get(pattern);
+  if (!nodes) {
+    nodes = new Parser(pattern).parse();
+    parsedPatterns.set(pattern, nodes);
+  }
+  return nodes;
+}
+
+function render(nodes: MessageNode[], values: MessageValues, locale: string, count?: number): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'pound':
+        return count === undefined ? '#' : getNumberFormat(locale).format(count);
+      case 'argument': {
+        const value = values[node.name];
+        if (value === undefined || value === null) return `{${node.name}}`;
+        return typeof value === 'number' ? getNumberFormat(locale).format(value) : String(value);
+      }
+      case 'plural': {
+        const value = Number(values[node.name] ?? 0);
+        const option = node.options[`=${value}`]
+          ?? node.options[getPluralRules(locale).select(value)]
+          ?? node.options.other;
+        return render(option, values, locale, value);
+      }
+      case 'select': {
+        const option = node.options[String(values[node.name])] ?? node.options.other;
+        return render(option, values, locale, count);
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Format an ICU-style message
+ * @param pattern Message pattern from a catalog
+ * @param values Argument values by name; missing ones render as `{name}`
+ * @param locale BCP 47 locale used for plural rules and numbers
+ * @returns The formatted message, or the raw pattern when it cannot be parsed
+ */
+export function formatMessage(pattern: string, values: MessageValues = {}, locale = 'en-US'): string {
+  try {
+    return render(parseMessage(pattern), values, locale);
+  } catch (error) {
+    console.warn('[messageFormat]', error instanceof Error ? error.message : error);
+    return pattern;
+  }
+}
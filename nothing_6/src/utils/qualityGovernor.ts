@@ -0,0 +1,275 @@
+// filepath: src/utils/qualityGovernor.ts
+// [ ] Uses `@/` imports as much as possible
+// [ ] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [ ] Exports default named component
+// [ ] Adds basic ARIA and keyboard handlers (where relevant)
+
+export type QualityLevelName = 'ultra' | 'high' | 'medium' | 'low' | 'minimal';
+
+/** 'auto' adapts to frame cost; the others pin a level */
+export type QualityMode = 'auto' | 'high' | 'medium' | 'low';
+
+export interface QualityLevel {
+  name: QualityLevelName;
+  /** Multiplier for particle counts and simulation density */
+  densityScale: number;
+  /** Upper bound for the renderer's device pixel ratio */
+  pixelRatio: number;
+  effects: {
+    trails: boolean;
+    glow: boolean;
+    distortion: boolean;
+  };
+}
+
+/** Best first; the governor steps one rung at a time */
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { name: 'ultra', densityScale: 1, pixelRatio: 2, effects: { trails: true, glow: true, distortion: true } },
+  { name: 'high', densityScale: 1, pixelRatio: 1.5, effects: { trails: true, glow: true, distortion: true } },
+  { name: 'medium', densityScale: 0.7, pixelRatio: 1.25, effects: { trails: true, glow: true, distortion: false } },
+  { name: 'low', densityScale: 0.45, pixelRatio: 1, effects: { trails: false, glow: true, distortion: false } },
+  { name: 'minimal', densityScale: 0.25, pixelRatio: 0.75, effects: { trails: false, glow: false, distortion: false } },
+];
+
+const MODE_LEVELS: Record<Exclude<QualityMode, 'auto'>, QualityLevelName> = {
+  high: 'high',
+  medium: 'medium',
+  low: 'low',
+};
+
+/** Best level allowed when the visitor prefers reduced motion */
+const REDUCED_MOTION_LEVEL: QualityLevelName = 'low';
+
+export interface QualityGovernorOptions {
+  mode?: QualityMode;
+  /** Frame rate to hold; frames slower than this budget count against the level */
+  targetFps?: number;
+  /** Level to start from in auto mode */
+  initialLevel?: QualityLevelName;
+  reducedMotion?: boolean;
+  /** Frames averaged before any decision */
+  sampleSize?: number;
+  /** Quiet time after a change so its effect can be measured */
+  cooldownMs?: number;
+  /** Sustained headroom needed before stepping back up */
+  upgradeAfterMs?: number;
+}
+
+export interface QualityChange {
+  from: QualityLevelName;
+  to: QualityLevelName;
+  reason: 'slow_frames' | 'headroom' | 'mode' | 'reduced_motion';
+  fps: number;
+  at: number;
+}
+
+export interface QualitySnapshot {
+  mode: QualityMode;
+  level: QualityLevel;
+  /** Average over the sample window */
+  fps: number;
+  frameTime: number;
+  /** 95th percentile frame time in the sample window */
+  worstFrameTime: number;
+  budget: number;
+  reducedMotion: boolean;
+  changes: number;
+  lastChange?: QualityChange;
+}
+
+type SnapshotListener = (snapshot: QualitySnapshot) => void;
+
+/** Frames slower than budget × this trigger a downgrade */
+const SLOW_FACTOR = 1.25;
+/** Frames whose work takes less than budget × this count as headroom */
+const HEADROOM_FACTOR = 0.7;
+/** Longer gaps are tab switches or breakpoints, not render cost */
+const MAX_FRAME_MS = 250;
+
+const levelIndex = (name: QualityLevelName) => QUALITY_LEVELS.findIndex(level => level.name === name);
+
+/**
+ * Frame-time governor: fed the duration of each rendered frame, it steps the quality level down
+ * when frames run over budget and back up after sustained headroom, with a cooldown after every
+ * change so the new level is measured before the next decision. Vsync holds frame intervals at
+ * the refresh rate however light the work is, so headroom is judged on work time when given.
+ */
+export class QualityGovernor {
+  private mode: QualityMode;
+  private budget: number;
+  private reducedMotion: boolean;
+  private sampleSize: number;
+  private cooldownMs: number;
+  private upgradeAfterMs: number;
+
+  private index: number;
+  private samples: number[] = [];
+  private workSamples: number[] = [];
+  private cooldownUntil = 0;
+  private headroomSince: number | null = null;
+  private changes = 0;
+  private lastChange?: QualityChange;
+  private listeners = new Set<SnapshotListener>();
+
+  constructor(options: QualityGovernorOptions = {}) {
+    this.mode = options.mode ?? 'auto';
+    this.budget = 1000 / (options.targetFps ?? 60);
+    this.reducedMotion = options.reducedMotion ?? false;
+    this.sampleSize = options.sampleSize ?? 60;
+    this.cooldownMs = options.cooldownMs ?? 2000;
+    this.upgradeAfterMs = options.upgradeAfterMs ?? 5000;
+    this.index = this.clampIndex(
+      levelIndex(this.mode === 'auto' ? options.initialLevel ?? 'high' : MODE_LEVELS[this.mode])
+    );
+  }
+
+  /**
+   * Record one rendered frame
+   * @param frameMs Time since the previous frame in milliseconds
+   * @param workMs Time spent updating and rendering the frame; defaults to frameMs
+   * @param now Current time, for tests and callers with their own clock
+   * @returns true when the quality level changed
+   */
+  recordFrame(frameMs: number, workMs: number = frameMs, now: number = performance.now()): boolean {
+    if (!(frameMs > 0) || frameMs > MAX_FRAME_MS) return false;
+
+    this.samples.push(frameMs);
+    this.workSamples.push(Math.max(0, Math.min(workMs, frameMs)));
+    if (this.samples.length > this.sampleSize) {
+      this.samples.shift();
+      this.workSamples.shift();
+    }
+
+    if (this.mode !== 'auto' || this.samples.length < this.sampleSize || now < this.cooldownUntil) {
+      return false;
+    }
+
+    const average = this.averageFrameTime();
+
+    if (average > this.budget * SLOW_FACTOR) {
+      this.headroomSince = null;
+      return this.setIndex(this.index + 1, 'slow_frames', now);
+    }
+
+    if (this.averageWorkTime() < this.budget * HEADROOM_FACTOR) {
+      if (this.headroomSince === null) {
+        this.headroomSince = now;
+      }
+      if (now - this.headroomSince >= this.upgradeAfterMs) {
+        this.headroomSince = null;
+        return this.setIndex(this.index - 1, 'headroom', now);
+      }
+    } else {
+      this.headroomSince = null;
+    }
+
+    return false;
+  }
+
+  setMode(mode: QualityMode): void {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    this.headroomSince = null;
+
+    if (mode === 'auto') {
+      this.notify();
+      return;
+    }
+    if (!this.setIndex(levelIndex(MODE_LEVELS[mode]), 'mode')) {
+      this.notify();
+    }
+  }
+
+  setReducedMotion(reducedMotion: boolean): void {
+    if (reducedMotion === this.reducedMotion) return;
+    this.reducedMotion = reducedMotion;
+
+    // Turning it on caps the level; turning it off lets auto mode climb again on its own
+    const target = this.mode === 'auto' ? this.index : levelIndex(MODE_LEVELS[this.mode]);
+    if (!this.setIndex(target, 'reduced_motion')) {
+      this.notify();
+    }
+  }
+
+  getLevel(): QualityLevel {
+    return QUALITY_LEVELS[this.index];
+  }
+
+  getSnapshot(): QualitySnapshot {
+    const frameTime = this.averageFrameTime();
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const worstFrameTime = sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0;
+
+    return {
+      mode: this.mode,
+      level: this.getLevel(),
+      fps: frameTime > 0 ? Math.round(1000 / frameTime) : 0,
+      frameTime: Math.round(frameTime * 10) / 10,
+      worstFrameTime: Math.round(worstFrameTime * 10) / 10,
+      budget: Math.round(this.budget * 10) / 10,
+      reducedMotion: this.reducedMotion,
+      changes: this.changes,
+      lastChange: this.lastChange,
+    };
+  }
+
+  /**
+   * Listen for level and mode changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private averageFrameTime(): number {
+    if (this.samples.length === 0) return 0;
+    return this.samples.reduce((sum, sample) => sum + sample, 0) / this.samples.length;
+  }
+
+  private averageWorkTime(): number {
+    if (this.workSamples.length === 0) return 0;
+    return this.workSamples.reduce((sum, sample) => sum + sample, 0) / this.workSamples.length;
+  }
+
+  private clampIndex(index: number): number {
+    const best = this.reducedMotion ? levelIndex(REDUCED_MOTION_LEVEL) : 0;
+    return Math.min(QUALITY_LEVELS.length - 1, Math.max(best, index));
+  }
+
+  private setIndex(index: number, reason: QualityChange['reason'], now: number = performance.now()): boolean {
+    const next = this.clampIndex(index);
+    if (next === this.index) return false;
+
+    const fps = this.getSnapshot().fps;
+    this.lastChange = { from: QUALITY_LEVELS[this.index].name, to: QUALITY_LEVELS[next].name, reason, fps, at: now };
+    this.index = next;
+    this.changes++;
+
+    // Measure the new level from scratch
+    this.samples = [];
+    this.workSamples = [];
+    this.cooldownUntil = now + this.cooldownMs;
+
+    this.notify();
+    return true;
+  }
+
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+/**
+ * Scale a count by the level's density, never below one
+ * @param count Count at full quality
+ * @param level Current quality level
+ * @returns Count to render
+ */
+export function scaleByQuality(count: number, level: QualityLevel): number {
+  return Math.max(1, Math.round(count * level.densityScale));
+}
@@ -0,0 +1,143 @@
+// filepath: src/utils/statistics.ts
+// [ ] Uses `@/` imports as much as possible
+// [ ] Uses providers/hooks (no direct DOM/localStorage side effects)
+// [ ] Reads config from `@/app/config`
+// [ ] Exports default named component
+// [ ] Adds basic ARIA and keyboard handlers (where relevant)
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface ProportionSample {
+  /** Visitors exposed */
+  trials: number;
+  /** Visitors who converted */
+  successes: number;
+}
+
+export interface SequentialTestResult {
+  /** Always-valid p-value; safe to check after every new observation */
+  pValue: number;
+  significant: boolean;
+  /** Observed difference in conversion rate (treatment minus control) */
+  difference: number;
+  /** Interval for the difference at the same confidence level */
+  interval: ConfidenceInterval;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ * @param p Probability between 0 and 1
+ * @returns z such that P(Z <= z) = p
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Wilson score interval for a conversion rate; stays inside [0, 1] and behaves with few trials
+ * @param sample Trials and successes
+ * @param confidence Confidence level, e.g. 0.95
+ */
+export function wilsonInterval(sample: ProportionSample, confidence = 0.95): ConfidenceInterval {
+  const { trials, successes } = sample;
+  if (trials === 0) return { lower: 0, upper: 1 };
+
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const centre = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+
+  return {
+    lower: Math.max(0, centre - margin),
+    upper: Math.min(1, centre + margin),
+  };
+}
+
+/**
+ * Variance of the difference between two observed conversion rates
+ */
+function differenceVariance(control: ProportionSample, treatment: ProportionSample): number {
+  const pA = control.successes / control.trials;
+  const pB = treatment.successes / treatment.trials;
+  return (pA * (1 - pA)) / control.trials + (pB * (1 - pB)) / treatment.trials;
+}
+
+/**
+ * Likelihood ratio of the mixture sequential probability ratio test (mSPRT)
+ * for a difference in proportions, using a normal mixing distribution
+ * @param tau Standard deviation of the effect sizes the test is tuned for
+ */
+function mixtureLikelihoodRatio(control: ProportionSample, treatment: ProportionSample, tau: number): number {
+  if (control.trials === 0 || treatment.trials === 0) return 1;
+
+  const variance = differenceVariance(control, treatment);
+  if (variance <= 0) return 1;
+
+  const tau2 = tau * tau;
+  const difference = treatment.successes / treatment.trials - control.successes / control.trials;
+  return Math.sqrt(variance / (variance + tau2)) *
+    Math.exp((tau2 * difference * difference) / (2 * variance * (variance + tau2)));
+}
+
+/**
+ * Sequential test of treatment against control
+ *
+ * Unlike a fixed-horizon z-test, the p-value stays valid however often the
+ * results are looked at, so an experiment can be stopped as soon as it is
+ * significant. Pass every interim look in order; the p-value is the running
+ * minimum of 1 / Λ over those looks.
+ * @param looks Cumulative control and treatment samples at each look, oldest first
+ * @param options alpha: significance level; tau: effect size scale of the mixture
+ */
+export function sequentialTest(
+  looks: Array<{ control: ProportionSample; treatment: ProportionSample }>,
+  options: { alpha?: number; tau?: number } = {}
+): SequentialTestResult {
+  const { alpha = 0.05, tau = 0.02 } = options;
+
+  let pValue = 1;
+  for (const look of looks) {
+    pValue = Math.min(pValue, 1 / mixtureLikelihoodRatio(look.control, look.treatment, tau));
+  }
+
+  const last = looks[looks.length - 1];
+  if (!last || last.control.trials === 0 || last.treatment.trials === 0) {
+    return { pValue: 1, significant: false, difference: 0, interval: { lower: -1, upper: 1 } };
+  }
+
+  const difference = last.treatment.successes / last.treatment.trials - last.control.successes / last.control.trials;
+  const margin = normalQuantile(1 - alpha / 2) * Math.sqrt(differenceVariance(last.control, last.treatment));
+
+  return {
+    pValue,
+    significant: pValue < alpha,
+    difference,
+    interval: { lower: difference - margin, upper: difference + margin },
+  };
+}
@@ -11,6 +11,9 @@ interface ImportMetaEnv {
   readonly VITE_API_URL: string
   readonly VITE_WS_URL: string
   readonly VITE_ENABLE_MOCKS: string
+  readonly VITE_SITE_URL?: string
+  readonly VITE_OG_IMAGE?: string
+  readonly VITE_ERROR_REPORT_ENDPOINT?: string
   readonly MODE: string
 }
 